@@ -1,5 +1,5 @@
 import { Kafka, Producer } from 'kafkajs';
-import { KAFKA_TOPICS } from '@geofence/shared';
+import { KAFKA_TOPICS, GeofenceChangeEvent } from '@geofence/shared';
 
 interface KafkaConfig {
   brokers: string[];
@@ -69,6 +69,28 @@ class KafkaProducerService {
     console.log(`📍 Location event published for device ${event.deviceId}`);
   }
 
+  async publishGeofenceChange(change: Omit<GeofenceChangeEvent, 'v' | 'ts'>): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Kafka producer not connected');
+    }
+
+    const event: GeofenceChangeEvent = {
+      v: 1,
+      ...change,
+      ts: new Date().toISOString()
+    };
+
+    await this.producer.send({
+      topic: KAFKA_TOPICS.GEOFENCE_CHANGES,
+      messages: [{
+        key: change.geofenceId,
+        value: JSON.stringify(event)
+      }]
+    });
+
+    console.log(`🗺️  Geofence ${change.op} published for geofence ${change.geofenceId}`);
+  }
+
   async publishEventReplay(events: any[]): Promise<void> {
     if (!this.connected) {
       throw new Error('Kafka producer not connected');
@@ -229,5 +229,11 @@ export const rateLimitPresets = {
   pairing: {
     windowMs: 5 * 60 * 1000, // 5 minutes
     max: 3 // 3 pairing attempts per 5 minutes
+  },
+
+  // Batch queries from integrations, each covering up to hundreds of points
+  batchQueries: {
+    windowMs: 60 * 1000, // 1 minute
+    max: 120 // 120 batches per minute
   }
 };
\ No newline at end of file
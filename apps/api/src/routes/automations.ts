@@ -30,12 +30,29 @@ const CreateAutomationSchema = z.object({
   enabled: z.boolean().default(true)
 });
 
+// Geofence event types a rule can trigger on
+const RuleEventSchema = z.enum([
+  'enter',
+  'exit',
+  'dwell',
+  'deviation',
+  'rejoin',
+  'overspeed',
+  'speed_normal',
+  'occupancy_above',
+  'occupancy_below',
+  'proximity_enter',
+  'proximity_exit',
+  'presence_restored'
+]);
+
 const CreateAutomationRuleSchema = z.object({
   name: z.string().min(1).max(255),
   geofence_id: z.string().uuid(),
   device_id: z.string().uuid().optional(),
-  on_events: z.array(z.enum(['enter', 'exit', 'dwell'])).default(['enter']),
+  on_events: z.array(RuleEventSchema).default(['enter']),
   min_dwell_seconds: z.number().int().min(0).default(0),
+  include_interpolated: z.boolean().default(true),
   device_filter: z.record(z.unknown()).default({}),
   enabled: z.boolean().default(true)
 });
@@ -51,8 +68,9 @@ const UpdateAutomationRuleSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   geofence_id: z.string().uuid().optional(),
   device_id: z.string().uuid().optional(),
-  on_events: z.array(z.enum(['enter', 'exit', 'dwell'])).optional(),
+  on_events: z.array(RuleEventSchema).optional(),
   min_dwell_seconds: z.number().int().min(0).optional(),
+  include_interpolated: z.boolean().optional(),
   device_filter: z.record(z.unknown()).optional(),
   enabled: z.boolean().optional()
 });
@@ -374,6 +392,7 @@ router.get('/:automationId/rules', requireAuth, requireAccount, async (req, res)
         ar.device_id,
         ar.on_events,
         ar.min_dwell_seconds,
+        ar.include_interpolated,
         ar.device_filter,
         ar.enabled,
         g.name as geofence_name,
@@ -409,7 +428,7 @@ router.post('/:automationId/rules', requireAuth, requireAccount, validateBody(Cr
   try {
     await dbQuery('BEGIN');
 
-    const { name, geofence_id, device_id, on_events, min_dwell_seconds, device_filter, enabled } = req.body;
+    const { name, geofence_id, device_id, on_events, min_dwell_seconds, include_interpolated, device_filter, enabled } = req.body;
 
     // Verify automation exists and belongs to user
     const automationCheck = await query(
@@ -428,9 +447,9 @@ router.post('/:automationId/rules', requireAuth, requireAccount, validateBody(Cr
     const queryText = `
       INSERT INTO automation_rules (
         name, account_id, geofence_id, device_id, automation_id,
-        on_events, min_dwell_seconds, device_filter, enabled
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-      RETURNING id, name, geofence_id, device_id, on_events, min_dwell_seconds, device_filter, enabled
+        on_events, min_dwell_seconds, include_interpolated, device_filter, enabled
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id, name, geofence_id, device_id, on_events, min_dwell_seconds, include_interpolated, device_filter, enabled
     `;
 
     const result = await dbQuery(queryText, [
@@ -441,6 +460,7 @@ router.post('/:automationId/rules', requireAuth, requireAccount, validateBody(Cr
       req.params.automationId,
       on_events,
       min_dwell_seconds,
+      include_interpolated,
       JSON.stringify(device_filter),
       enabled
     ]);
@@ -505,7 +525,7 @@ router.put('/:automationId/rules/:ruleId', requireAuth, requireAccount, validate
       UPDATE automation_rules
       SET ${setClause.join(', ')}
       WHERE id = $${paramCount} AND automation_id = $${paramCount + 1} AND account_id = $${paramCount + 2}
-      RETURNING id, name, geofence_id, device_id, on_events, min_dwell_seconds, device_filter, enabled
+      RETURNING id, name, geofence_id, device_id, on_events, min_dwell_seconds, include_interpolated, device_filter, enabled
     `;
 
     const result = await dbQuery(queryText, values);
@@ -718,6 +738,7 @@ rulesRouter.get('/', requireAuth, requireAccount, async (req, res) => {
         ar.automation_id,
         ar.on_events,
         ar.min_dwell_seconds,
+        ar.include_interpolated,
         ar.device_filter,
         ar.enabled,
         g.name as geofence_name,
@@ -755,7 +776,7 @@ rulesRouter.post('/', requireAuth, requireAccount, validateBody(CreateAutomation
   try {
     await dbQuery('BEGIN');
 
-    const { name, geofence_id, device_id, automation_id, on_events, min_dwell_seconds, device_filter, enabled } = req.body;
+    const { name, geofence_id, device_id, automation_id, on_events, min_dwell_seconds, include_interpolated, device_filter, enabled } = req.body;
 
     // Verify automation exists and belongs to user
     const automationCheck = await query(
@@ -774,9 +795,9 @@ rulesRouter.post('/', requireAuth, requireAccount, validateBody(CreateAutomation
     const queryText = `
       INSERT INTO automation_rules (
         name, account_id, geofence_id, device_id, automation_id,
-        on_events, min_dwell_seconds, device_filter, enabled
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-      RETURNING id, name, account_id, geofence_id, device_id, automation_id, on_events, min_dwell_seconds, device_filter, enabled, created_at, updated_at
+        on_events, min_dwell_seconds, include_interpolated, device_filter, enabled
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id, name, account_id, geofence_id, device_id, automation_id, on_events, min_dwell_seconds, include_interpolated, device_filter, enabled, created_at, updated_at
     `;
 
     const result = await dbQuery(queryText, [
@@ -787,6 +808,7 @@ rulesRouter.post('/', requireAuth, requireAccount, validateBody(CreateAutomation
       automation_id,
       on_events,
       min_dwell_seconds,
+      include_interpolated,
       JSON.stringify(device_filter),
       enabled
     ]);
@@ -849,7 +871,7 @@ rulesRouter.put('/:ruleId', requireAuth, requireAccount, validateBody(UpdateAuto
       UPDATE automation_rules
       SET ${setClause.join(', ')}, updated_at = NOW()
       WHERE id = $${paramCount} AND account_id = $${paramCount + 1}
-      RETURNING id, name, account_id, geofence_id, device_id, automation_id, on_events, min_dwell_seconds, device_filter, enabled, created_at, updated_at
+      RETURNING id, name, account_id, geofence_id, device_id, automation_id, on_events, min_dwell_seconds, include_interpolated, device_filter, enabled, created_at, updated_at
     `;
 
     const result = await dbQuery(queryText, values);
@@ -0,0 +1,248 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { query } from '@geofence/db';
+import { validateBody, requireAccount } from '../middleware/validation.js';
+import { requireAuth } from '../middleware/auth.js';
+import { getKafkaProducer } from '../kafka/producer.js';
+
+const router = Router();
+
+const BEACON_COLUMNS = `
+  id, geofence_id, beacon_type, uuid, major, minor, bssid::text AS bssid, name, min_rssi, created_at, updated_at
+`;
+
+const BeaconFieldsSchema = z.object({
+  geofence_id: z.string().uuid(),
+  name: z.string().max(255).optional(),
+  min_rssi: z.number().int().min(-120).max(0).optional() // Weaker sightings (dBm) are ignored
+});
+
+// BLE beacons are identified by their iBeacon UUID, major and minor, access points by BSSID
+const CreateBeaconSchema = z.discriminatedUnion('beacon_type', [
+  BeaconFieldsSchema.extend({
+    beacon_type: z.literal('ble'),
+    uuid: z.string().uuid(),
+    major: z.number().int().min(0).max(65535),
+    minor: z.number().int().min(0).max(65535)
+  }),
+  BeaconFieldsSchema.extend({
+    beacon_type: z.literal('wifi'),
+    bssid: z.string().regex(/^([0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}$/, 'Expected a MAC address')
+  })
+]);
+
+// Identifiers can't be changed; register the beacon again instead
+const UpdateBeaconSchema = BeaconFieldsSchema.partial();
+
+// The engine reloads a geofence's beacons along with the geofence
+const publishBeaconChange = async (accountId: string, geofenceIds: string[]) => {
+  try {
+    for (const geofenceId of new Set(geofenceIds)) {
+      await getKafkaProducer().publishGeofenceChange({ op: 'upsert', accountId, geofenceId });
+    }
+  } catch (kafkaError) {
+    console.error('Error publishing beacon change to Kafka:', kafkaError);
+  }
+};
+
+/**
+ * Whether beacons can be placed in the geofence: it must belong to the account, and
+ * proximity geofences move with their anchor device so have nowhere to put them.
+ */
+const getBeaconGeofenceError = async (accountId: string, geofenceId: string): Promise<string | null> => {
+  const result = await query(
+    'SELECT geofence_type FROM geofences WHERE id = $1 AND account_id = $2',
+    [geofenceId, accountId]
+  );
+
+  if (result.rows.length === 0) return 'Geofence not found';
+  if (result.rows[0].geofence_type === 'proximity') return 'Beacons cannot be placed in a proximity geofence';
+  return null;
+};
+
+// List the account's beacons, optionally those of one geofence
+router.get('/', requireAuth, requireAccount, async (req, res) => {
+  try {
+    const geofenceId = typeof req.query.geofence_id === 'string' ? req.query.geofence_id : null;
+    if (geofenceId && !z.string().uuid().safeParse(geofenceId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid geofence_id'
+      });
+    }
+
+    const result = await query(
+      `
+        SELECT ${BEACON_COLUMNS}
+        FROM beacons
+        WHERE account_id = $1 AND ($2::uuid IS NULL OR geofence_id = $2)
+        ORDER BY created_at
+      `,
+      [req.accountId, geofenceId]
+    );
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching beacons:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Register a beacon or access point in a geofence
+router.post('/', requireAuth, requireAccount, validateBody(CreateBeaconSchema), async (req, res) => {
+  try {
+    const body = req.body as z.infer<typeof CreateBeaconSchema>;
+
+    const geofenceError = await getBeaconGeofenceError(req.accountId!, body.geofence_id);
+    if (geofenceError) {
+      return res.status(geofenceError === 'Geofence not found' ? 404 : 400).json({
+        success: false,
+        error: geofenceError
+      });
+    }
+
+    const result = await query(
+      `
+        INSERT INTO beacons (account_id, geofence_id, beacon_type, uuid, major, minor, bssid, name, min_rssi)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, COALESCE($9, -90))
+        RETURNING ${BEACON_COLUMNS}
+      `,
+      [
+        req.accountId,
+        body.geofence_id,
+        body.beacon_type,
+        body.beacon_type === 'ble' ? body.uuid : null,
+        body.beacon_type === 'ble' ? body.major : null,
+        body.beacon_type === 'ble' ? body.minor : null,
+        body.beacon_type === 'wifi' ? body.bssid : null,
+        body.name ?? null,
+        body.min_rssi ?? null
+      ]
+    );
+
+    await publishBeaconChange(req.accountId!, [body.geofence_id]);
+
+    res.status(201).json({
+      success: true,
+      data: result.rows[0]
+    });
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(400).json({
+        success: false,
+        error: 'This beacon is already registered'
+      });
+    }
+    console.error('Error creating beacon:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Rename a beacon, change its signal threshold or move it to another geofence
+router.put('/:beaconId', requireAuth, requireAccount, validateBody(UpdateBeaconSchema), async (req, res) => {
+  try {
+    const body = req.body as z.infer<typeof UpdateBeaconSchema>;
+
+    if (body.geofence_id) {
+      const geofenceError = await getBeaconGeofenceError(req.accountId!, body.geofence_id);
+      if (geofenceError) {
+        return res.status(geofenceError === 'Geofence not found' ? 404 : 400).json({
+          success: false,
+          error: geofenceError
+        });
+      }
+    }
+
+    const existing = await query('SELECT geofence_id FROM beacons WHERE id = $1 AND account_id = $2', [
+      req.params.beaconId,
+      req.accountId
+    ]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Beacon not found'
+      });
+    }
+
+    const result = await query(
+      `
+        UPDATE beacons
+        SET
+          geofence_id = COALESCE($3, geofence_id),
+          name = CASE WHEN $4::boolean THEN $5 ELSE name END,
+          min_rssi = COALESCE($6, min_rssi)
+        WHERE id = $1 AND account_id = $2
+        RETURNING ${BEACON_COLUMNS}
+      `,
+      [
+        req.params.beaconId,
+        req.accountId,
+        body.geofence_id ?? null,
+        body.name !== undefined,
+        body.name ?? null,
+        body.min_rssi ?? null
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Beacon not found'
+      });
+    }
+
+    await publishBeaconChange(req.accountId!, [existing.rows[0].geofence_id, result.rows[0].geofence_id]);
+
+    res.json({
+      success: true,
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Error updating beacon:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Remove a beacon from the registry
+router.delete('/:beaconId', requireAuth, requireAccount, async (req, res) => {
+  try {
+    const result = await query(
+      'DELETE FROM beacons WHERE id = $1 AND account_id = $2 RETURNING geofence_id',
+      [req.params.beaconId, req.accountId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Beacon not found'
+      });
+    }
+
+    await publishBeaconChange(req.accountId!, [result.rows[0].geofence_id]);
+
+    res.json({
+      success: true,
+      message: 'Beacon deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting beacon:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+export { router as beaconRoutes };
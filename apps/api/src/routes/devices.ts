@@ -2,7 +2,13 @@ import { randomBytes } from 'crypto';
 import { Router } from 'express';
 import { z } from 'zod';
 import { query, queryWithTimeout } from '@geofence/db';
-import { validateBody } from '../middleware/validation.js';
+import {
+  GeofenceGeometry,
+  GeofenceShape,
+  geometryCentroid,
+  shapeContains
+} from '@geofence/shared';
+import { validateBody, validateQuery, requireAccount } from '../middleware/validation.js';
 import { requireAuth, optionalAuth } from '../middleware/auth.js';
 import { 
   requireDeviceAuth, 
@@ -46,6 +52,109 @@ const LocationUpdateSchema = z.object({
   timestamp: z.string().datetime().optional()
 });
 
+const MAX_NEARBY_DEVICES = 100;
+const MAX_WITHIN_DEVICES = 5000;
+const MAX_WITHIN_RADIUS_M = 100_000;
+
+// Optional filters shared by the spatial device queries
+const SpatialFilterSchema = z.object({
+  group_id: z.string().uuid().optional(),
+  tag: z.string().min(1).max(100).optional(),
+  status: z.enum(['online', 'offline', 'connecting', 'error']).optional(),
+  max_age_seconds: z.coerce.number().int().positive().optional() // Leaves out devices with an older last fix
+});
+
+const NearbyDevicesQuerySchema = SpatialFilterSchema.extend({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  limit: z.coerce.number().int().min(1).max(MAX_NEARBY_DEVICES).default(5),
+  max_distance_m: z.coerce.number().positive().optional()
+});
+
+// minLon,minLat,maxLon,maxLat; boxes crossing the antimeridian aren't supported
+const BboxSchema = z.string()
+  .transform(value => value.split(',').map(Number))
+  .refine(bbox => bbox.length === 4 && bbox.every(Number.isFinite), 'Expected minLon,minLat,maxLon,maxLat')
+  .refine(([minLon, minLat, maxLon, maxLat]) =>
+    minLon >= -180 && maxLon <= 180 && minLat >= -90 && maxLat <= 90 && minLon < maxLon && minLat < maxLat,
+  'Expected the south-west corner before the north-east corner');
+
+// The area is a circle (latitude, longitude and radius_m), a bbox or a geofence
+const WithinDevicesQuerySchema = SpatialFilterSchema.extend({
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+  radius_m: z.coerce.number().positive().max(MAX_WITHIN_RADIUS_M).optional(),
+  bbox: BboxSchema.optional(),
+  geofence_id: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_WITHIN_DEVICES).default(1000)
+}).refine(params => {
+  const isCircle = params.latitude !== undefined && params.longitude !== undefined && params.radius_m !== undefined;
+  return [isCircle, params.bbox !== undefined, params.geofence_id !== undefined].filter(Boolean).length === 1;
+}, { message: 'Give exactly one area: latitude, longitude and radius_m, bbox, or geofence_id' });
+
+const MAX_TRIP_SEGMENTS = 500;
+
+// Trips and stops overlapping from..to, newest first
+const DeviceSegmentsQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_TRIP_SEGMENTS).default(100)
+});
+
+// A point given as longitude and latitude parameters, starting at parameter number index
+const geographyPointParam = (index: number) =>
+  `ST_SetSRID(ST_MakePoint($${index}, $${index + 1}), 4326)::geography`;
+
+// Distances are to center; the last fix comes from a location update, or a heartbeat carrying a location
+const spatialDeviceFields = (center: string) => `
+  d.id,
+  d.name,
+  d.device_type,
+  d.status,
+  d.group_id,
+  ST_Y(d.last_location) as latitude,
+  ST_X(d.last_location) as longitude,
+  ST_Distance(d.last_location::geography, ${center}) as distance_m,
+  COALESCE(d.last_seen, d.last_heartbeat) as fix_at
+`;
+
+// WHERE conditions for the account, a known location and the optional filters, adding their values
+const spatialFilterConditions = (filters: z.infer<typeof SpatialFilterSchema>, values: unknown[]) => {
+  const conditions = ['d.account_id = $1', 'd.last_location IS NOT NULL'];
+
+  if (filters.group_id) {
+    values.push(filters.group_id);
+    conditions.push(`d.group_id = $${values.length}`);
+  }
+  if (filters.tag) {
+    values.push(filters.tag);
+    conditions.push(`EXISTS (SELECT 1 FROM device_tags dt WHERE dt.device_id = d.id AND dt.tag = $${values.length})`);
+  }
+  if (filters.status) {
+    values.push(filters.status);
+    conditions.push(`d.status = $${values.length}`);
+  }
+  if (filters.max_age_seconds !== undefined) {
+    values.push(filters.max_age_seconds);
+    conditions.push(`COALESCE(d.last_seen, d.last_heartbeat) >= NOW() - make_interval(secs => $${values.length})`);
+  }
+
+  return conditions;
+};
+
+const formatSpatialDevice = (row: any) => ({
+  id: row.id,
+  name: row.name,
+  device_type: row.device_type,
+  status: row.status,
+  group_id: row.group_id,
+  latitude: Number(row.latitude),
+  longitude: Number(row.longitude),
+  distance_m: Number(row.distance_m),
+  fix_at: row.fix_at,
+  fix_age_seconds: row.fix_at ? Math.max(0, Math.round((Date.now() - new Date(row.fix_at).getTime()) / 1000)) : null
+});
+
 // Get all devices for account with pagination
 router.get('/', optionalAuth, requireAuth, async (req, res) => {
   try {
@@ -161,6 +270,152 @@ router.get('/', optionalAuth, requireAuth, async (req, res) => {
   }
 });
 
+// Find the devices whose last known location is closest to a point
+router.get('/nearby', requireAuth, requireAccount, validateQuery(NearbyDevicesQuerySchema), async (req, res) => {
+  try {
+    const { latitude, longitude, limit, max_distance_m, ...filters } =
+      req.query as unknown as z.infer<typeof NearbyDevicesQuerySchema>;
+
+    const values: unknown[] = [req.accountId, longitude, latitude];
+    const conditions = spatialFilterConditions(filters, values);
+    if (max_distance_m !== undefined) {
+      values.push(max_distance_m);
+      conditions.push(`ST_DWithin(d.last_location::geography, ${geographyPointParam(2)}, $${values.length})`);
+    }
+    values.push(limit);
+
+    const result = await query(
+      `
+        SELECT ${spatialDeviceFields(geographyPointParam(2))}
+        FROM devices d
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY d.last_location::geography <-> ${geographyPointParam(2)}
+        LIMIT $${values.length}
+      `,
+      values
+    );
+
+    res.json({
+      success: true,
+      data: result.rows.map(formatSpatialDevice)
+    });
+  } catch (error) {
+    console.error('Error finding nearby devices:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Find the devices whose last known location is inside a circle, a bounding box or a geofence
+router.get('/within', requireAuth, requireAccount, validateQuery(WithinDevicesQuerySchema), async (req, res) => {
+  try {
+    const { latitude, longitude, radius_m, bbox, geofence_id, limit, ...filters } =
+      req.query as unknown as z.infer<typeof WithinDevicesQuerySchema>;
+
+    // Distances are measured from the center of the area
+    let center: [number, number];
+    let shape: GeofenceShape | null = null;
+    const values: unknown[] = [req.accountId];
+    let areaCondition: string;
+
+    if (geofence_id) {
+      // Proximity geofences are centered on their anchor's last known location
+      const geofenceResult = await query(
+        `
+          SELECT
+            geofences.geofence_type,
+            geofences.radius_m,
+            geofences.width_m,
+            ST_AsGeoJSON(geofences.geometry) as geometry_geojson,
+            ST_AsGeoJSON(anchor.last_location) as anchor_geojson
+          FROM geofences
+          LEFT JOIN devices anchor ON anchor.id = geofences.anchor_device_id
+          WHERE geofences.id = $1 AND geofences.account_id = $2
+        `,
+        [geofence_id, req.accountId]
+      );
+
+      if (geofenceResult.rows.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Geofence not found'
+        });
+      }
+
+      const row = geofenceResult.rows[0];
+      const geometry: GeofenceGeometry = JSON.parse(row.geometry_geojson);
+      shape = {
+        type: row.geofence_type,
+        geometry,
+        center: row.anchor_geojson ? JSON.parse(row.anchor_geojson).coordinates : geometryCentroid(geometry),
+        radiusM: row.radius_m !== null ? Number(row.radius_m) : null,
+        widthM: row.width_m !== null ? Number(row.width_m) : null
+      };
+      center = shape.center;
+
+      // Narrow down to devices near the shape here; shapeContains below decides exactly as the engine does
+      const isRound = shape.type === 'circle' || shape.type === 'proximity';
+      const searchArea: GeofenceGeometry = isRound ? { type: 'Point', coordinates: center } : geometry;
+      const margin = isRound ? (shape.radiusM ?? 0) * 1.01 : shape.type === 'corridor' ? (shape.widthM ?? 0) / 2 : 0;
+      values.push(JSON.stringify(searchArea), margin);
+      areaCondition = `ST_DWithin(d.last_location::geography, ST_SetSRID(ST_GeomFromGeoJSON($2), 4326)::geography, $3)`;
+    } else if (bbox) {
+      const [minLon, minLat, maxLon, maxLat] = bbox;
+      center = [(minLon + maxLon) / 2, (minLat + maxLat) / 2];
+      values.push(minLon, minLat, maxLon, maxLat);
+      areaCondition = 'd.last_location && ST_MakeEnvelope($2, $3, $4, $5, 4326)';
+    } else {
+      center = [longitude!, latitude!];
+      values.push(longitude, latitude, radius_m);
+      areaCondition = `ST_DWithin(d.last_location::geography, ${geographyPointParam(2)}, $4)`;
+    }
+
+    const conditions = [...spatialFilterConditions(filters, values), areaCondition];
+    values.push(center[0], center[1]);
+    const centerPoint = geographyPointParam(values.length - 1);
+    // One row more than the limit tells whether there were more devices in the area
+    const pageSize = limit + 1;
+    values.push(pageSize);
+
+    // Devices near a geofence that shapeContains rejects don't count towards the limit,
+    // so keep reading pages until enough are inside or the candidates run out
+    const devices: any[] = [];
+    for (let offset = 0; devices.length < pageSize; offset += pageSize) {
+      const result = await query(
+        `
+          SELECT ${spatialDeviceFields(centerPoint)}
+          FROM devices d
+          WHERE ${conditions.join(' AND ')}
+          ORDER BY distance_m, d.id
+          LIMIT $${values.length} OFFSET $${values.length + 1}
+        `,
+        [...values, offset]
+      );
+
+      devices.push(
+        ...(shape
+          ? result.rows.filter((row: any) => shapeContains(shape!, Number(row.longitude), Number(row.latitude)))
+          : result.rows)
+      );
+      if (result.rows.length < pageSize) break;
+    }
+
+    res.json({
+      success: true,
+      data: devices.slice(0, limit).map(formatSpatialDevice),
+      truncated: devices.length > limit
+    });
+  } catch (error) {
+    console.error('Error finding devices within area:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
 // Create new device
 router.post('/',requireAuth, validateBody(CreateDeviceSchema), async (req, res) => {
   try {
@@ -933,6 +1188,141 @@ router.get('/:deviceId/locations', requireAuth, async (req, res) => {
   }
 });
 
+// Conditions on a segment's start and end columns for the from..to range, added to values
+const segmentRangeConditions = (
+  params: z.infer<typeof DeviceSegmentsQuerySchema>,
+  startColumn: string,
+  endColumn: string,
+  values: unknown[]
+) => {
+  const conditions: string[] = [];
+  if (params.from) {
+    values.push(params.from);
+    conditions.push(`${endColumn} >= $${values.length}`);
+  }
+  if (params.to) {
+    values.push(params.to);
+    conditions.push(`${startColumn} <= $${values.length}`);
+  }
+  return conditions;
+};
+
+// Trips derived from the device's location history by the geofence engine
+router.get('/:deviceId/trips', requireAuth, requireAccount, validateQuery(DeviceSegmentsQuerySchema), async (req, res) => {
+  try {
+    const params = req.query as unknown as z.infer<typeof DeviceSegmentsQuerySchema>;
+
+    const device = await query('SELECT id FROM devices WHERE id = $1 AND account_id = $2', [
+      req.params.deviceId,
+      req.accountId
+    ]);
+    if (device.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Device not found'
+      });
+    }
+
+    const values: unknown[] = [req.params.deviceId];
+    const conditions = ['device_id = $1', ...segmentRangeConditions(params, 'started_at', 'ended_at', values)];
+    values.push(params.limit);
+
+    const result = await query(
+      `
+        SELECT
+          id, started_at, ended_at, in_progress,
+          ST_Y(start_loc::geometry) AS start_latitude, ST_X(start_loc::geometry) AS start_longitude,
+          ST_Y(end_loc::geometry) AS end_latitude, ST_X(end_loc::geometry) AS end_longitude,
+          distance_m, max_speed_mps, point_count,
+          EXTRACT(EPOCH FROM ended_at - started_at) AS duration_seconds
+        FROM device_trips
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY started_at DESC
+        LIMIT $${values.length}
+      `,
+      values
+    );
+
+    res.json({
+      success: true,
+      data: result.rows.map((row: any) => ({
+        id: row.id,
+        started_at: row.started_at,
+        ended_at: row.ended_at,
+        in_progress: row.in_progress,
+        start: { latitude: Number(row.start_latitude), longitude: Number(row.start_longitude) },
+        end: { latitude: Number(row.end_latitude), longitude: Number(row.end_longitude) },
+        distance_m: Math.round(Number(row.distance_m)),
+        duration_seconds: Math.round(Number(row.duration_seconds)),
+        max_speed_mps: Number(row.max_speed_mps),
+        point_count: row.point_count
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching device trips:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Stops between the device's trips
+router.get('/:deviceId/stops', requireAuth, requireAccount, validateQuery(DeviceSegmentsQuerySchema), async (req, res) => {
+  try {
+    const params = req.query as unknown as z.infer<typeof DeviceSegmentsQuerySchema>;
+
+    const device = await query('SELECT id FROM devices WHERE id = $1 AND account_id = $2', [
+      req.params.deviceId,
+      req.accountId
+    ]);
+    if (device.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Device not found'
+      });
+    }
+
+    const values: unknown[] = [req.params.deviceId];
+    const conditions = ['device_id = $1', ...segmentRangeConditions(params, 'arrived_at', 'departed_at', values)];
+    values.push(params.limit);
+
+    const result = await query(
+      `
+        SELECT
+          id, arrived_at, departed_at, in_progress, point_count,
+          ST_Y(loc::geometry) AS latitude, ST_X(loc::geometry) AS longitude,
+          EXTRACT(EPOCH FROM departed_at - arrived_at) AS duration_seconds
+        FROM device_stops
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY arrived_at DESC
+        LIMIT $${values.length}
+      `,
+      values
+    );
+
+    res.json({
+      success: true,
+      data: result.rows.map((row: any) => ({
+        id: row.id,
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        arrived_at: row.arrived_at,
+        departed_at: row.departed_at,
+        in_progress: row.in_progress,
+        duration_seconds: Math.round(Number(row.duration_seconds)),
+        point_count: row.point_count
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching device stops:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
 // Device heartbeat endpoint
 router.post('/:deviceId/heartbeat', async (req, res) => {
   try {
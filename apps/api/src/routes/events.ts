@@ -17,7 +17,10 @@ const EventsQuerySchema = z.object({
   geofence_id: z.string().uuid().optional(),
   event_type: z.string().optional(),
   from_date: z.string().datetime().optional(),
-  to_date: z.string().datetime().optional()
+  to_date: z.string().datetime().optional(),
+  historical: z.enum(['true', 'false']).optional(),
+  // With geofence_id, also return events of the geofences nested inside it
+  include_descendants: z.enum(['true', 'false']).optional()
 });
 
 // Common event fields and values
@@ -38,7 +41,9 @@ const ERROR_RESPONSES = {
 router.get('/', requireAuth, requireAccount, validateQuery(EventsQuerySchema), async (req, res) => {
   try {
     // Using query() function for automatic connection management
-    const { limit, offset, device_id, geofence_id, event_type, from_date, to_date } = req.query as any;
+    const {
+      limit, offset, device_id, geofence_id, event_type, from_date, to_date, historical, include_descendants
+    } = req.query as any;
 
     // For development, get the first available organization if no auth
     let accountId = req.accountId;
@@ -63,7 +68,11 @@ router.get('/', requireAuth, requireAccount, validateQuery(EventsQuerySchema), a
       values.push(device_id);
     }
 
-    if (geofence_id) {
+    if (geofence_id && include_descendants === 'true') {
+      whereClause += ` AND (ge.geofence_id = $${paramCount} OR $${paramCount}::uuid = ANY(ge.ancestry))`;
+      paramCount++;
+      values.push(geofence_id);
+    } else if (geofence_id) {
       whereClause += ` AND ge.geofence_id = $${paramCount++}`;
       values.push(geofence_id);
     }
@@ -73,6 +82,11 @@ router.get('/', requireAuth, requireAccount, validateQuery(EventsQuerySchema), a
       values.push(event_type);
     }
 
+    if (historical) {
+      whereClause += ` AND ge.historical = $${paramCount++}::boolean`;
+      values.push(historical);
+    }
+
     if (from_date) {
       whereClause += ` AND ge.ts >= $${paramCount++}`;
       values.push(from_date);
@@ -94,12 +108,25 @@ router.get('/', requireAuth, requireAccount, validateQuery(EventsQuerySchema), a
         ${DEFAULT_EVENT_FIELDS.METADATA},
         ge.ts as timestamp,
         ge.ts as processed_at,
+        ge.confidence,
+        ge.low_accuracy,
+        ge.reason,
+        ge.distance_m,
+        ge.peak_speed_mps,
+        ge.avg_speed_mps,
+        ge.occupancy,
+        ge.interpolated,
+        ge.historical,
+        ge.ancestry,
+        ge.revision_id,
+        gr.revision,
         d.name as device_name,
         g.name as geofence_name,
         COUNT(*) OVER() as total_count
       FROM geofence_events ge
       LEFT JOIN devices d ON ge.device_id = d.id
       LEFT JOIN geofences g ON ge.geofence_id = g.id
+      LEFT JOIN geofence_revisions gr ON ge.revision_id = gr.id
       ${whereClause}
       ORDER BY ge.ts DESC
       LIMIT $${paramCount++}
@@ -125,6 +152,18 @@ router.get('/', requireAuth, requireAccount, validateQuery(EventsQuerySchema), a
         longitude: parseFloat(row.longitude)
       } : null,
       metadata: row.metadata,
+      confidence: row.confidence,
+      low_accuracy: row.low_accuracy,
+      reason: row.reason,
+      distance_m: row.distance_m,
+      peak_speed_mps: row.peak_speed_mps,
+      avg_speed_mps: row.avg_speed_mps,
+      occupancy: row.occupancy,
+      interpolated: row.interpolated,
+      historical: row.historical,
+      ancestry: row.ancestry,
+      revision_id: row.revision_id,
+      revision: row.revision,
       timestamp: row.timestamp,
       processed_at: row.processed_at
     }));
@@ -165,6 +204,18 @@ router.get('/:eventId', requireAuth, requireAccount, async (req, res) => {
         '{}' as metadata,
         ge.ts as timestamp,
         ge.ts as processed_at,
+        ge.confidence,
+        ge.low_accuracy,
+        ge.reason,
+        ge.distance_m,
+        ge.peak_speed_mps,
+        ge.avg_speed_mps,
+        ge.occupancy,
+        ge.interpolated,
+        ge.historical,
+        ge.ancestry,
+        ge.revision_id,
+        gr.revision,
         d.name as device_name,
         d.device_key as device_token,
         g.name as geofence_name,
@@ -172,6 +223,7 @@ router.get('/:eventId', requireAuth, requireAccount, async (req, res) => {
       FROM geofence_events ge
       LEFT JOIN devices d ON ge.device_id = d.id
       LEFT JOIN geofences g ON ge.geofence_id = g.id
+      LEFT JOIN geofence_revisions gr ON ge.revision_id = gr.id
       WHERE ge.id = $1
       AND (d.account_id = $2 OR g.account_id = $2)
     `;
@@ -204,6 +256,18 @@ router.get('/:eventId', requireAuth, requireAccount, async (req, res) => {
         longitude: parseFloat(row.longitude)
       } : null,
       metadata: row.metadata,
+      confidence: row.confidence,
+      low_accuracy: row.low_accuracy,
+      reason: row.reason,
+      distance_m: row.distance_m,
+      peak_speed_mps: row.peak_speed_mps,
+      avg_speed_mps: row.avg_speed_mps,
+      occupancy: row.occupancy,
+      interpolated: row.interpolated,
+      historical: row.historical,
+      ancestry: row.ancestry,
+      revision_id: row.revision_id,
+      revision: row.revision,
       timestamp: row.timestamp,
       processed_at: row.processed_at
     };
@@ -423,6 +487,12 @@ router.get('/realtime', requireAuth, requireAccount, async (req, res) => {
         ge.device_id,
         ge.geofence_id,
         ge.ts as timestamp,
+        ge.distance_m,
+        ge.peak_speed_mps,
+        ge.avg_speed_mps,
+        ge.occupancy,
+        ge.interpolated,
+        ge.reason,
         d.name as device_name,
         d.status as device_status,
         g.name as geofence_name,
@@ -435,7 +505,10 @@ router.get('/realtime', requireAuth, requireAccount, async (req, res) => {
       LEFT JOIN deliveries del ON del.gevent_id = ge.id
       LEFT JOIN automation_rules ar ON del.rule_id = ar.id
       WHERE d.account_id = $1
-      GROUP BY ge.id, ge.type, ge.device_id, ge.geofence_id, ge.ts, d.name, d.status, g.name, ar.name
+        -- Backfilled events describe the past, not what is happening now
+        AND NOT ge.historical
+      GROUP BY ge.id, ge.type, ge.device_id, ge.geofence_id, ge.ts, ge.distance_m, ge.peak_speed_mps, ge.avg_speed_mps,
+        ge.occupancy, ge.interpolated, ge.reason, d.name, d.status, g.name, ar.name
       ORDER BY ge.ts DESC
       LIMIT $2
     `;
@@ -448,6 +521,15 @@ router.get('/realtime', requireAuth, requireAccount, async (req, res) => {
       if (row.type === 'enter') eventType = 'geofence_enter';
       if (row.type === 'exit') eventType = 'geofence_exit';
       if (row.type === 'dwell') eventType = 'geofence_dwell';
+      if (row.type === 'deviation') eventType = 'geofence_deviation';
+      if (row.type === 'rejoin') eventType = 'geofence_rejoin';
+      if (row.type === 'overspeed') eventType = 'geofence_overspeed';
+      if (row.type === 'speed_normal') eventType = 'geofence_speed_normal';
+      if (row.type === 'occupancy_above') eventType = 'geofence_occupancy_above';
+      if (row.type === 'occupancy_below') eventType = 'geofence_occupancy_below';
+      if (row.type === 'proximity_enter') eventType = 'geofence_proximity_enter';
+      if (row.type === 'proximity_exit') eventType = 'geofence_proximity_exit';
+      if (row.type === 'presence_restored') eventType = 'geofence_presence_restored';
 
       // Add device status events
       if (row.device_status === 'online') {
@@ -529,7 +611,13 @@ router.get('/realtime', requireAuth, requireAccount, async (req, res) => {
         } : null,
         metadata: {
           automation_count: row.automation_count,
-          failed_automations: row.failed_automations
+          failed_automations: row.failed_automations,
+          distance_m: row.distance_m,
+          peak_speed_mps: row.peak_speed_mps,
+          avg_speed_mps: row.avg_speed_mps,
+          occupancy: row.occupancy,
+          interpolated: row.interpolated,
+          reason: row.reason
         }
       };
     });
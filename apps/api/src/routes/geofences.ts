@@ -1,11 +1,117 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { query } from '@geofence/db';
+import { getDbClient, query } from '@geofence/db';
+import {
+  DEVICE_STATE_TTL_SECONDS,
+  GEOFENCE_OCCUPANTS_KEY_PREFIX,
+  MAX_PRESENCE_TIMEOUT_SECONDS,
+  BoundingBox,
+  GeofenceGeometry,
+  GeofenceShape,
+  circleBoundingBox,
+  expandBoundingBox,
+  geometryBoundingBox,
+  geometryCentroid,
+  polygonPartAt,
+  shapeContains,
+  signedBoundaryDistanceMeters
+} from '@geofence/shared';
 import { validateBody, requireAccount } from '../middleware/validation.js';
 import { requireAuth } from '../middleware/auth.js';
+import { accountRateLimit, rateLimitPresets } from '../middleware/rateLimiting.js';
+import { getKafkaProducer } from '../kafka/producer.js';
+import { getRedisClient } from '../utils/cache.js';
+import {
+  DEFAULT_PROPERTY_MAPPING,
+  ExportedGeofence,
+  GeofenceFileFormat,
+  readGeofenceFile,
+  writeGeofenceFile
+} from '../utils/geofenceFormats.js';
 
 const router = Router();
 
+// Limits on the polygon shapes accepted from clients
+const MAX_POLYGON_RINGS = 100; // Outer ring plus holes
+const MAX_MULTIPOLYGON_PARTS = 500;
+
+// Per-geofence hysteresis overrides, read by the geofence engine from metadata.hysteresis
+const HysteresisSchema = z.object({
+  entryBufferMeters: z.number().min(0).max(1000).optional(),
+  exitBufferMeters: z.number().min(0).max(1000).optional(),
+  minStateChangeSeconds: z.number().int().min(0).max(3600).optional()
+});
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+const LocalDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+// Active windows evaluated by the geofence engine in the account's timezone
+const ScheduleSchema = z.object({
+  enabled: z.boolean(),
+  windows: z.array(z.object({
+    days: z.array(z.number().int().min(0).max(6)).min(1),
+    start: TimeOfDaySchema,
+    end: TimeOfDaySchema
+  })).max(50),
+  exceptions: z.array(z.object({
+    startDate: LocalDateSchema,
+    endDate: LocalDateSchema,
+    active: z.boolean(),
+    name: z.string().max(255).optional()
+  }).refine(exception => exception.startDate <= exception.endDate, {
+    message: 'startDate must not be after endDate'
+  })).max(366).optional(),
+  emitTransitions: z.boolean().optional()
+});
+
+// Devices following a corridor's route; only these get deviation and rejoin events
+const CorridorAssignmentSchema = z.object({
+  deviceIds: z.array(z.string().uuid()).max(1000)
+});
+
+// Devices inside the geofence faster than limitMps for durationSeconds get overspeed events
+const SpeedLimitSchema = z.object({
+  limitMps: z.number().positive().max(150),
+  durationSeconds: z.number().int().min(0).max(3600).optional()
+});
+
+// Capacity for occupancy_above/occupancy_below events, counted by the geofence engine
+const OccupancySchema = z.object({
+  capacity: z.number().int().min(0).max(100000)
+});
+
+// Devices silent this long inside the geofence get a timeout exit; 0 turns off the account's timeout
+const PresenceSchema = z.object({
+  timeoutSeconds: z.union([z.literal(0), z.number().int().min(60).max(MAX_PRESENCE_TIMEOUT_SECONDS)])
+});
+
+// Floor or altitude range (meters) of a zone on one level of a multi-storey site; devices
+// only count as inside when their reported floor or altitude matches
+const LevelSchema = z.object({
+  floor: z.number().int().min(-20).max(200).optional(),
+  minAltitudeM: z.number().min(-500).max(10000).optional(),
+  maxAltitudeM: z.number().min(-500).max(10000).optional()
+}).refine(level => level.floor !== undefined || level.minAltitudeM !== undefined || level.maxAltitudeM !== undefined, {
+  message: 'Set a floor or an altitude range'
+}).refine(level => level.minAltitudeM === undefined || level.maxAltitudeM === undefined ||
+  level.minAltitudeM <= level.maxAltitudeM, {
+  message: 'minAltitudeM must not be above maxAltitudeM'
+});
+
+// Labels for grouping geofences, e.g. to query a subset of them in a batch test
+const TagsSchema = z.array(z.string().trim().min(1).max(100)).max(50);
+
+const GeofenceMetadataSchema = z.object({
+  hysteresis: HysteresisSchema.optional(),
+  schedule: ScheduleSchema.optional(),
+  corridor: CorridorAssignmentSchema.optional(),
+  speedLimit: SpeedLimitSchema.optional(),
+  occupancy: OccupancySchema.optional(),
+  presence: PresenceSchema.optional(),
+  level: LevelSchema.optional(),
+  tags: TagsSchema.optional()
+}).catchall(z.unknown());
+
 const CreateCircleGeofenceSchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().optional(),
@@ -14,17 +120,40 @@ const CreateCircleGeofenceSchema = z.object({
     longitude: z.number().min(-180).max(180)
   }),
   radius: z.number().min(1).max(10000),
-  metadata: z.record(z.unknown()).optional()
+  metadata: GeofenceMetadataSchema.optional(),
+  parent_id: z.string().uuid().optional(), // Enclosing geofence; this one must lie within it
+  include_children: z.boolean().optional() // Devices inside a child count as inside this geofence
 });
 
+const PositionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+
+// A closed ring: at least three distinct corners, ending where it starts
+const RingSchema = z.array(PositionSchema).min(4).refine(
+  ring => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+  'Rings must end at their first position'
+);
+
+// The outer ring first, then any holes cut out of it
+const PolygonRingsSchema = z.array(RingSchema).min(1).max(MAX_POLYGON_RINGS);
+
+const PolygonGeometrySchema = z.object({ type: z.literal('Polygon'), coordinates: PolygonRingsSchema });
+const MultiPolygonGeometrySchema = z.object({
+  type: z.literal('MultiPolygon'),
+  coordinates: z.array(PolygonRingsSchema).min(1).max(MAX_MULTIPOLYGON_PARTS)
+});
+
+// Either a simple outline as coordinates, or a GeoJSON shape that can have holes and several parts
 const CreatePolygonGeofenceSchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().optional(),
   coordinates: z.array(z.object({
     latitude: z.number().min(-90).max(90),
     longitude: z.number().min(-180).max(180)
-  })).min(3),
-  metadata: z.record(z.unknown()).optional()
+  })).min(3).optional(),
+  geometry: z.discriminatedUnion('type', [PolygonGeometrySchema, MultiPolygonGeometrySchema]).optional(),
+  metadata: GeofenceMetadataSchema.optional(),
+  parent_id: z.string().uuid().optional(),
+  include_children: z.boolean().optional()
 });
 
 const CreatePointGeofenceSchema = z.object({
@@ -34,27 +163,278 @@ const CreatePointGeofenceSchema = z.object({
     latitude: z.number().min(-90).max(90),
     longitude: z.number().min(-180).max(180)
   })).length(1),
-  metadata: z.record(z.unknown()).optional()
+  metadata: GeofenceMetadataSchema.optional(),
+  parent_id: z.string().uuid().optional(),
+  include_children: z.boolean().optional()
+});
+
+// A route line with a width in meters, centered on the line
+const CreateCorridorGeofenceSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  path: z.array(z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180)
+  })).min(2).max(10000),
+  width: z.number().min(1).max(5000),
+  metadata: GeofenceMetadataSchema.optional(),
+  parent_id: z.string().uuid().optional(),
+  include_children: z.boolean().optional()
+});
+
+// A circle that follows the anchor device; members of the follower group get proximity events
+const CreateProximityGeofenceSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  anchor_device_id: z.string().uuid(),
+  follower_group_id: z.string().uuid(),
+  radius: z.number().min(1).max(10000),
+  metadata: GeofenceMetadataSchema.optional()
 });
 
 const CreateGeofenceSchema = z.discriminatedUnion('type', [
   z.object({ type: z.literal('circle') }).merge(CreateCircleGeofenceSchema),
   z.object({ type: z.literal('polygon') }).merge(CreatePolygonGeofenceSchema),
-  z.object({ type: z.literal('point') }).merge(CreatePointGeofenceSchema)
+  z.object({ type: z.literal('point') }).merge(CreatePointGeofenceSchema),
+  z.object({ type: z.literal('corridor') }).merge(CreateCorridorGeofenceSchema),
+  z.object({ type: z.literal('proximity') }).merge(CreateProximityGeofenceSchema)
+]);
+
+// A new shape as GeoJSON: a point, a polygon (with any holes or parts), a corridor's route,
+// or a circle's center or outline
+const GeometryUpdateSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Point'), coordinates: PositionSchema }),
+  PolygonGeometrySchema,
+  MultiPolygonGeometrySchema,
+  z.object({ type: z.literal('LineString'), coordinates: z.array(PositionSchema).min(2).max(10000) })
 ]);
 
+// GeoJSON types a geofence's new shape can be given as; proximity geofences follow their anchor instead
+const UPDATABLE_GEOMETRY_TYPES: Record<string, string[]> = {
+  circle: ['Point', 'Polygon'], // A drawn outline is recentred, keeping the radius
+  point: ['Point'],
+  polygon: ['Polygon', 'MultiPolygon'],
+  corridor: ['LineString']
+};
+
+// A geofence's revision history is returned up to this many revisions, newest first
+const MAX_REVISIONS = 100;
+
 const UpdateGeofenceSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   description: z.string().optional(),
   is_active: z.boolean().optional(),
-  metadata: z.record(z.unknown()).optional()
+  metadata: GeofenceMetadataSchema.optional(),
+  parent_id: z.string().uuid().nullable().optional(), // null makes the geofence top-level
+  include_children: z.boolean().optional(),
+  geometry: GeometryUpdateSchema.optional(),
+  radius_m: z.number().min(1).max(10000).optional(),
+  width_m: z.number().min(1).max(5000).optional()
+});
+
+const UpdatePairingSchema = z.object({
+  anchor_device_id: z.string().uuid(),
+  follower_group_id: z.string().uuid(),
+  radius: z.number().min(1).max(10000).optional()
 });
 
+// A backfill replays at most this much stored location history
+const MAX_BACKFILL_DAYS = 30;
+
+const BackfillSchema = z.object({
+  from: z.string().datetime({ offset: true }),
+  to: z.string().datetime({ offset: true }).optional()
+}).refine(range => new Date(range.from) < new Date(range.to ?? Date.now()), {
+  message: 'from must be before to'
+}).refine(
+  range => new Date(range.to ?? Date.now()).getTime() - new Date(range.from).getTime() <= MAX_BACKFILL_DAYS * 86_400_000,
+  { message: `The range can cover at most ${MAX_BACKFILL_DAYS} days` }
+);
+
 const TestLocationSchema = z.object({
   latitude: z.number().min(-90).max(90),
   longitude: z.number().min(-180).max(180)
 });
 
+// A batch test checks at most this many points, against at most this many of the account's
+// geofences; accounts with more narrow the test with geofence_ids or tags
+const MAX_BATCH_TEST_POINTS = 1000;
+const MAX_BATCH_TEST_GEOFENCES = 1000;
+
+const BatchTestSchema = z.object({
+  points: z.array(TestLocationSchema.extend({
+    id: z.string().min(1).max(255).optional() // Echoed back so callers can match up results
+  })).min(1).max(MAX_BATCH_TEST_POINTS),
+  geofence_ids: z.array(z.string().uuid()).min(1).max(MAX_BATCH_TEST_GEOFENCES).optional(),
+  tags: TagsSchema.min(1).optional() // Geofences with any of these tags
+});
+
+// An import can create or update at most this many geofences
+const MAX_IMPORT_FEATURES = 5000;
+
+const GEOFENCE_FILE_FORMATS: GeofenceFileFormat[] = ['geojson', 'kml', 'gpx'];
+
+const ImportGeofencesSchema = z.object({
+  format: z.enum(['geojson', 'kml', 'gpx']),
+  content: z.union([z.string().min(1), z.record(z.unknown())]), // The file's text, or parsed GeoJSON
+  dry_run: z.boolean().optional(), // Only report what the import would do
+  // Feature properties to read the name, description and external ID from
+  mapping: z.object({
+    name: z.string().min(1),
+    description: z.string().min(1),
+    external_id: z.string().min(1)
+  }).partial().optional()
+});
+
+// What an import did, or would do in a dry run, with one feature of the file
+interface ImportFeatureReport {
+  index: number;
+  name: string | null;
+  external_id: string | null;
+  geofence_type: string | null;
+  action: 'create' | 'update' | 'invalid';
+  geofence_id: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+const EXPORT_CONTENT_TYPES: Record<GeofenceFileFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml'
+};
+
+// The anchor device and the follower group of a proximity geofence must belong to the account
+const validatePairing = async (accountId: string, anchorDeviceId: string, followerGroupId: string) => {
+  const result = await query(
+    `SELECT
+      EXISTS (SELECT 1 FROM devices WHERE id = $2 AND account_id = $1) as anchor_found,
+      EXISTS (SELECT 1 FROM device_groups WHERE id = $3 AND account_id = $1) as group_found`,
+    [accountId, anchorDeviceId, followerGroupId]
+  );
+
+  if (!result.rows[0].anchor_found) return 'Anchor device not found';
+  if (!result.rows[0].group_found) return 'Follower group not found';
+  return null;
+};
+
+const formatBackfill = (row: any) => ({
+  id: row.id,
+  geofence_id: row.geofence_id,
+  from: row.from_ts,
+  to: row.to_ts,
+  status: row.status,
+  total_locations: row.total_locations,
+  processed_locations: row.processed_locations,
+  events_created: row.events_created,
+  progress: row.status === 'completed'
+    ? 1
+    : row.total_locations ? Math.min(row.processed_locations / row.total_locations, 1) : 0,
+  error: row.error_message,
+  created_at: row.created_at,
+  started_at: row.started_at,
+  completed_at: row.completed_at
+});
+
+const formatRevision = (row: any) => ({
+  id: row.id,
+  revision: row.revision,
+  geometry: JSON.parse(row.geometry_geojson),
+  radius_m: row.radius_m,
+  width_m: row.width_m,
+  author: row.author_id ? { id: row.author_id, email: row.author_email } : null,
+  rolled_back_from: row.rolled_back_from,
+  created_at: row.created_at
+});
+
+type DbClient = Awaited<ReturnType<typeof getDbClient>>;
+
+/**
+ * Stores the geofence's current shape as its next revision. Nothing is stored when the
+ * shape is the same as the latest revision's; returns the new revision number, or null.
+ * Runs in the transaction that wrote the geofence, whose row lock keeps concurrent edits
+ * from numbering the same revision.
+ */
+const recordRevision = async (
+  client: DbClient,
+  geofenceId: string,
+  author: { id: string; email: string } | undefined,
+  rolledBackFrom: number | null = null
+): Promise<number | null> => {
+  const result = await client.query(
+    `INSERT INTO geofence_revisions (
+      geofence_id, account_id, revision, geometry, radius_m, width_m, author_id, author_email, rolled_back_from
+    )
+    SELECT g.id, g.account_id, COALESCE(latest.revision, 0) + 1, g.geometry, g.radius_m, g.width_m, $2, $3, $4
+    FROM geofences g
+    LEFT JOIN LATERAL (
+      SELECT revision, geometry, radius_m, width_m
+      FROM geofence_revisions
+      WHERE geofence_id = g.id
+      ORDER BY revision DESC
+      LIMIT 1
+    ) latest ON true
+    WHERE g.id = $1
+      AND (
+        latest.revision IS NULL
+        OR NOT ST_OrderingEquals(latest.geometry, g.geometry)
+        OR latest.radius_m IS DISTINCT FROM g.radius_m
+        OR latest.width_m IS DISTINCT FROM g.width_m
+      )
+    RETURNING revision`,
+    [geofenceId, author?.id ?? null, author?.email ?? null, rolledBackFrom]
+  );
+
+  return result.rows[0]?.revision ?? null;
+};
+
+const BACKFILL_COLUMNS = `
+  id, geofence_id, from_ts, to_ts, status, total_locations, processed_locations, events_created,
+  error_message, created_at, started_at, completed_at
+`;
+
+// The database trigger enforcing the hierarchy reports every rule it checks under this constraint
+const getHierarchyError = (error: any): string | null =>
+  error?.code === '23514' && error.constraint === 'geofences_hierarchy_check' ? error.message : null;
+
+// Why PostGIS considers a polygon shape invalid (e.g. a self-intersecting ring or a hole
+// outside its outer ring), or null if it is valid
+const getPolygonShapeError = async (geometry: unknown): Promise<string | null> => {
+  const result = await query(
+    'SELECT ST_IsValid(g) AS valid, ST_IsValidReason(g) AS reason FROM ST_GeomFromGeoJSON($1) g',
+    [JSON.stringify(geometry)]
+  );
+  return result.rows[0].valid ? null : `Invalid polygon shape: ${result.rows[0].reason}`;
+};
+
+// The GeoJSON shape, radius and width an imported geofence is stored with; circles are their center
+const getImportedShape = (body: z.infer<typeof CreateGeofenceSchema>) => {
+  const toPosition = ({ longitude, latitude }: { longitude: number; latitude: number }) => [longitude, latitude];
+
+  switch (body.type) {
+    case 'circle':
+      return { geometry: { type: 'Point', coordinates: toPosition(body.center) }, radius: body.radius, width: null };
+    case 'point':
+      return { geometry: { type: 'Point', coordinates: toPosition(body.coordinates[0]) }, radius: null, width: null };
+    case 'polygon':
+      return body.geometry ? { geometry: body.geometry, radius: null, width: null } : null;
+    case 'corridor':
+      return { geometry: { type: 'LineString', coordinates: body.path.map(toPosition) }, radius: null, width: body.width };
+    default:
+      return null;
+  }
+};
+
+// Let the geofence engines refresh their in-memory spatial index
+const publishGeofenceChange = async (op: 'upsert' | 'delete', accountId: string, geofenceId: string) => {
+  try {
+    await getKafkaProducer().publishGeofenceChange({ op, accountId, geofenceId });
+  } catch (kafkaError) {
+    console.error('Error publishing geofence change to Kafka:', kafkaError);
+    // Don't fail the request if Kafka publishing fails, just log it
+  }
+};
+
 // Get all geofences for organization
 router.get('/', requireAuth, requireAccount, async (req, res) => {
   // Using query() function for automatic connection management
@@ -70,7 +450,13 @@ router.get('/', requireAuth, requireAccount, async (req, res) => {
         created_at,
         updated_at,
         geofence_type,
-        radius_m
+        radius_m,
+        width_m,
+        anchor_device_id,
+        follower_group_id,
+        parent_id,
+        include_children,
+        external_id
       FROM geofences
       WHERE account_id = $1
       ORDER BY created_at DESC
@@ -103,7 +489,13 @@ router.get('/', requireAuth, requireAccount, async (req, res) => {
       created_at: row.created_at,
       updated_at: row.updated_at,
       geofence_type: row.geofence_type,
-      radius_m: row.radius_m
+      radius_m: row.radius_m,
+      width_m: row.width_m,
+      anchor_device_id: row.anchor_device_id,
+      follower_group_id: row.follower_group_id,
+      parent_id: row.parent_id,
+      include_children: row.include_children,
+      external_id: row.external_id
     }));
 
     res.json({
@@ -129,9 +521,9 @@ router.post('/', requireAuth, requireAccount, validateBody(CreateGeofenceSchema)
     if (req.body.type === 'circle') {
       const { center, radius } = req.body;
       queryText = `
-        INSERT INTO geofences (name, description, account_id, geometry, geofence_type, metadata, radius_m)
-        VALUES ($1, $2, $3, ST_Buffer(ST_SetSRID(ST_MakePoint($4, $5), 4326)::geography, $6)::geometry, $7, $8, $6)
-        RETURNING id, name, description, geofence_type, ST_AsGeoJSON(geometry) as geometry_geojson, metadata, is_active, created_at, radius_m
+        INSERT INTO geofences (name, description, account_id, geometry, geofence_type, metadata, radius_m, parent_id, include_children)
+        VALUES ($1, $2, $3, ST_Buffer(ST_SetSRID(ST_MakePoint($4, $5), 4326)::geography, $6)::geometry, $7, $8, $6, $9, $10)
+        RETURNING id, name, description, geofence_type, ST_AsGeoJSON(geometry) as geometry_geojson, metadata, is_active, created_at, radius_m, parent_id, include_children
       `;
       queryParams = [
         req.body.name,
@@ -141,23 +533,40 @@ router.post('/', requireAuth, requireAccount, validateBody(CreateGeofenceSchema)
         center.latitude,
         radius,
         req.body.type,
-        JSON.stringify(req.body.metadata || {})
+        JSON.stringify(req.body.metadata || {}),
+        req.body.parent_id || null,
+        req.body.include_children ?? false
       ];
     } else if (req.body.type === 'polygon') {
       const coordinates = req.body.coordinates;
+      if (!coordinates === !req.body.geometry) {
+        return res.status(400).json({
+          success: false,
+          error: 'A polygon geofence needs either coordinates or a geometry'
+        });
+      }
+
       // Create GeoJSON polygon format for PostGIS
-      const geoJsonPolygon = {
+      const geoJsonPolygon = req.body.geometry ?? {
         type: 'Polygon',
         coordinates: [[
           ...coordinates.map((coord: { longitude: number; latitude: number }) => [coord.longitude, coord.latitude]),
           [coordinates[0].longitude, coordinates[0].latitude] // Close the polygon
         ]]
       };
-      
+
+      const shapeError = await getPolygonShapeError(geoJsonPolygon);
+      if (shapeError) {
+        return res.status(400).json({
+          success: false,
+          error: shapeError
+        });
+      }
+
       queryText = `
-        INSERT INTO geofences (name, description, account_id, geometry, geofence_type, metadata, radius_m)
-        VALUES ($1, $2, $3, ST_GeomFromGeoJSON($4), $5, $6, NULL)
-        RETURNING id, name, description, geofence_type, ST_AsGeoJSON(geometry) as geometry_geojson, metadata, is_active, created_at, radius_m
+        INSERT INTO geofences (name, description, account_id, geometry, geofence_type, metadata, radius_m, parent_id, include_children)
+        VALUES ($1, $2, $3, ST_GeomFromGeoJSON($4), $5, $6, NULL, $7, $8)
+        RETURNING id, name, description, geofence_type, ST_AsGeoJSON(geometry) as geometry_geojson, metadata, is_active, created_at, radius_m, parent_id, include_children
       `;
       queryParams = [
         req.body.name,
@@ -165,14 +574,16 @@ router.post('/', requireAuth, requireAccount, validateBody(CreateGeofenceSchema)
         req.accountId,
         JSON.stringify(geoJsonPolygon),
         req.body.type,
-        JSON.stringify(req.body.metadata || {})
+        JSON.stringify(req.body.metadata || {}),
+        req.body.parent_id || null,
+        req.body.include_children ?? false
       ];
     } else if (req.body.type === 'point') {
       const coord = req.body.coordinates[0];
       queryText = `
-        INSERT INTO geofences (name, description, account_id, geometry, geofence_type, metadata, radius_m)
-        VALUES ($1, $2, $3, ST_SetSRID(ST_MakePoint($4, $5), 4326), $6, $7, NULL)
-        RETURNING id, name, description, geofence_type, ST_AsGeoJSON(geometry) as geometry_geojson, metadata, is_active, created_at, radius_m
+        INSERT INTO geofences (name, description, account_id, geometry, geofence_type, metadata, radius_m, parent_id, include_children)
+        VALUES ($1, $2, $3, ST_SetSRID(ST_MakePoint($4, $5), 4326), $6, $7, NULL, $8, $9)
+        RETURNING id, name, description, geofence_type, ST_AsGeoJSON(geometry) as geometry_geojson, metadata, is_active, created_at, radius_m, parent_id, include_children
       `;
       queryParams = [
         req.body.name,
@@ -181,7 +592,62 @@ router.post('/', requireAuth, requireAccount, validateBody(CreateGeofenceSchema)
         coord.longitude,
         coord.latitude,
         req.body.type,
-        JSON.stringify(req.body.metadata || {})
+        JSON.stringify(req.body.metadata || {}),
+        req.body.parent_id || null,
+        req.body.include_children ?? false
+      ];
+    } else if (req.body.type === 'corridor') {
+      const geoJsonLine = {
+        type: 'LineString',
+        coordinates: req.body.path.map((coord: { longitude: number; latitude: number }) => [coord.longitude, coord.latitude])
+      };
+
+      queryText = `
+        INSERT INTO geofences (
+          name, description, account_id, geometry, geofence_type, metadata, radius_m, width_m, parent_id, include_children
+        )
+        VALUES ($1, $2, $3, ST_GeomFromGeoJSON($4), $5, $6, NULL, $7, $8, $9)
+        RETURNING id, name, description, geofence_type, ST_AsGeoJSON(geometry) as geometry_geojson, metadata, is_active, created_at, radius_m, width_m, parent_id, include_children
+      `;
+      queryParams = [
+        req.body.name,
+        req.body.description || null,
+        req.accountId,
+        JSON.stringify(geoJsonLine),
+        req.body.type,
+        JSON.stringify(req.body.metadata || {}),
+        req.body.width,
+        req.body.parent_id || null,
+        req.body.include_children ?? false
+      ];
+    } else if (req.body.type === 'proximity') {
+      const pairingError = await validatePairing(req.accountId!, req.body.anchor_device_id, req.body.follower_group_id);
+      if (pairingError) {
+        return res.status(400).json({
+          success: false,
+          error: pairingError
+        });
+      }
+
+      // The engine follows the anchor's live location; the stored point is only where it was at creation
+      queryText = `
+        INSERT INTO geofences (name, description, account_id, geometry, geofence_type, metadata, radius_m, anchor_device_id, follower_group_id)
+        VALUES (
+          $1, $2, $3,
+          COALESCE((SELECT last_location FROM devices WHERE id = $7), ST_SetSRID(ST_MakePoint(0, 0), 4326)),
+          $4, $5, $6, $7, $8
+        )
+        RETURNING id, name, description, geofence_type, ST_AsGeoJSON(geometry) as geometry_geojson, metadata, is_active, created_at, radius_m, anchor_device_id, follower_group_id
+      `;
+      queryParams = [
+        req.body.name,
+        req.body.description || null,
+        req.accountId,
+        req.body.type,
+        JSON.stringify(req.body.metadata || {}),
+        req.body.radius,
+        req.body.anchor_device_id,
+        req.body.follower_group_id
       ];
     } else {
       return res.status(400).json({
@@ -197,7 +663,20 @@ router.post('/', requireAuth, requireAccount, validateBody(CreateGeofenceSchema)
       });
     }
 
-    const result = await query(queryText, queryParams);
+    // The geofence and its first revision are stored together
+    const client = await getDbClient();
+    let result;
+    try {
+      await client.query('BEGIN');
+      result = await client.query(queryText, queryParams);
+      await recordRevision(client, result.rows[0].id, req.user);
+      await client.query('COMMIT');
+    } catch (writeError) {
+      await client.query('ROLLBACK');
+      throw writeError;
+    } finally {
+      client.release();
+    }
 
     const geofence = {
       ...result.rows[0],
@@ -205,11 +684,21 @@ router.post('/', requireAuth, requireAccount, validateBody(CreateGeofenceSchema)
       geometry_geojson: undefined
     };
 
+    await publishGeofenceChange('upsert', req.accountId!, geofence.id);
+
     res.status(201).json({
       success: true,
       data: geofence
     });
   } catch (error) {
+    const hierarchyError = getHierarchyError(error);
+    if (hierarchyError) {
+      return res.status(400).json({
+        success: false,
+        error: hierarchyError
+      });
+    }
+
     console.error('Error creating geofence:', error);
     res.status(500).json({
       success: false,
@@ -218,6 +707,357 @@ router.post('/', requireAuth, requireAccount, validateBody(CreateGeofenceSchema)
   }
 });
 
+// Export the account's geofences as a GeoJSON, KML or GPX file. Proximity geofences follow
+// their anchor device so have no shape to export.
+router.get('/export', requireAuth, requireAccount, async (req, res) => {
+  try {
+    const format = (req.query.format ?? 'geojson') as GeofenceFileFormat;
+    if (!GEOFENCE_FILE_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format must be one of ${GEOFENCE_FILE_FORMATS.join(', ')}`
+      });
+    }
+
+    const result = await query(
+      `
+        SELECT
+          id, external_id, name, description, geofence_type, radius_m, width_m, metadata,
+          ST_AsGeoJSON(CASE WHEN geofence_type = 'circle' THEN ST_Centroid(geometry) ELSE geometry END) AS geometry_geojson
+        FROM geofences
+        WHERE account_id = $1 AND geofence_type <> 'proximity'
+        ORDER BY created_at
+      `,
+      [req.accountId]
+    );
+
+    const geofences: ExportedGeofence[] = result.rows.map((row: any) => ({
+      id: row.id,
+      externalId: row.external_id,
+      name: row.name,
+      description: row.description,
+      type: row.geofence_type,
+      geometry: JSON.parse(row.geometry_geojson),
+      radiusM: row.radius_m,
+      widthM: row.width_m,
+      metadata: row.metadata ?? {}
+    }));
+
+    const { content, skipped } = writeGeofenceFile(format, geofences);
+
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="geofences.${format}"`);
+    res.setHeader('X-Geofences-Skipped', String(skipped)); // Shapes the format can't represent
+    res.send(content);
+  } catch (error) {
+    console.error('Error exporting geofences:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Create or update geofences in bulk from a GeoJSON, KML or GPX file. A feature whose
+// external ID was imported before (or is the ID of an exported geofence) updates that
+// geofence; invalid features are reported and skipped. The valid features are written
+// together, so an unexpected error imports none of them. A dry run only reports.
+router.post('/import', requireAuth, requireAccount, validateBody(ImportGeofencesSchema), async (req, res) => {
+  try {
+    const body = req.body as z.infer<typeof ImportGeofencesSchema>;
+
+    let candidates;
+    try {
+      candidates = readGeofenceFile(body.format, body.content, { ...DEFAULT_PROPERTY_MAPPING, ...body.mapping });
+    } catch (readError: any) {
+      return res.status(400).json({
+        success: false,
+        error: `Could not read the ${body.format.toUpperCase()} file: ${readError.message}`
+      });
+    }
+
+    if (candidates.length === 0 || candidates.length > MAX_IMPORT_FEATURES) {
+      return res.status(400).json({
+        success: false,
+        error: candidates.length === 0
+          ? 'The file has no features to import'
+          : `An import can contain at most ${MAX_IMPORT_FEATURES} features`
+      });
+    }
+
+    const externalIds = candidates.flatMap(candidate => (candidate.externalId ? [candidate.externalId] : []));
+    const existing = await query(
+      `
+        SELECT id, external_id, geofence_type
+        FROM geofences
+        WHERE account_id = $1
+          AND (external_id = ANY($2::text[]) OR (external_id IS NULL AND id::text = ANY($2::text[])))
+      `,
+      [req.accountId, externalIds]
+    );
+    const existingByExternalId = new Map<string, any>(
+      existing.rows.map((row: any) => [row.external_id ?? row.id, row])
+    );
+
+    const seenExternalIds = new Set<string>();
+    const features: ImportFeatureReport[] = [];
+    const writtenIds: string[] = [];
+
+    // All writes share one transaction, so a failure part way through leaves nothing half imported
+    const client = body.dry_run ? null : await getDbClient();
+    try {
+      await client?.query('BEGIN');
+
+      for (const candidate of candidates) {
+        const errors = [...candidate.errors];
+        const match = candidate.externalId ? existingByExternalId.get(candidate.externalId) : undefined;
+
+        if (candidate.externalId) {
+          if (candidate.externalId.length > 255) errors.push('External ID is longer than 255 characters');
+          if (seenExternalIds.has(candidate.externalId)) errors.push('External ID appears earlier in the file');
+          if (match?.geofence_type === 'proximity') errors.push('External ID belongs to a proximity geofence');
+          seenExternalIds.add(candidate.externalId);
+        }
+
+        const parsed = candidate.body ? CreateGeofenceSchema.safeParse(candidate.body) : null;
+        if (parsed && !parsed.success) {
+          errors.push(...parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+        }
+
+        const geofence = parsed?.success ? parsed.data : null;
+        const shape = geofence ? getImportedShape(geofence) : null;
+        if (geofence?.type === 'polygon' && shape && errors.length === 0) {
+          const shapeError = await getPolygonShapeError(shape.geometry);
+          if (shapeError) errors.push(shapeError);
+        }
+
+        const feature: ImportFeatureReport = {
+          index: candidate.index,
+          name: (candidate.body?.name as string | undefined) ?? null,
+          external_id: candidate.externalId ?? null,
+          geofence_type: (candidate.body?.type as string | undefined) ?? null,
+          action: errors.length > 0 ? 'invalid' : match ? 'update' : 'create',
+          geofence_id: match?.id ?? null,
+          errors,
+          warnings: candidate.warnings
+        };
+        features.push(feature);
+
+        if (!client || !geofence || !shape || errors.length > 0) continue;
+
+        // Circles are stored as their outline, buffered from the center on the sphere
+        const storedGeometry = `
+          CASE WHEN $5::text = 'circle'
+            THEN ST_Buffer(ST_GeomFromGeoJSON($4)::geography, $6)::geometry
+            ELSE ST_GeomFromGeoJSON($4)
+          END
+        `;
+        const params = [
+          geofence.name,
+          geofence.description || null,
+          req.accountId,
+          JSON.stringify(shape.geometry),
+          geofence.type,
+          shape.radius,
+          shape.width,
+          JSON.stringify(geofence.metadata || {})
+        ];
+
+        // A feature the database rejects is rolled back on its own and reported as invalid
+        await client.query('SAVEPOINT import_feature');
+        try {
+          const written = match
+            ? await client.query(
+              `
+                UPDATE geofences
+                SET name = $1, description = $2, geometry = ${storedGeometry}, geofence_type = $5::geofence_type,
+                  radius_m = $6, width_m = $7, metadata = COALESCE(metadata, '{}'::jsonb) || $8::jsonb
+                WHERE id = $9 AND account_id = $3
+                RETURNING id
+              `,
+              [...params, match.id]
+            )
+            : await client.query(
+              `
+                INSERT INTO geofences (name, description, account_id, geometry, geofence_type, radius_m, width_m, metadata, external_id)
+                VALUES ($1, $2, $3, ${storedGeometry}, $5::geofence_type, $6, $7, $8, $9)
+                RETURNING id
+              `,
+              [...params, candidate.externalId ?? null]
+            );
+
+          feature.geofence_id = written.rows[0].id;
+          await recordRevision(client, written.rows[0].id, req.user);
+          await client.query('RELEASE SAVEPOINT import_feature');
+          writtenIds.push(written.rows[0].id);
+        } catch (writeError: any) {
+          const hierarchyError = getHierarchyError(writeError);
+          if (!hierarchyError && writeError.code !== '23505') throw writeError;
+
+          await client.query('ROLLBACK TO SAVEPOINT import_feature');
+          feature.action = 'invalid';
+          feature.errors.push(hierarchyError ?? 'External ID is already used by another geofence');
+        }
+      }
+
+      await client?.query('COMMIT');
+    } catch (writeError) {
+      await client?.query('ROLLBACK');
+      throw writeError;
+    } finally {
+      client?.release();
+    }
+
+    // Only once committed, so the engines never load a geofence that was rolled back
+    for (const geofenceId of writtenIds) {
+      await publishGeofenceChange('upsert', req.accountId!, geofenceId);
+    }
+
+    const countAction = (action: ImportFeatureReport['action']) => features.filter(feature => feature.action === action).length;
+
+    res.json({
+      success: true,
+      data: {
+        dry_run: body.dry_run ?? false,
+        summary: {
+          total: features.length,
+          create: countAction('create'),
+          update: countAction('update'),
+          invalid: countAction('invalid')
+        },
+        features
+      }
+    });
+  } catch (error) {
+    console.error('Error importing geofences:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Box around everything inside the geofence, as the engine's index builds it
+const shapeBoundingBox = (shape: GeofenceShape): BoundingBox =>
+  (shape.type === 'circle' || shape.type === 'proximity') && shape.radiusM !== null
+    ? circleBoundingBox(shape.center, shape.radiusM)
+    : shape.type === 'corridor'
+      ? expandBoundingBox(geometryBoundingBox(shape.geometry), (shape.widthM ?? 0) / 2)
+      : geometryBoundingBox(shape.geometry);
+
+const boxContains = (bbox: BoundingBox, lon: number, lat: number) =>
+  lon >= bbox.minX && lon <= bbox.maxX && lat >= bbox.minY && lat <= bbox.maxY;
+
+// Test many points at once against the account's active geofences, optionally narrowed by ID or tag
+router.post(
+  '/test',
+  requireAuth,
+  requireAccount,
+  accountRateLimit(rateLimitPresets.batchQueries),
+  validateBody(BatchTestSchema),
+  async (req, res) => {
+  try {
+    const { points, geofence_ids: geofenceIds, tags } = req.body as z.infer<typeof BatchTestSchema>;
+
+    // Proximity geofences are tested against their anchor's last known location
+    const result = await query(
+      `
+        SELECT
+          geofences.id,
+          geofences.name,
+          geofences.geofence_type,
+          geofences.radius_m,
+          geofences.width_m,
+          ST_AsGeoJSON(geofences.geometry) as geometry_geojson,
+          ST_AsGeoJSON(anchor.last_location) as anchor_geojson
+        FROM geofences
+        LEFT JOIN devices anchor ON anchor.id = geofences.anchor_device_id
+        WHERE geofences.account_id = $1
+          AND geofences.is_active = true
+          AND ($2::uuid[] IS NULL OR geofences.id = ANY($2::uuid[]))
+          AND ($3::text[] IS NULL OR geofences.metadata->'tags' ?| $3::text[])
+        LIMIT ${MAX_BATCH_TEST_GEOFENCES + 1}
+      `,
+      [req.accountId, geofenceIds ?? null, tags ?? null]
+    );
+
+    if (result.rows.length > MAX_BATCH_TEST_GEOFENCES) {
+      return res.status(400).json({
+        success: false,
+        error: `More than ${MAX_BATCH_TEST_GEOFENCES} geofences match; narrow the test with geofence_ids or tags`
+      });
+    }
+
+    const geofences: { id: string; name: string; shape: GeofenceShape; bbox: BoundingBox }[] = result.rows.map((row: any) => {
+      const geometry: GeofenceGeometry = JSON.parse(row.geometry_geojson);
+      const shape: GeofenceShape = {
+        type: row.geofence_type,
+        geometry,
+        center: row.anchor_geojson ? JSON.parse(row.anchor_geojson).coordinates : geometryCentroid(geometry),
+        radiusM: row.radius_m !== null ? Number(row.radius_m) : null,
+        widthM: row.width_m !== null ? Number(row.width_m) : null
+      };
+      return { id: row.id as string, name: row.name as string, shape, bbox: shapeBoundingBox(shape) };
+    });
+
+    const results = points.map(({ id, latitude, longitude }) => {
+      const inside = [];
+      let nearest: { geofence_id: string; name: string; distance_meters: number; inside: boolean } | null = null;
+
+      // Geofences whose box holds the point first, so the nearest boundary found early lets
+      // the exact distance to most of the rest be skipped
+      const ordered = [
+        ...geofences.filter(geofence => boxContains(geofence.bbox, longitude, latitude)),
+        ...geofences.filter(geofence => !boxContains(geofence.bbox, longitude, latitude))
+      ];
+
+      for (const geofence of ordered) {
+        // Outside the box grown by the nearest distance so far, the point can be neither
+        // inside the geofence nor closer to its boundary
+        if (nearest && !boxContains(expandBoundingBox(geofence.bbox, nearest.distance_meters), longitude, latitude)) {
+          continue;
+        }
+
+        const boundaryDistance = signedBoundaryDistanceMeters(geofence.shape, longitude, latitude);
+        const isInside = shapeContains(geofence.shape, longitude, latitude);
+        if (isInside) {
+          inside.push({ geofence_id: geofence.id, name: geofence.name, boundary_distance_meters: boundaryDistance });
+        }
+        if (!nearest || Math.abs(boundaryDistance) < nearest.distance_meters) {
+          nearest = {
+            geofence_id: geofence.id,
+            name: geofence.name,
+            distance_meters: Math.abs(boundaryDistance),
+            inside: isInside
+          };
+        }
+      }
+
+      return {
+        id: id ?? null,
+        latitude,
+        longitude,
+        inside, // Geofences containing the point, with how far it is inside each
+        nearest // The geofence whose boundary is closest to the point, from either side
+      };
+    });
+
+    res.json({
+      success: true,
+      data: {
+        geofence_count: geofences.length,
+        results
+      }
+    });
+  } catch (error) {
+    console.error('Error batch testing geofence locations:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
 // Get specific geofence
 router.get('/:geofenceId', requireAuth, requireAccount, async (req, res) => {
   try {
@@ -231,7 +1071,13 @@ router.get('/:geofenceId', requireAuth, requireAccount, async (req, res) => {
         metadata,
         is_active,
         created_at,
-        updated_at
+        updated_at,
+        radius_m,
+        width_m,
+        anchor_device_id,
+        follower_group_id,
+        parent_id,
+        include_children
       FROM geofences 
       WHERE id = $1 AND account_id = $2
     `;
@@ -291,6 +1137,79 @@ router.put('/:geofenceId', requireAuth, requireAccount, validateBody(UpdateGeofe
       values.push(JSON.stringify(req.body.metadata));
     }
 
+    if (req.body.parent_id !== undefined) {
+      updates.push(`parent_id = $${paramCount++}`);
+      values.push(req.body.parent_id);
+    }
+
+    if (req.body.include_children !== undefined) {
+      updates.push(`include_children = $${paramCount++}`);
+      values.push(req.body.include_children);
+    }
+
+    const { geometry, radius_m: radius, width_m: width } = req.body;
+    let shapeChanged = false;
+
+    if (geometry !== undefined || radius !== undefined || width !== undefined) {
+      const current = await query('SELECT geofence_type, radius_m FROM geofences WHERE id = $1 AND account_id = $2', [
+        req.params.geofenceId,
+        req.accountId
+      ]);
+
+      if (current.rows.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Geofence not found'
+        });
+      }
+
+      const type = current.rows[0].geofence_type;
+      const shapeError = !UPDATABLE_GEOMETRY_TYPES[type]
+        ? 'The shape of a proximity geofence follows its anchor device'
+        : geometry && !UPDATABLE_GEOMETRY_TYPES[type].includes(geometry.type)
+          ? `The geometry of a ${type} geofence must be a ${UPDATABLE_GEOMETRY_TYPES[type].join(' or ')}`
+          : radius !== undefined && type !== 'circle'
+            ? 'Only circle geofences have a radius'
+            : width !== undefined && type !== 'corridor'
+              ? 'Only corridor geofences have a width'
+              : type === 'polygon' && geometry
+                ? await getPolygonShapeError(geometry)
+                : null;
+
+      if (shapeError) {
+        return res.status(400).json({
+          success: false,
+          error: shapeError
+        });
+      }
+
+      if (type === 'circle') {
+        // The stored outline is rebuilt from the center and radius, but only when one of them
+        // changes, so saving an unchanged circle doesn't reshape it
+        if (geometry || Number(current.rows[0].radius_m) !== radius) {
+          const center = geometry
+            ? `ST_Centroid(ST_SetSRID(ST_GeomFromGeoJSON($${paramCount++}), 4326))`
+            : 'ST_Centroid(geometry)';
+          if (geometry) values.push(JSON.stringify(geometry));
+          const radiusParam = radius !== undefined ? `$${paramCount++}` : 'radius_m';
+          if (radius !== undefined) values.push(radius);
+
+          updates.push(`geometry = ST_Buffer(${center}::geography, ${radiusParam})::geometry`, `radius_m = ${radiusParam}`);
+          shapeChanged = true;
+        }
+      } else {
+        if (geometry) {
+          updates.push(`geometry = ST_GeomFromGeoJSON($${paramCount++})`);
+          values.push(JSON.stringify(geometry));
+        }
+        if (width !== undefined) {
+          updates.push(`width_m = $${paramCount++}`);
+          values.push(width);
+        }
+        shapeChanged = true;
+      }
+    }
+
     if (updates.length === 0) {
       return res.status(400).json({
         success: false,
@@ -305,10 +1224,26 @@ router.put('/:geofenceId', requireAuth, requireAccount, validateBody(UpdateGeofe
       UPDATE geofences 
       SET ${updates.join(', ')}
       WHERE id = $${paramCount++} AND account_id = $${paramCount}
-      RETURNING id, name, description, geofence_type, ST_AsGeoJSON(geometry) as geometry_geojson, metadata, is_active, updated_at
+      RETURNING id, name, description, geofence_type, ST_AsGeoJSON(geometry) as geometry_geojson, metadata, is_active, updated_at, radius_m, width_m, anchor_device_id, follower_group_id, parent_id, include_children
     `;
 
-    const result = await query(queryText, values);
+    // A new shape and its revision are stored together
+    const client = await getDbClient();
+    let result;
+    let revision: number | null = null;
+    try {
+      await client.query('BEGIN');
+      result = await client.query(queryText, values);
+      if (result.rows.length > 0 && shapeChanged) {
+        revision = await recordRevision(client, result.rows[0].id, req.user);
+      }
+      await client.query('COMMIT');
+    } catch (writeError) {
+      await client.query('ROLLBACK');
+      throw writeError;
+    } finally {
+      client.release();
+    }
 
     if (result.rowCount === 0) {
       return res.status(404).json({
@@ -323,11 +1258,24 @@ router.put('/:geofenceId', requireAuth, requireAccount, validateBody(UpdateGeofe
       geometry_geojson: undefined
     };
 
+    if (shapeChanged) {
+      geofence.revision = revision;
+    }
+    await publishGeofenceChange('upsert', req.accountId!, geofence.id);
+
     res.json({
       success: true,
       data: geofence
     });
   } catch (error) {
+    const hierarchyError = getHierarchyError(error);
+    if (hierarchyError) {
+      return res.status(400).json({
+        success: false,
+        error: hierarchyError
+      });
+    }
+
     console.error('Error updating geofence:', error);
     res.status(500).json({
       success: false,
@@ -349,6 +1297,8 @@ router.delete('/:geofenceId', requireAuth, requireAccount, async (req, res) => {
       });
     }
 
+    await publishGeofenceChange('delete', req.accountId!, req.params.geofenceId);
+
     res.json({
       success: true,
       message: 'Geofence deleted successfully'
@@ -362,23 +1312,343 @@ router.delete('/:geofenceId', requireAuth, requireAccount, async (req, res) => {
   }
 });
 
-// Test if a location is inside the geofence
-router.post('/:geofenceId/test', requireAuth, requireAccount, validateBody(TestLocationSchema), async (req, res) => {
+// Pair a proximity geofence with a different anchor device or follower group
+router.put('/:geofenceId/pairing', requireAuth, requireAccount, validateBody(UpdatePairingSchema), async (req, res) => {
   try {
-    const queryText = `
-      SELECT 
-        ST_Contains(geometry, ST_SetSRID(ST_MakePoint($1, $2), 4326)) as is_inside,
-        ST_Distance(geometry::geography, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography) as distance_meters
-      FROM geofences 
-      WHERE id = $3 AND account_id = $4
-    `;
+    const pairingError = await validatePairing(req.accountId!, req.body.anchor_device_id, req.body.follower_group_id);
+    if (pairingError) {
+      return res.status(400).json({
+        success: false,
+        error: pairingError
+      });
+    }
+
+    const result = await query(
+      `UPDATE geofences
+      SET anchor_device_id = $1, follower_group_id = $2, radius_m = COALESCE($3, radius_m), updated_at = NOW()
+      WHERE id = $4 AND account_id = $5 AND geofence_type = 'proximity'
+      RETURNING id, name, anchor_device_id, follower_group_id, radius_m, updated_at`,
+      [
+        req.body.anchor_device_id,
+        req.body.follower_group_id,
+        req.body.radius ?? null,
+        req.params.geofenceId,
+        req.accountId
+      ]
+    );
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Proximity geofence not found'
+      });
+    }
+
+    await publishGeofenceChange('upsert', req.accountId!, req.params.geofenceId);
+
+    res.json({
+      success: true,
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Error updating geofence pairing:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Shapes the geofence has had, newest first
+router.get('/:geofenceId/revisions', requireAuth, requireAccount, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT id, revision, ST_AsGeoJSON(geometry) as geometry_geojson, radius_m, width_m,
+        author_id, author_email, rolled_back_from, created_at
+      FROM geofence_revisions
+      WHERE geofence_id = $1 AND account_id = $2
+      ORDER BY revision DESC
+      LIMIT ${MAX_REVISIONS}`,
+      [req.params.geofenceId, req.accountId]
+    );
+
+    // Every geofence has at least the revision it was created with
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Geofence not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows.map(formatRevision)
+    });
+  } catch (error) {
+    console.error('Error fetching geofence revisions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Restore an earlier shape; the rollback is recorded as a new revision
+router.post('/:geofenceId/revisions/:revision/rollback', requireAuth, requireAccount, async (req, res) => {
+  try {
+    const revision = Number(req.params.revision);
+    if (!Number.isInteger(revision) || revision < 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid revision'
+      });
+    }
+
+    // Restoring the shape and recording it are one change; a rollback to the current shape is undone
+    const client = await getDbClient();
+    let result;
+    let newRevision: number | null = null;
+    try {
+      await client.query('BEGIN');
+      result = await client.query(
+        `UPDATE geofences g
+        SET geometry = r.geometry, radius_m = r.radius_m, width_m = r.width_m, updated_at = NOW()
+        FROM geofence_revisions r
+        WHERE g.id = $1 AND g.account_id = $2 AND g.geofence_type <> 'proximity'
+          AND r.geofence_id = g.id AND r.revision = $3
+        RETURNING g.id`,
+        [req.params.geofenceId, req.accountId, revision]
+      );
+      if (result.rows.length > 0) {
+        newRevision = await recordRevision(client, req.params.geofenceId, req.user, revision);
+      }
+      await client.query(newRevision !== null ? 'COMMIT' : 'ROLLBACK');
+    } catch (writeError) {
+      await client.query('ROLLBACK');
+      throw writeError;
+    } finally {
+      client.release();
+    }
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Revision not found'
+      });
+    }
+
+    if (newRevision === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'The geofence already has the shape of this revision'
+      });
+    }
 
-    const result = await query(queryText, [
-      req.body.longitude,
-      req.body.latitude,
-      req.params.geofenceId,
-      req.accountId
-    ]);
+    await publishGeofenceChange('upsert', req.accountId!, req.params.geofenceId);
+
+    res.json({
+      success: true,
+      data: {
+        geofence_id: req.params.geofenceId,
+        revision: newRevision,
+        rolled_back_from: revision
+      }
+    });
+  } catch (error) {
+    const hierarchyError = getHierarchyError(error);
+    if (hierarchyError) {
+      return res.status(400).json({
+        success: false,
+        error: hierarchyError
+      });
+    }
+
+    console.error('Error rolling back geofence revision:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Devices currently inside the geofence, as tracked live by the geofence engine
+router.get('/:geofenceId/occupants', requireAuth, requireAccount, async (req, res) => {
+  try {
+    const geofenceResult = await query(
+      'SELECT id, metadata FROM geofences WHERE id = $1 AND account_id = $2',
+      [req.params.geofenceId, req.accountId]
+    );
+
+    if (geofenceResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Geofence not found'
+      });
+    }
+
+    // Devices that have gone silent for longer than the engine keeps their state no longer count
+    const deviceIds = await getRedisClient().zrangebyscore(
+      `${GEOFENCE_OCCUPANTS_KEY_PREFIX}${req.params.geofenceId}`,
+      Date.now() - DEVICE_STATE_TTL_SECONDS * 1000,
+      '+inf'
+    );
+
+    const devicesResult = deviceIds.length > 0
+      ? await query(
+          `SELECT id, name, status, last_heartbeat as last_seen FROM devices WHERE account_id = $1 AND id = ANY($2::uuid[]) ORDER BY name`,
+          [req.accountId, deviceIds]
+        )
+      : { rows: [] };
+
+    res.json({
+      success: true,
+      data: {
+        geofence_id: req.params.geofenceId,
+        occupancy: deviceIds.length,
+        capacity: geofenceResult.rows[0].metadata?.occupancy?.capacity ?? null,
+        occupants: devicesResult.rows.map((row: any) => ({
+          device_id: row.id,
+          name: row.name,
+          status: row.status,
+          last_seen: row.last_seen
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching geofence occupants:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Replay stored location history through the geofence engine to find past visits. The
+// events are written as historical and never delivered; the engine picks up the job.
+router.post('/:geofenceId/backfill', requireAuth, requireAccount, validateBody(BackfillSchema), async (req, res) => {
+  try {
+    const geofenceResult = await query(
+      'SELECT geofence_type, is_active FROM geofences WHERE id = $1 AND account_id = $2',
+      [req.params.geofenceId, req.accountId]
+    );
+
+    if (geofenceResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Geofence not found'
+      });
+    }
+
+    const geofence = geofenceResult.rows[0];
+    if (!geofence.is_active || geofence.geofence_type === 'proximity') {
+      return res.status(400).json({
+        success: false,
+        error: geofence.is_active
+          ? 'Proximity geofences follow a moving device and cannot be backfilled'
+          : 'Only active geofences can be backfilled'
+      });
+    }
+
+    // A unique index allows one queued or running backfill per geofence
+    const result = await query(
+      `INSERT INTO geofence_backfills (account_id, geofence_id, from_ts, to_ts)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${BACKFILL_COLUMNS}`,
+      [req.accountId, req.params.geofenceId, req.body.from, req.body.to ?? new Date().toISOString()]
+    );
+
+    res.status(202).json({
+      success: true,
+      data: formatBackfill(result.rows[0])
+    });
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        error: 'A backfill is already in progress for this geofence'
+      });
+    }
+    console.error('Error starting geofence backfill:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Recent backfills of a geofence, newest first
+router.get('/:geofenceId/backfills', requireAuth, requireAccount, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT ${BACKFILL_COLUMNS}
+       FROM geofence_backfills
+       WHERE geofence_id = $1 AND account_id = $2
+       ORDER BY created_at DESC
+       LIMIT 20`,
+      [req.params.geofenceId, req.accountId]
+    );
+
+    res.json({
+      success: true,
+      data: result.rows.map(formatBackfill)
+    });
+  } catch (error) {
+    console.error('Error fetching geofence backfills:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+router.get('/:geofenceId/backfills/:backfillId', requireAuth, requireAccount, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT ${BACKFILL_COLUMNS}
+       FROM geofence_backfills
+       WHERE id = $1 AND geofence_id = $2 AND account_id = $3`,
+      [req.params.backfillId, req.params.geofenceId, req.accountId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Backfill not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: formatBackfill(result.rows[0])
+    });
+  } catch (error) {
+    console.error('Error fetching geofence backfill:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Test if a location is inside the geofence, answered by the same shared evaluation the
+// engine and the dashboard simulator use
+router.post('/:geofenceId/test', requireAuth, requireAccount, validateBody(TestLocationSchema), async (req, res) => {
+  try {
+    // Proximity geofences are tested against their anchor's last known location
+    const result = await query(
+      `
+        SELECT
+          geofences.geofence_type,
+          geofences.radius_m,
+          geofences.width_m,
+          ST_AsGeoJSON(geofences.geometry) as geometry_geojson,
+          ST_AsGeoJSON(anchor.last_location) as anchor_geojson
+        FROM geofences
+        LEFT JOIN devices anchor ON anchor.id = geofences.anchor_device_id
+        WHERE geofences.id = $1 AND geofences.account_id = $2
+      `,
+      [req.params.geofenceId, req.accountId]
+    );
 
     if (result.rows.length === 0) {
       return res.status(404).json({
@@ -387,17 +1657,33 @@ router.post('/:geofenceId/test', requireAuth, requireAccount, validateBody(TestL
       });
     }
 
-    const { is_inside, distance_meters } = result.rows[0];
+    const row = result.rows[0];
+    const geometry: GeofenceGeometry = JSON.parse(row.geometry_geojson);
+    const shape: GeofenceShape = {
+      type: row.geofence_type,
+      geometry,
+      center: row.anchor_geojson ? JSON.parse(row.anchor_geojson).coordinates : geometryCentroid(geometry),
+      radiusM: row.radius_m !== null ? Number(row.radius_m) : null,
+      widthM: row.width_m !== null ? Number(row.width_m) : null
+    };
+
+    const { longitude, latitude } = req.body;
+    const boundaryDistance = signedBoundaryDistanceMeters(shape, longitude, latitude);
+    const part = shape.type === 'polygon' ? polygonPartAt(geometry, longitude, latitude) : null;
 
     res.json({
       success: true,
       data: {
         location: {
-          latitude: req.body.latitude,
-          longitude: req.body.longitude
+          latitude,
+          longitude
         },
-        is_inside: is_inside,
-        distance_meters: parseFloat(distance_meters)
+        is_inside: shapeContains(shape, longitude, latitude),
+        distance_meters: Math.max(0, -boundaryDistance), // How far outside the geofence, 0 inside it
+        boundary_distance_meters: boundaryDistance, // Positive inside, negative outside
+        // The polygon part whose outer ring surrounds the point, and whether the point is in one of its holes
+        part_index: part?.index ?? null,
+        in_hole: part?.inHole ?? false
       }
     });
   } catch (error) {
@@ -1,6 +1,15 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { query as dbQuery } from '@geofence/db';
+import {
+  DEFAULT_KALMAN_PROCESS_NOISE_MPS2,
+  DEFAULT_LOW_ACCURACY_POLICY,
+  DEFAULT_TRANSITION_CONFIDENCE_THRESHOLD,
+  DEFAULT_TRIP_MAX_GAP_SECONDS,
+  DEFAULT_TRIP_MIN_STOP_SECONDS,
+  DEFAULT_TRIP_STOP_SPEED_MPS,
+  MAX_PRESENCE_TIMEOUT_SECONDS
+} from '@geofence/shared';
 import { compareSync, hashSync } from 'bcryptjs';
 import { validateBody, requireAccount } from '../middleware/validation.js';
 import { requireAuth } from '../middleware/auth.js';
@@ -28,7 +37,18 @@ const OrganizationUpdateSchema = z.object({
   location_retention_days: z.number().min(1).max(3650).optional(),
   event_retention_days: z.number().min(1).max(3650).optional(),
   default_map_region: z.enum(['auto', 'us', 'eu', 'asia', 'global']).optional(),
-  coordinate_format: z.enum(['decimal', 'dms']).optional()
+  coordinate_format: z.enum(['decimal', 'dms']).optional(),
+  // Below 0.5 an uncertain fix could satisfy both the enter and the exit condition
+  transition_confidence_threshold: z.number().min(0.5).max(1).optional(),
+  low_accuracy_policy: z.enum(['hold', 'flag']).optional(),
+  // null turns presence timeouts off for geofences without their own
+  presence_timeout_seconds: z.number().int().min(60).max(MAX_PRESENCE_TIMEOUT_SECONDS).nullable().optional(),
+  outlier_filter_enabled: z.boolean().optional(),
+  kalman_smoothing_enabled: z.boolean().optional(),
+  kalman_process_noise_mps2: z.number().positive().max(100).optional(),
+  trip_stop_speed_mps: z.number().positive().max(10).optional(),
+  trip_min_stop_seconds: z.number().int().min(30).max(86400).optional(),
+  trip_max_gap_seconds: z.number().int().min(60).max(86400).optional()
 });
 
 const NotificationUpdateSchema = z.object({
@@ -229,7 +249,7 @@ router.get('/organization', requireAuth, requireAccount, async (req, res) => {
 
     const queryText = `
       SELECT
-        a.id, a.name, a.settings
+        a.id, a.name, a.settings, a.timezone
       FROM accounts a
       WHERE a.owner_id = $1
     `;
@@ -256,14 +276,23 @@ router.get('/organization', requireAuth, requireAccount, async (req, res) => {
       data: {
         id: org.id,
         name: org.name,
-        timezone: settings.timezone || 'UTC',
+        timezone: settings.timezone || org.timezone || 'UTC',
         date_format: settings.date_format || 'MM/DD/YYYY',
         time_format: settings.time_format || '12',
         distance_unit: settings.distance_unit || 'metric',
         location_retention_days: settings.location_retention_days || 30,
         event_retention_days: settings.event_retention_days || 90,
         default_map_region: settings.default_map_region || 'auto',
-        coordinate_format: settings.coordinate_format || 'decimal'
+        coordinate_format: settings.coordinate_format || 'decimal',
+        transition_confidence_threshold: settings.transition_confidence_threshold ?? DEFAULT_TRANSITION_CONFIDENCE_THRESHOLD,
+        low_accuracy_policy: settings.low_accuracy_policy || DEFAULT_LOW_ACCURACY_POLICY,
+        presence_timeout_seconds: settings.presence_timeout_seconds ?? null,
+        outlier_filter_enabled: settings.outlier_filter_enabled ?? true,
+        kalman_smoothing_enabled: settings.kalman_smoothing_enabled ?? false,
+        kalman_process_noise_mps2: settings.kalman_process_noise_mps2 ?? DEFAULT_KALMAN_PROCESS_NOISE_MPS2,
+        trip_stop_speed_mps: settings.trip_stop_speed_mps ?? DEFAULT_TRIP_STOP_SPEED_MPS,
+        trip_min_stop_seconds: settings.trip_min_stop_seconds ?? DEFAULT_TRIP_MIN_STOP_SECONDS,
+        trip_max_gap_seconds: settings.trip_max_gap_seconds ?? DEFAULT_TRIP_MAX_GAP_SECONDS
       }
     });
   } catch (error) {
@@ -291,6 +320,15 @@ router.put('/organization', requireAuth, requireAccount, validateBody(Organizati
     if (updates.event_retention_days !== undefined) settings.event_retention_days = updates.event_retention_days;
     if (updates.default_map_region) settings.default_map_region = updates.default_map_region;
     if (updates.coordinate_format) settings.coordinate_format = updates.coordinate_format;
+    if (updates.transition_confidence_threshold !== undefined) settings.transition_confidence_threshold = updates.transition_confidence_threshold;
+    if (updates.low_accuracy_policy) settings.low_accuracy_policy = updates.low_accuracy_policy;
+    if (updates.presence_timeout_seconds !== undefined) settings.presence_timeout_seconds = updates.presence_timeout_seconds;
+    if (updates.outlier_filter_enabled !== undefined) settings.outlier_filter_enabled = updates.outlier_filter_enabled;
+    if (updates.kalman_smoothing_enabled !== undefined) settings.kalman_smoothing_enabled = updates.kalman_smoothing_enabled;
+    if (updates.kalman_process_noise_mps2 !== undefined) settings.kalman_process_noise_mps2 = updates.kalman_process_noise_mps2;
+    if (updates.trip_stop_speed_mps !== undefined) settings.trip_stop_speed_mps = updates.trip_stop_speed_mps;
+    if (updates.trip_min_stop_seconds !== undefined) settings.trip_min_stop_seconds = updates.trip_min_stop_seconds;
+    if (updates.trip_max_gap_seconds !== undefined) settings.trip_max_gap_seconds = updates.trip_max_gap_seconds;
 
     let nameParam = null;
     let nameIndex = 1;
@@ -300,7 +338,14 @@ router.put('/organization', requireAuth, requireAccount, validateBody(Organizati
 
     const settingsJson = `$${nameIndex++}::jsonb`;
 
-    const setClause = nameParam ? `name = ${nameParam}, settings = ${settingsJson}` : `settings = ${settingsJson}`;
+    // Merge so settings that weren't part of this update are kept
+    const mergedSettings = `COALESCE(settings, '{}'::jsonb) || ${settingsJson}`;
+    let setClause = nameParam ? `name = ${nameParam}, settings = ${mergedSettings}` : `settings = ${mergedSettings}`;
+
+    // The geofence engine evaluates schedules in accounts.timezone
+    if (updates.timezone) {
+      setClause += `, timezone = $${nameIndex++}`;
+    }
 
     const queryText = `
       UPDATE accounts 
@@ -311,7 +356,9 @@ router.put('/organization', requireAuth, requireAccount, validateBody(Organizati
 
     const values = [];
     if (updates.name) values.push(updates.name);
-    values.push(JSON.stringify(settings), accountId);
+    values.push(JSON.stringify(settings));
+    if (updates.timezone) values.push(updates.timezone);
+    values.push(accountId);
 
     const result = await dbQuery(queryText, values);
 
@@ -23,6 +23,7 @@ import { automationRoutes, automationRulesRoutes } from './routes/automations.js
 import { settingsRoutes } from './routes/settings.js';
 import { analyticsRoutes } from './routes/analytics.js';
 import { apiKeyRoutes } from './routes/apiKeys.js';
+import { beaconRoutes } from './routes/beacons.js';
 import { initializeKafka, shutdownKafka } from './kafka/producer.js';
 import { connectDb, disconnectDb } from '@geofence/db';
 
@@ -72,7 +73,8 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-api-key']
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-api-key'],
+  exposedHeaders: ['Content-Disposition', 'X-Geofences-Skipped'] // Read by geofence exports
 }));
 
 // Rate limiting - more granular limits with proper proxy handling
@@ -147,6 +149,7 @@ app.use('/api/settings', settingsRoutes);
 app.use('/settings', settingsRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/beacons', beaconRoutes);
 
 app.use(errorHandler);
 
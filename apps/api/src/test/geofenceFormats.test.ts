@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ExportedGeofence,
+  GeofenceFileFormat,
+  readGeofenceFile,
+  writeGeofenceFile
+} from '../utils/geofenceFormats.js';
+
+const square = (lon: number, lat: number, size: number) => [
+  [lon, lat],
+  [lon + size, lat],
+  [lon + size, lat + size],
+  [lon, lat + size],
+  [lon, lat]
+];
+
+const circle: ExportedGeofence = {
+  id: 'a1',
+  externalId: 'depot-1',
+  name: 'Depot & "Yard"',
+  description: 'Main <depot>',
+  type: 'circle',
+  geometry: { type: 'Point', coordinates: [13.4, 52.5] },
+  radiusM: 150,
+  widthM: null,
+  metadata: { zone: 'north', dock: 3 }
+};
+
+const point: ExportedGeofence = {
+  id: 'b2',
+  externalId: null,
+  name: 'Gate',
+  description: null,
+  type: 'point',
+  geometry: { type: 'Point', coordinates: [13.41, 52.51] },
+  radiusM: null,
+  widthM: null,
+  metadata: {}
+};
+
+const polygon: ExportedGeofence = {
+  id: 'c3',
+  externalId: 'yard',
+  name: 'Yard',
+  description: null,
+  type: 'polygon',
+  geometry: { type: 'Polygon', coordinates: [square(13.42, 52.52, 0.01)] },
+  radiusM: null,
+  widthM: null,
+  metadata: {}
+};
+
+const corridor: ExportedGeofence = {
+  id: 'd4',
+  externalId: 'route-7',
+  name: 'Route 7',
+  description: 'Delivery run',
+  type: 'corridor',
+  geometry: { type: 'LineString', coordinates: [[13.4, 52.5], [13.45, 52.55], [13.5, 52.5]] },
+  radiusM: null,
+  widthM: 30,
+  metadata: { depot: 'depot-1' }
+};
+
+const polygonWithHole: ExportedGeofence = {
+  ...polygon,
+  id: 'e5',
+  externalId: 'campus',
+  name: 'Campus',
+  geometry: { type: 'Polygon', coordinates: [square(13.3, 52.4, 0.02), square(13.305, 52.405, 0.005)] }
+};
+
+const multiPolygon: ExportedGeofence = {
+  ...polygon,
+  id: 'f6',
+  externalId: 'sites',
+  name: 'Sites',
+  geometry: { type: 'MultiPolygon', coordinates: [[square(13.1, 52.1, 0.01)], [square(13.2, 52.2, 0.01)]] }
+};
+
+const latLng = ([longitude, latitude]: number[]) => ({ latitude, longitude });
+
+// The create body a geofence should be read back into
+const expectedBody = (geofence: ExportedGeofence) => {
+  const common = {
+    name: geofence.name,
+    description: geofence.description ?? undefined,
+    metadata: geofence.metadata
+  };
+
+  switch (geofence.type) {
+    case 'circle':
+      return { ...common, type: 'circle', center: latLng(geofence.geometry.coordinates), radius: geofence.radiusM };
+    case 'point':
+      return { ...common, type: 'point', coordinates: [latLng(geofence.geometry.coordinates)] };
+    case 'polygon':
+      return { ...common, type: 'polygon', geometry: geofence.geometry };
+    case 'corridor':
+      return { ...common, type: 'corridor', path: geofence.geometry.coordinates.map(latLng), width: geofence.widthM };
+  }
+};
+
+const roundTrip = (format: GeofenceFileFormat, geofences: ExportedGeofence[]) => {
+  const { content, skipped } = writeGeofenceFile(format, geofences);
+  return { candidates: readGeofenceFile(format, content), skipped };
+};
+
+describe('geofence file formats', () => {
+  describe('round trip', () => {
+    const everyShape = [circle, point, polygon, corridor, polygonWithHole, multiPolygon];
+
+    it.each(['geojson', 'kml'] as const)('reads back every geofence exported as %s', format => {
+      const { candidates, skipped } = roundTrip(format, everyShape);
+
+      expect(skipped).toBe(0);
+      expect(candidates).toHaveLength(everyShape.length);
+      candidates.forEach((candidate, i) => {
+        expect(candidate.errors).toEqual([]);
+        expect(candidate.warnings).toEqual([]);
+        expect(candidate.externalId).toBe(everyShape[i].externalId ?? everyShape[i].id);
+        expect(candidate.body).toEqual(expectedBody(everyShape[i]));
+      });
+    });
+
+    it('reads back the geofences GPX can hold, and skips the rest', () => {
+      const { candidates, skipped } = roundTrip('gpx', everyShape);
+
+      expect(skipped).toBe(2);
+      expect(candidates).toHaveLength(4);
+      [circle, point, polygon, corridor].forEach((geofence, i) => {
+        expect(candidates[i].errors).toEqual([]);
+        expect(candidates[i].externalId).toBe(geofence.externalId ?? geofence.id);
+        expect(candidates[i].body).toEqual(expectedBody(geofence));
+      });
+    });
+  });
+
+  describe('malformed files', () => {
+    it('throws when the file itself cannot be read', () => {
+      expect(() => readGeofenceFile('geojson', '{"type": "Point"}')).toThrow('Expected a GeoJSON Feature');
+      expect(() => readGeofenceFile('geojson', '{"type": ')).toThrow();
+      expect(() => readGeofenceFile('kml', '<kml><Document><Placemark>')).toThrow('Missing closing tag');
+      expect(() => readGeofenceFile('gpx', '<kml/>')).toThrow('Expected a <gpx> document');
+      expect(() => readGeofenceFile('kml', { type: 'FeatureCollection' })).toThrow('Expected KML content as text');
+    });
+
+    it('reads CDATA and namespace-prefixed KML', () => {
+      const [candidate] = readGeofenceFile(
+        'kml',
+        `<?xml version="1.0"?>
+        <k:kml xmlns:k="http://www.opengis.net/kml/2.2">
+          <k:Placemark id="gate-2">
+            <k:name><![CDATA[Gate <2> & more]]></k:name>
+            <k:Point><k:coordinates>13.4,52.5,0</k:coordinates></k:Point>
+          </k:Placemark>
+        </k:kml>`
+      );
+
+      expect(candidate.errors).toEqual([]);
+      expect(candidate.externalId).toBe('gate-2');
+      expect(candidate.body).toMatchObject({ name: 'Gate <2> & more', type: 'point' });
+    });
+
+    it('reports problems with a feature on its candidate', () => {
+      const candidates = readGeofenceFile('geojson', {
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', geometry: { type: 'Point', coordinates: [13.4, 52.5] }, properties: {} },
+          {
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [13.4, 52.5] },
+            properties: { name: 'Follow me', geofence_type: 'proximity' }
+          },
+          {
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [13.4, 52.5] },
+            properties: { name: 'No radius', geofence_type: 'circle' }
+          },
+          {
+            type: 'Feature',
+            geometry: { type: 'LineString', coordinates: [[13.4, 52.5], [13.5, 52.5]] },
+            properties: { name: 'Road', metadata: 'not json' }
+          }
+        ]
+      });
+
+      expect(candidates[0].errors).toEqual(['Missing name (property "name")']);
+      expect(candidates[1].errors).toEqual(['Proximity geofences follow a device and cannot be imported']);
+      expect(candidates[2].errors).toEqual(['A circle needs a radius_m property']);
+      expect(candidates[2].body).toBeUndefined();
+      expect(candidates[3].errors).toEqual([]);
+      expect(candidates[3].warnings).toEqual(['Ignored metadata that is not an object', 'No width_m property, using 50 m']);
+    });
+  });
+});
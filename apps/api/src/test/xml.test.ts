@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { childText, descendantElements, escapeXml, parseXml } from '../utils/xml.js';
+
+describe('parseXml', () => {
+  it('reads elements, attributes and text', () => {
+    const root = parseXml('<?xml version="1.0"?><a id="1"><b n=\'x\'>hello</b><c/></a>');
+
+    expect(root.name).toBe('a');
+    expect(root.attributes).toEqual({ id: '1' });
+    expect(root.children.map(child => child.name)).toEqual(['b', 'c']);
+    expect(root.children[0].attributes).toEqual({ n: 'x' });
+    expect(childText(root, 'b')).toBe('hello');
+  });
+
+  it('drops namespace prefixes from element and attribute names', () => {
+    const root = parseXml(
+      '<kml:kml xmlns:kml="http://www.opengis.net/kml/2.2"><kml:Placemark gx:id="p1"/></kml:kml>'
+    );
+
+    expect(root.name).toBe('kml');
+    expect(root.attributes).toEqual({ kml: 'http://www.opengis.net/kml/2.2' });
+    expect(root.children[0]).toMatchObject({ name: 'Placemark', attributes: { id: 'p1' } });
+  });
+
+  it('keeps CDATA as text without reading markup or entities in it', () => {
+    const root = parseXml('<a>before <![CDATA[x < y && <b>not a tag</b> &amp;]]></a>');
+
+    expect(root.text).toBe('before x < y && <b>not a tag</b> &amp;');
+    expect(root.children).toEqual([]);
+  });
+
+  it('skips comments, processing instructions and DTDs', () => {
+    const root = parseXml('<!DOCTYPE a><!-- <b/> --><a><?pi data?><!-- <c/> --><d/></a>');
+    expect(root.children.map(child => child.name)).toEqual(['d']);
+  });
+
+  it('decodes entities in text and attributes', () => {
+    const root = parseXml('<a t="&quot;q&quot;">&lt;&#65;&#x42;&amp;&apos;&unknown;</a>');
+
+    expect(root.text).toBe("<AB&'&unknown;");
+    expect(root.attributes.t).toBe('"q"');
+  });
+
+  it('leaves character references outside Unicode as written', () => {
+    expect(parseXml('<a>&#x110000;&#1114112;&#x10FFFF;</a>').text).toBe('&#x110000;&#1114112;\u{10FFFF}');
+  });
+
+  it('reads back what escapeXml wrote', () => {
+    const value = `Tom & Jerry's "<depot>"`;
+    const root = parseXml(`<a v="${escapeXml(value)}">${escapeXml(value)}</a>`);
+
+    expect(root.text).toBe(value);
+    expect(root.attributes.v).toBe(value);
+  });
+
+  it('finds descendants in document order', () => {
+    const root = parseXml('<a><p id="1"><p id="2"/></p><b><p id="3"/></b></a>');
+    expect(descendantElements(root, 'p').map(p => p.attributes.id)).toEqual(['1', '2', '3']);
+  });
+
+  describe('malformed documents', () => {
+    it('rejects an unclosed element', () => {
+      expect(() => parseXml('<kml><Document><name>x</name>')).toThrow('Missing closing tag for <Document>');
+    });
+
+    it('rejects a mismatched closing tag', () => {
+      expect(() => parseXml('<a><b></a></b>')).toThrow('Unexpected closing tag </a>');
+      expect(() => parseXml('<a></a></a>')).toThrow('Unexpected closing tag </a>');
+    });
+
+    it('rejects unterminated markup', () => {
+      expect(() => parseXml('<a><!-- never closed </a>')).toThrow('Unterminated markup');
+      expect(() => parseXml('<a><![CDATA[never closed</a>')).toThrow('Unterminated markup');
+      expect(() => parseXml('<a><b')).toThrow('Unterminated markup');
+    });
+
+    it('rejects a tag without a name', () => {
+      expect(() => parseXml('<a>< b/></a>')).toThrow('Invalid tag');
+    });
+
+    it('rejects anything but a single root element', () => {
+      expect(() => parseXml('<a/><b/>')).toThrow('Expected a single root element');
+      expect(() => parseXml('just text')).toThrow('Expected a single root element');
+    });
+  });
+});
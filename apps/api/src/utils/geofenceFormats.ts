@@ -0,0 +1,480 @@
+import {
+  XmlElement,
+  parseXml,
+  childElement,
+  childElements,
+  childText,
+  descendantElements,
+  escapeXml
+} from './xml.js';
+
+export type GeofenceFileFormat = 'geojson' | 'kml' | 'gpx';
+
+// Which feature properties hold the geofence's name, description and external ID
+export interface ImportPropertyMapping {
+  name: string;
+  description: string;
+  external_id: string;
+}
+
+export const DEFAULT_PROPERTY_MAPPING: ImportPropertyMapping = {
+  name: 'name',
+  description: 'description',
+  external_id: 'external_id'
+};
+
+// Lines imported without a width become corridors this wide
+export const DEFAULT_IMPORT_CORRIDOR_WIDTH_M = 50;
+
+/**
+ * One feature of an imported file, read into the body a geofence would be created with.
+ * The body is only checked for what the file format can get wrong; the API validates it
+ * like any other create request.
+ */
+export interface ImportCandidate {
+  index: number;
+  externalId?: string;
+  body?: Record<string, unknown>;
+  errors: string[];
+  warnings: string[];
+}
+
+// A geofence as exported; circles are their center point and radius
+export interface ExportedGeofence {
+  id: string;
+  externalId: string | null;
+  name: string;
+  description: string | null;
+  type: 'circle' | 'polygon' | 'point' | 'corridor';
+  geometry: { type: string; coordinates: any };
+  radiusM: number | null;
+  widthM: number | null;
+  metadata: Record<string, unknown>;
+}
+
+// Every file format is read into GeoJSON-like features before becoming geofences
+interface SourceFeature {
+  id?: string | number;
+  geometry: { type?: string; coordinates?: any } | null;
+  properties: Record<string, unknown>;
+}
+
+const IMPORTABLE_TYPES = ['circle', 'polygon', 'point', 'corridor'];
+
+// Properties that shape the geofence rather than being kept in its metadata
+const SHAPE_PROPERTIES = ['geofence_type', 'radius_m', 'radius', 'width_m', 'width', 'metadata'];
+
+const GPX_NAMESPACE = 'urn:geofence:gpx:1';
+
+const stringProperty = (value: unknown): string | undefined => {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const numberProperty = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+// Metadata is an object in GeoJSON, and JSON text in KML and GPX
+const metadataProperty = (value: unknown): Record<string, unknown> | undefined => {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+};
+
+// Positions lose any altitude; malformed ones become NaN for validation to report
+const toPosition = (position: unknown): [number, number] =>
+  Array.isArray(position) ? [Number(position[0]), Number(position[1])] : [NaN, NaN];
+
+const toLatLng = (position: unknown) => {
+  const [longitude, latitude] = toPosition(position);
+  return { latitude, longitude };
+};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Works out which kind of geofence a feature becomes: points with a radius are circles,
+ * polygons are polygons and lines are corridors, unless the feature's geofence_type says
+ * otherwise.
+ */
+const readFeature = (feature: SourceFeature, index: number, mapping: ImportPropertyMapping): ImportCandidate => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const properties = feature.properties;
+
+  const name = stringProperty(properties[mapping.name]);
+  const description = stringProperty(properties[mapping.description]);
+  const externalId =
+    stringProperty(properties[mapping.external_id]) ?? (feature.id !== undefined ? String(feature.id) : undefined);
+  const requestedType = stringProperty(properties.geofence_type);
+  const radius = numberProperty(properties.radius_m ?? properties.radius);
+  const width = numberProperty(properties.width_m ?? properties.width);
+
+  if (properties.metadata !== undefined && !metadataProperty(properties.metadata)) {
+    warnings.push('Ignored metadata that is not an object');
+  }
+  let metadata = metadataProperty(properties.metadata) ?? {};
+
+  // Anything else the GIS tool attached is kept rather than lost
+  const mapped = new Set([mapping.name, mapping.description, mapping.external_id, ...SHAPE_PROPERTIES]);
+  const extra = Object.fromEntries(Object.entries(properties).filter(([key]) => !mapped.has(key)));
+  if (Object.keys(extra).length > 0) {
+    metadata = { ...metadata, properties: extra };
+  }
+
+  if (!name) errors.push(`Missing name (property "${mapping.name}")`);
+  if (requestedType && !IMPORTABLE_TYPES.includes(requestedType)) {
+    errors.push(
+      requestedType === 'proximity'
+        ? 'Proximity geofences follow a device and cannot be imported'
+        : `Unknown geofence_type "${requestedType}"`
+    );
+  }
+  if (errors.length > 0) return { index, externalId, errors, warnings };
+
+  const common = { name, description, metadata };
+  const geometry = feature.geometry;
+  const mismatch = (geometryType: string) => `geofence_type "${requestedType}" does not match a ${geometryType}`;
+
+  let body: Record<string, unknown> | undefined;
+  switch (geometry?.type) {
+    case 'Point': {
+      const type = requestedType ?? (radius !== undefined ? 'circle' : 'point');
+      if (type === 'circle') {
+        if (radius === undefined) errors.push('A circle needs a radius_m property');
+        body = { ...common, type, center: toLatLng(geometry.coordinates), radius };
+      } else if (type === 'point') {
+        body = { ...common, type, coordinates: [toLatLng(geometry.coordinates)] };
+      } else {
+        errors.push(mismatch('Point'));
+      }
+      break;
+    }
+    case 'Polygon':
+    case 'MultiPolygon': {
+      if (requestedType && requestedType !== 'polygon') errors.push(mismatch(geometry.type));
+      const coordinates =
+        geometry.type === 'Polygon'
+          ? asArray(geometry.coordinates).map(ring => asArray(ring).map(toPosition))
+          : asArray(geometry.coordinates).map(part => asArray(part).map(ring => asArray(ring).map(toPosition)));
+      body = { ...common, type: 'polygon', geometry: { type: geometry.type, coordinates } };
+      break;
+    }
+    case 'LineString': {
+      if (requestedType && requestedType !== 'corridor') errors.push(mismatch('LineString'));
+      if (width === undefined) {
+        warnings.push(`No width_m property, using ${DEFAULT_IMPORT_CORRIDOR_WIDTH_M} m`);
+      }
+      body = {
+        ...common,
+        type: 'corridor',
+        path: asArray(geometry.coordinates).map(toLatLng),
+        width: width ?? DEFAULT_IMPORT_CORRIDOR_WIDTH_M
+      };
+      break;
+    }
+    default:
+      errors.push(geometry?.type ? `Unsupported geometry type ${geometry.type}` : 'Missing geometry');
+  }
+
+  return { index, externalId, body: errors.length === 0 ? body : undefined, errors, warnings };
+};
+
+const readGeoJsonFeatures = (content: unknown): SourceFeature[] => {
+  const document = typeof content === 'string' ? JSON.parse(content) : content;
+
+  const features =
+    document?.type === 'FeatureCollection' ? asArray(document.features)
+      : document?.type === 'Feature' ? [document]
+        : null;
+  if (!features) throw new Error('Expected a GeoJSON Feature or FeatureCollection');
+
+  return features.map((feature: any) => ({
+    id: feature?.id,
+    geometry: feature?.geometry ?? null,
+    properties: feature?.properties && typeof feature.properties === 'object' ? feature.properties : {}
+  }));
+};
+
+// KML coordinates are whitespace-separated "lon,lat[,alt]" tuples
+const readKmlCoordinates = (element: XmlElement | undefined): number[][] =>
+  (element ? childText(element, 'coordinates') ?? '' : '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => tuple.split(',').map(Number));
+
+const readKmlRing = (boundary: XmlElement) => readKmlCoordinates(childElement(boundary, 'LinearRing'));
+
+const readKmlGeometry = (element: XmlElement): SourceFeature['geometry'] => {
+  switch (element.name) {
+    case 'Point':
+      return { type: 'Point', coordinates: readKmlCoordinates(element)[0] };
+    case 'LineString':
+      return { type: 'LineString', coordinates: readKmlCoordinates(element) };
+    case 'Polygon': {
+      const outer = childElement(element, 'outerBoundaryIs');
+      const holes = childElements(element, 'innerBoundaryIs').map(readKmlRing);
+      return { type: 'Polygon', coordinates: outer ? [readKmlRing(outer), ...holes] : [] };
+    }
+    case 'MultiGeometry': {
+      const parts = element.children.map(readKmlGeometry).filter(part => part !== null);
+      if (parts.length === 1) return parts[0];
+      if (parts.length > 1 && parts.every(part => part?.type === 'Polygon')) {
+        return { type: 'MultiPolygon', coordinates: parts.map(part => part?.coordinates) };
+      }
+      return { type: 'MultiGeometry' };
+    }
+    default:
+      return null;
+  }
+};
+
+// Placemark values from <ExtendedData>, both untyped <Data> and schema <SimpleData>
+const readKmlExtendedData = (placemark: XmlElement): Record<string, unknown> => {
+  const extendedData = childElement(placemark, 'ExtendedData');
+  if (!extendedData) return {};
+
+  const values: Record<string, unknown> = {};
+  for (const data of childElements(extendedData, 'Data')) {
+    if (data.attributes.name) values[data.attributes.name] = childText(data, 'value') ?? '';
+  }
+  for (const simpleData of descendantElements(extendedData, 'SimpleData')) {
+    if (simpleData.attributes.name) values[simpleData.attributes.name] = simpleData.text.trim();
+  }
+  return values;
+};
+
+const readKmlFeatures = (content: string): SourceFeature[] =>
+  descendantElements(parseXml(content), 'Placemark').map(placemark => {
+    const properties = readKmlExtendedData(placemark);
+    const name = childText(placemark, 'name');
+    const description = childText(placemark, 'description');
+    if (name !== undefined) properties.name = name;
+    if (description !== undefined) properties.description = description;
+
+    const geometry = placemark.children.map(readKmlGeometry).find(candidate => candidate !== null) ?? null;
+    return { id: placemark.attributes.id, geometry, properties };
+  });
+
+const readGpxPosition = (point: XmlElement) => [Number(point.attributes.lon), Number(point.attributes.lat)];
+
+// Name, description and type, plus every value under <extensions>
+const gpxExtensionValues = (element: XmlElement): [string, string][] =>
+  element.children.flatMap(child =>
+    child.children.length === 0 ? [[child.name, child.text.trim()] as [string, string]] : gpxExtensionValues(child)
+  );
+
+const readGpxProperties = (element: XmlElement): Record<string, unknown> => {
+  const extensions = childElement(element, 'extensions');
+  const properties: Record<string, unknown> = Object.fromEntries(extensions ? gpxExtensionValues(extensions) : []);
+
+  const name = childText(element, 'name');
+  const description = childText(element, 'desc');
+  const type = childText(element, 'type');
+  if (name !== undefined) properties.name = name;
+  if (description !== undefined) properties.description = description;
+  if (type !== undefined) properties[IMPORTABLE_TYPES.includes(type) ? 'geofence_type' : 'type'] = type;
+  return properties;
+};
+
+/**
+ * GPX waypoints become points (circles with a radius), and routes and tracks become
+ * corridors, or polygons when they are closed or typed "polygon".
+ */
+const readGpxFeatures = (content: string): SourceFeature[] => {
+  const gpx = parseXml(content);
+  if (gpx.name !== 'gpx') throw new Error('Expected a <gpx> document');
+
+  const waypoints = childElements(gpx, 'wpt').map(waypoint => ({
+    geometry: { type: 'Point', coordinates: readGpxPosition(waypoint) },
+    properties: readGpxProperties(waypoint)
+  }));
+
+  const paths = [
+    ...childElements(gpx, 'rte').map(route => ({ element: route, points: childElements(route, 'rtept') })),
+    ...childElements(gpx, 'trk').map(track => ({
+      element: track,
+      points: childElements(track, 'trkseg').flatMap(segment => childElements(segment, 'trkpt'))
+    }))
+  ].map(({ element, points }) => {
+    const properties = readGpxProperties(element);
+    const positions = points.map(readGpxPosition);
+    const first = positions[0];
+    const last = positions[positions.length - 1];
+    const closed = positions.length >= 4 && first[0] === last[0] && first[1] === last[1];
+
+    const type = properties.geofence_type ?? (closed ? 'polygon' : 'corridor');
+    if (type !== 'polygon') return { geometry: { type: 'LineString', coordinates: positions }, properties };
+
+    const ring = closed || positions.length === 0 ? positions : [...positions, first];
+    return { geometry: { type: 'Polygon', coordinates: [ring] }, properties };
+  });
+
+  return [...waypoints, ...paths];
+};
+
+/**
+ * Reads every feature of an imported file. Throws when the file itself can't be read;
+ * problems with individual features are reported on their candidate instead.
+ */
+export function readGeofenceFile(
+  format: GeofenceFileFormat,
+  content: unknown,
+  mapping: ImportPropertyMapping = DEFAULT_PROPERTY_MAPPING
+): ImportCandidate[] {
+  if (format !== 'geojson' && typeof content !== 'string') {
+    throw new Error(`Expected ${format.toUpperCase()} content as text`);
+  }
+
+  const features =
+    format === 'geojson' ? readGeoJsonFeatures(content)
+      : format === 'kml' ? readKmlFeatures(content as string)
+        : readGpxFeatures(content as string);
+
+  return features.map((feature, index) => readFeature(feature, index, mapping));
+}
+
+const exportedProperties = (geofence: ExportedGeofence): Record<string, unknown> => ({
+  name: geofence.name,
+  description: geofence.description ?? undefined,
+  external_id: geofence.externalId ?? geofence.id,
+  geofence_type: geofence.type,
+  radius_m: geofence.radiusM ?? undefined,
+  width_m: geofence.widthM ?? undefined
+});
+
+const toGeoJson = (geofences: ExportedGeofence[]) =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: geofences.map(geofence => ({
+      type: 'Feature',
+      id: geofence.externalId ?? geofence.id,
+      geometry: geofence.geometry,
+      properties: { ...exportedProperties(geofence), metadata: geofence.metadata }
+    }))
+  }, null, 2);
+
+const kmlCoordinates = (positions: number[][]) =>
+  `<coordinates>${positions.map(([lon, lat]) => `${lon},${lat}`).join(' ')}</coordinates>`;
+
+const kmlPolygon = (rings: number[][][]) =>
+  '<Polygon>' +
+  `<outerBoundaryIs><LinearRing>${kmlCoordinates(rings[0])}</LinearRing></outerBoundaryIs>` +
+  rings.slice(1).map(ring => `<innerBoundaryIs><LinearRing>${kmlCoordinates(ring)}</LinearRing></innerBoundaryIs>`).join('') +
+  '</Polygon>';
+
+const kmlGeometry = ({ type, coordinates }: ExportedGeofence['geometry']) => {
+  switch (type) {
+    case 'Point':
+      return `<Point>${kmlCoordinates([coordinates])}</Point>`;
+    case 'LineString':
+      return `<LineString>${kmlCoordinates(coordinates)}</LineString>`;
+    case 'Polygon':
+      return kmlPolygon(coordinates);
+    default:
+      return `<MultiGeometry>${coordinates.map(kmlPolygon).join('')}</MultiGeometry>`;
+  }
+};
+
+const toKml = (geofences: ExportedGeofence[]) => {
+  const placemarks = geofences.map(geofence => {
+    const data = Object.entries({ ...exportedProperties(geofence), metadata: JSON.stringify(geofence.metadata) })
+      .filter(([key, value]) => value !== undefined && key !== 'name' && key !== 'description')
+      .map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`);
+
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(geofence.name)}</name>`,
+      ...(geofence.description ? [`      <description>${escapeXml(geofence.description)}</description>`] : []),
+      '      <ExtendedData>',
+      ...data,
+      '      </ExtendedData>',
+      `      ${kmlGeometry(geofence.geometry)}`,
+      '    </Placemark>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>Geofences</name>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
+
+// GPX has no areas with holes or several parts, so those polygons are left out
+const isGpxExportable = (geofence: ExportedGeofence) =>
+  geofence.geometry.type !== 'MultiPolygon' &&
+  !(geofence.geometry.type === 'Polygon' && geofence.geometry.coordinates.length > 1);
+
+const gpxFields = (geofence: ExportedGeofence) => {
+  const extensions = Object.entries({
+    ...exportedProperties(geofence),
+    metadata: JSON.stringify(geofence.metadata)
+  }).filter(([key, value]) => value !== undefined && !['name', 'description', 'geofence_type'].includes(key));
+
+  return [
+    `<name>${escapeXml(geofence.name)}</name>`,
+    ...(geofence.description ? [`<desc>${escapeXml(geofence.description)}</desc>`] : []),
+    `<type>${geofence.type}</type>`,
+    `<extensions>${extensions.map(([key, value]) => `<gf:${key}>${escapeXml(String(value))}</gf:${key}>`).join('')}</extensions>`
+  ].join('');
+};
+
+const toGpx = (geofences: ExportedGeofence[]) => {
+  const point = (tag: string, [lon, lat]: number[]) => `<${tag} lat="${lat}" lon="${lon}"/>`;
+
+  // GPX wants every waypoint ahead of the routes
+  const waypoints = geofences
+    .filter(geofence => geofence.geometry.type === 'Point')
+    .map(geofence => {
+      const [lon, lat] = geofence.geometry.coordinates;
+      return `  <wpt lat="${lat}" lon="${lon}">${gpxFields(geofence)}</wpt>`;
+    });
+
+  const routes = geofences
+    .filter(geofence => geofence.geometry.type !== 'Point' && isGpxExportable(geofence))
+    .map(geofence => {
+      const positions: number[][] =
+        geofence.geometry.type === 'Polygon' ? geofence.geometry.coordinates[0] : geofence.geometry.coordinates;
+      return `  <rte>${gpxFields(geofence)}${positions.map(position => point('rtept', position)).join('')}</rte>`;
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="GeoFence Webhooks" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gf="${GPX_NAMESPACE}">`,
+    ...waypoints,
+    ...routes,
+    '</gpx>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Writes geofences as a file of the given format, returning how many had to be left out
+ * because the format can't represent them.
+ */
+export function writeGeofenceFile(
+  format: GeofenceFileFormat,
+  geofences: ExportedGeofence[]
+): { content: string; skipped: number } {
+  switch (format) {
+    case 'geojson':
+      return { content: toGeoJson(geofences), skipped: 0 };
+    case 'kml':
+      return { content: toKml(geofences), skipped: 0 };
+    case 'gpx':
+      return { content: toGpx(geofences), skipped: geofences.filter(geofence => !isGpxExportable(geofence)).length };
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * A small XML reader and writer, enough for the KML and GPX files geofences are imported
+ * from and exported to. Namespace prefixes are dropped from element and attribute names,
+ * and DTDs are skipped rather than processed.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // The element's own text and CDATA, not its children's
+}
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+// Character references beyond the last Unicode code point are left as written
+const decodeCharacter = (entity: string, codePoint: number) =>
+  codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, ref: string) => {
+    if (ref.startsWith('#x')) return decodeCharacter(entity, parseInt(ref.slice(2), 16));
+    if (ref.startsWith('#')) return decodeCharacter(entity, parseInt(ref.slice(1), 10));
+    return NAMED_ENTITIES[ref] ?? entity;
+  });
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4]);
+  }
+  return attributes;
+};
+
+/**
+ * Parses an XML document into its root element. Throws when the document isn't
+ * well-formed enough to build a tree from.
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end === -1) throw new Error(`Unterminated markup at offset ${position}`);
+    const content = source.slice(position, end);
+    position = end + terminator.length;
+    return content;
+  };
+
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position);
+    const text = source.slice(position, tagStart === -1 ? source.length : tagStart);
+    if (text.trim()) stack[stack.length - 1].text += decodeEntities(text);
+    if (tagStart === -1) break;
+    position = tagStart;
+
+    if (source.startsWith('<!--', position)) {
+      skipPast('-->');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      position += '<![CDATA['.length;
+      stack[stack.length - 1].text += skipPast(']]>');
+    } else if (source.startsWith('<?', position)) {
+      skipPast('?>');
+    } else if (source.startsWith('<!', position)) {
+      skipPast('>');
+    } else if (source.startsWith('</', position)) {
+      position += 2;
+      const name = localName(skipPast('>').trim());
+      const element = stack.pop();
+      if (!element || element === root || element.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+    } else {
+      position += 1;
+      const tag = skipPast('>');
+      const selfClosing = tag.endsWith('/');
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameEnd = body.search(/\s|$/);
+
+      const element: XmlElement = {
+        name: localName(body.slice(0, nameEnd)),
+        attributes: parseAttributes(body.slice(nameEnd)),
+        children: [],
+        text: ''
+      };
+      if (!element.name) throw new Error(`Invalid tag at offset ${tagStart}`);
+
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`Missing closing tag for <${stack[stack.length - 1].name}>`);
+  if (root.children.length !== 1) throw new Error('Expected a single root element');
+  return root.children[0];
+}
+
+// The element's direct children with the given name
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name);
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name === name);
+}
+
+// Every element with the given name below this one, in document order
+export function descendantElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap(child => [
+    ...(child.name === name ? [child] : []),
+    ...descendantElements(child, name)
+  ]);
+}
+
+// The trimmed text of the named child, or undefined when it is missing or empty
+export function childText(element: XmlElement, name: string): string | undefined {
+  const text = childElement(element, name)?.text.trim();
+  return text || undefined;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -21,9 +21,31 @@ interface GeofenceEventData {
   accountId: string;
   deviceId: string;
   geofenceId: string;
-  type: 'enter' | 'exit' | 'dwell';
+  type:
+    | 'enter'
+    | 'exit'
+    | 'dwell'
+    | 'deviation'
+    | 'rejoin'
+    | 'overspeed'
+    | 'speed_normal'
+    | 'occupancy_above'
+    | 'occupancy_below'
+    | 'proximity_enter'
+    | 'proximity_exit'
+    | 'presence_restored';
   timestamp: string;
   dwellSeconds?: number;
+  confidence?: number;
+  lowAccuracy?: boolean;
+  reason?: string;
+  distanceMeters?: number;
+  peakSpeedMps?: number;
+  avgSpeedMps?: number;
+  occupancy?: number;
+  interpolated?: boolean;
+  ancestry?: string[];
+  revisionId?: string | null;
   location: [number, number]; // [lng, lat]
 }
 
@@ -247,9 +269,7 @@ export class AutomationProcessor {
         }
       }
 
-      // Check for DWELL events (been in geofence for specified time)
-      const dwellEvents = await this.checkDwellEvents(event, currentGeofenceIds);
-      events.push(...dwellEvents);
+      // Dwell events are scheduled by the geofence engine from the rules' dwell thresholds
 
     } catch (error) {
       this.logger.error({ error, event }, 'Failed to check geofence events');
@@ -270,6 +290,7 @@ export class AutomationProcessor {
         FROM geofence_events 
         WHERE device_id = $1
           AND ts > NOW() - INTERVAL '24 hours'
+          AND NOT historical
       )
       SELECT DISTINCT geofence_id, ts as entered_at
       FROM latest_events
@@ -285,76 +306,6 @@ export class AutomationProcessor {
     return result.rows;
   }
 
-  private async checkDwellEvents(event: RawLocationEvent, currentGeofenceIds: Set<string>): Promise<GeofenceEventData[]> {
-    const dwellEvents: GeofenceEventData[] = [];
-
-    for (const geofenceId of currentGeofenceIds) {
-      // Check if there are automation rules that require dwell time for this geofence
-      const dwellRules = await this.dbPool.query(`
-        SELECT ar.min_dwell_seconds, ar.id
-        FROM automation_rules ar
-        WHERE ar.geofence_id = $1
-          AND ar.account_id = $2
-          AND ar.enabled = true
-          AND ar.min_dwell_seconds > 0
-          AND 'dwell' = ANY(ar.on_events)
-      `, [geofenceId, event.accountId]);
-
-      for (const rule of dwellRules.rows) {
-        // Check if device has been in geofence long enough
-        const dwellCheck = await this.dbPool.query(`
-          SELECT ts as enter_time
-          FROM geofence_events
-          WHERE device_id = $1 
-            AND geofence_id = $2 
-            AND type = 'enter'
-            AND ts <= $3
-            AND NOT EXISTS (
-              SELECT 1 FROM geofence_events ge2
-              WHERE ge2.device_id = $1 
-                AND ge2.geofence_id = $2
-                AND ge2.type = 'exit' 
-                AND ge2.ts > geofence_events.ts
-                AND ge2.ts <= $3
-            )
-          ORDER BY ts DESC
-          LIMIT 1
-        `, [event.deviceId, geofenceId, event.ts]);
-
-        if (dwellCheck.rows.length > 0) {
-          const enterTime = new Date(dwellCheck.rows[0].enter_time);
-          const currentTime = new Date(event.ts);
-          const dwellSeconds = (currentTime.getTime() - enterTime.getTime()) / 1000;
-
-          if (dwellSeconds >= rule.min_dwell_seconds) {
-            // Check if we haven't already sent a dwell event for this session
-            const existingDwell = await this.dbPool.query(`
-              SELECT id FROM geofence_events
-              WHERE device_id = $1 
-                AND geofence_id = $2 
-                AND type = 'dwell'
-                AND ts > $3
-            `, [event.deviceId, geofenceId, dwellCheck.rows[0].enter_time]);
-
-            if (existingDwell.rows.length === 0) {
-              dwellEvents.push({
-                accountId: event.accountId,
-                deviceId: event.deviceId,
-                geofenceId: geofenceId,
-                type: 'dwell',
-                timestamp: event.ts,
-                dwellSeconds: Math.round(dwellSeconds),
-                location: [event.lon, event.lat]
-              });
-            }
-          }
-        }
-      }
-    }
-
-    return dwellEvents;
-  }
-
   private async processGeofenceEvent(geofenceEventData: any): Promise<void> {
     const geofenceEvent: GeofenceEventData = {
       accountId: geofenceEventData.accountId,
@@ -363,6 +314,16 @@ export class AutomationProcessor {
       type: geofenceEventData.type,
       timestamp: geofenceEventData.ts,
       dwellSeconds: geofenceEventData.dwellSeconds,
+      confidence: geofenceEventData.confidence,
+      lowAccuracy: geofenceEventData.lowAccuracy,
+      reason: geofenceEventData.reason,
+      distanceMeters: geofenceEventData.distanceMeters,
+      peakSpeedMps: geofenceEventData.peakSpeedMps,
+      avgSpeedMps: geofenceEventData.avgSpeedMps,
+      occupancy: geofenceEventData.occupancy,
+      interpolated: geofenceEventData.interpolated,
+      ancestry: geofenceEventData.ancestry,
+      revisionId: geofenceEventData.revisionId,
       location: geofenceEventData.location || [0, 0]
     };
     try {
@@ -392,8 +353,9 @@ export class AutomationProcessor {
 
       const geventResult = await this.dbPool.query(`
         INSERT INTO geofence_events (
-          account_id, device_id, geofence_id, type, ts, dwell_seconds, event_hash
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          account_id, device_id, geofence_id, type, ts, dwell_seconds, event_hash, confidence, low_accuracy, reason, distance_m,
+          peak_speed_mps, avg_speed_mps, occupancy, interpolated, ancestry, revision_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
         ON CONFLICT (account_id, event_hash) DO NOTHING
         RETURNING id
       `, [
@@ -403,7 +365,17 @@ export class AutomationProcessor {
         geofenceEvent.type,
         geofenceEvent.timestamp,
         geofenceEvent.dwellSeconds,
-        eventHash
+        eventHash,
+        geofenceEvent.confidence ?? null,
+        geofenceEvent.lowAccuracy ?? false,
+        geofenceEvent.reason ?? null,
+        geofenceEvent.distanceMeters ?? null,
+        geofenceEvent.peakSpeedMps ?? null,
+        geofenceEvent.avgSpeedMps ?? null,
+        geofenceEvent.occupancy ?? null,
+        geofenceEvent.interpolated ?? false,
+        geofenceEvent.ancestry ?? [],
+        geofenceEvent.revisionId ?? null
       ]);
 
       this.logger.debug({ insertedRows: geventResult.rows.length }, 'Inserted geofence event');
@@ -426,13 +398,16 @@ export class AutomationProcessor {
           AND a.enabled = true
           AND $3 = ANY(ar.on_events)
           AND (ar.device_id IS NULL OR ar.device_id = $4)
-          AND (ar.min_dwell_seconds <= $5)
+          -- The engine emits one dwell event per distinct rule threshold, so dwell rules match exactly
+          AND (CASE WHEN $3 = 'dwell' THEN ar.min_dwell_seconds = $5 ELSE ar.min_dwell_seconds <= $5 END)
+          AND (ar.include_interpolated OR NOT $6)
       `, [
         geofenceEvent.geofenceId,
         geofenceEvent.accountId,
         geofenceEvent.type,
         geofenceEvent.deviceId,
-        geofenceEvent.dwellSeconds || 0
+        geofenceEvent.dwellSeconds || 0,
+        geofenceEvent.interpolated ?? false
       ]);
 
       // Process each matching rule
@@ -23,9 +23,28 @@ interface GeofenceEvent {
   id: string;
   deviceId: string;
   geofenceId: string;
-  type: 'enter' | 'exit' | 'dwell';
+  type:
+    | 'enter'
+    | 'exit'
+    | 'dwell'
+    | 'deviation'
+    | 'rejoin'
+    | 'overspeed'
+    | 'speed_normal'
+    | 'occupancy_above'
+    | 'occupancy_below'
+    | 'proximity_enter'
+    | 'proximity_exit'
+    | 'presence_restored';
   timestamp: string;
   dwellSeconds?: number;
+  distanceMeters?: number;
+  peakSpeedMps?: number;
+  avgSpeedMps?: number;
+  occupancy?: number;
+  interpolated: boolean;
+  reason?: string; // 'timeout' on the exit of a device that stopped reporting
+  ancestry: { id: string; name: string }[]; // Enclosing geofences, root first
   deviceName: string;
   geofenceName: string;
 }
@@ -136,6 +155,17 @@ export class WebhookWorker {
           ge.type,
           ge.ts as timestamp,
           ge.dwell_seconds,
+          ge.distance_m,
+          ge.peak_speed_mps,
+          ge.avg_speed_mps,
+          ge.occupancy,
+          ge.interpolated,
+          ge.reason,
+          (
+            SELECT COALESCE(json_agg(json_build_object('id', a.id, 'name', a.name) ORDER BY path.position), '[]')
+            FROM unnest(ge.ancestry) WITH ORDINALITY AS path(id, position)
+            JOIN geofences a ON a.id = path.id
+          ) as ancestry,
           d.name as device_name,
           g.name as geofence_name
         FROM geofence_events ge
@@ -154,6 +184,13 @@ export class WebhookWorker {
         type: row.type,
         timestamp: row.timestamp,
         dwellSeconds: row.dwell_seconds,
+        distanceMeters: row.distance_m ?? undefined,
+        peakSpeedMps: row.peak_speed_mps ?? undefined,
+        avgSpeedMps: row.avg_speed_mps ?? undefined,
+        occupancy: row.occupancy ?? undefined,
+        interpolated: row.interpolated,
+        reason: row.reason ?? undefined,
+        ancestry: row.ancestry,
         deviceName: row.device_name,
         geofenceName: row.geofence_name
       };
@@ -166,12 +203,19 @@ export class WebhookWorker {
   private async deliverSlackWebhook(automation: AutomationConfig, event: GeofenceEvent): Promise<any> {
     const { webhook_url, channel, template } = automation.config;
 
-    const message = this.renderTemplate(template || this.getDefaultSlackTemplate(), {
+    const peakSpeed = event.peakSpeedMps !== undefined ? this.formatSpeed(event.peakSpeedMps) : null;
+    const avgSpeed = event.avgSpeedMps !== undefined ? this.formatSpeed(event.avgSpeedMps) : null;
+
+    const message = this.renderTemplate(template || this.getDefaultSlackTemplate(event.type, event.reason), {
       device: event.deviceName,
       geofence: event.geofenceName,
       event: event.type,
       timestamp: new Date(event.timestamp).toLocaleString(),
-      dwellTime: event.dwellSeconds ? `${Math.round(event.dwellSeconds / 60)} minutes` : null
+      dwellTime: event.dwellSeconds ? `${Math.round(event.dwellSeconds / 60)} minutes` : null,
+      peakSpeed,
+      avgSpeed,
+      occupancy: event.occupancy,
+      geofencePath: this.formatGeofencePath(event)
     });
 
     const payload = {
@@ -194,10 +238,18 @@ export class WebhookWorker {
           value: event.type.charAt(0).toUpperCase() + event.type.slice(1),
           short: true
         }, {
-          title: 'Time',
+          title: event.interpolated ? 'Estimated Time' : 'Time',
           value: new Date(event.timestamp).toLocaleString(),
           short: true
-        }]
+        }, ...(peakSpeed && avgSpeed ? [{
+          title: 'Peak Speed',
+          value: peakSpeed,
+          short: true
+        }, {
+          title: 'Average Speed',
+          value: avgSpeed,
+          short: true
+        }] : [])]
       }]
     };
 
@@ -338,6 +390,31 @@ export class WebhookWorker {
       payload.event.dwellSeconds = event.dwellSeconds;
     }
 
+    if (event.distanceMeters !== undefined) {
+      payload.event.distanceMeters = event.distanceMeters;
+    }
+
+    if (event.peakSpeedMps !== undefined) {
+      payload.event.peakSpeedMps = event.peakSpeedMps;
+      payload.event.avgSpeedMps = event.avgSpeedMps;
+    }
+
+    if (event.occupancy !== undefined) {
+      payload.event.occupancy = event.occupancy;
+    }
+
+    if (event.interpolated) {
+      payload.event.interpolated = true;
+    }
+
+    if (event.reason) {
+      payload.event.reason = event.reason;
+    }
+
+    if (event.ancestry.length > 0) {
+      payload.event.geofence.ancestry = event.ancestry;
+    }
+
     // Apply template if provided
     if (template) {
       payload = JSON.parse(this.renderTemplate(template, {
@@ -347,7 +424,13 @@ export class WebhookWorker {
         timestamp: event.timestamp,
         deviceId: event.deviceId,
         geofenceId: event.geofenceId,
-        dwellSeconds: event.dwellSeconds
+        dwellSeconds: event.dwellSeconds,
+        distanceMeters: event.distanceMeters,
+        peakSpeedMps: event.peakSpeedMps,
+        avgSpeedMps: event.avgSpeedMps,
+        occupancy: event.occupancy,
+        interpolated: event.interpolated,
+        geofencePath: this.formatGeofencePath(event)
       }));
     }
 
@@ -384,7 +467,34 @@ export class WebhookWorker {
     });
   }
 
-  private getDefaultSlackTemplate(): string {
+  // e.g. "North Campus / Building 2 / Bay 4"
+  private formatGeofencePath(event: GeofenceEvent): string {
+    return [...event.ancestry.map(ancestor => ancestor.name), event.geofenceName].join(' / ');
+  }
+
+  private formatSpeed(speedMps: number): string {
+    return `${Math.round(speedMps * 3.6)} km/h`;
+  }
+
+  private getDefaultSlackTemplate(eventType: GeofenceEvent['type'], reason?: string): string {
+    if (eventType === 'exit' && reason === 'timeout') {
+      return '📵 *Presence timed out*: {{device}} stopped reporting in {{geofence}} and was marked as left at {{timestamp}}';
+    }
+    if (eventType === 'presence_restored') {
+      return '📶 *Presence restored*: {{device}} is reporting from {{geofence}} again at {{timestamp}}';
+    }
+    if (eventType === 'overspeed') {
+      return '🚨 *Overspeed*: {{device}} is over the speed limit in {{geofence}} (peak {{peakSpeed}}, average {{avgSpeed}}) at {{timestamp}}';
+    }
+    if (eventType === 'speed_normal') {
+      return '✅ *Speed normal*: {{device}} is back under the speed limit in {{geofence}} (peak was {{peakSpeed}}) at {{timestamp}}';
+    }
+    if (eventType === 'occupancy_above') {
+      return '🚧 *Over capacity*: {{geofence}} has {{occupancy}} devices inside after {{device}} arrived at {{timestamp}}';
+    }
+    if (eventType === 'occupancy_below') {
+      return '✅ *Within capacity*: {{geofence}} is down to {{occupancy}} devices after {{device}} left at {{timestamp}}';
+    }
     return '🎯 *{{event}}* event: {{device}} has {{event}}ed {{geofence}} at {{timestamp}}';
   }
 
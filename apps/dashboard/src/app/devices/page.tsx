@@ -9,6 +9,7 @@ import { DeviceCommandModal } from '../../components/DeviceCommandModal';
 import { DeviceGroupModal } from '../../components/DeviceGroupModal';
 import { AssignToGroupModal } from '../../components/AssignToGroupModal';
 import { AutomationRuleModal } from '../../components/AutomationRuleModal';
+import { DeviceTripsPanel } from '../../components/DeviceTripsPanel';
 import {
   useDevices,
   useDeleteDevice,
@@ -40,7 +41,9 @@ import {
   Terminal,
   FileText,
   Layers,
-  Zap
+  Zap,
+  Smartphone,
+  Navigation
 } from 'lucide-react';
 
 interface DeviceFilters {
@@ -63,6 +66,7 @@ export default function EnhancedDevicesPage() {
   const assignToGroupMutation = useAssignDeviceToGroup();
 
   // State
+  const [activeTab, setActiveTab] = useState<'devices' | 'trips'>('devices');
   const [searchTerm, setSearchTerm] = useState('');
   const [filters, setFilters] = useState<DeviceFilters>({});
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -329,151 +333,183 @@ export default function EnhancedDevicesPage() {
           </div>
         </div>
 
-        {/* Filters and Search */}
-        <div className="bg-white rounded-md shadow-sm border border-neutral-200 p-3 mb-8">
-          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
-            {/* Search */}
-            <div className="flex-1 max-w-md">
-              <div className="relative">
-                <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 h-5 w-5 text-neutral-400" />
-                <input
-                  type="text"
-                  placeholder="Search devices..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-12 pr-4 py-3 w-full border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
-                />
-              </div>
-            </div>
-
-            {/* Filters */}
-            <div className="flex flex-wrap items-center gap-3">
-              <select
-                value={filters.status || ''}
-                onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value as any || undefined }))}
-                className="px-3 py-2 border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
-              >
-                <option value="">All Status</option>
-                <option value="active">Active</option>
-                <option value="inactive">Inactive</option>
-                <option value="online">Online</option>
-                <option value="offline">Offline</option>
-              </select>
-
-              <select
-                value={filters.deviceType || ''}
-                onChange={(e) => setFilters(prev => ({ ...prev, deviceType: e.target.value || undefined }))}
-                className="px-3 py-2 border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
-              >
-                <option value="">All Types</option>
-                <option value="mobile">Mobile</option>
-                <option value="vehicle">Vehicle</option>
-                <option value="asset">Asset</option>
-                <option value="pet">Pet</option>
-                <option value="person">Person</option>
-                <option value="other">Other</option>
-              </select>
-
-              <select
-                value={filters.groupId || ''}
-                onChange={(e) => setFilters(prev => ({ ...prev, groupId: e.target.value || undefined }))}
-                className="px-3 py-2 border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
-              >
-                <option value="">All Groups</option>
-                {groups.map(group => (
-                  <option key={group.id} value={group.id}>{group.name}</option>
-                ))}
-              </select>
-
-              <select
-                value={filters.lastSeen || ''}
-                onChange={(e) => setFilters(prev => ({ ...prev, lastSeen: e.target.value as any || undefined }))}
-                className="px-3 py-2 border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
-              >
-                <option value="">All Time</option>
-                <option value="hour">Last Hour</option>
-                <option value="day">Last Day</option>
-                <option value="week">Last Week</option>
-                <option value="month">Last Month</option>
-              </select>
-
-              <button
-                onClick={() => setViewMode(viewMode === 'table' ? 'grid' : 'table')}
-                className="px-3 py-2 border border-neutral-200 rounded-md hover:bg-neutral-50 text-sm flex items-center gap-2 transition-colors duration-150 bg-white"
-              >
-                <Layers className="h-5 w-5" />
-                {viewMode === 'table' ? 'Grid' : 'Table'}
-              </button>
-            </div>
-          </div>
-
-          {/* Bulk Actions */}
-          {selectedDevices.length > 0 && (
-            <div className="mt-6 p-2 bg-blue-50 border border-blue-200 rounded-md flex items-center justify-between">
-              <span className="text-sm text-blue-700 font-medium">
-                {selectedDevices.length} device{selectedDevices.length > 1 ? 's' : ''} selected
-              </span>
-              <div className="flex items-center gap-3">
+        {/* Tab Navigation */}
+        <div className="border-b border-neutral-200 mb-8">
+          <nav className="flex space-x-8">
+            {[
+              { id: 'devices', label: 'Devices', icon: Smartphone },
+              { id: 'trips', label: 'Trips', icon: Navigation },
+            ].map((tab) => {
+              const Icon = tab.icon;
+              return (
                 <button
-                  onClick={() => setShowAssignGroupModal(true)}
-                  className=" bg-blue-100 text-blue-700 rounded-md text-sm hover:bg-blue-200 transition-colors duration-150 flex items-center gap-2"
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id as any)}
+                  className={`flex items-center gap-2 py-4 px-1 border-b-2 font-medium text-sm transition-all duration-150 ${
+                    activeTab === tab.id
+                      ? 'border-neutral-900 text-neutral-900'
+                      : 'border-transparent text-neutral-500 hover:text-neutral-700 hover:border-neutral-300'
+                  }`}
                 >
-                  <Users className="h-4 w-4" />
-                  Assign to Group
+                  <Icon className="h-4 w-4" />
+                  <span>{tab.label}</span>
                 </button>
-                <button
-                  onClick={handleBulkDelete}
-                  className=" bg-red-100 text-red-700 rounded-md text-sm hover:bg-red-200 transition-colors duration-150 flex items-center gap-2"
+              );
+            })}
+          </nav>
+        </div>
+
+        {activeTab === 'trips' && <DeviceTripsPanel devices={devices} />}
+
+        {activeTab === 'devices' && (
+          <>
+          {/* Filters and Search */}
+          <div className="bg-white rounded-md shadow-sm border border-neutral-200 p-3 mb-8">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+              {/* Search */}
+              <div className="flex-1 max-w-md">
+                <div className="relative">
+                  <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 h-5 w-5 text-neutral-400" />
+                  <input
+                    type="text"
+                    placeholder="Search devices..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-12 pr-4 py-3 w-full border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
+                  />
+                </div>
+              </div>
+
+              {/* Filters */}
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={filters.status || ''}
+                  onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value as any || undefined }))}
+                  className="px-3 py-2 border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
                 >
-                  <Trash2 className="h-4 w-4" />
-                  Delete Selected
-                </button>
+                  <option value="">All Status</option>
+                  <option value="active">Active</option>
+                  <option value="inactive">Inactive</option>
+                  <option value="online">Online</option>
+                  <option value="offline">Offline</option>
+                </select>
+
+                <select
+                  value={filters.deviceType || ''}
+                  onChange={(e) => setFilters(prev => ({ ...prev, deviceType: e.target.value || undefined }))}
+                  className="px-3 py-2 border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
+                >
+                  <option value="">All Types</option>
+                  <option value="mobile">Mobile</option>
+                  <option value="vehicle">Vehicle</option>
+                  <option value="asset">Asset</option>
+                  <option value="pet">Pet</option>
+                  <option value="person">Person</option>
+                  <option value="other">Other</option>
+                </select>
+
+                <select
+                  value={filters.groupId || ''}
+                  onChange={(e) => setFilters(prev => ({ ...prev, groupId: e.target.value || undefined }))}
+                  className="px-3 py-2 border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
+                >
+                  <option value="">All Groups</option>
+                  {groups.map(group => (
+                    <option key={group.id} value={group.id}>{group.name}</option>
+                  ))}
+                </select>
+
+                <select
+                  value={filters.lastSeen || ''}
+                  onChange={(e) => setFilters(prev => ({ ...prev, lastSeen: e.target.value as any || undefined }))}
+                  className="px-3 py-2 border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
+                >
+                  <option value="">All Time</option>
+                  <option value="hour">Last Hour</option>
+                  <option value="day">Last Day</option>
+                  <option value="week">Last Week</option>
+                  <option value="month">Last Month</option>
+                </select>
+
                 <button
-                  onClick={() => setShowGroupModal(true)}
-                  className=" bg-green-100 text-green-700 rounded-md text-sm hover:bg-green-200 transition-colors duration-150 flex items-center gap-2"
+                  onClick={() => setViewMode(viewMode === 'table' ? 'grid' : 'table')}
+                  className="px-3 py-2 border border-neutral-200 rounded-md hover:bg-neutral-50 text-sm flex items-center gap-2 transition-colors duration-150 bg-white"
                 >
-                  <Plus className="h-4 w-4" />
-                  Create Group
+                  <Layers className="h-5 w-5" />
+                  {viewMode === 'table' ? 'Grid' : 'Table'}
                 </button>
               </div>
             </div>
-          )}
-        </div>
 
-        {/* Device List */}
-        {viewMode === 'table' ? (
-          <DeviceTable
-            devices={filteredDevices}
-            loading={devicesLoading}
-            selectedDevices={selectedDevices}
-            groups={groups}
-            onToggleSelection={toggleDeviceSelection}
-            onSelectAll={selectAllDevices}
-            onToggleToken={toggleTokenVisibility}
-            onCopyToken={copyToClipboard}
-            onEdit={handleEdit}
-            onDelete={handleDelete}
-            onSendCommand={(device: Device) => {
-              setSelectedDevice(device);
-              setShowCommandModal(true);
-            }}
-            onAssignToGroup={handleAssignToGroup}
-            onCreateAutomationRule={handleCreateAutomationRule}
-            formatLastSeen={formatLastSeen}
-          />
-        ) : (
-          <DeviceGrid
-            devices={filteredDevices}
-            loading={devicesLoading}
-            onEdit={handleEdit}
-            onDelete={handleDelete}
-            onSendCommand={(device: Device) => {
-              setSelectedDevice(device);
-              setShowCommandModal(true);
-            }}
-            onCreateAutomationRule={handleCreateAutomationRule}
-            formatLastSeen={formatLastSeen}
-          />
+            {/* Bulk Actions */}
+            {selectedDevices.length > 0 && (
+              <div className="mt-6 p-2 bg-blue-50 border border-blue-200 rounded-md flex items-center justify-between">
+                <span className="text-sm text-blue-700 font-medium">
+                  {selectedDevices.length} device{selectedDevices.length > 1 ? 's' : ''} selected
+                </span>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setShowAssignGroupModal(true)}
+                    className=" bg-blue-100 text-blue-700 rounded-md text-sm hover:bg-blue-200 transition-colors duration-150 flex items-center gap-2"
+                  >
+                    <Users className="h-4 w-4" />
+                    Assign to Group
+                  </button>
+                  <button
+                    onClick={handleBulkDelete}
+                    className=" bg-red-100 text-red-700 rounded-md text-sm hover:bg-red-200 transition-colors duration-150 flex items-center gap-2"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete Selected
+                  </button>
+                  <button
+                    onClick={() => setShowGroupModal(true)}
+                    className=" bg-green-100 text-green-700 rounded-md text-sm hover:bg-green-200 transition-colors duration-150 flex items-center gap-2"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Create Group
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Device List */}
+          {viewMode === 'table' ? (
+            <DeviceTable
+              devices={filteredDevices}
+              loading={devicesLoading}
+              selectedDevices={selectedDevices}
+              groups={groups}
+              onToggleSelection={toggleDeviceSelection}
+              onSelectAll={selectAllDevices}
+              onToggleToken={toggleTokenVisibility}
+              onCopyToken={copyToClipboard}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              onSendCommand={(device: Device) => {
+                setSelectedDevice(device);
+                setShowCommandModal(true);
+              }}
+              onAssignToGroup={handleAssignToGroup}
+              onCreateAutomationRule={handleCreateAutomationRule}
+              formatLastSeen={formatLastSeen}
+            />
+          ) : (
+            <DeviceGrid
+              devices={filteredDevices}
+              loading={devicesLoading}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              onSendCommand={(device: Device) => {
+                setSelectedDevice(device);
+                setShowCommandModal(true);
+              }}
+              onCreateAutomationRule={handleCreateAutomationRule}
+              formatLastSeen={formatLastSeen}
+            />
+          )}
+          </>
         )}
 
         {/* Modals */}
@@ -8,6 +8,8 @@ import { GeofenceTemplates } from '../../components/GeofenceTemplates';
 import { GeofenceAnalytics } from '../../components/GeofenceAnalytics';
 import { GeofenceTestingTools } from '../../components/GeofenceTestingTools';
 import { GeofenceSettings } from '../../components/GeofenceSettings';
+import { GeofenceEditModal } from '../../components/GeofenceEditModal';
+import { GeofenceImportModal } from '../../components/GeofenceImportModal';
 import {
   useGeofences,
   useCreateGeofence,
@@ -20,7 +22,8 @@ import {
   useToggleAutomationRule,
   useDevices,
 } from '../../hooks/useApi';
-import { FrontendGeofence } from '../../types/geofence';
+import { geofenceService, type GeofenceFileFormat } from '../../services/api';
+import { FrontendGeofence, UpdateGeofenceRequest } from '../../types/geofence';
 import { validateGeometry } from '../../validation/geofenceSchemas';
 import {
   Plus,
@@ -38,7 +41,10 @@ import {
   EyeOff,
   AlertCircle,
   Loader2,
+  Upload,
+  Download,
 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
 
 export default function GeofencesPage() {
   // State management
@@ -47,7 +53,11 @@ export default function GeofencesPage() {
   >('map');
   const [searchTerm, setSearchTerm] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [exportFormat, setExportFormat] = useState<GeofenceFileFormat>('geojson');
+  const [exporting, setExporting] = useState(false);
   const [selectedGeofence, setSelectedGeofence] = useState<FrontendGeofence | null>(null);
+  const [editingGeofence, setEditingGeofence] = useState<FrontendGeofence | null>(null);
   const [showAutomationRuleModal, setShowAutomationRuleModal] = useState(false);
   const [selectedGeofenceForRule, setSelectedGeofenceForRule] = useState<string | null>(null);
   const [expandedGeofence, setExpandedGeofence] = useState<string | null>(null);
@@ -215,6 +225,41 @@ export default function GeofencesPage() {
     }
   }, [formData, selectedGeofence, pendingGeofence, updateGeofenceMutation, createGeofenceMutation]);
 
+  const handleExport = useCallback(async () => {
+    setExporting(true);
+    try {
+      const { content, filename, skipped } = await geofenceService.exportGeofences(exportFormat);
+      const url = URL.createObjectURL(content);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      if (skipped > 0) {
+        toast(`${skipped} ${skipped === 1 ? 'polygon has' : 'polygons have'} holes or several parts, which GPX can't hold`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  }, [exportFormat]);
+
+  const handleEditModalSave = useCallback(
+    async (id: string, updates: UpdateGeofenceRequest) => {
+      await updateGeofenceMutation.mutateAsync({ geofenceId: id, updates });
+    },
+    [updateGeofenceMutation]
+  );
+
+  const handleEditModalDelete = useCallback(
+    async (id: string) => {
+      await deleteGeofences.mutateAsync([id]);
+    },
+    [deleteGeofences]
+  );
+
   const handleCreateAutomationRule = useCallback((geofenceId: string) => {
     setSelectedGeofenceForRule(geofenceId);
     setShowAutomationRuleModal(true);
@@ -318,6 +363,36 @@ export default function GeofencesPage() {
               <Plus className="h-4 w-4" />
               Create Geofence
             </button>
+
+            {/* Import / Export */}
+            <div className="flex items-center gap-2 mt-2">
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 border border-neutral-300 text-neutral-700 text-sm font-medium rounded-md hover:bg-neutral-50 transition-all duration-150"
+              >
+                <Upload className="h-4 w-4" />
+                Import
+              </button>
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as GeofenceFileFormat)}
+                className="px-2 py-2 border border-neutral-300 rounded-md text-sm text-neutral-700 bg-white"
+                title="Export format"
+              >
+                <option value="geojson">GeoJSON</option>
+                <option value="kml">KML</option>
+                <option value="gpx">GPX</option>
+              </select>
+              <button
+                onClick={handleExport}
+                disabled={exporting}
+                className="flex items-center justify-center gap-2 px-3 py-2 border border-neutral-300 text-neutral-700 text-sm font-medium rounded-md hover:bg-neutral-50 disabled:opacity-50 transition-all duration-150"
+                title="Export geofences"
+              >
+                {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                Export
+              </button>
+            </div>
           </div>
 
           {/* Loading State */}
@@ -418,12 +493,7 @@ export default function GeofencesPage() {
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
-                              setSelectedGeofence(geofence);
-                              setFormData({
-                                name: geofence.name,
-                                description: geofence.description || '',
-                              });
-                              setShowCreateModal(true);
+                              setEditingGeofence(geofence);
                             }}
                             className="p-1.5 text-gray-400 hover:text-blue-600 rounded hover:bg-gray-100 transition-colors"
                           >
@@ -678,6 +748,17 @@ export default function GeofencesPage() {
       </div>
 
       {/* Create/Edit Modal */}
+      <GeofenceEditModal
+        geofence={editingGeofence}
+        isOpen={!!editingGeofence}
+        onClose={() => setEditingGeofence(null)}
+        onSave={handleEditModalSave}
+        onDelete={handleEditModalDelete}
+        loading={updateGeofenceMutation.isPending}
+      />
+
+      <GeofenceImportModal isOpen={showImportModal} onClose={() => setShowImportModal(false)} />
+
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 z-50">
           <div className="bg-white rounded-md p-3 w-full max-w-md shadow-2xl">
@@ -713,6 +794,29 @@ export default function GeofencesPage() {
                 />
               </div>
 
+              {pendingGeofence?.type === 'corridor' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Corridor Width (meters) *
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={5000}
+                    value={pendingGeofence.width ?? ''}
+                    onChange={(e) =>
+                      setPendingGeofence((prev) =>
+                        prev ? { ...prev, width: e.target.value ? Number(e.target.value) : undefined } : prev
+                      )
+                    }
+                    className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Devices within half this distance of the route line are on route.
+                  </p>
+                </div>
+              )}
+
               <p className="text-sm text-gray-500 italic">
                 {pendingGeofence
                   ? 'Geofence boundary drawn successfully. Enter the name and description to complete creation.'
@@ -737,7 +841,9 @@ export default function GeofencesPage() {
                 disabled={
                   updateGeofenceMutation.isPending ||
                   createGeofenceMutation.isPending ||
-                  !formData.name.trim()
+                  !formData.name.trim() ||
+                  (pendingGeofence?.type === 'corridor' &&
+                    !(pendingGeofence.width && pendingGeofence.width >= 1))
                 }
                 className=".5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
               >
@@ -120,6 +120,15 @@ export default function SettingsPage() {
     event_retention_days: 90,
     default_map_region: 'auto' as const,
     coordinate_format: 'decimal' as const,
+    transition_confidence_threshold: 0.7,
+    low_accuracy_policy: 'flag' as const,
+    presence_timeout_seconds: null,
+    outlier_filter_enabled: true,
+    kalman_smoothing_enabled: false,
+    kalman_process_noise_mps2: 3,
+    trip_stop_speed_mps: 1,
+    trip_min_stop_seconds: 180,
+    trip_max_gap_seconds: 900,
   });
   const [notificationSettings, setNotificationSettings] = useState<NotificationPreferences>({
     emailGeofenceEvents: true,
@@ -158,6 +167,15 @@ export default function SettingsPage() {
           event_retention_days: org.event_retention_days || 90,
           default_map_region: org.default_map_region || 'auto',
           coordinate_format: org.coordinate_format || 'decimal',
+          transition_confidence_threshold: org.transition_confidence_threshold ?? 0.7,
+          low_accuracy_policy: org.low_accuracy_policy || 'flag',
+          presence_timeout_seconds: org.presence_timeout_seconds ?? null,
+          outlier_filter_enabled: org.outlier_filter_enabled ?? true,
+          kalman_smoothing_enabled: org.kalman_smoothing_enabled ?? false,
+          kalman_process_noise_mps2: org.kalman_process_noise_mps2 ?? 3,
+          trip_stop_speed_mps: org.trip_stop_speed_mps ?? 1,
+          trip_min_stop_seconds: org.trip_min_stop_seconds ?? 180,
+          trip_max_gap_seconds: org.trip_max_gap_seconds ?? 900,
         }));
         setNotificationSettings(
           profile.notification_preferences || {
@@ -258,6 +276,15 @@ export default function SettingsPage() {
         event_retention_days: orgData.event_retention_days,
         default_map_region: orgData.default_map_region,
         coordinate_format: orgData.coordinate_format,
+        transition_confidence_threshold: orgData.transition_confidence_threshold,
+        low_accuracy_policy: orgData.low_accuracy_policy,
+        presence_timeout_seconds: orgData.presence_timeout_seconds,
+        outlier_filter_enabled: orgData.outlier_filter_enabled,
+        kalman_smoothing_enabled: orgData.kalman_smoothing_enabled,
+        kalman_process_noise_mps2: orgData.kalman_process_noise_mps2,
+        trip_stop_speed_mps: orgData.trip_stop_speed_mps,
+        trip_min_stop_seconds: orgData.trip_min_stop_seconds,
+        trip_max_gap_seconds: orgData.trip_max_gap_seconds,
       };
       await updateOrganization(updateData);
       alert('Organization settings updated successfully');
@@ -1355,6 +1382,170 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Event Detection</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Transition Confidence
+            </label>
+            <select
+              value={String(orgData.transition_confidence_threshold ?? 0.7)}
+              onChange={(e) =>
+                setOrgData({ ...orgData, transition_confidence_threshold: parseFloat(e.target.value) })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="0.5">50% (most responsive)</option>
+              <option value="0.7">70% (recommended)</option>
+              <option value="0.8">80%</option>
+              <option value="0.9">90%</option>
+              <option value="0.95">95% (fewest false events)</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              How likely a device must be inside (or outside) a geofence, given its reported accuracy, before an event fires
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Low-Accuracy Locations
+            </label>
+            <select
+              value={orgData.low_accuracy_policy ?? 'flag'}
+              onChange={(e) => setOrgData({ ...orgData, low_accuracy_policy: e.target.value as any })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="flag">Evaluate and flag events</option>
+              <option value="hold">Hold back (store only)</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Applies to locations reported with accuracy worse than 50 m
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Presence Timeout
+            </label>
+            <select
+              value={String(orgData.presence_timeout_seconds ?? '')}
+              onChange={(e) =>
+                setOrgData({
+                  ...orgData,
+                  presence_timeout_seconds: e.target.value ? parseInt(e.target.value) : null,
+                })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">Off</option>
+              <option value="300">5 minutes</option>
+              <option value="900">15 minutes</option>
+              <option value="1800">30 minutes</option>
+              <option value="3600">1 hour</option>
+              <option value="14400">4 hours</option>
+              <option value="86400">24 hours</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Devices that stop reporting inside a geofence for this long are marked as having left it. Geofences can override this.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Outlier Filtering
+            </label>
+            <select
+              value={orgData.outlier_filter_enabled === false ? 'off' : 'on'}
+              onChange={(e) => setOrgData({ ...orgData, outlier_filter_enabled: e.target.value === 'on' })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="on">Reject impossible jumps</option>
+              <option value="off">Off</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Locations that would need a faster speed than the device type allows are stored as rejected and not evaluated
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Location Smoothing
+            </label>
+            <select
+              value={orgData.kalman_smoothing_enabled ? String(orgData.kalman_process_noise_mps2 ?? 3) : ''}
+              onChange={(e) =>
+                setOrgData({
+                  ...orgData,
+                  kalman_smoothing_enabled: e.target.value !== '',
+                  kalman_process_noise_mps2: e.target.value ? parseFloat(e.target.value) : orgData.kalman_process_noise_mps2,
+                })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">Off</option>
+              <option value="1">Strong (slow-moving devices)</option>
+              <option value="3">Standard</option>
+              <option value="8">Light (fast-changing movement)</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Smooths GPS jitter with a Kalman filter before geofences are evaluated. Raw locations are kept in history.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Trip Stop Speed
+            </label>
+            <select
+              value={String(orgData.trip_stop_speed_mps ?? 1)}
+              onChange={(e) => setOrgData({ ...orgData, trip_stop_speed_mps: parseFloat(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="0.5">0.5 m/s (walking pace counts as moving)</option>
+              <option value="1">1 m/s</option>
+              <option value="2">2 m/s</option>
+              <option value="5">5 m/s (slow traffic counts as stopped)</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Devices at or below this speed count as stationary when trips are worked out
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Minimum Stop Duration
+            </label>
+            <select
+              value={String(orgData.trip_min_stop_seconds ?? 180)}
+              onChange={(e) => setOrgData({ ...orgData, trip_min_stop_seconds: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="60">1 minute</option>
+              <option value="180">3 minutes</option>
+              <option value="300">5 minutes</option>
+              <option value="600">10 minutes</option>
+              <option value="1800">30 minutes</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              A device has to stay stationary in one place this long for its trip to end in a stop
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Trip Reporting Gap
+            </label>
+            <select
+              value={String(orgData.trip_max_gap_seconds ?? 900)}
+              onChange={(e) => setOrgData({ ...orgData, trip_max_gap_seconds: parseInt(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="300">5 minutes</option>
+              <option value="900">15 minutes</option>
+              <option value="1800">30 minutes</option>
+              <option value="3600">1 hour</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              A longer gap between locations ends the trip. Changes apply to locations received afterwards.
+            </p>
+          </div>
+        </div>
+      </div>
+
       <div className="flex justify-end">
         <button
           onClick={handleSaveAccount}
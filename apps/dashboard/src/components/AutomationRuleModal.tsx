@@ -47,6 +47,7 @@ export function AutomationRuleModal({
     automation_id: '',
     on_events: ['enter'],
     min_dwell_seconds: undefined,
+    include_interpolated: true,
     device_filter: {},
     enabled: true,
   });
@@ -77,6 +78,7 @@ export function AutomationRuleModal({
           automation_id: rule.automation_id,
           on_events: rule.on_events,
           min_dwell_seconds: rule.min_dwell_seconds,
+          include_interpolated: rule.include_interpolated ?? true,
           device_filter: rule.device_filter,
           enabled: rule.enabled,
         });
@@ -89,6 +91,7 @@ export function AutomationRuleModal({
           automation_id: '',
           on_events: ['enter'],
           min_dwell_seconds: undefined,
+          include_interpolated: true,
           device_filter: {},
           enabled: true,
         });
@@ -164,7 +167,7 @@ export function AutomationRuleModal({
     }
   };
 
-  const handleEventToggle = (event: 'enter' | 'exit' | 'dwell') => {
+  const handleEventToggle = (event: CreateAutomationRuleRequest['on_events'][number]) => {
     setFormData((prev) => ({
       ...prev,
       on_events: prev.on_events.includes(event)
@@ -176,6 +179,11 @@ export function AutomationRuleModal({
   if (!isOpen) return null;
 
   const isLoading = createRuleMutation.isPending || updateRuleMutation.isPending;
+  const selectedGeofence = geofences.find((geofence) => geofence.id === formData.geofence_id);
+  const isCorridorSelected = selectedGeofence?.geofence_type === 'corridor';
+  const hasSpeedLimit = !!selectedGeofence?.metadata?.speedLimit;
+  const hasCapacity = selectedGeofence?.metadata?.occupancy != null;
+  const isProximitySelected = selectedGeofence?.geofence_type === 'proximity';
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 z-50">
@@ -298,6 +306,71 @@ export function AutomationRuleModal({
                   label: 'Dwell in Geofence',
                   description: 'When device stays in geofence for specified time',
                 },
+                ...(!isProximitySelected
+                  ? [
+                      {
+                        value: 'presence_restored',
+                        label: 'Presence Restored',
+                        description: 'When a device timed out for not reporting reports from inside again',
+                      },
+                    ]
+                  : []),
+                ...(isCorridorSelected
+                  ? [
+                      {
+                        value: 'deviation',
+                        label: 'Leave Route',
+                        description: 'When an assigned device leaves the corridor',
+                      },
+                      {
+                        value: 'rejoin',
+                        label: 'Rejoin Route',
+                        description: 'When an assigned device comes back to the corridor',
+                      },
+                    ]
+                  : []),
+                ...(hasSpeedLimit
+                  ? [
+                      {
+                        value: 'overspeed',
+                        label: 'Overspeed',
+                        description: 'When a device stays over the speed limit in the geofence',
+                      },
+                      {
+                        value: 'speed_normal',
+                        label: 'Speed Back to Normal',
+                        description: 'When a speeding device drops back under the limit',
+                      },
+                    ]
+                  : []),
+                ...(hasCapacity
+                  ? [
+                      {
+                        value: 'occupancy_above',
+                        label: 'Over Capacity',
+                        description: 'When more devices are inside than the geofence capacity',
+                      },
+                      {
+                        value: 'occupancy_below',
+                        label: 'Back Within Capacity',
+                        description: 'When occupancy drops back to the geofence capacity',
+                      },
+                    ]
+                  : []),
+                ...(isProximitySelected
+                  ? [
+                      {
+                        value: 'proximity_enter',
+                        label: 'Near Anchor',
+                        description: 'When a follower comes within the radius of its anchor device',
+                      },
+                      {
+                        value: 'proximity_exit',
+                        label: 'Away From Anchor',
+                        description: 'When a follower moves beyond the radius of its anchor device',
+                      },
+                    ]
+                  : []),
               ].map(({ value, label, description }) => (
                 <label key={value} className="flex items-start space-x-3 cursor-pointer">
                   <input
@@ -347,6 +420,26 @@ export function AutomationRuleModal({
             </div>
           )}
 
+          {/* Interpolated crossings (only relevant to enter/exit) */}
+          {(formData.on_events.includes('enter') || formData.on_events.includes('exit')) && (
+            <div className="flex items-start space-x-2">
+              <input
+                type="checkbox"
+                id="include_interpolated"
+                checked={formData.include_interpolated ?? true}
+                onChange={(e) => setFormData((prev) => ({ ...prev, include_interpolated: e.target.checked }))}
+                className="mt-0.5 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="include_interpolated" className="text-sm text-gray-700">
+                <span className="font-medium">Include estimated crossings</span>
+                <span className="block text-xs text-gray-500">
+                  Enter/exit worked out from the path between two locations outside the geofence, with estimated
+                  times
+                </span>
+              </label>
+            </div>
+          )}
+
           {/* Automation Selection */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
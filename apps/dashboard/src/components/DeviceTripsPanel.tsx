@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { MapPin, Navigation } from 'lucide-react';
+import { useDeviceStops, useDeviceTrips } from '../hooks/useApi';
+import type { Device } from '../services/api';
+
+interface DeviceTripsPanelProps {
+  devices: Device[];
+}
+
+const RANGE_OPTIONS = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+];
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${meters} m` : `${(meters / 1000).toFixed(1)} km`;
+
+const formatTime = (ts: string) => new Date(ts).toLocaleString();
+
+const formatPosition = (latitude: number, longitude: number) =>
+  `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+
+export function DeviceTripsPanel({ devices }: DeviceTripsPanelProps) {
+  const [deviceId, setDeviceId] = useState('');
+  const [days, setDays] = useState(1);
+
+  // Rounded to the minute so the query key doesn't change on every render
+  const from = new Date(Math.floor((Date.now() - days * 24 * 60 * 60 * 1000) / 60_000) * 60_000).toISOString();
+  const selectedId = deviceId || devices[0]?.id || '';
+  const { data: trips = [], isLoading: tripsLoading } = useDeviceTrips(selectedId, { from });
+  const { data: stops = [], isLoading: stopsLoading } = useDeviceStops(selectedId, { from });
+
+  if (devices.length === 0) {
+    return <p className="text-sm text-neutral-500">No devices yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-md shadow-sm border border-neutral-200 p-3 flex flex-wrap items-center gap-3">
+        <select
+          value={selectedId}
+          onChange={(e) => setDeviceId(e.target.value)}
+          className="px-3 py-2 border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
+        >
+          {devices.map((device) => (
+            <option key={device.id} value={device.id}>
+              {device.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={days}
+          onChange={(e) => setDays(parseInt(e.target.value))}
+          className="px-3 py-2 border border-neutral-200 rounded-md focus:outline-none focus:ring-1 focus:ring-neutral-300 text-sm bg-white"
+        >
+          {RANGE_OPTIONS.map((option) => (
+            <option key={option.days} value={option.days}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-neutral-500">
+          {trips.length} trip{trips.length === 1 ? '' : 's'}, {stops.length} stop{stops.length === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-md shadow-sm border border-neutral-200">
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-neutral-200">
+            <Navigation className="h-4 w-4 text-neutral-500" />
+            <h3 className="text-sm font-medium text-neutral-900">Trips</h3>
+          </div>
+          {tripsLoading ? (
+            <p className="p-4 text-sm text-neutral-500">Loading trips...</p>
+          ) : trips.length === 0 ? (
+            <p className="p-4 text-sm text-neutral-500">No trips in this period.</p>
+          ) : (
+            <ul className="divide-y divide-neutral-100">
+              {trips.map((trip) => (
+                <li key={trip.id} className="px-4 py-3 text-sm space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-neutral-900">{formatTime(trip.started_at)}</span>
+                    {trip.in_progress ? (
+                      <span className="text-xs font-medium text-green-700 bg-green-50 rounded px-2 py-0.5">In progress</span>
+                    ) : (
+                      <span className="text-neutral-500">{formatDuration(trip.duration_seconds)}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4 text-neutral-600">
+                    <span>{formatDistance(trip.distance_m)}</span>
+                    <span>max {(trip.max_speed_mps * 3.6).toFixed(0)} km/h</span>
+                    <span>{trip.point_count} fixes</span>
+                  </div>
+                  <div className="text-xs text-neutral-500">
+                    {formatPosition(trip.start.latitude, trip.start.longitude)} →{' '}
+                    {formatPosition(trip.end.latitude, trip.end.longitude)}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-md shadow-sm border border-neutral-200">
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-neutral-200">
+            <MapPin className="h-4 w-4 text-neutral-500" />
+            <h3 className="text-sm font-medium text-neutral-900">Stops</h3>
+          </div>
+          {stopsLoading ? (
+            <p className="p-4 text-sm text-neutral-500">Loading stops...</p>
+          ) : stops.length === 0 ? (
+            <p className="p-4 text-sm text-neutral-500">No stops in this period.</p>
+          ) : (
+            <ul className="divide-y divide-neutral-100">
+              {stops.map((stop) => (
+                <li key={stop.id} className="px-4 py-3 text-sm space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-neutral-900">{formatTime(stop.arrived_at)}</span>
+                    <span className="text-neutral-500">
+                      {stop.in_progress ? 'Here for ' : ''}
+                      {formatDuration(stop.duration_seconds)}
+                    </span>
+                  </div>
+                  <div className="text-xs text-neutral-500">{formatPosition(stop.latitude, stop.longitude)}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
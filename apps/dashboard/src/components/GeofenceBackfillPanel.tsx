@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { History } from 'lucide-react';
+import { useGeofenceBackfills, useStartGeofenceBackfill } from '../hooks/useApi';
+import type { GeofenceBackfill } from '../services/api';
+
+interface GeofenceBackfillPanelProps {
+  geofenceId: string;
+  enabled: boolean;
+}
+
+const RANGE_OPTIONS = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+];
+
+const STATUS_LABELS: Record<GeofenceBackfill['status'], string> = {
+  pending: 'Queued',
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+const formatRange = (backfill: GeofenceBackfill) =>
+  `${new Date(backfill.from).toLocaleDateString()} – ${new Date(backfill.to).toLocaleDateString()}`;
+
+export function GeofenceBackfillPanel({ geofenceId, enabled }: GeofenceBackfillPanelProps) {
+  const [days, setDays] = useState(30);
+  const { data: backfills = [] } = useGeofenceBackfills(geofenceId, enabled);
+  const startBackfill = useStartGeofenceBackfill();
+
+  const inProgress = backfills.some((backfill) => backfill.status === 'pending' || backfill.status === 'running');
+
+  const handleStart = () => {
+    startBackfill.mutate({
+      geofenceId,
+      range: { from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() },
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center text-sm" style={{ gap: 'var(--space-sm)' }}>
+        <select
+          value={days}
+          onChange={(e) => setDays(parseInt(e.target.value))}
+          className="border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-sm"
+          style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+        >
+          {RANGE_OPTIONS.map((option) => (
+            <option key={option.days} value={option.days}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={inProgress || startBackfill.isPending}
+          className="flex items-center text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ gap: 'var(--space-xs)' }}
+        >
+          <History className="h-4 w-4" />
+          Find past visits
+        </button>
+      </div>
+
+      {startBackfill.error && <p className="text-xs text-red-600">{startBackfill.error.message}</p>}
+
+      {backfills.slice(0, 3).map((backfill) => (
+        <div
+          key={backfill.id}
+          className="border border-gray-200 rounded-md text-sm space-y-1"
+          style={{ padding: 'var(--space-sm)' }}
+        >
+          <div className="flex items-center justify-between text-gray-700">
+            <span>{formatRange(backfill)}</span>
+            <span className={backfill.status === 'failed' ? 'text-red-600' : 'text-gray-500'}>
+              {STATUS_LABELS[backfill.status]}
+              {backfill.status === 'running' && ` ${Math.round(backfill.progress * 100)}%`}
+            </span>
+          </div>
+          {(backfill.status === 'pending' || backfill.status === 'running') && (
+            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${Math.round(backfill.progress * 100)}%` }}
+              />
+            </div>
+          )}
+          {backfill.status === 'completed' && (
+            <p className="text-xs text-gray-500">
+              {backfill.events_created} events from {backfill.processed_locations} locations
+            </p>
+          )}
+          {backfill.status === 'failed' && backfill.error && (
+            <p className="text-xs text-red-600">{backfill.error}</p>
+          )}
+        </div>
+      ))}
+
+      <p className="text-xs text-gray-500">
+        Replays stored locations to record past enter, exit and dwell events. Automations are not
+        triggered.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { Bluetooth, Plus, Trash2, Wifi } from 'lucide-react';
+import { useCreateBeacon, useDeleteBeacon, useGeofenceBeacons } from '../hooks/useApi';
+import type { Beacon, CreateBeaconRequest } from '../services/api';
+
+interface GeofenceBeaconPanelProps {
+  geofenceId: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM = { beaconType: 'ble' as Beacon['beacon_type'], uuid: '', major: '', minor: '', bssid: '', name: '' };
+
+const describeBeacon = (beacon: Beacon) =>
+  beacon.beacon_type === 'ble' ? `${beacon.uuid} · ${beacon.major}/${beacon.minor}` : beacon.bssid;
+
+export function GeofenceBeaconPanel({ geofenceId, enabled }: GeofenceBeaconPanelProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const { data: beacons = [] } = useGeofenceBeacons(geofenceId, enabled);
+  const createBeacon = useCreateBeacon();
+  const deleteBeacon = useDeleteBeacon();
+
+  const canAdd =
+    form.beaconType === 'ble' ? form.uuid !== '' && form.major !== '' && form.minor !== '' : form.bssid !== '';
+
+  const handleAdd = () => {
+    const common = { geofence_id: geofenceId, name: form.name || undefined };
+    const beacon: CreateBeaconRequest =
+      form.beaconType === 'ble'
+        ? {
+            ...common,
+            beacon_type: 'ble',
+            uuid: form.uuid.trim(),
+            major: parseInt(form.major),
+            minor: parseInt(form.minor),
+          }
+        : { ...common, beacon_type: 'wifi', bssid: form.bssid.trim() };
+
+    createBeacon.mutate(beacon, { onSuccess: () => setForm({ ...EMPTY_FORM, beaconType: form.beaconType }) });
+  };
+
+  const inputClassName =
+    'border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-sm';
+
+  return (
+    <div className="space-y-3">
+      {beacons.map((beacon) => (
+        <div
+          key={beacon.id}
+          className="flex items-center border border-gray-200 rounded-md text-sm"
+          style={{ padding: 'var(--space-sm)', gap: 'var(--space-sm)' }}
+        >
+          {beacon.beacon_type === 'ble' ? (
+            <Bluetooth className="h-4 w-4 text-gray-500" />
+          ) : (
+            <Wifi className="h-4 w-4 text-gray-500" />
+          )}
+          <div className="min-w-0 flex-1">
+            {beacon.name && <p className="text-gray-700">{beacon.name}</p>}
+            <p className="text-xs text-gray-500 truncate">{describeBeacon(beacon)}</p>
+          </div>
+          <span className="text-xs text-gray-500">≥ {beacon.min_rssi} dBm</span>
+          <button
+            type="button"
+            onClick={() => deleteBeacon.mutate(beacon.id)}
+            disabled={deleteBeacon.isPending}
+            className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+            title="Remove beacon"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center text-sm" style={{ gap: 'var(--space-sm)' }}>
+        <select
+          value={form.beaconType}
+          onChange={(e) => setForm({ ...form, beaconType: e.target.value as Beacon['beacon_type'] })}
+          className={inputClassName}
+          style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+        >
+          <option value="ble">BLE beacon</option>
+          <option value="wifi">Wi-Fi access point</option>
+        </select>
+        {form.beaconType === 'ble' ? (
+          <>
+            <input
+              value={form.uuid}
+              onChange={(e) => setForm({ ...form, uuid: e.target.value })}
+              className={`${inputClassName} flex-1 min-w-0`}
+              style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+              placeholder="UUID"
+            />
+            <input
+              type="number"
+              min={0}
+              max={65535}
+              value={form.major}
+              onChange={(e) => setForm({ ...form, major: e.target.value })}
+              className={`${inputClassName} w-20`}
+              style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+              placeholder="Major"
+            />
+            <input
+              type="number"
+              min={0}
+              max={65535}
+              value={form.minor}
+              onChange={(e) => setForm({ ...form, minor: e.target.value })}
+              className={`${inputClassName} w-20`}
+              style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+              placeholder="Minor"
+            />
+          </>
+        ) : (
+          <input
+            value={form.bssid}
+            onChange={(e) => setForm({ ...form, bssid: e.target.value })}
+            className={`${inputClassName} flex-1 min-w-0`}
+            style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+            placeholder="BSSID (aa:bb:cc:dd:ee:ff)"
+          />
+        )}
+        <input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          className={`${inputClassName} flex-1 min-w-0`}
+          style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+          placeholder="Name (optional)"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!canAdd || createBeacon.isPending}
+          className="flex items-center text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ gap: 'var(--space-xs)' }}
+        >
+          <Plus className="h-4 w-4" />
+          Add
+        </button>
+      </div>
+
+      {createBeacon.error && <p className="text-xs text-red-600">{createBeacon.error.message}</p>}
+
+      <p className="text-xs text-gray-500">
+        With beacons registered, devices are inside this geofence while the strongest registered
+        beacon they hear is one of these, instead of by their GPS position.
+      </p>
+    </div>
+  );
+}
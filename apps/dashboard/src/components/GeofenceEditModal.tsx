@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   X,
   Save,
@@ -12,8 +12,41 @@ import {
   Trash2,
   AlertTriangle,
   ZoomIn,
+  Route,
+  Radar,
 } from 'lucide-react';
-import { FrontendGeofence, UpdateGeofenceRequest } from '../types/geofence';
+import {
+  FrontendGeofence,
+  GeofenceLevel,
+  GeofenceSchedule,
+  GeofenceSpeedLimit,
+  UpdateGeofenceRequest,
+} from '../types/geofence';
+import {
+  useDeviceGroups,
+  useDevices,
+  useGeofenceOccupants,
+  useGeofences,
+  useUpdateGeofencePairing,
+} from '../hooks/useApi';
+import { DEFAULT_GEOFENCE_SCHEDULE, GeofenceScheduleEditor } from './GeofenceScheduleEditor';
+import { GeofenceBackfillPanel } from './GeofenceBackfillPanel';
+import { GeofenceBeaconPanel } from './GeofenceBeaconPanel';
+import { GeofenceRevisionPanel } from './GeofenceRevisionPanel';
+
+const DEFAULT_OVERSPEED_SECONDS = 5;
+
+// '' follows the account's presence timeout, '0' never times devices out
+const PRESENCE_TIMEOUT_OPTIONS = [
+  { value: '', label: 'Account default' },
+  { value: '0', label: 'Never' },
+  { value: '300', label: '5 minutes' },
+  { value: '900', label: '15 minutes' },
+  { value: '1800', label: '30 minutes' },
+  { value: '3600', label: '1 hour' },
+  { value: '14400', label: '4 hours' },
+  { value: '86400', label: '24 hours' },
+];
 
 interface GeofenceEditModalProps {
   geofence: FrontendGeofence | null;
@@ -40,6 +73,26 @@ export function GeofenceEditModal({
     is_active: true,
     radius: 100,
   });
+  const [schedule, setSchedule] = useState<GeofenceSchedule>(DEFAULT_GEOFENCE_SCHEDULE);
+  const [routeDeviceIds, setRouteDeviceIds] = useState<string[]>([]);
+  // Entered in km/h and stored in m/s; an empty limit means the geofence isn't speed-checked
+  const [speedLimitKmh, setSpeedLimitKmh] = useState('');
+  const [overspeedSeconds, setOverspeedSeconds] = useState(DEFAULT_OVERSPEED_SECONDS);
+  const [capacity, setCapacity] = useState('');
+  const [presenceTimeout, setPresenceTimeout] = useState('');
+  // Empty fields leave the geofence covering every level
+  const [level, setLevel] = useState({ floor: '', minAltitudeM: '', maxAltitudeM: '' });
+  // Comma-separated while editing, stored as a list in metadata.tags
+  const [tags, setTags] = useState('');
+  const { data: occupants } = useGeofenceOccupants(geofence?.id || '', isOpen);
+  const { data: devices = [] } = useDevices();
+  const { data: deviceGroups = [] } = useDeviceGroups();
+  const updatePairing = useUpdateGeofencePairing();
+  const [pairing, setPairing] = useState({ anchorDeviceId: '', followerGroupId: '' });
+  const { geofences } = useGeofences();
+  const [parentId, setParentId] = useState('');
+  const [includeChildren, setIncludeChildren] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
@@ -52,13 +105,59 @@ export function GeofenceEditModal({
         is_active: geofence.is_active,
         radius: geofence.radius || 100,
       });
+      setSchedule(geofence.metadata?.schedule || DEFAULT_GEOFENCE_SCHEDULE);
+      setRouteDeviceIds(geofence.metadata?.corridor?.deviceIds || []);
+      setPairing({
+        anchorDeviceId: geofence.anchorDeviceId || '',
+        followerGroupId: geofence.followerGroupId || '',
+      });
+      const speedLimit: GeofenceSpeedLimit | undefined = geofence.metadata?.speedLimit;
+      setSpeedLimitKmh(speedLimit ? String(Math.round(speedLimit.limitMps * 3.6)) : '');
+      setOverspeedSeconds(speedLimit?.durationSeconds ?? DEFAULT_OVERSPEED_SECONDS);
+      setCapacity(geofence.metadata?.occupancy ? String(geofence.metadata.occupancy.capacity) : '');
+      setPresenceTimeout(geofence.metadata?.presence ? String(geofence.metadata.presence.timeoutSeconds) : '');
+      const storedLevel: GeofenceLevel | undefined = geofence.metadata?.level;
+      setLevel({
+        floor: storedLevel?.floor !== undefined ? String(storedLevel.floor) : '',
+        minAltitudeM: storedLevel?.minAltitudeM !== undefined ? String(storedLevel.minAltitudeM) : '',
+        maxAltitudeM: storedLevel?.maxAltitudeM !== undefined ? String(storedLevel.maxAltitudeM) : '',
+      });
+      setTags((geofence.metadata?.tags || []).join(', '));
+      setParentId(geofence.parentId || '');
+      setIncludeChildren(geofence.includeChildren ?? false);
+      setSaveError(null);
     }
   }, [geofence]);
 
+  // A geofence can't be nested inside itself or anything nested inside it
+  const parentOptions = useMemo(() => {
+    if (!geofence) return [];
+
+    const excluded = new Set([geofence.id]);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const candidate of geofences) {
+        if (candidate.parent_id && excluded.has(candidate.parent_id) && !excluded.has(candidate.id)) {
+          excluded.add(candidate.id);
+          added = true;
+        }
+      }
+    }
+
+    return geofences.filter(
+      (candidate) =>
+        !excluded.has(candidate.id) &&
+        candidate.geofence_type !== 'proximity' &&
+        candidate.geofence_type !== 'point'
+    );
+  }, [geofence, geofences]);
+
   const handleSave = async () => {
     if (!geofence) return;
 
     setSaving(true);
+    setSaveError(null);
     try {
       const updates: UpdateGeofenceRequest = {
         name: formData.name,
@@ -70,10 +169,84 @@ export function GeofenceEditModal({
         updates.radius_m = formData.radius;
       }
 
+      // Only store a schedule once one has been turned on, keeping the rest of the metadata
+      let metadata = geofence.metadata;
+      if (schedule.enabled || geofence.metadata?.schedule) {
+        metadata = { ...metadata, schedule };
+      }
+      if (geofence.type === 'corridor') {
+        metadata = { ...metadata, corridor: { deviceIds: routeDeviceIds } };
+      }
+      const limitKmh = parseFloat(speedLimitKmh);
+      if (limitKmh > 0) {
+        const speedLimit: GeofenceSpeedLimit = {
+          limitMps: limitKmh / 3.6,
+          durationSeconds: overspeedSeconds,
+        };
+        metadata = { ...metadata, speedLimit };
+      } else if (geofence.metadata?.speedLimit) {
+        metadata = { ...metadata };
+        delete metadata.speedLimit;
+      }
+      if (capacity !== '') {
+        metadata = { ...metadata, occupancy: { capacity: parseInt(capacity) || 0 } };
+      } else if (geofence.metadata?.occupancy) {
+        metadata = { ...metadata };
+        delete metadata.occupancy;
+      }
+      if (presenceTimeout !== '') {
+        metadata = { ...metadata, presence: { timeoutSeconds: parseInt(presenceTimeout) } };
+      } else if (geofence.metadata?.presence) {
+        metadata = { ...metadata };
+        delete metadata.presence;
+      }
+      if (level.floor !== '' || level.minAltitudeM !== '' || level.maxAltitudeM !== '') {
+        const geofenceLevel: GeofenceLevel = {};
+        if (level.floor !== '') geofenceLevel.floor = parseInt(level.floor);
+        if (level.minAltitudeM !== '') geofenceLevel.minAltitudeM = parseFloat(level.minAltitudeM);
+        if (level.maxAltitudeM !== '') geofenceLevel.maxAltitudeM = parseFloat(level.maxAltitudeM);
+        metadata = { ...metadata, level: geofenceLevel };
+      } else if (geofence.metadata?.level) {
+        metadata = { ...metadata };
+        delete metadata.level;
+      }
+      const tagList = [...new Set(tags.split(',').map((tag) => tag.trim()).filter(Boolean))];
+      if (tagList.join(',') !== (geofence.metadata?.tags || []).join(',')) {
+        metadata = { ...metadata, tags: tagList };
+        if (tagList.length === 0) delete metadata.tags;
+      }
+      if (metadata !== geofence.metadata) {
+        updates.metadata = metadata;
+      }
+      if (parentId !== (geofence.parentId || '')) {
+        updates.parent_id = parentId || null;
+      }
+      if (includeChildren !== (geofence.includeChildren ?? false)) {
+        updates.include_children = includeChildren;
+      }
+
+      // Anchor, follower group and radius of a proximity geofence are changed through its pairing
+      if (
+        geofence.type === 'proximity' &&
+        (pairing.anchorDeviceId !== geofence.anchorDeviceId ||
+          pairing.followerGroupId !== geofence.followerGroupId ||
+          formData.radius !== geofence.radius)
+      ) {
+        await updatePairing.mutateAsync({
+          geofenceId: geofence.id,
+          pairing: {
+            anchor_device_id: pairing.anchorDeviceId,
+            follower_group_id: pairing.followerGroupId,
+            radius: formData.radius,
+          },
+        });
+      }
+
       await onSave(geofence.id, updates);
       onClose();
     } catch (error) {
       console.error('Failed to save geofence:', error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to save geofence');
     } finally {
       setSaving(false);
     }
@@ -102,6 +275,10 @@ export function GeofenceEditModal({
         return <Hexagon className="h-4 w-4" />;
       case 'point':
         return <MapPin className="h-4 w-4" />;
+      case 'corridor':
+        return <Route className="h-4 w-4" />;
+      case 'proximity':
+        return <Radar className="h-4 w-4" />;
       default:
         return <MapPin className="h-4 w-4" />;
     }
@@ -120,6 +297,12 @@ export function GeofenceEditModal({
       case 'polygon':
         const coords = geofence.geometry.coordinates as number[][];
         return `${coords.length} vertices`;
+      case 'corridor':
+        const route = geofence.geometry.coordinates as number[][];
+        return `${route.length} route points • Width: ${geofence.width}m`;
+      case 'proximity':
+        const anchor = devices.find((device) => device.id === geofence.anchorDeviceId);
+        return `Follows ${anchor?.name || 'anchor device'} • Radius: ${geofence.radius}m`;
       default:
         return 'Complex geometry';
     }
@@ -141,7 +324,11 @@ export function GeofenceEditModal({
                   ? 'bg-green-100 text-green-600'
                   : geofence.type === 'polygon'
                     ? 'bg-blue-100 text-blue-600'
-                    : 'bg-orange-100 text-orange-600'
+                    : geofence.type === 'corridor'
+                      ? 'bg-purple-100 text-purple-600'
+                      : geofence.type === 'proximity'
+                        ? 'bg-pink-100 text-pink-600'
+                        : 'bg-orange-100 text-orange-600'
               }`}
             >
               {getGeofenceIcon(geofence.type)}
@@ -196,7 +383,59 @@ export function GeofenceEditModal({
               />
             </div>
 
-            {geofence.type === 'circle' && (
+            {geofence.type === 'proximity' && (
+              <div className="space-y-3">
+                <div>
+                  <label
+                    className="block text-sm font-medium text-gray-700"
+                    style={{ marginBottom: 'var(--space-sm)' }}
+                  >
+                    Anchor Device
+                  </label>
+                  <select
+                    value={pairing.anchorDeviceId}
+                    onChange={(e) => setPairing({ ...pairing, anchorDeviceId: e.target.value })}
+                    className="w-full border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                    style={{ padding: 'var(--space-sm) var(--space-md)' }}
+                  >
+                    {devices.map((device) => (
+                      <option key={device.id} value={device.id}>
+                        {device.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label
+                    className="block text-sm font-medium text-gray-700"
+                    style={{ marginBottom: 'var(--space-sm)' }}
+                  >
+                    Follower Group
+                  </label>
+                  <select
+                    value={pairing.followerGroupId}
+                    onChange={(e) => setPairing({ ...pairing, followerGroupId: e.target.value })}
+                    className="w-full border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                    style={{ padding: 'var(--space-sm) var(--space-md)' }}
+                  >
+                    <option value="" disabled>
+                      Select a device group
+                    </option>
+                    {deviceGroups.map((group) => (
+                      <option key={group.id} value={group.id}>
+                        {group.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500" style={{ marginTop: 'var(--space-xs)' }}>
+                    Devices in this group get proximity events as they come within or move beyond
+                    the radius around the anchor.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {(geofence.type === 'circle' || geofence.type === 'proximity') && (
               <div>
                 <label
                   className="block text-sm font-medium text-gray-700"
@@ -239,6 +478,307 @@ export function GeofenceEditModal({
               </button>
             </div>
 
+            {geofence.type !== 'proximity' && (
+              <div>
+                <label
+                  className="block text-sm font-medium text-gray-700"
+                  style={{ marginBottom: 'var(--space-sm)' }}
+                >
+                  Parent Geofence
+                </label>
+                <select
+                  value={parentId}
+                  onChange={(e) => setParentId(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                  style={{ padding: 'var(--space-sm) var(--space-md)' }}
+                >
+                  <option value="">None (top level)</option>
+                  {parentOptions.map((candidate) => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidate.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500" style={{ marginTop: 'var(--space-xs)' }}>
+                  The geofence must lie within its parent, e.g. a loading bay within its building.
+                </p>
+                <label
+                  className="flex items-center text-sm text-gray-700 cursor-pointer"
+                  style={{ marginTop: 'var(--space-sm)', gap: 'var(--space-sm)' }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={includeChildren}
+                    onChange={(e) => setIncludeChildren(e.target.checked)}
+                  />
+                  Count devices in nested geofences as inside this one
+                </label>
+              </div>
+            )}
+
+            {geofence.type === 'corridor' && (
+              <div>
+                <label
+                  className="block text-sm font-medium text-gray-700"
+                  style={{ marginBottom: 'var(--space-sm)' }}
+                >
+                  Assigned Devices
+                </label>
+                <p className="text-xs text-gray-500" style={{ marginBottom: 'var(--space-sm)' }}>
+                  These devices get deviation and rejoin events when they leave or return to the
+                  route.
+                </p>
+                <div className="border border-gray-200 rounded-md max-h-40 overflow-y-auto">
+                  {devices.length === 0 ? (
+                    <p className="text-sm text-gray-500" style={{ padding: 'var(--space-sm)' }}>
+                      No devices yet
+                    </p>
+                  ) : (
+                    devices.map((device) => (
+                      <label
+                        key={device.id}
+                        className="flex items-center text-sm text-gray-700 hover:bg-gray-50 cursor-pointer"
+                        style={{ padding: 'var(--space-xs) var(--space-sm)', gap: 'var(--space-sm)' }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={routeDeviceIds.includes(device.id)}
+                          onChange={() =>
+                            setRouteDeviceIds((prev) =>
+                              prev.includes(device.id)
+                                ? prev.filter((id) => id !== device.id)
+                                : [...prev, device.id]
+                            )
+                          }
+                        />
+                        {device.name}
+                      </label>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label
+                className="block text-sm font-medium text-gray-700"
+                style={{ marginBottom: 'var(--space-sm)' }}
+              >
+                Speed Limit
+              </label>
+              <div className="flex items-center text-sm text-gray-600" style={{ gap: 'var(--space-sm)' }}>
+                <input
+                  type="number"
+                  min={1}
+                  value={speedLimitKmh}
+                  onChange={(e) => setSpeedLimitKmh(e.target.value)}
+                  className="w-24 border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                  style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                  placeholder="None"
+                />
+                <span>km/h for at least</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={overspeedSeconds}
+                  onChange={(e) => setOverspeedSeconds(parseInt(e.target.value) || 0)}
+                  disabled={!speedLimitKmh}
+                  className="w-20 border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors disabled:bg-gray-50"
+                  style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                />
+                <span>seconds</span>
+              </div>
+              <p className="text-xs text-gray-500" style={{ marginTop: 'var(--space-xs)' }}>
+                Devices inside the geofence above this speed trigger overspeed events. Leave empty
+                for no limit.
+              </p>
+            </div>
+
+            <div>
+              <label
+                className="block text-sm font-medium text-gray-700"
+                style={{ marginBottom: 'var(--space-sm)' }}
+              >
+                Capacity
+              </label>
+              <div className="flex items-center text-sm text-gray-600" style={{ gap: 'var(--space-sm)' }}>
+                <input
+                  type="number"
+                  min={0}
+                  value={capacity}
+                  onChange={(e) => setCapacity(e.target.value)}
+                  className="w-24 border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                  style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                  placeholder="None"
+                />
+                <span>devices</span>
+                {occupants && (
+                  <span
+                    className={`ml-auto ${
+                      occupants.capacity !== null && occupants.occupancy > occupants.capacity
+                        ? 'text-red-600 font-medium'
+                        : ''
+                    }`}
+                  >
+                    {occupants.occupancy} inside now
+                  </span>
+                )}
+              </div>
+              {occupants && occupants.occupants.length > 0 && (
+                <p className="text-xs text-gray-500" style={{ marginTop: 'var(--space-xs)' }}>
+                  {occupants.occupants.map((occupant) => occupant.name).join(', ')}
+                </p>
+              )}
+            </div>
+
+            {geofence.type !== 'proximity' && (
+              <div>
+                <label
+                  className="block text-sm font-medium text-gray-700"
+                  style={{ marginBottom: 'var(--space-sm)' }}
+                >
+                  Presence Timeout
+                </label>
+                <select
+                  value={presenceTimeout}
+                  onChange={(e) => setPresenceTimeout(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-sm"
+                  style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                >
+                  {PRESENCE_TIMEOUT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500" style={{ marginTop: 'var(--space-xs)' }}>
+                  A device inside that stops reporting for this long gets an exit, and a presence
+                  restored event if it reports from inside again.
+                </p>
+              </div>
+            )}
+
+            {geofence.type !== 'proximity' && (
+              <div>
+                <label
+                  className="block text-sm font-medium text-gray-700"
+                  style={{ marginBottom: 'var(--space-sm)' }}
+                >
+                  Level
+                </label>
+                <div className="flex items-center text-sm text-gray-600" style={{ gap: 'var(--space-sm)' }}>
+                  <span>Floor</span>
+                  <input
+                    type="number"
+                    step={1}
+                    value={level.floor}
+                    onChange={(e) => setLevel({ ...level, floor: e.target.value })}
+                    className="w-20 border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                    style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                    placeholder="Any"
+                  />
+                  <span>or altitude</span>
+                  <input
+                    type="number"
+                    value={level.minAltitudeM}
+                    onChange={(e) => setLevel({ ...level, minAltitudeM: e.target.value })}
+                    className="w-20 border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                    style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                    placeholder="Min"
+                  />
+                  <span>to</span>
+                  <input
+                    type="number"
+                    value={level.maxAltitudeM}
+                    onChange={(e) => setLevel({ ...level, maxAltitudeM: e.target.value })}
+                    className="w-20 border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                    style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                    placeholder="Max"
+                  />
+                  <span>m</span>
+                </div>
+                <p className="text-xs text-gray-500" style={{ marginTop: 'var(--space-xs)' }}>
+                  For zones on one level of a multi-storey site. Devices only count as inside when
+                  they report this floor or, without a floor, an altitude in the range. Leave empty
+                  for every level.
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label
+                className="block text-sm font-medium text-gray-700"
+                style={{ marginBottom: 'var(--space-sm)' }}
+              >
+                Tags
+              </label>
+              <input
+                type="text"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                className="w-full border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
+                style={{ padding: 'var(--space-md)' }}
+                placeholder="e.g. depot, north-region"
+              />
+              <p className="text-xs text-gray-500" style={{ marginTop: 'var(--space-xs)' }}>
+                Separate tags with commas. Batch location tests can be limited to geofences with
+                given tags.
+              </p>
+            </div>
+
+            <div>
+              <label
+                className="block text-sm font-medium text-gray-700"
+                style={{ marginBottom: 'var(--space-sm)' }}
+              >
+                Active Schedule
+              </label>
+              <GeofenceScheduleEditor schedule={schedule} onChange={setSchedule} />
+            </div>
+
+            {geofence.type !== 'proximity' && (
+              <div>
+                <label
+                  className="block text-sm font-medium text-gray-700"
+                  style={{ marginBottom: 'var(--space-sm)' }}
+                >
+                  Indoor Beacons
+                </label>
+                <GeofenceBeaconPanel geofenceId={geofence.id} enabled={isOpen} />
+              </div>
+            )}
+
+            {geofence.type !== 'proximity' && (
+              <div>
+                <label
+                  className="block text-sm font-medium text-gray-700"
+                  style={{ marginBottom: 'var(--space-sm)' }}
+                >
+                  History
+                </label>
+                <GeofenceBackfillPanel geofenceId={geofence.id} enabled={isOpen} />
+              </div>
+            )}
+
+            {geofence.type !== 'proximity' && (
+              <div>
+                <label
+                  className="block text-sm font-medium text-gray-700"
+                  style={{ marginBottom: 'var(--space-sm)' }}
+                >
+                  Revisions
+                </label>
+                <GeofenceRevisionPanel
+                  geofenceId={geofence.id}
+                  enabled={isOpen}
+                  // Keep saving from putting back the radius the rollback replaced
+                  onRollback={(revision) =>
+                    revision.radius_m !== null && setFormData({ ...formData, radius: revision.radius_m })
+                  }
+                />
+              </div>
+            )}
+
             <div className="bg-gray-50 rounded-md" style={{ padding: 'var(--space-md)' }}>
               <h4
                 className="text-sm font-medium text-gray-700"
@@ -288,6 +828,7 @@ export function GeofenceEditModal({
           </div>
 
           <div className="flex items-center" style={{ gap: 'var(--space-sm)' }}>
+            {saveError && <p className="text-xs text-red-600">{saveError}</p>}
             <button
               onClick={onClose}
               className="text-gray-700 hover:text-gray-900 border border-gray-300 hover:bg-gray-50 rounded-md font-medium transition-colors"
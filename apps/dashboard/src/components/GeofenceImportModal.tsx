@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, CheckCircle2, FileUp, Loader2, X } from 'lucide-react';
+import { useImportGeofences } from '../hooks/useApi';
+import type { GeofenceFileFormat, GeofenceImportReport, ImportGeofencesRequest } from '../services/api';
+
+interface GeofenceImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FORMATS_BY_EXTENSION: Record<string, GeofenceFileFormat> = {
+  geojson: 'geojson',
+  json: 'geojson',
+  kml: 'kml',
+  gpx: 'gpx',
+};
+
+const EMPTY_MAPPING = { name: '', description: '', external_id: '' };
+
+const ACTION_LABELS = {
+  create: { preview: 'Create', done: 'Created', className: 'text-green-700' },
+  update: { preview: 'Update', done: 'Updated', className: 'text-blue-700' },
+  invalid: { preview: 'Invalid', done: 'Skipped', className: 'text-red-600' },
+};
+
+const formatOf = (fileName: string): GeofenceFileFormat | null =>
+  FORMATS_BY_EXTENSION[fileName.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+/**
+ * Imports geofences from a file in two steps: a dry run reports what each feature would
+ * become and why any are invalid, then the import creates and updates them.
+ */
+export function GeofenceImportModal({ isOpen, onClose }: GeofenceImportModalProps) {
+  const [file, setFile] = useState<{ name: string; format: GeofenceFileFormat; content: string } | null>(null);
+  const [mapping, setMapping] = useState(EMPTY_MAPPING);
+  const [report, setReport] = useState<GeofenceImportReport | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const importGeofences = useImportGeofences();
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setFile(null);
+    setMapping(EMPTY_MAPPING);
+    setReport(null);
+    setFileError(null);
+    importGeofences.reset();
+    onClose();
+  };
+
+  const handleFileChange = async (selected: File | undefined) => {
+    setReport(null);
+    setFile(null);
+    if (!selected) return;
+
+    const format = formatOf(selected.name);
+    if (!format) {
+      setFileError('Choose a .geojson, .json, .kml or .gpx file');
+      return;
+    }
+
+    setFileError(null);
+    setFile({ name: selected.name, format, content: await selected.text() });
+  };
+
+  const runImport = (dryRun: boolean) => {
+    if (!file) return;
+
+    // Blank fields keep the default property names
+    const request: ImportGeofencesRequest = {
+      format: file.format,
+      content: file.content,
+      dry_run: dryRun,
+      mapping: Object.fromEntries(Object.entries(mapping).filter(([, value]) => value.trim() !== '')),
+    };
+    importGeofences.mutate(request, { onSuccess: setReport });
+  };
+
+  const inputClassName =
+    'border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-sm';
+  const importable = report ? report.summary.create + report.summary.update : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-2 z-50">
+      <div className="bg-white rounded-md p-3 w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold text-gray-900">Import Geofences</h3>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">File</label>
+            <input
+              type="file"
+              accept=".geojson,.json,.kml,.gpx"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+              className="block w-full text-sm text-gray-700"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              GeoJSON FeatureCollections, KML placemarks and GPX waypoints, routes and tracks. Points with a
+              radius_m become circles, lines become corridors (width_m, 50 m by default) and areas become
+              polygons. Features with an external ID imported before update their geofence.
+            </p>
+            {fileError && <p className="mt-1 text-xs text-red-600">{fileError}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Property mapping</label>
+            <div className="grid grid-cols-3" style={{ gap: 'var(--space-sm)' }}>
+              {(Object.keys(EMPTY_MAPPING) as (keyof typeof EMPTY_MAPPING)[]).map((field) => (
+                <input
+                  key={field}
+                  value={mapping[field]}
+                  onChange={(e) => {
+                    setMapping({ ...mapping, [field]: e.target.value });
+                    setReport(null);
+                  }}
+                  className={inputClassName}
+                  style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                  placeholder={`${field.replace('_', ' ')} property (${field})`}
+                />
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Other properties are kept in each geofence&apos;s metadata.
+            </p>
+          </div>
+
+          {importGeofences.error && (
+            <div className="flex items-center text-sm text-red-600" style={{ gap: 'var(--space-xs)' }}>
+              <AlertCircle className="h-4 w-4" />
+              {importGeofences.error.message}
+            </div>
+          )}
+
+          {report && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700">
+                {report.dry_run ? 'Would create' : 'Created'} {report.summary.create},{' '}
+                {report.dry_run ? 'update' : 'updated'} {report.summary.update}
+                {report.summary.invalid > 0 && `, ${report.summary.invalid} invalid`} of {report.summary.total}{' '}
+                {report.summary.total === 1 ? 'feature' : 'features'}.
+              </p>
+              <div className="border border-gray-200 rounded-md overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs text-gray-500">
+                    <tr>
+                      <th className="px-2 py-1">#</th>
+                      <th className="px-2 py-1">Name</th>
+                      <th className="px-2 py-1">Type</th>
+                      <th className="px-2 py-1">External ID</th>
+                      <th className="px-2 py-1">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.features.map((feature) => {
+                      const label = ACTION_LABELS[feature.action];
+                      return (
+                        <tr key={feature.index} className="border-t border-gray-100 align-top">
+                          <td className="px-2 py-1 text-gray-500">{feature.index + 1}</td>
+                          <td className="px-2 py-1">{feature.name ?? '—'}</td>
+                          <td className="px-2 py-1 text-gray-600">{feature.geofence_type ?? '—'}</td>
+                          <td className="px-2 py-1 text-gray-600 truncate max-w-[10rem]">{feature.external_id ?? '—'}</td>
+                          <td className="px-2 py-1">
+                            <span className={label.className}>{report.dry_run ? label.preview : label.done}</span>
+                            {[...feature.errors, ...feature.warnings].map((message, i) => (
+                              <p
+                                key={i}
+                                className={`text-xs ${i < feature.errors.length ? 'text-red-600' : 'text-amber-600'}`}
+                              >
+                                {message}
+                              </p>
+                            ))}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-6">
+          {report && !report.dry_run ? (
+            <button
+              onClick={handleClose}
+              className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center space-x-2"
+            >
+              <CheckCircle2 className="h-4 w-4" />
+              <span>Done</span>
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => runImport(true)}
+                disabled={!file || importGeofences.isPending}
+                className="px-3 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Validate
+              </button>
+              <button
+                onClick={() => runImport(false)}
+                disabled={!report || importable === 0 || importGeofences.isPending}
+                className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+              >
+                {importGeofences.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+                <span>
+                  Import {importable} {importable === 1 ? 'geofence' : 'geofences'}
+                </span>
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,11 +10,16 @@ import {
   TerraDrawCircleMode,
   TerraDrawRectangleMode,
   TerraDrawLineStringMode,
+  TerraDrawFreehandMode,
 } from 'terra-draw';
+import { isPointInRing, type Position } from '@geofence/shared';
 import { GeofenceMapToolbar } from './GeofenceMapToolbar';
+import { GeofenceTreePanel } from './GeofenceTreePanel';
 import { FrontendGeofence } from '../types/geofence';
+import { deviceService, type SpatialDevice } from '../services/api';
+import { addHole, addPart, isSimplePolygon } from '../utils/polygonGeometry';
 import { toast } from 'react-hot-toast';
-import { Ruler, X } from 'lucide-react';
+import { LassoSelect, Ruler, X } from 'lucide-react';
 import 'maplibre-gl/dist/maplibre-gl.css';
 
 interface Device {
@@ -29,6 +34,14 @@ interface Device {
 // Use professional types from our type system
 type Geofence = FrontendGeofence;
 
+const DEFAULT_CORRIDOR_WIDTH_METERS = 50;
+const CORRIDOR_SOURCE_ID = 'geofence-corridors';
+const SHAPES_SOURCE_ID = 'geofence-shapes';
+
+// Polygons with holes or several parts, which the drawing tools can't load for editing
+const isComplexPolygon = (geofence: Geofence) =>
+  geofence.type === 'polygon' && !isSimplePolygon(geofence.geometry);
+
 interface GeofenceMapProps {
   geofences?: Geofence[];
   devices?: Device[];
@@ -53,16 +66,44 @@ export function GeofenceMap({
   const draw = useRef<TerraDraw | null>(null);
 
   const [activeDrawingTool, setActiveDrawingTool] = useState<
-    'select' | 'circle' | 'polygon' | 'rectangle' | 'measure' | null
+    'select' | 'circle' | 'polygon' | 'rectangle' | 'corridor' | 'measure' | 'hole' | 'part' | 'lasso' | null
   >('select');
+  // Corridors and measurements both draw lines, so the finish handler needs the current tool
+  const activeDrawingToolRef = useRef(activeDrawingTool);
+  // Polygon geofence that drawn holes are cut out of, or drawn parts are added to
+  const shapeTargetRef = useRef<Geofence | null>(null);
   const [selectedGeofences, setSelectedGeofences] = useState<string[]>([]);
   const [showDevices, setShowDevices] = useState(true);
   const [mapStyle, setMapStyle] = useState<'streets' | 'satellite' | 'terrain'>('streets');
   const [snapToGrid, setSnapToGrid] = useState(false);
+  const [collapsedGeofences, setCollapsedGeofences] = useState<Set<string>>(new Set());
   const [measurementResults, setMeasurementResults] = useState<{
     totalDistance: number;
     points: Array<{ lat: number; lng: number; distance?: number }>;
   } | null>(null);
+  // Devices whose last known location is inside the area drawn with the lasso
+  const [deviceSelection, setDeviceSelection] = useState<{ devices: SpatialDevice[]; truncated: boolean } | null>(
+    null
+  );
+
+  // Asks the API for the devices in the lasso's bounding box, then keeps those inside the lasso itself
+  const selectDevicesInLasso = useCallback(async (ring: Position[]) => {
+    const longitudes = ring.map(([lng]) => lng);
+    const latitudes = ring.map(([, lat]) => lat);
+
+    try {
+      const { data, truncated } = await deviceService.getDevicesWithin({
+        bbox: [Math.min(...longitudes), Math.min(...latitudes), Math.max(...longitudes), Math.max(...latitudes)],
+        limit: 5000,
+      });
+      const devices = data.filter((device) => isPointInRing(device.longitude, device.latitude, ring));
+      setDeviceSelection({ devices, truncated });
+      toast.success(`Selected ${devices.length} ${devices.length === 1 ? 'device' : 'devices'}`);
+    } catch (error) {
+      console.error('Failed to select devices in area:', error);
+      toast.error('Failed to select devices in area');
+    }
+  }, []);
 
   // Helper function to clear measurement lines from Terra Draw
   const clearMeasurementLines = useCallback(() => {
@@ -239,7 +280,20 @@ export function GeofenceMap({
                 outlineWidth: 2,
               },
             }),
-            new TerraDrawLineStringMode(), // For measurement
+            new TerraDrawLineStringMode({
+              styles: {
+                lineStringColor: '#8B5CF6',
+                lineStringWidth: 3,
+              },
+            }), // For measurement and corridor routes
+            new TerraDrawFreehandMode({
+              styles: {
+                fillColor: '#F59E0B',
+                fillOpacity: 0.1,
+                outlineColor: '#F59E0B',
+                outlineWidth: 2,
+              },
+            }), // For the device selection lasso
           ],
         });
 
@@ -297,8 +351,43 @@ export function GeofenceMap({
             const geometry = feature.geometry;
             console.log('🔷 Geometry:', geometry);
 
+            // The lasso selects the devices inside it and isn't kept on the map
+            if (terraDrawMode === 'freehand' && geometry.type === 'Polygon') {
+              draw.current?.removeFeatures([id]);
+              selectDevicesInLasso(geometry.coordinates[0] as Position[]);
+              setTimeout(() => {
+                setActiveDrawingTool('select');
+              }, 100);
+              return;
+            }
+
+            // A ring drawn with the hole or part tool reshapes the target geofence instead
+            const shapeTool = activeDrawingToolRef.current;
+            if ((shapeTool === 'hole' || shapeTool === 'part') && geometry.type === 'Polygon') {
+              draw.current?.removeFeatures([id]);
+
+              const target = shapeTargetRef.current;
+              const ring = geometry.coordinates[0];
+              const reshaped =
+                target && (shapeTool === 'hole' ? addHole(target.geometry, ring) : addPart(target.geometry, ring));
+              if (!target || !reshaped) {
+                toast.error('Draw the hole entirely inside the selected polygon');
+                return;
+              }
+
+              onGeofenceUpdate?.(target.id, { geometry: reshaped });
+              shapeTargetRef.current = { ...target, geometry: reshaped };
+              return;
+            }
+
+            const isCorridor =
+              terraDrawMode === 'linestring' && activeDrawingToolRef.current === 'corridor';
+
             // Handle measurement tool completion
-            if (terraDrawMode === 'linestring' || feature.geometry.type === 'LineString') {
+            if (
+              !isCorridor &&
+              (terraDrawMode === 'linestring' || feature.geometry.type === 'LineString')
+            ) {
               console.log('📏 Processing measurement line');
               const coords = geometry.coordinates as number[][];
               const points = coords.map((coord, index) => ({
@@ -330,26 +419,35 @@ export function GeofenceMap({
             }
 
             if (
-              terraDrawMode &&
-              terraDrawMode !== 'select' &&
-              terraDrawMode !== 'unknown' &&
-              terraDrawMode !== 'linestring'
+              isCorridor ||
+              (terraDrawMode &&
+                terraDrawMode !== 'select' &&
+                terraDrawMode !== 'unknown' &&
+                terraDrawMode !== 'linestring')
             ) {
-              console.log('✏️ Creating geofence for tool:', terraDrawMode);
+              const tool = isCorridor ? 'corridor' : terraDrawMode;
+              console.log('✏️ Creating geofence for tool:', tool);
 
               const newGeofence: Omit<Geofence, 'id'> = {
-                name: `${terraDrawMode.charAt(0).toUpperCase() + terraDrawMode.slice(1)} Geofence ${geofences.length + 1}`,
+                name: `${tool.charAt(0).toUpperCase() + tool.slice(1)} Geofence ${geofences.length + 1}`,
                 geometry: geometry as any,
                 color: '#3B82F6',
                 is_active: true,
                 type:
-                  terraDrawMode === 'circle'
+                  tool === 'circle'
                     ? 'circle'
-                    : terraDrawMode === 'polygon' || terraDrawMode === 'rectangle'
+                    : tool === 'polygon' || tool === 'rectangle'
                       ? 'polygon'
-                      : 'point',
+                      : tool === 'corridor'
+                        ? 'corridor'
+                        : 'point',
               };
 
+              if (isCorridor) {
+                newGeofence.width = DEFAULT_CORRIDOR_WIDTH_METERS;
+                newGeofence.color = '#8B5CF6';
+              }
+
               if (terraDrawMode === 'circle') {
                 console.log('🟢 Processing circle geofence');
 
@@ -481,6 +579,7 @@ export function GeofenceMap({
     }
 
     console.log('🔄 Changing drawing mode:', { activeDrawingTool });
+    activeDrawingToolRef.current = activeDrawingTool;
 
     try {
       if (activeDrawingTool === 'measure') {
@@ -510,6 +609,20 @@ export function GeofenceMap({
           draw.current.setMode('rectangle');
           setLastDrawingTool('rectangle'); // Save the drawing tool
           break;
+        case 'corridor':
+          console.log('🛣️ Setting corridor mode (linestring)');
+          draw.current.setMode('linestring');
+          setLastDrawingTool('corridor'); // Save the drawing tool
+          break;
+        case 'hole':
+        case 'part':
+          draw.current.setMode('polygon');
+          setLastDrawingTool(activeDrawingTool);
+          break;
+        case 'lasso':
+          draw.current.setMode('freehand');
+          setLastDrawingTool(null);
+          break;
         default:
           console.log('🔍 Setting default select mode');
           draw.current.setMode('select');
@@ -522,6 +635,42 @@ export function GeofenceMap({
     }
   }, [activeDrawingTool]);
 
+  const hasHierarchy = useMemo(
+    () => geofences.some((geofence) => geofence.parentId && geofences.some((g) => g.id === geofence.parentId)),
+    [geofences]
+  );
+
+  // Everything nested inside a collapsed geofence is left off the map
+  const visibleGeofences = useMemo(() => {
+    if (collapsedGeofences.size === 0) return geofences;
+
+    const parents = new Map(geofences.map((geofence) => [geofence.id, geofence.parentId]));
+    const isHidden = (geofence: Geofence) => {
+      const seen = new Set<string>();
+      let parentId = geofence.parentId;
+      while (parentId && !seen.has(parentId)) {
+        if (collapsedGeofences.has(parentId)) return true;
+        seen.add(parentId);
+        parentId = parents.get(parentId);
+      }
+      return false;
+    };
+
+    return geofences.filter((geofence) => !isHidden(geofence));
+  }, [geofences, collapsedGeofences]);
+
+  const toggleCollapsed = useCallback((geofenceId: string) => {
+    setCollapsedGeofences((prev) => {
+      const next = new Set(prev);
+      if (next.has(geofenceId)) {
+        next.delete(geofenceId);
+      } else {
+        next.add(geofenceId);
+      }
+      return next;
+    });
+  }, []);
+
   // Add geofences to map
   useEffect(() => {
     if (!map.current || !draw.current || !isMapLoaded) return;
@@ -529,8 +678,14 @@ export function GeofenceMap({
     // Clear existing geofences
     draw.current.clear();
 
-    // Add geofences to terra draw with proper feature structure
-    const features = geofences.map((geofence) => {
+    // Add geofences to terra draw with proper feature structure. Corridors are drawn
+    // by their own map layer below, since their width is in meters. Proximity geofences
+    // follow their anchor device, so they have no fixed shape to draw.
+    const drawable = visibleGeofences.filter(
+      (geofence) =>
+        geofence.type !== 'corridor' && geofence.type !== 'proximity' && !isComplexPolygon(geofence)
+    );
+    const features = drawable.map((geofence) => {
       let geometry;
       let mode = 'polygon';
 
@@ -562,7 +717,105 @@ export function GeofenceMap({
     if (features.length > 0) {
       draw.current.addFeatures(features);
     }
-  }, [geofences, isMapLoaded]);
+  }, [visibleGeofences, isMapLoaded]);
+
+  // Draw corridors as their route line, scaled with the zoom level to their width in meters
+  useEffect(() => {
+    if (!map.current || !isMapLoaded) return;
+
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: visibleGeofences
+        .filter((geofence) => geofence.type === 'corridor' && geofence.geometry.type === 'LineString')
+        .map((geofence) => ({
+          type: 'Feature' as const,
+          geometry: geofence.geometry as any,
+          properties: {
+            geofenceId: geofence.id,
+            widthAtZoom0: corridorWidthAtZoom0(
+              geofence.geometry.coordinates as number[][],
+              geofence.width || DEFAULT_CORRIDOR_WIDTH_METERS
+            ),
+          },
+        })),
+    };
+
+    const source = map.current.getSource(CORRIDOR_SOURCE_ID) as maplibregl.GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+
+    map.current.addSource(CORRIDOR_SOURCE_ID, { type: 'geojson', data });
+    map.current.addLayer({
+      id: `${CORRIDOR_SOURCE_ID}-area`,
+      type: 'line',
+      source: CORRIDOR_SOURCE_ID,
+      layout: { 'line-cap': 'round', 'line-join': 'round' },
+      paint: {
+        'line-color': '#8B5CF6',
+        'line-opacity': 0.25,
+        'line-width': [
+          'interpolate',
+          ['exponential', 2],
+          ['zoom'],
+          0,
+          ['get', 'widthAtZoom0'],
+          22,
+          ['*', ['get', 'widthAtZoom0'], 2 ** 22],
+        ],
+      },
+    });
+    map.current.addLayer({
+      id: `${CORRIDOR_SOURCE_ID}-route`,
+      type: 'line',
+      source: CORRIDOR_SOURCE_ID,
+      paint: { 'line-color': '#8B5CF6', 'line-width': 2, 'line-dasharray': [2, 2] },
+    });
+  }, [visibleGeofences, isMapLoaded]);
+
+  // Polygons with holes or several parts are drawn by their own layers; clicking one selects it
+  useEffect(() => {
+    if (!map.current || !isMapLoaded) return;
+
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: visibleGeofences.filter(isComplexPolygon).map((geofence) => ({
+        type: 'Feature' as const,
+        geometry: geofence.geometry as any,
+        properties: { geofenceId: geofence.id, color: geofence.color },
+      })),
+    };
+
+    const source = map.current.getSource(SHAPES_SOURCE_ID) as maplibregl.GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+
+    map.current.addSource(SHAPES_SOURCE_ID, { type: 'geojson', data });
+    map.current.addLayer({
+      id: `${SHAPES_SOURCE_ID}-fill`,
+      type: 'fill',
+      source: SHAPES_SOURCE_ID,
+      paint: { 'fill-color': ['get', 'color'], 'fill-opacity': 0.2 },
+    });
+    map.current.addLayer({
+      id: `${SHAPES_SOURCE_ID}-outline`,
+      type: 'line',
+      source: SHAPES_SOURCE_ID,
+      paint: { 'line-color': ['get', 'color'], 'line-width': 2 },
+    });
+    map.current.on('click', `${SHAPES_SOURCE_ID}-fill`, (e) => {
+      const geofenceId = e.features?.[0]?.properties?.geofenceId;
+      if (geofenceId) setSelectedGeofences([String(geofenceId)]);
+    });
+  }, [visibleGeofences, isMapLoaded]);
+
+  const selectedDeviceIds = useMemo(
+    () => new Set(deviceSelection?.devices.map((device) => device.id) ?? []),
+    [deviceSelection]
+  );
 
   // Add devices to map
   useEffect(() => {
@@ -580,7 +833,7 @@ export function GeofenceMap({
         width: 12px;
         height: 12px;
         background: ${device.isOnline ? '#10B981' : '#6B7280'};
-        border: 2px solid white;
+        border: 2px solid ${selectedDeviceIds.has(device.id) ? '#F59E0B' : 'white'};
         border-radius: 50%;
         box-shadow: 0 2px 4px rgba(0,0,0,0.2);
         cursor: pointer;
@@ -597,11 +850,20 @@ export function GeofenceMap({
         .setPopup(popup)
         .addTo(map.current!);
     });
-  }, [devices, showDevices, isMapLoaded]);
+  }, [devices, showDevices, isMapLoaded, selectedDeviceIds]);
 
   // Toolbar event handlers
   const handleToolChange = useCallback(
     (tool: typeof activeDrawingTool) => {
+      if (tool === 'hole' || tool === 'part') {
+        const target = geofences.find((geofence) => geofence.id === selectedGeofences[0]);
+        if (selectedGeofences.length !== 1 || target?.type !== 'polygon') {
+          toast.error('Select a single polygon geofence first');
+          return;
+        }
+        shapeTargetRef.current = target;
+      }
+
       // Clear measurement results when switching away from measurement tool
       if (activeDrawingTool === 'measure' && tool !== 'measure') {
         setMeasurementResults(null);
@@ -610,7 +872,7 @@ export function GeofenceMap({
       }
       setActiveDrawingTool(tool);
     },
-    [activeDrawingTool, clearMeasurementLines]
+    [activeDrawingTool, clearMeasurementLines, geofences, selectedGeofences]
   );
 
   const handleBulkDelete = useCallback(() => {
@@ -693,6 +955,14 @@ export function GeofenceMap({
         snapToGrid={snapToGrid}
       />
 
+      {hasHierarchy && (
+        <GeofenceTreePanel
+          geofences={geofences}
+          collapsed={collapsedGeofences}
+          onToggle={toggleCollapsed}
+        />
+      )}
+
       {/* Measurement Mode Helper */}
       {activeDrawingTool === 'measure' && !measurementResults && (
         <div className="absolute top-6 right-6 bg-white/95 backdrop-blur-sm p-2 rounded-md shadow-lg border border-neutral-200/50 max-w-sm">
@@ -706,6 +976,63 @@ export function GeofenceMap({
         </div>
       )}
 
+      {/* Lasso Mode Helper */}
+      {activeDrawingTool === 'lasso' && (
+        <div className="absolute top-6 right-6 bg-white/95 backdrop-blur-sm p-2 rounded-md shadow-lg border border-neutral-200/50 max-w-sm">
+          <h3 className="font-medium text-neutral-900 mb-2 flex items-center gap-2">
+            <LassoSelect className="h-4 w-4 text-neutral-600" />
+            Select Devices in Area
+          </h3>
+          <p className="text-sm text-neutral-600 leading-relaxed">
+            Click, then move around the devices to select. Click again to finish.
+          </p>
+        </div>
+      )}
+
+      {/* Lasso Selection Results */}
+      {deviceSelection && activeDrawingTool !== 'lasso' && !measurementResults && (
+        <div className="absolute top-6 right-6 bg-white/95 backdrop-blur-sm p-2 rounded-md shadow-lg border border-neutral-200/50 w-72">
+          <h3 className="font-medium text-neutral-900 mb-3 flex items-center gap-2">
+            <LassoSelect className="h-4 w-4 text-neutral-600" />
+            {deviceSelection.devices.length} {deviceSelection.devices.length === 1 ? 'Device' : 'Devices'} Selected
+            <button
+              onClick={() => setDeviceSelection(null)}
+              className="ml-auto p-1 text-neutral-400 hover:text-neutral-600 hover:bg-neutral-100 rounded-md transition-colors"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </h3>
+
+          {deviceSelection.devices.length === 0 ? (
+            <p className="text-sm text-neutral-600">No devices were last seen in this area.</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto premium-scrollbar space-y-2">
+              {deviceSelection.devices.map((device) => (
+                <div key={device.id} className="text-sm flex justify-between items-center gap-2">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <span
+                      className={`h-2 w-2 flex-shrink-0 rounded-full ${
+                        device.status === 'online' ? 'bg-green-500' : 'bg-neutral-400'
+                      }`}
+                    />
+                    <span className="truncate text-neutral-900">{device.name}</span>
+                  </span>
+                  <span className="flex-shrink-0 font-mono text-xs text-neutral-500">
+                    {formatFixAge(device.fix_age_seconds)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {deviceSelection.truncated && (
+            <p className="mt-3 text-xs text-amber-600">
+              The area has more devices than can be selected at once; draw a smaller one.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Measurement Results Overlay */}
       {measurementResults && (
         <div className="absolute top-6 right-6 bg-white/95 backdrop-blur-sm p-2 rounded-md shadow-lg border border-neutral-200/50 max-w-sm">
@@ -791,6 +1118,22 @@ function formatDistance(distanceInMeters: number): string {
   }
 }
 
+// How long ago a device's last fix was, e.g. "45s ago" or "3h ago"
+function formatFixAge(seconds: number | null): string {
+  if (seconds === null) return 'no fix time';
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+// Line width in pixels at zoom 0 for a corridor of widthMeters, at the route's mean latitude
+function corridorWidthAtZoom0(coordinates: number[][], widthMeters: number): number {
+  const meanLat = coordinates.reduce((sum, coord) => sum + coord[1], 0) / coordinates.length;
+  const metersPerPixelAtZoom0 = (40075016.686 * Math.cos((meanLat * Math.PI) / 180)) / 512;
+  return widthMeters / metersPerPixelAtZoom0;
+}
+
 function createCirclePolygon(center: number[], radius: number, points: number = 64): any {
   const coordinates = [];
   for (let i = 0; i < points; i++) {
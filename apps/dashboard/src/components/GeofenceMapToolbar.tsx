@@ -15,12 +15,18 @@ import {
   Copy,
   Eye,
   EyeOff,
-  Palette
+  Palette,
+  Route,
+  Scissors,
+  CopyPlus,
+  LassoSelect
 } from 'lucide-react';
 
 interface GeofenceMapToolbarProps {
-  activeDrawingTool: 'select' | 'circle' | 'polygon' | 'rectangle' | 'measure' | null;
-  onToolChange: (tool: 'select' | 'circle' | 'polygon' | 'rectangle' | 'measure' | null) => void;
+  activeDrawingTool: 'select' | 'circle' | 'polygon' | 'rectangle' | 'corridor' | 'measure' | 'hole' | 'part' | 'lasso' | null;
+  onToolChange: (
+    tool: 'select' | 'circle' | 'polygon' | 'rectangle' | 'corridor' | 'measure' | 'hole' | 'part' | 'lasso' | null
+  ) => void;
   selectedGeofences: string[];
   onBulkDelete: () => void;
   onBulkDuplicate: () => void;
@@ -57,7 +63,11 @@ export function GeofenceMapToolbar({
     { id: 'circle', icon: Circle, label: 'Circle Geofence', shortcut: 'C' },
     { id: 'polygon', icon: Pentagon, label: 'Polygon Geofence', shortcut: 'P' },
     { id: 'rectangle', icon: Square, label: 'Rectangle Geofence', shortcut: 'R' },
-    { id: 'measure', icon: Ruler, label: 'Measure Distance', shortcut: 'M' }
+    { id: 'corridor', icon: Route, label: 'Route Corridor', shortcut: 'L' },
+    { id: 'hole', icon: Scissors, label: 'Cut Hole in Selected Polygon', shortcut: 'H' },
+    { id: 'part', icon: CopyPlus, label: 'Add Part to Selected Polygon', shortcut: 'A' },
+    { id: 'measure', icon: Ruler, label: 'Measure Distance', shortcut: 'M' },
+    { id: 'lasso', icon: LassoSelect, label: 'Select Devices in Area', shortcut: 'S' }
   ] as const;
 
   const mapStyles = [
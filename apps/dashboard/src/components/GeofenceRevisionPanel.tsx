@@ -0,0 +1,218 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import maplibregl from 'maplibre-gl';
+import { RotateCcw } from 'lucide-react';
+import 'maplibre-gl/dist/maplibre-gl.css';
+import { useGeofenceRevisions, useRollbackGeofenceRevision } from '../hooks/useApi';
+import type { GeofenceRevision } from '../services/api';
+
+interface GeofenceRevisionPanelProps {
+  geofenceId: string;
+  enabled: boolean;
+  onRollback?: (revision: GeofenceRevision) => void;
+}
+
+const CURRENT_COLOR = '#2563eb';
+const SELECTED_COLOR = '#dc2626';
+
+const DIFF_MAP_STYLE = {
+  version: 8,
+  sources: {
+    'osm-tiles': {
+      type: 'raster',
+      tiles: ['https://tile.openstreetmap.org/{z}/{x}/{y}.png'],
+      tileSize: 256,
+      attribution: '© OpenStreetMap contributors',
+    },
+  },
+  layers: [{ id: 'osm-tiles', type: 'raster', source: 'osm-tiles', minzoom: 0, maxzoom: 19 }],
+};
+
+const EMPTY_COLLECTION: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+const toCollection = (revision: GeofenceRevision | undefined): GeoJSON.FeatureCollection =>
+  revision
+    ? {
+        type: 'FeatureCollection',
+        features: [{ type: 'Feature', geometry: revision.geometry as GeoJSON.Geometry, properties: {} }],
+      }
+    : EMPTY_COLLECTION;
+
+// Every [lng, lat] position in a geometry, however deeply its coordinates are nested
+const positionsOf = (coordinates: unknown): number[][] =>
+  Array.isArray(coordinates) && typeof coordinates[0] === 'number'
+    ? [coordinates as number[]]
+    : (coordinates as unknown[]).flatMap(positionsOf);
+
+// Fill, outline and point layers for one revision; the selected revision is drawn dashed on top
+function addRevisionLayers(map: maplibregl.Map, source: string, color: string, dashed: boolean) {
+  map.addSource(source, { type: 'geojson', data: EMPTY_COLLECTION });
+  map.addLayer({
+    id: `${source}-fill`,
+    type: 'fill',
+    source,
+    filter: ['==', ['geometry-type'], 'Polygon'],
+    paint: { 'fill-color': color, 'fill-opacity': 0.12 },
+  });
+  map.addLayer({
+    id: `${source}-line`,
+    type: 'line',
+    source,
+    filter: ['!=', ['geometry-type'], 'Point'],
+    paint: { 'line-color': color, 'line-width': 2, ...(dashed ? { 'line-dasharray': [2, 2] } : {}) },
+  });
+  map.addLayer({
+    id: `${source}-point`,
+    type: 'circle',
+    source,
+    filter: ['==', ['geometry-type'], 'Point'],
+    paint: { 'circle-color': color, 'circle-radius': 5, 'circle-stroke-color': '#ffffff', 'circle-stroke-width': 1 },
+  });
+}
+
+/**
+ * A geofence's shape history. Picking an earlier revision overlays it on the current
+ * shape, and restoring it records the rollback as a new revision.
+ */
+export function GeofenceRevisionPanel({ geofenceId, enabled, onRollback }: GeofenceRevisionPanelProps) {
+  const { data: revisions = [] } = useGeofenceRevisions(geofenceId, enabled);
+  const rollback = useRollbackGeofenceRevision();
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<maplibregl.Map | null>(null);
+  const [isMapLoaded, setIsMapLoaded] = useState(false);
+
+  // Revisions come newest first, so the first one is the current shape
+  const current = revisions[0];
+  const selected =
+    revisions.find((revision) => revision.revision === selectedRevision) ??
+    (revisions.length > 1 ? revisions[1] : undefined);
+  const hasRevisions = revisions.length > 0;
+
+  useEffect(() => {
+    if (!mapContainer.current || !hasRevisions || map.current) return;
+
+    map.current = new maplibregl.Map({
+      container: mapContainer.current,
+      style: DIFF_MAP_STYLE as any, // Type assertion for map styles
+      center: [0, 0],
+      zoom: 1,
+      attributionControl: false,
+    });
+
+    map.current.on('load', () => {
+      if (!map.current) return;
+      addRevisionLayers(map.current, 'revision-current', CURRENT_COLOR, false);
+      addRevisionLayers(map.current, 'revision-selected', SELECTED_COLOR, true);
+      setIsMapLoaded(true);
+    });
+
+    return () => {
+      map.current?.remove();
+      map.current = null;
+      setIsMapLoaded(false);
+    };
+  }, [hasRevisions]);
+
+  useEffect(() => {
+    if (!map.current || !isMapLoaded || !current) return;
+
+    (map.current.getSource('revision-current') as maplibregl.GeoJSONSource).setData(toCollection(current));
+    (map.current.getSource('revision-selected') as maplibregl.GeoJSONSource).setData(toCollection(selected));
+
+    const bounds = new maplibregl.LngLatBounds();
+    for (const revision of selected ? [current, selected] : [current]) {
+      for (const [lng, lat] of positionsOf(revision.geometry.coordinates)) {
+        bounds.extend([lng, lat]);
+      }
+    }
+    if (!bounds.isEmpty()) {
+      map.current.fitBounds(bounds, { padding: 24, maxZoom: 17, duration: 0 });
+    }
+  }, [current, selected, isMapLoaded]);
+
+  const handleRollback = () => {
+    if (!selected) return;
+    if (!window.confirm(`Restore the shape from revision #${selected.revision}?`)) return;
+
+    rollback.mutate(
+      { geofenceId, revision: selected.revision },
+      {
+        onSuccess: () => {
+          setSelectedRevision(null);
+          onRollback?.(selected);
+        },
+      }
+    );
+  };
+
+  if (!hasRevisions) {
+    return <p className="text-xs text-gray-500">No shape changes recorded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div ref={mapContainer} className="h-48 rounded-md border border-gray-200 overflow-hidden" />
+
+      <div className="flex items-center text-xs text-gray-600" style={{ gap: 'var(--space-md)' }}>
+        <span className="flex items-center" style={{ gap: 'var(--space-xs)' }}>
+          <span className="w-4 border-t-2" style={{ borderColor: CURRENT_COLOR }} />
+          Current (#{current.revision})
+        </span>
+        {selected && (
+          <span className="flex items-center" style={{ gap: 'var(--space-xs)' }}>
+            <span className="w-4 border-t-2 border-dashed" style={{ borderColor: SELECTED_COLOR }} />
+            Revision #{selected.revision}
+          </span>
+        )}
+      </div>
+
+      <div className="max-h-48 overflow-y-auto premium-scrollbar space-y-1">
+        {revisions.map((revision, index) => (
+          <button
+            key={revision.id}
+            type="button"
+            onClick={() => index > 0 && setSelectedRevision(revision.revision)}
+            disabled={index === 0}
+            className={`w-full text-left border rounded-md text-sm transition-colors ${
+              revision.revision === selected?.revision
+                ? 'border-red-300 bg-red-50'
+                : 'border-gray-200 hover:bg-gray-50 disabled:hover:bg-transparent'
+            }`}
+            style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+          >
+            <div className="flex items-center justify-between text-gray-700">
+              <span className="font-medium">
+                #{revision.revision}
+                {index === 0 && <span className="text-gray-500 font-normal"> · current</span>}
+              </span>
+              <span className="text-xs text-gray-500">{new Date(revision.created_at).toLocaleString()}</span>
+            </div>
+            <p className="text-xs text-gray-500">
+              {revision.author?.email ?? 'Unknown author'}
+              {revision.rolled_back_from !== null && ` · restored from #${revision.rolled_back_from}`}
+              {revision.radius_m !== null && ` · ${Math.round(revision.radius_m)} m radius`}
+              {revision.width_m !== null && ` · ${Math.round(revision.width_m)} m wide`}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <button
+          type="button"
+          onClick={handleRollback}
+          disabled={rollback.isPending}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ gap: 'var(--space-xs)' }}
+        >
+          <RotateCcw className="h-4 w-4" />
+          Restore revision #{selected.revision}
+        </button>
+      )}
+
+      {rollback.error && <p className="text-xs text-red-600">{rollback.error.message}</p>}
+    </div>
+  );
+}
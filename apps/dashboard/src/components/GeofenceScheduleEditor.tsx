@@ -0,0 +1,228 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { GeofenceSchedule } from '../types/geofence';
+
+interface GeofenceScheduleEditorProps {
+  schedule: GeofenceSchedule;
+  onChange: (schedule: GeofenceSchedule) => void;
+}
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_GEOFENCE_SCHEDULE: GeofenceSchedule = {
+  enabled: false,
+  windows: [{ days: [1, 2, 3, 4, 5], start: '18:00', end: '07:00' }],
+  exceptions: [],
+  emitTransitions: false,
+};
+
+const inputClassName =
+  'border border-gray-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors text-sm';
+
+export function GeofenceScheduleEditor({ schedule, onChange }: GeofenceScheduleEditorProps) {
+  const exceptions = schedule.exceptions || [];
+
+  const updateWindow = (index: number, updates: Partial<GeofenceSchedule['windows'][number]>) => {
+    onChange({
+      ...schedule,
+      windows: schedule.windows.map((window, i) => (i === index ? { ...window, ...updates } : window)),
+    });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = schedule.windows[index].days;
+    updateWindow(index, {
+      days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort(),
+    });
+  };
+
+  const updateException = (
+    index: number,
+    updates: Partial<NonNullable<GeofenceSchedule['exceptions']>[number]>
+  ) => {
+    onChange({
+      ...schedule,
+      exceptions: exceptions.map((exception, i) =>
+        i === index ? { ...exception, ...updates } : exception
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center text-sm text-gray-700" style={{ gap: 'var(--space-sm)' }}>
+        <input
+          type="checkbox"
+          checked={schedule.enabled}
+          onChange={(e) => onChange({ ...schedule, enabled: e.target.checked })}
+        />
+        Only monitor during these windows
+      </label>
+
+      {schedule.enabled && (
+        <>
+          <div className="space-y-3">
+            {schedule.windows.map((window, index) => (
+              <div
+                key={index}
+                className="border border-gray-200 rounded-md space-y-2"
+                style={{ padding: 'var(--space-sm)' }}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex" style={{ gap: 'var(--space-xs)' }}>
+                    {DAY_LABELS.map((label, day) => (
+                      <button
+                        key={day}
+                        type="button"
+                        title={DAY_NAMES[day]}
+                        onClick={() => toggleDay(index, day)}
+                        className={`w-7 h-7 rounded-full text-xs font-medium transition-colors ${
+                          window.days.includes(day)
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onChange({ ...schedule, windows: schedule.windows.filter((_, i) => i !== index) })
+                    }
+                    className="text-gray-400 hover:text-red-600 transition-colors"
+                    title="Remove window"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="flex items-center text-sm text-gray-600" style={{ gap: 'var(--space-sm)' }}>
+                  <input
+                    type="time"
+                    value={window.start}
+                    onChange={(e) => updateWindow(index, { start: e.target.value })}
+                    className={inputClassName}
+                    style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                  />
+                  <span>to</span>
+                  <input
+                    type="time"
+                    value={window.end}
+                    onChange={(e) => updateWindow(index, { end: e.target.value })}
+                    className={inputClassName}
+                    style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                  />
+                  {window.end <= window.start && <span className="text-xs text-gray-500">(next day)</span>}
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...schedule,
+                  windows: [...schedule.windows, { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }],
+                })
+              }
+              className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+              style={{ gap: 'var(--space-xs)' }}
+            >
+              <Plus className="h-4 w-4" />
+              Add window
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <h5 className="text-sm font-medium text-gray-700">Exceptions</h5>
+            {exceptions.map((exception, index) => (
+              <div
+                key={index}
+                className="border border-gray-200 rounded-md space-y-2"
+                style={{ padding: 'var(--space-sm)' }}
+              >
+                <div className="flex items-center" style={{ gap: 'var(--space-sm)' }}>
+                  <input
+                    type="text"
+                    value={exception.name || ''}
+                    onChange={(e) => updateException(index, { name: e.target.value })}
+                    placeholder="e.g. Christmas"
+                    className={`flex-1 ${inputClassName}`}
+                    style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onChange({ ...schedule, exceptions: exceptions.filter((_, i) => i !== index) })
+                    }
+                    className="text-gray-400 hover:text-red-600 transition-colors"
+                    title="Remove exception"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="flex items-center text-sm text-gray-600" style={{ gap: 'var(--space-sm)' }}>
+                  <input
+                    type="date"
+                    value={exception.startDate}
+                    onChange={(e) => updateException(index, { startDate: e.target.value })}
+                    className={inputClassName}
+                    style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                  />
+                  <span>to</span>
+                  <input
+                    type="date"
+                    value={exception.endDate}
+                    onChange={(e) => updateException(index, { endDate: e.target.value })}
+                    className={inputClassName}
+                    style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                  />
+                  <select
+                    value={exception.active ? 'open' : 'closed'}
+                    onChange={(e) => updateException(index, { active: e.target.value === 'open' })}
+                    className={inputClassName}
+                    style={{ padding: 'var(--space-xs) var(--space-sm)' }}
+                  >
+                    <option value="closed">Closed</option>
+                    <option value="open">Open all day</option>
+                  </select>
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => {
+                const today = new Date().toISOString().slice(0, 10);
+                onChange({
+                  ...schedule,
+                  exceptions: [...exceptions, { startDate: today, endDate: today, active: false }],
+                });
+              }}
+              className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+              style={{ gap: 'var(--space-xs)' }}
+            >
+              <Plus className="h-4 w-4" />
+              Add exception
+            </button>
+          </div>
+
+          <label className="flex items-start text-sm text-gray-700" style={{ gap: 'var(--space-sm)' }}>
+            <input
+              type="checkbox"
+              checked={!!schedule.emitTransitions}
+              onChange={(e) => onChange({ ...schedule, emitTransitions: e.target.checked })}
+              className="mt-0.5"
+            />
+            <span>
+              Send enter/exit events for devices already inside when a window opens or closes
+            </span>
+          </label>
+
+          <p className="text-xs text-gray-500">Times use your organization&apos;s timezone.</p>
+        </>
+      )}
+    </div>
+  );
+}
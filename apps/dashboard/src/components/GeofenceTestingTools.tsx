@@ -28,6 +28,7 @@ import {
   Plus,
 } from 'lucide-react';
 import { FrontendGeofence } from '../types/geofence';
+import { geometryCentroid, shapeContains, type GeofenceGeometry } from '@geofence/shared';
 
 interface TestScenario {
   id: string;
@@ -174,22 +175,23 @@ export function GeofenceTestingTools({
 
   const checkGeofenceEvents = useCallback(
     (lat: number, lng: number, elapsed: number) => {
-      // Simplified geofence containment check
+      // Same containment the engine and the API's test endpoint use
       geofences.forEach((geofence) => {
-        if (!geofence.is_active) return;
-
-        let isInside = false;
-
-        if (geofence.geometry.type === 'Point' && geofence.radius) {
-          // Circle geofence
-          const center = geofence.geometry.coordinates as number[];
-          const distance = calculateDistance(lat, lng, center[1], center[0]);
-          isInside = distance <= geofence.radius;
-        } else if (geofence.geometry.type === 'Polygon') {
-          // Polygon geofence (simplified point-in-polygon check)
-          const coordinates = (geofence.geometry.coordinates as number[][][])[0];
-          isInside = pointInPolygon(lat, lng, coordinates);
-        }
+        // Proximity geofences follow their anchor device, which the simulator doesn't move
+        if (!geofence.is_active || geofence.type === 'proximity') return;
+
+        const geometry = geofence.geometry as GeofenceGeometry;
+        const isInside = shapeContains(
+          {
+            type: geofence.type,
+            geometry,
+            center: geometryCentroid(geometry),
+            radiusM: geofence.radius ?? null,
+            widthM: geofence.width ?? null,
+          },
+          lng,
+          lat
+        );
 
         // Trigger events based on containment
         if (isInside && currentTest) {
@@ -307,36 +309,6 @@ export function GeofenceTestingTools({
     [testScenarios, geofences, simulationSpeed, stopTest, checkGeofenceEvents]
   );
 
-  // Utility functions
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number) => {
-    const R = 6371000; // Earth radius in meters
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLng = ((lng2 - lng1) * Math.PI) / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((lat1 * Math.PI) / 180) *
-        Math.cos((lat2 * Math.PI) / 180) *
-        Math.sin(dLng / 2) *
-        Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
-
-  const pointInPolygon = (lat: number, lng: number, polygon: number[][]) => {
-    let inside = false;
-    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-      const xi = polygon[i][0],
-        yi = polygon[i][1];
-      const xj = polygon[j][0],
-        yj = polygon[j][1];
-
-      if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
-        inside = !inside;
-      }
-    }
-    return inside;
-  };
-
   const createCustomScenario = () => {
     const newScenario: TestScenario = {
       id: `custom-${Date.now()}`,
@@ -0,0 +1,71 @@
+'use client';
+
+import { ChevronDown, ChevronRight, Network } from 'lucide-react';
+import { FrontendGeofence } from '../types/geofence';
+
+interface GeofenceTreePanelProps {
+  geofences: FrontendGeofence[];
+  collapsed: Set<string>;
+  onToggle: (geofenceId: string) => void;
+}
+
+/**
+ * Geofences grouped under their parents. Collapsing a geofence hides everything
+ * nested inside it, on the map as well as in the tree.
+ */
+export function GeofenceTreePanel({ geofences, collapsed, onToggle }: GeofenceTreePanelProps) {
+  const ids = new Set(geofences.map((geofence) => geofence.id));
+  const children = new Map<string, FrontendGeofence[]>();
+  const roots: FrontendGeofence[] = [];
+
+  for (const geofence of geofences) {
+    // A parent that isn't shown (filtered out, or deleted) leaves its children at the top level
+    if (geofence.parentId && ids.has(geofence.parentId)) {
+      children.set(geofence.parentId, [...(children.get(geofence.parentId) || []), geofence]);
+    } else {
+      roots.push(geofence);
+    }
+  }
+
+  const renderNode = (geofence: FrontendGeofence, depth: number) => {
+    const nested = children.get(geofence.id) || [];
+    const isCollapsed = collapsed.has(geofence.id);
+
+    return (
+      <div key={geofence.id}>
+        <div
+          className="flex items-center text-sm text-neutral-700"
+          style={{ paddingLeft: `${depth * 16}px`, gap: 'var(--space-xs)' }}
+        >
+          {nested.length > 0 ? (
+            <button
+              onClick={() => onToggle(geofence.id)}
+              className="p-0.5 text-neutral-500 hover:text-neutral-900 hover:bg-neutral-100 rounded"
+              aria-label={isCollapsed ? `Expand ${geofence.name}` : `Collapse ${geofence.name}`}
+            >
+              {isCollapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+            </button>
+          ) : (
+            <span className="w-[18px]" />
+          )}
+          <span className="h-2 w-2 rounded-full flex-shrink-0" style={{ backgroundColor: geofence.color }} />
+          <span className={`truncate ${geofence.is_active ? '' : 'text-neutral-400'}`}>{geofence.name}</span>
+          {isCollapsed && <span className="text-xs text-neutral-400">({nested.length})</span>}
+        </div>
+        {!isCollapsed && nested.map((child) => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute bottom-6 left-6 z-10 bg-white/95 backdrop-blur-sm p-2 rounded-md shadow-lg border border-neutral-200/50 w-64">
+      <h3 className="font-medium text-neutral-900 mb-2 flex items-center gap-2 text-sm">
+        <Network className="h-4 w-4 text-neutral-600" />
+        Geofence Hierarchy
+      </h3>
+      <div className="max-h-64 overflow-y-auto premium-scrollbar space-y-1">
+        {roots.map((geofence) => renderNode(geofence, 0))}
+      </div>
+    </div>
+  );
+}
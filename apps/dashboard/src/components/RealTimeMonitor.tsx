@@ -13,12 +13,33 @@ import {
   CheckCircle,
   X,
   Maximize2,
-  Minimize2
+  Minimize2,
+  Route,
+  Gauge,
+  Users,
+  Radar,
+  Signal
 } from 'lucide-react';
 
 interface RealtimeEvent {
   id: string;
-  type: 'device_online' | 'device_offline' | 'geofence_enter' | 'geofence_exit' | 'geofence_dwell' | 'automation_triggered' | 'automation_failed';
+  type:
+    | 'device_online'
+    | 'device_offline'
+    | 'geofence_enter'
+    | 'geofence_exit'
+    | 'geofence_dwell'
+    | 'geofence_deviation'
+    | 'geofence_rejoin'
+    | 'geofence_overspeed'
+    | 'geofence_speed_normal'
+    | 'geofence_occupancy_above'
+    | 'geofence_occupancy_below'
+    | 'geofence_proximity_enter'
+    | 'geofence_proximity_exit'
+    | 'geofence_presence_restored'
+    | 'automation_triggered'
+    | 'automation_failed';
   timestamp: string;
   device?: {
     id: string;
@@ -84,6 +105,24 @@ export const RealTimeMonitor = ({
         return <MapPin className="h-4 w-4 text-orange-600" />;
       case 'geofence_dwell':
         return <Clock className="h-4 w-4 text-purple-600" />;
+      case 'geofence_deviation':
+        return <Route className="h-4 w-4 text-red-600" />;
+      case 'geofence_rejoin':
+        return <Route className="h-4 w-4 text-green-600" />;
+      case 'geofence_overspeed':
+        return <Gauge className="h-4 w-4 text-red-600" />;
+      case 'geofence_speed_normal':
+        return <Gauge className="h-4 w-4 text-green-600" />;
+      case 'geofence_occupancy_above':
+        return <Users className="h-4 w-4 text-red-600" />;
+      case 'geofence_occupancy_below':
+        return <Users className="h-4 w-4 text-green-600" />;
+      case 'geofence_proximity_enter':
+        return <Radar className="h-4 w-4 text-green-600" />;
+      case 'geofence_proximity_exit':
+        return <Radar className="h-4 w-4 text-red-600" />;
+      case 'geofence_presence_restored':
+        return <Signal className="h-4 w-4 text-green-600" />;
       case 'automation_triggered':
         return <Zap className="h-4 w-4 text-green-600" />;
       case 'automation_failed':
@@ -100,7 +139,17 @@ export const RealTimeMonitor = ({
         return 'border-l-green-400 bg-green-50';
       case 'device_offline':
       case 'automation_failed':
+      case 'geofence_deviation':
+      case 'geofence_overspeed':
+      case 'geofence_occupancy_above':
+      case 'geofence_proximity_exit':
         return 'border-l-red-400 bg-red-50';
+      case 'geofence_rejoin':
+      case 'geofence_speed_normal':
+      case 'geofence_occupancy_below':
+      case 'geofence_proximity_enter':
+      case 'geofence_presence_restored':
+        return 'border-l-green-400 bg-green-50';
       case 'geofence_enter':
         return 'border-l-blue-400 bg-blue-50';
       case 'geofence_exit':
@@ -119,11 +168,40 @@ export const RealTimeMonitor = ({
       case 'device_offline':
         return `${event.device?.name} went offline`;
       case 'geofence_enter':
-        return `${event.device?.name} entered ${event.geofence?.name}`;
+        return `${event.device?.name} entered ${event.geofence?.name}${event.metadata?.interpolated ? ' (estimated)' : ''}`;
       case 'geofence_exit':
-        return `${event.device?.name} exited ${event.geofence?.name}`;
+        if (event.metadata?.reason === 'timeout') {
+          return `${event.device?.name} stopped reporting in ${event.geofence?.name}`;
+        }
+        return `${event.device?.name} exited ${event.geofence?.name}${event.metadata?.interpolated ? ' (estimated)' : ''}`;
       case 'geofence_dwell':
         return `${event.device?.name} dwelling in ${event.geofence?.name}`;
+      case 'geofence_deviation':
+        return `${event.device?.name} left route ${event.geofence?.name}${
+          event.metadata?.distance_m != null ? ` (${Math.round(event.metadata.distance_m)} m off)` : ''
+        }`;
+      case 'geofence_rejoin':
+        return `${event.device?.name} rejoined route ${event.geofence?.name}`;
+      case 'geofence_overspeed':
+        return `${event.device?.name} speeding in ${event.geofence?.name}${
+          event.metadata?.peak_speed_mps != null
+            ? ` (peak ${Math.round(event.metadata.peak_speed_mps * 3.6)} km/h)`
+            : ''
+        }`;
+      case 'geofence_speed_normal':
+        return `${event.device?.name} back under the speed limit in ${event.geofence?.name}`;
+      case 'geofence_proximity_enter':
+        return `${event.device?.name} is back near ${event.geofence?.name}`;
+      case 'geofence_presence_restored':
+        return `${event.device?.name} reporting from ${event.geofence?.name} again`;
+      case 'geofence_proximity_exit':
+        return `${event.device?.name} moved away from ${event.geofence?.name}${
+          event.metadata?.distance_m != null ? ` (${Math.round(event.metadata.distance_m)} m)` : ''
+        }`;
+      case 'geofence_occupancy_above':
+        return `${event.geofence?.name} over capacity with ${event.metadata?.occupancy} devices inside`;
+      case 'geofence_occupancy_below':
+        return `${event.geofence?.name} back within capacity (${event.metadata?.occupancy} devices inside)`;
       case 'automation_triggered':
         return `${event.automation?.name} executed for ${event.device?.name}`;
       case 'automation_failed':
@@ -9,6 +9,7 @@ import {
   automationRuleService,
   integrationService, // DEPRECATED - use automationService
   analyticsService,
+  beaconService,
   type Device,
   type Event,
   type Geofence,
@@ -37,7 +38,12 @@ import {
   type AnalyticsResponse,
   type DeviceActivity,
   type AutomationStat,
+  type StartGeofenceBackfillRequest,
+  type CreateBeaconRequest,
+  type ImportGeofencesRequest,
+  type DeviceSegmentsParams,
 } from '../services/api';
+import type { UpdateGeofencePairingRequest } from '../types/geofence';
 
 // Dashboard hooks
 export function useDashboardStats() {
@@ -179,6 +185,92 @@ export function useGeofence(geofenceId: string) {
   });
 }
 
+export function useGeofenceOccupants(geofenceId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['geofences', geofenceId, 'occupants'],
+    queryFn: () => geofenceService.getGeofenceOccupants(geofenceId),
+    enabled: !!geofenceId && enabled,
+    staleTime: 10 * 1000,
+    refetchInterval: 15 * 1000, // Occupancy changes as devices move
+  });
+}
+
+export function useGeofenceBackfills(geofenceId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['geofences', geofenceId, 'backfills'],
+    queryFn: () => geofenceService.getGeofenceBackfills(geofenceId),
+    enabled: !!geofenceId && enabled,
+    // Follow progress while a backfill is queued or running
+    refetchInterval: (query) =>
+      query.state.data?.some((backfill) => backfill.status === 'pending' || backfill.status === 'running')
+        ? 3 * 1000
+        : false,
+  });
+}
+
+export function useStartGeofenceBackfill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ geofenceId, range }: { geofenceId: string; range: StartGeofenceBackfillRequest }) =>
+      geofenceService.startGeofenceBackfill(geofenceId, range),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['geofences', variables.geofenceId, 'backfills'] });
+    },
+  });
+}
+
+export function useGeofenceRevisions(geofenceId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['geofences', geofenceId, 'revisions'],
+    queryFn: () => geofenceService.getGeofenceRevisions(geofenceId),
+    enabled: !!geofenceId && enabled,
+  });
+}
+
+export function useRollbackGeofenceRevision() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ geofenceId, revision }: { geofenceId: string; revision: number }) =>
+      geofenceService.rollbackGeofenceRevision(geofenceId, revision),
+    onSuccess: () => {
+      // Refreshes the geofence list as well as every geofence's revision history
+      queryClient.invalidateQueries({ queryKey: ['geofences'] });
+    },
+  });
+}
+
+export function useGeofenceBeacons(geofenceId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['beacons', geofenceId],
+    queryFn: () => beaconService.getBeacons(geofenceId),
+    enabled: !!geofenceId && enabled,
+  });
+}
+
+export function useCreateBeacon() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (beacon: CreateBeaconRequest) => beaconService.createBeacon(beacon),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['beacons', data.geofence_id] });
+    },
+  });
+}
+
+export function useDeleteBeacon() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (beaconId: string) => beaconService.deleteBeacon(beaconId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['beacons'] });
+    },
+  });
+}
+
 export function useCreateGeofence() {
   const queryClient = useQueryClient();
 
@@ -206,6 +298,19 @@ export function useUpdateGeofence() {
   });
 }
 
+export function useUpdateGeofencePairing() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ geofenceId, pairing }: { geofenceId: string; pairing: UpdateGeofencePairingRequest }) =>
+      geofenceService.updateGeofencePairing(geofenceId, pairing),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['geofences'] });
+      queryClient.invalidateQueries({ queryKey: ['geofences', variables.geofenceId] });
+    },
+  });
+}
+
 export function useDeleteGeofence() {
   const queryClient = useQueryClient();
 
@@ -218,6 +323,19 @@ export function useDeleteGeofence() {
   });
 }
 
+export function useImportGeofences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: ImportGeofencesRequest) => geofenceService.importGeofences(request),
+    onSuccess: (report) => {
+      if (report.dry_run) return;
+      queryClient.invalidateQueries({ queryKey: ['geofences'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+    },
+  });
+}
+
 // Automation hooks
 export function useAutomations() {
   return useQuery({
@@ -483,6 +601,27 @@ export function useDeviceLocationHistory(
   });
 }
 
+// Device trip and stop hooks
+export function useDeviceTrips(deviceId: string, params: DeviceSegmentsParams = {}) {
+  return useQuery({
+    queryKey: ['device', 'trips', deviceId, params],
+    queryFn: () => deviceService.getDeviceTrips(deviceId, params),
+    enabled: !!deviceId,
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: 60 * 1000, // The trip in progress keeps growing
+  });
+}
+
+export function useDeviceStops(deviceId: string, params: DeviceSegmentsParams = {}) {
+  return useQuery({
+    queryKey: ['device', 'stops', deviceId, params],
+    queryFn: () => deviceService.getDeviceStops(deviceId, params),
+    enabled: !!deviceId,
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: 60 * 1000,
+  });
+}
+
 // Device Commands hooks
 export function useSendDeviceCommand() {
   const queryClient = useQueryClient();
@@ -85,6 +85,68 @@ export interface Device {
   updated_at: string;
 }
 
+// A device found by a spatial query, with its distance from the query's point or area center
+export interface SpatialDevice {
+  id: string;
+  name: string;
+  device_type: string | null;
+  status: 'online' | 'offline' | 'connecting' | 'error';
+  group_id: string | null;
+  latitude: number;
+  longitude: number;
+  distance_m: number;
+  fix_at: string | null;
+  fix_age_seconds: number | null;
+}
+
+export interface SpatialDeviceFilters {
+  group_id?: string;
+  tag?: string;
+  status?: 'online' | 'offline' | 'connecting' | 'error';
+  max_age_seconds?: number;
+}
+
+// Exactly one area: a circle, a bbox (minLon,minLat,maxLon,maxLat) or a geofence
+export interface DevicesWithinParams extends SpatialDeviceFilters {
+  latitude?: number;
+  longitude?: number;
+  radius_m?: number;
+  bbox?: [number, number, number, number];
+  geofence_id?: string;
+  limit?: number;
+}
+
+// A trip derived from a device's location history; the one in progress ends at the latest fix
+export interface DeviceTrip {
+  id: string;
+  started_at: string;
+  ended_at: string;
+  in_progress: boolean;
+  start: { latitude: number; longitude: number };
+  end: { latitude: number; longitude: number };
+  distance_m: number;
+  duration_seconds: number;
+  max_speed_mps: number;
+  point_count: number;
+}
+
+export interface DeviceStop {
+  id: string;
+  latitude: number;
+  longitude: number;
+  arrived_at: string;
+  departed_at: string;
+  in_progress: boolean;
+  duration_seconds: number;
+  point_count: number;
+}
+
+export interface DeviceSegmentsParams {
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
 // Device Pairing Types
 export interface PairingCodeResponse {
   pairingCode: string;
@@ -294,9 +356,120 @@ export interface EventsResponse {
 }
 
 // Geofence Types (imported from professional types)
-import { BackendGeofence, CreateGeofenceRequest, UpdateGeofenceRequest } from '../types/geofence';
+import {
+  BackendGeofence,
+  CreateGeofenceRequest,
+  GeofenceGeometry,
+  UpdateGeofencePairingRequest,
+  UpdateGeofenceRequest,
+} from '../types/geofence';
 export type Geofence = BackendGeofence;
 
+export interface GeofenceOccupants {
+  geofence_id: string;
+  occupancy: number;
+  capacity: number | null;
+  occupants: {
+    device_id: string;
+    name: string;
+    status: string;
+    last_seen?: string;
+  }[];
+}
+
+export type GeofenceBackfillStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface GeofenceBackfill {
+  id: string;
+  geofence_id: string;
+  from: string;
+  to: string;
+  status: GeofenceBackfillStatus;
+  total_locations: number | null;
+  processed_locations: number;
+  events_created: number;
+  progress: number; // 0 to 1
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface StartGeofenceBackfillRequest {
+  from: string;
+  to?: string; // Defaults to now
+}
+
+export interface GeofenceRevision {
+  id: string;
+  revision: number;
+  geometry: GeofenceGeometry;
+  radius_m: number | null;
+  width_m: number | null;
+  author: { id: string; email: string } | null; // null for shapes recorded before revisions existed
+  rolled_back_from: number | null; // Revision this one restored
+  created_at: string;
+}
+
+export interface GeofenceRollbackResult {
+  geofence_id: string;
+  revision: number;
+  rolled_back_from: number;
+}
+
+export type GeofenceFileFormat = 'geojson' | 'kml' | 'gpx';
+
+export interface ImportGeofencesRequest {
+  format: GeofenceFileFormat;
+  content: string;
+  dry_run?: boolean;
+  // Feature properties holding the name, description and external ID, when not named so
+  mapping?: { name?: string; description?: string; external_id?: string };
+}
+
+export interface GeofenceImportFeature {
+  index: number;
+  name: string | null;
+  external_id: string | null;
+  geofence_type: string | null;
+  action: 'create' | 'update' | 'invalid';
+  geofence_id: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface GeofenceImportReport {
+  dry_run: boolean;
+  summary: { total: number; create: number; update: number; invalid: number };
+  features: GeofenceImportFeature[];
+}
+
+export interface GeofenceExport {
+  content: Blob;
+  filename: string;
+  skipped: number; // Geofences the format can't represent
+}
+
+// BLE beacon or Wi-Fi access point placing devices that hear it in a geofence
+export interface Beacon {
+  id: string;
+  geofence_id: string;
+  beacon_type: 'ble' | 'wifi';
+  uuid: string | null;
+  major: number | null;
+  minor: number | null;
+  bssid: string | null;
+  name: string | null;
+  min_rssi: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateBeaconRequest = { geofence_id: string; name?: string; min_rssi?: number } & (
+  | { beacon_type: 'ble'; uuid: string; major: number; minor: number }
+  | { beacon_type: 'wifi'; bssid: string }
+);
+
 // Automation Types (basic structure for now)
 export interface Automation {
   id: string;
@@ -329,6 +502,20 @@ export interface DeliveriesResponse {
 }
 
 // Automation Rule Types
+export type AutomationRuleEvent =
+  | 'enter'
+  | 'exit'
+  | 'dwell'
+  | 'deviation'
+  | 'rejoin'
+  | 'overspeed'
+  | 'speed_normal'
+  | 'occupancy_above'
+  | 'occupancy_below'
+  | 'proximity_enter'
+  | 'proximity_exit'
+  | 'presence_restored';
+
 export interface AutomationRule {
   id: string;
   name: string;
@@ -336,8 +523,9 @@ export interface AutomationRule {
   geofence_id: string;
   device_id?: string; // Optional - can apply to all devices or specific device
   automation_id: string;
-  on_events: ('enter' | 'exit' | 'dwell')[];
+  on_events: AutomationRuleEvent[];
   min_dwell_seconds?: number;
+  include_interpolated: boolean; // Also act on enter/exit estimated between sparse locations
   device_filter: Record<string, any>; // JSON filter for device properties
   enabled: boolean;
   created_at: string;
@@ -354,8 +542,9 @@ export interface CreateAutomationRuleRequest {
   geofence_id: string;
   device_id?: string;
   automation_id: string;
-  on_events: ('enter' | 'exit' | 'dwell')[];
+  on_events: AutomationRuleEvent[];
   min_dwell_seconds?: number;
+  include_interpolated?: boolean;
   device_filter?: Record<string, any>;
   enabled?: boolean;
 }
@@ -469,6 +658,59 @@ export const deviceService = {
     });
   },
 
+  // Spatial queries on the devices' last known locations
+  async getNearbyDevices(
+    params: SpatialDeviceFilters & { latitude: number; longitude: number; limit?: number; max_distance_m?: number }
+  ): Promise<SpatialDevice[]> {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, String(value));
+      }
+    });
+    const response = await apiRequest<{ data: SpatialDevice[] }>(`/api/devices/nearby?${searchParams.toString()}`);
+    return response.data;
+  },
+
+  async getDevicesWithin(params: DevicesWithinParams): Promise<{ data: SpatialDevice[]; truncated: boolean }> {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, String(value));
+      }
+    });
+    return await apiRequest<{ data: SpatialDevice[]; truncated: boolean }>(
+      `/api/devices/within?${searchParams.toString()}`
+    );
+  },
+
+  // Trips and stops overlapping the given range, newest first
+  async getDeviceTrips(deviceId: string, params: DeviceSegmentsParams = {}): Promise<DeviceTrip[]> {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, String(value));
+      }
+    });
+    const response = await apiRequest<{ data: DeviceTrip[] }>(
+      `/api/devices/${deviceId}/trips?${searchParams.toString()}`
+    );
+    return response.data;
+  },
+
+  async getDeviceStops(deviceId: string, params: DeviceSegmentsParams = {}): Promise<DeviceStop[]> {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, String(value));
+      }
+    });
+    const response = await apiRequest<{ data: DeviceStop[] }>(
+      `/api/devices/${deviceId}/stops?${searchParams.toString()}`
+    );
+    return response.data;
+  },
+
   // Device Pairing Methods
   // Generate pairing code
   async generatePairingCode(): Promise<PairingCodeResponse> {
@@ -838,6 +1080,101 @@ export const geofenceService = {
     await apiRequest(`/api/geofences/${geofenceId}`, {
       method: 'DELETE',
     });
+  },
+
+  // Pair a proximity geofence with its anchor device and follower group
+  async updateGeofencePairing(geofenceId: string, pairing: UpdateGeofencePairingRequest): Promise<void> {
+    await apiRequest(`/api/geofences/${geofenceId}/pairing`, {
+      method: 'PUT',
+      body: JSON.stringify(pairing),
+    });
+  },
+
+  // Get devices currently inside a geofence
+  async getGeofenceOccupants(geofenceId: string): Promise<GeofenceOccupants> {
+    const response = await apiRequest<{ data: GeofenceOccupants }>(`/api/geofences/${geofenceId}/occupants`);
+    return response.data;
+  },
+
+  // Replay stored location history against a geofence
+  async startGeofenceBackfill(
+    geofenceId: string,
+    range: StartGeofenceBackfillRequest
+  ): Promise<GeofenceBackfill> {
+    const response = await apiRequest<{ data: GeofenceBackfill }>(`/api/geofences/${geofenceId}/backfill`, {
+      method: 'POST',
+      body: JSON.stringify(range),
+    });
+    return response.data;
+  },
+
+  async getGeofenceBackfills(geofenceId: string): Promise<GeofenceBackfill[]> {
+    const response = await apiRequest<{ data: GeofenceBackfill[] }>(`/api/geofences/${geofenceId}/backfills`);
+    return response.data;
+  },
+
+  // Shape history, newest revision first
+  async getGeofenceRevisions(geofenceId: string): Promise<GeofenceRevision[]> {
+    const response = await apiRequest<{ data: GeofenceRevision[] }>(`/api/geofences/${geofenceId}/revisions`);
+    return response.data;
+  },
+
+  async rollbackGeofenceRevision(geofenceId: string, revision: number): Promise<GeofenceRollbackResult> {
+    const response = await apiRequest<{ data: GeofenceRollbackResult }>(
+      `/api/geofences/${geofenceId}/revisions/${revision}/rollback`,
+      { method: 'POST' }
+    );
+    return response.data;
+  },
+
+  // Create or update geofences from a GeoJSON, KML or GPX file, or only validate it with dry_run
+  async importGeofences(request: ImportGeofencesRequest): Promise<GeofenceImportReport> {
+    const response = await apiRequest<{ data: GeofenceImportReport }>('/api/geofences/import', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+    return response.data;
+  },
+
+  // Exports are files rather than JSON, so they bypass apiRequest
+  async exportGeofences(format: GeofenceFileFormat): Promise<GeofenceExport> {
+    const response = await fetch(`${apiUrl}/api/geofences/export?format=${format}`, {
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new ApiError(data.error || 'Export failed', response.status);
+    }
+
+    return {
+      content: await response.blob(),
+      filename: response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `geofences.${format}`,
+      skipped: Number(response.headers.get('X-Geofences-Skipped') ?? 0),
+    };
+  }
+};
+
+// Beacon registry service
+export const beaconService = {
+  async getBeacons(geofenceId?: string): Promise<Beacon[]> {
+    const query = geofenceId ? `?geofence_id=${encodeURIComponent(geofenceId)}` : '';
+    const response = await apiRequest<{ data: Beacon[] }>(`/api/beacons${query}`);
+    return response.data;
+  },
+
+  async createBeacon(beacon: CreateBeaconRequest): Promise<Beacon> {
+    const response = await apiRequest<{ data: Beacon }>('/api/beacons', {
+      method: 'POST',
+      body: JSON.stringify(beacon),
+    });
+    return response.data;
+  },
+
+  async deleteBeacon(beaconId: string): Promise<void> {
+    await apiRequest(`/api/beacons/${beaconId}`, {
+      method: 'DELETE',
+    });
   }
 };
 
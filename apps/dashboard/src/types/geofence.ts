@@ -1,18 +1,33 @@
 // Unified type definitions for geofences across frontend and backend
 
+import type {
+  CorridorAssignment,
+  GeofenceLevel,
+  GeofenceSchedule,
+  GeofenceSpeedLimit,
+} from '../../../../packages/shared/src/types';
+
+export type { CorridorAssignment, GeofenceLevel, GeofenceSchedule, GeofenceSpeedLimit };
+
 export interface GeofenceGeometry {
-  type: 'Point' | 'Polygon' | 'MultiPolygon';
-  coordinates: number[] | number[][] | number[][][];
+  type: 'Point' | 'LineString' | 'Polygon' | 'MultiPolygon';
+  coordinates: number[] | number[][] | number[][][] | number[][][][];
 }
 
 export interface BackendGeofence {
   id: string;
   name: string;
   description?: string;
-  geofence_type: 'polygon' | 'circle' | 'point';
+  geofence_type: 'polygon' | 'circle' | 'point' | 'corridor' | 'proximity';
   geometry: GeofenceGeometry;
   is_active: boolean;
   radius_m?: number;
+  width_m?: number; // corridor width in meters, centered on the route line
+  anchor_device_id?: string; // device a proximity geofence follows
+  follower_group_id?: string; // device group checked against a proximity geofence
+  parent_id?: string | null; // enclosing geofence in the account's hierarchy
+  include_children?: boolean; // devices inside a child count as inside this geofence
+  external_id?: string | null; // ID in the GIS tool the geofence was imported from
   metadata?: Record<string, any>;
   created_at: string;
   updated_at: string;
@@ -24,18 +39,25 @@ export interface FrontendGeofence {
   description?: string;
   geometry: GeofenceGeometry;
   radius?: number; // in meters
+  width?: number; // corridor width in meters
+  anchorDeviceId?: string;
+  followerGroupId?: string;
+  parentId?: string;
+  includeChildren?: boolean;
   color: string;
   is_active: boolean;
-  type: 'polygon' | 'circle' | 'point';
+  type: 'polygon' | 'circle' | 'point' | 'corridor' | 'proximity';
+  metadata?: Record<string, any>;
 }
 
 export interface CreateGeofenceRequest {
   name: string;
   description?: string;
-  geofence_type: 'polygon' | 'circle' | 'point';
+  geofence_type: 'polygon' | 'circle' | 'point' | 'corridor' | 'proximity';
   geometry: GeofenceGeometry;
   is_active: boolean;
   radius_m?: number;
+  width_m?: number; // corridor width in meters, centered on the route line
   metadata?: Record<string, any>;
 }
 
@@ -45,7 +67,16 @@ export interface UpdateGeofenceRequest {
   geometry?: GeofenceGeometry;
   is_active?: boolean;
   radius_m?: number;
+  width_m?: number;
   metadata?: Record<string, any>;
+  parent_id?: string | null; // null makes the geofence top-level
+  include_children?: boolean;
+}
+
+export interface UpdateGeofencePairingRequest {
+  anchor_device_id: string;
+  follower_group_id: string;
+  radius?: number;
 }
 
 export interface GeofenceOperationResult {
@@ -5,6 +5,7 @@ import {
   UpdateGeofenceRequest,
   GeofenceGeometry,
 } from '../types/geofence';
+import { isSimplePolygon } from './polygonGeometry';
 
 /**
  * Color mapping for different geofence types
@@ -13,6 +14,8 @@ const GEOFENCE_COLORS = {
   polygon: '#3B82F6', // Blue
   circle: '#10B981', // Green
   point: '#F59E0B', // Orange
+  corridor: '#8B5CF6', // Purple
+  proximity: '#EC4899', // Pink
 } as const;
 
 /**
@@ -33,6 +36,13 @@ export function validateGeometry(geometry: GeofenceGeometry): boolean {
         coordinates.every((coord) => typeof coord === 'number')
       );
 
+    case 'LineString':
+      return (
+        Array.isArray(coordinates) &&
+        coordinates.length >= 2 &&
+        coordinates.every((coord) => Array.isArray(coord) && coord.length === 2)
+      );
+
     case 'Polygon':
       return (
         Array.isArray(coordinates) &&
@@ -63,10 +73,13 @@ export function validateGeometry(geometry: GeofenceGeometry): boolean {
 export function determineGeofenceType(
   geometry: GeofenceGeometry,
   radius?: number
-): 'polygon' | 'circle' | 'point' {
+): 'polygon' | 'circle' | 'point' | 'corridor' {
   if (geometry.type === 'Point') {
     return radius && radius > 0 ? 'circle' : 'point';
   }
+  if (geometry.type === 'LineString') {
+    return 'corridor';
+  }
   return 'polygon';
 }
 
@@ -113,9 +126,15 @@ export function transformToFrontend(backend: BackendGeofence): FrontendGeofence
       description: backend.description,
       geometry: backend.geometry,
       radius: backend.radius_m,
+      width: backend.width_m,
+      anchorDeviceId: backend.anchor_device_id,
+      followerGroupId: backend.follower_group_id,
+      parentId: backend.parent_id ?? undefined,
+      includeChildren: backend.include_children ?? false,
       color: GEOFENCE_COLORS[type],
       is_active: isActive,
       type,
+      metadata: backend.metadata,
     };
 
     console.log('✅ Transform successful:', result);
@@ -161,6 +180,17 @@ export function transformToCreateRequest(frontend: Omit<FrontendGeofence, 'id'>)
         metadata: {},
       };
     } else if (geofence_type === 'polygon') {
+      // Shapes with holes or several parts are sent as GeoJSON
+      if (!isSimplePolygon(frontend.geometry)) {
+        return {
+          type: 'polygon',
+          name: frontend.name.trim(),
+          description: frontend.description?.trim(),
+          geometry: frontend.geometry,
+          metadata: {},
+        };
+      }
+
       // Convert GeoJSON coordinates to API format
       const coords = frontend.geometry.coordinates as number[][][];
       const coordinatesArray = coords[0].map((coord) => ({
@@ -189,6 +219,19 @@ export function transformToCreateRequest(frontend: Omit<FrontendGeofence, 'id'>)
         ],
         metadata: {},
       };
+    } else if (geofence_type === 'corridor') {
+      const coords = frontend.geometry.coordinates as number[][];
+      return {
+        type: 'corridor',
+        name: frontend.name.trim(),
+        description: frontend.description?.trim(),
+        path: coords.map((coord) => ({
+          longitude: coord[0],
+          latitude: coord[1],
+        })),
+        width: frontend.width || 50, // Default width if not provided
+        metadata: {},
+      };
     }
 
     return null;
@@ -289,6 +332,7 @@ export function duplicateGeofence(
     description: geofence.description,
     geometry: JSON.parse(JSON.stringify(geofence.geometry)), // Deep copy
     radius: geofence.radius,
+    width: geofence.width,
     color: geofence.color,
     is_active: geofence.is_active,
     type: geofence.type,
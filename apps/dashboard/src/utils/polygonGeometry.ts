@@ -0,0 +1,47 @@
+import { isPointInRing, type Position } from '@geofence/shared';
+import { GeofenceGeometry } from '../types/geofence';
+
+type Ring = number[][];
+
+/**
+ * A single polygon without holes, the only polygon shape the drawing tools can edit
+ */
+export function isSimplePolygon(geometry: GeofenceGeometry): boolean {
+  return geometry.type === 'Polygon' && geometry.coordinates.length === 1;
+}
+
+/**
+ * Cuts a drawn ring out of the polygon part it lies in. Returns null when the ring
+ * isn't entirely inside one of the shape's parts.
+ */
+export function addHole(geometry: GeofenceGeometry, hole: Ring): GeofenceGeometry | null {
+  const polygons =
+    geometry.type === 'MultiPolygon'
+      ? (geometry.coordinates as Ring[][])
+      : geometry.type === 'Polygon'
+        ? [geometry.coordinates as Ring[]]
+        : [];
+
+  const index = polygons.findIndex((rings) =>
+    hole.every(([lng, lat]) => isPointInRing(lng, lat, rings[0] as Position[]))
+  );
+  if (index === -1) return null;
+
+  const updated = polygons.map((rings, i) => (i === index ? [...rings, hole] : rings));
+  return geometry.type === 'MultiPolygon'
+    ? { type: 'MultiPolygon', coordinates: updated }
+    : { type: 'Polygon', coordinates: updated[0] };
+}
+
+/**
+ * Adds a drawn ring as another part of the shape, turning a Polygon into a MultiPolygon
+ */
+export function addPart(geometry: GeofenceGeometry, part: Ring): GeofenceGeometry | null {
+  if (geometry.type === 'Polygon') {
+    return { type: 'MultiPolygon', coordinates: [geometry.coordinates as Ring[], [part]] };
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return { type: 'MultiPolygon', coordinates: [...(geometry.coordinates as Ring[][]), [part]] };
+  }
+  return null;
+}
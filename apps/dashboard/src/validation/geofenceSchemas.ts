@@ -9,34 +9,43 @@ const pointSchema = z.object({
   )
 });
 
+const lineStringSchema = z.object({
+  type: z.literal('LineString'),
+  coordinates: z.array(
+    z.tuple([z.number(), z.number()]).refine(
+      ([lng, lat]) => lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90,
+      { message: 'Invalid coordinate values' }
+    )
+  ).min(2, 'LineString must have at least 2 coordinates')
+});
+
+// A closed ring of at least four positions (three corners plus the closing one)
+const ringSchema = z.array(
+  z.tuple([z.number(), z.number()]).refine(
+    ([lng, lat]) => lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90,
+    { message: 'Invalid coordinate values' }
+  )
+).min(4, 'Each ring must have at least 4 coordinates').refine(
+  (ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+  { message: 'Each ring must end at its first coordinate' }
+);
+
+// Outer ring first, then holes
 const polygonSchema = z.object({
   type: z.literal('Polygon'),
-  coordinates: z.array(
-    z.array(
-      z.tuple([z.number(), z.number()]).refine(
-        ([lng, lat]) => lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90,
-        { message: 'Invalid coordinate values' }
-      )
-    ).min(4, 'Polygon must have at least 4 coordinates')
-  ).min(1, 'Polygon must have at least one ring')
+  coordinates: z.array(ringSchema).min(1, 'Polygon must have at least one ring')
 });
 
 const multiPolygonSchema = z.object({
   type: z.literal('MultiPolygon'),
   coordinates: z.array(
-    z.array(
-      z.array(
-        z.tuple([z.number(), z.number()]).refine(
-          ([lng, lat]) => lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90,
-          { message: 'Invalid coordinate values' }
-        )
-      ).min(4, 'Each polygon must have at least 4 coordinates')
-    ).min(1, 'Each polygon must have at least one ring')
+    z.array(ringSchema).min(1, 'Each polygon must have at least one ring')
   ).min(1, 'MultiPolygon must have at least one polygon')
 });
 
 const geometrySchema = z.discriminatedUnion('type', [
   pointSchema,
+  lineStringSchema,
   polygonSchema,
   multiPolygonSchema
 ]);
@@ -46,7 +55,7 @@ export const backendGeofenceSchema = z.object({
   id: z.string().min(1, 'ID is required'),
   name: z.string().min(1, 'Name is required').max(255, 'Name too long'),
   description: z.string().max(1000, 'Description too long').optional(),
-  geofence_type: z.enum(['polygon', 'circle', 'point']),
+  geofence_type: z.enum(['polygon', 'circle', 'point', 'corridor']),
   geometry: geometrySchema,
   is_active: z.boolean(),
   radius_m: z.number().positive({ message: 'Radius must be positive' }).optional(),
@@ -67,6 +76,10 @@ export const backendGeofenceSchema = z.object({
     if (data.geofence_type === 'polygon') {
       return data.geometry.type === 'Polygon' || data.geometry.type === 'MultiPolygon';
     }
+    // Corridor type should have a LineString route
+    if (data.geofence_type === 'corridor') {
+      return data.geometry.type === 'LineString';
+    }
     return true;
   },
   { message: 'Geofence type must match geometry type' }
@@ -81,7 +94,7 @@ export const frontendGeofenceSchema = z.object({
   radius: z.number().positive({ message: 'Radius must be positive' }).optional(),
   color: z.string().regex(/^#[0-9A-F]{6}$/i, 'Invalid color format'),
   isActive: z.boolean(),
-  type: z.enum(['polygon', 'circle', 'point'])
+  type: z.enum(['polygon', 'circle', 'point', 'corridor'])
 }).refine(
   (data) => {
     // Circle type should have radius and Point geometry
@@ -96,6 +109,10 @@ export const frontendGeofenceSchema = z.object({
     if (data.type === 'polygon') {
       return data.geometry.type === 'Polygon' || data.geometry.type === 'MultiPolygon';
     }
+    // Corridor type should have a LineString route
+    if (data.type === 'corridor') {
+      return data.geometry.type === 'LineString';
+    }
     return true;
   },
   { message: 'Geofence type must match geometry type' }
@@ -105,7 +122,7 @@ export const frontendGeofenceSchema = z.object({
 export const createGeofenceRequestSchema = z.object({
   name: z.string().min(1, 'Name is required').max(255, 'Name too long'),
   description: z.string().max(1000, 'Description too long').optional(),
-  geofence_type: z.enum(['polygon', 'circle', 'point']),
+  geofence_type: z.enum(['polygon', 'circle', 'point', 'corridor']),
   geometry: geometrySchema,
   is_active: z.boolean().default(true),
   radius_m: z.number().positive({ message: 'Radius must be positive' }).optional(),
@@ -121,6 +138,9 @@ export const createGeofenceRequestSchema = z.object({
     if (data.geofence_type === 'polygon') {
       return data.geometry.type === 'Polygon' || data.geometry.type === 'MultiPolygon';
     }
+    if (data.geofence_type === 'corridor') {
+      return data.geometry.type === 'LineString';
+    }
     return true;
   },
   { message: 'Geofence type must match geometry type and radius requirements' }
@@ -0,0 +1,258 @@
+import { Client, QueryResult } from 'pg';
+import { Logger } from 'pino';
+import { reportedFloor } from '../spatial/level.js';
+
+const POLL_INTERVAL_MS = 5000;
+const LOCATIONS_PER_PAGE = 2000;
+
+// A running job whose heartbeat is older than this was left by an engine that died, and is run again
+const STALE_AFTER_SECONDS = 600;
+
+export interface BackfillJob {
+  id: string;
+  accountId: string;
+  geofenceId: string;
+  from: Date;
+  to: Date;
+  startedAt: string; // Identifies this run of the job; a job claimed again gets a new one
+}
+
+export interface HistoricalLocation {
+  deviceId: string;
+  ts: string;
+  lat: number;
+  lon: number;
+  accuracyM?: number;
+  altitudeM?: number;
+  floor?: number;
+  lowAccuracy: boolean;
+}
+
+/**
+ * Evaluates one job's locations, device by device and oldest first. Both methods
+ * return the number of events written.
+ */
+export interface BackfillReplay {
+  next(location: HistoricalLocation): Promise<number>;
+  finishDevice(deviceId: string): Promise<number>;
+}
+
+interface BackfillRunnerConfig {
+  pgClient: Client;
+  logger: Logger;
+  startReplay: (job: BackfillJob) => Promise<BackfillReplay>;
+}
+
+/**
+ * Runs geofence backfill jobs queued through the API, one at a time per engine
+ * instance. Jobs are claimed with SKIP LOCKED so each one is run by a single
+ * instance, and progress is written back after every page of locations along with a
+ * heartbeat. Jobs whose heartbeat goes stale are claimed again, and a run that finds
+ * its job claimed again gives it up.
+ */
+export class BackfillRunner {
+  private pgClient: Client;
+  private logger: Logger;
+  private startReplay: (job: BackfillJob) => Promise<BackfillReplay>;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private stopped = false;
+
+  constructor(config: BackfillRunnerConfig) {
+    this.pgClient = config.pgClient;
+    this.logger = config.logger;
+    this.startReplay = config.startReplay;
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.pollTimer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  private async poll(): Promise<void> {
+    // A job can take a while, and the next one waits for it
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const job = await this.claim();
+      if (job) await this.run(job);
+    } catch (error) {
+      this.logger.error(error, 'Error polling geofence backfills');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async claim(): Promise<BackfillJob | null> {
+    const result = await this.pgClient.query(
+      `
+        UPDATE geofence_backfills
+        SET status = 'running', started_at = NOW(), heartbeat_at = NOW(), processed_locations = 0, events_created = 0
+        WHERE id = (
+          SELECT id FROM geofence_backfills
+          WHERE status = 'pending'
+            OR (status = 'running' AND COALESCE(heartbeat_at, started_at) < NOW() - make_interval(secs => $1))
+          ORDER BY created_at
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, account_id, geofence_id, from_ts, to_ts, started_at::text AS started_at
+      `,
+      [STALE_AFTER_SECONDS]
+    );
+
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      accountId: row.account_id,
+      geofenceId: row.geofence_id,
+      from: new Date(row.from_ts),
+      to: new Date(row.to_ts),
+      startedAt: row.started_at
+    };
+  }
+
+  private async run(job: BackfillJob): Promise<void> {
+    this.logger.info({ backfillId: job.id, geofenceId: job.geofenceId }, 'Starting geofence backfill');
+
+    let processed = 0;
+    let eventsCreated = 0;
+
+    try {
+      const replay = await this.startReplay(job);
+
+      // Held-back and rejected fixes never took part in live evaluation, so they are left out here too
+      const scope = `
+        account_id = $1 AND ts >= $2 AND ts < $3
+          AND COALESCE(payload->>'low_accuracy', '') <> 'held'
+          AND NOT payload ? 'rejected'
+      `;
+
+      const total = await this.pgClient.query(
+        `SELECT COUNT(*) AS count FROM location_events WHERE ${scope}`,
+        [job.accountId, job.from, job.to]
+      );
+      if (!(await this.update(job, 'total_locations = $3', [Number(total.rows[0].count)]))) return;
+
+      const devices = await this.pgClient.query(
+        `SELECT DISTINCT device_id FROM location_events WHERE ${scope}`,
+        [job.accountId, job.from, job.to]
+      );
+
+      for (const { device_id: deviceId } of devices.rows) {
+        let cursor: { ts: string; id: string } | null = null;
+
+        for (;;) {
+          if (this.stopped) {
+            await this.requeue(job);
+            return;
+          }
+
+          const page: QueryResult = await this.pgClient.query(
+            `
+              SELECT id, ts, ts::text AS ts_key,
+                COALESCE((payload->'smoothed'->>'lat')::float8, ST_Y(loc::geometry)) AS lat,
+                COALESCE((payload->'smoothed'->>'lon')::float8, ST_X(loc::geometry)) AS lon,
+                accuracy_m, altitude_m, payload->>'floor' AS floor, payload->>'low_accuracy' AS low_accuracy
+              FROM location_events
+              WHERE ${scope}
+                AND device_id = $4
+                AND ($5::timestamptz IS NULL OR (ts, id) > ($5, $6::bigint))
+              ORDER BY ts, id
+              LIMIT ${LOCATIONS_PER_PAGE}
+            `,
+            [job.accountId, job.from, job.to, deviceId, cursor?.ts ?? null, cursor?.id ?? null]
+          );
+
+          for (const row of page.rows) {
+            eventsCreated += await replay.next({
+              deviceId,
+              ts: new Date(row.ts).toISOString(),
+              lat: Number(row.lat),
+              lon: Number(row.lon),
+              accuracyM: row.accuracy_m ?? undefined,
+              altitudeM: row.altitude_m ?? undefined,
+              floor: reportedFloor({ floor: row.floor }),
+              lowAccuracy: row.low_accuracy === 'flagged'
+            });
+          }
+
+          processed += page.rows.length;
+          if (!(await this.update(job, 'processed_locations = $3, events_created = $4', [processed, eventsCreated]))) {
+            return;
+          }
+
+          if (page.rows.length < LOCATIONS_PER_PAGE) break;
+          const last = page.rows[page.rows.length - 1];
+          // The text form keeps the microseconds a Date would drop
+          cursor = { ts: last.ts_key, id: last.id };
+        }
+
+        eventsCreated += await replay.finishDevice(deviceId);
+      }
+
+      const completed = await this.update(
+        job,
+        `status = 'completed', processed_locations = $3, events_created = $4, completed_at = NOW()`,
+        [processed, eventsCreated]
+      );
+      if (!completed) return;
+
+      this.logger.info({ backfillId: job.id, processed, eventsCreated }, 'Geofence backfill completed');
+    } catch (error) {
+      this.logger.error({ error, backfillId: job.id }, 'Geofence backfill failed');
+
+      await this.update(job, `status = 'failed', error_message = $3, events_created = $4, completed_at = NOW()`, [
+        error instanceof Error ? error.message : String(error),
+        eventsCreated
+      ]);
+    }
+  }
+
+  /**
+   * Updates the job and refreshes its heartbeat, as long as it is still this run's.
+   * Returns false once the job has been claimed again after its heartbeat went stale.
+   */
+  private async update(job: BackfillJob, assignments: string, values: unknown[]): Promise<boolean> {
+    const result = await this.pgClient.query(
+      `
+        UPDATE geofence_backfills
+        SET ${assignments}, heartbeat_at = NOW()
+        WHERE id = $1 AND status = 'running' AND started_at = $2::timestamptz
+      `,
+      [job.id, job.startedAt, ...values]
+    );
+
+    if (result.rowCount === 0) {
+      this.logger.warn({ backfillId: job.id }, 'Geofence backfill was claimed again, giving it up');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Puts a job interrupted by shutdown back in the queue. Events it already wrote
+   * are deduplicated when it runs again.
+   */
+  private async requeue(job: BackfillJob): Promise<void> {
+    await this.pgClient.query(
+      `
+        UPDATE geofence_backfills
+        SET status = 'pending', started_at = NULL, heartbeat_at = NULL, processed_locations = 0, events_created = 0
+        WHERE id = $1 AND started_at = $2::timestamptz
+      `,
+      [job.id, job.startedAt]
+    );
+
+    this.logger.info({ backfillId: job.id }, 'Geofence backfill interrupted, requeued');
+  }
+}
@@ -0,0 +1,25 @@
+import { BleSightingSchema, WifiSightingSchema, beaconKey } from '@geofence/shared';
+
+export interface BeaconSighting {
+  key: string; // beaconKey of the beacon or access point
+  rssi: number;
+}
+
+/**
+ * The BLE beacons and Wi-Fi access points a device reported hearing in attrs.beacons and
+ * attrs.wifi, strongest first. Malformed entries are skipped.
+ */
+export function readSightings(attrs: Record<string, any> | undefined): BeaconSighting[] {
+  const sightings: BeaconSighting[] = [];
+
+  for (const beacon of Array.isArray(attrs?.beacons) ? attrs.beacons : []) {
+    const parsed = BleSightingSchema.safeParse(beacon);
+    if (parsed.success) sightings.push({ key: beaconKey(parsed.data), rssi: parsed.data.rssi });
+  }
+  for (const accessPoint of Array.isArray(attrs?.wifi) ? attrs.wifi : []) {
+    const parsed = WifiSightingSchema.safeParse(accessPoint);
+    if (parsed.success) sightings.push({ key: beaconKey(parsed.data), rssi: parsed.data.rssi });
+  }
+
+  return sightings.sort((a, b) => b.rssi - a.rssi);
+}
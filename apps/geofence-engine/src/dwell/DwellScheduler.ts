@@ -0,0 +1,156 @@
+import { Client } from 'pg';
+import Redis from 'ioredis';
+import { Logger } from 'pino';
+
+// Sorted set of pending dwell timers, scored by the time (ms) they are due
+const DWELL_TIMERS_KEY = 'dwell_timers';
+
+const POLL_INTERVAL_MS = 1000;
+const THRESHOLD_REFRESH_INTERVAL_MS = 60_000;
+const MAX_TIMERS_PER_POLL = 500;
+
+export interface DwellTimer {
+  accountId: string;
+  deviceId: string;
+  geofenceId: string;
+  thresholdSeconds: number;
+  dueAt: number;
+}
+
+interface DwellSchedulerConfig {
+  pgClient: Client;
+  redis: Redis;
+  logger: Logger;
+  onDue: (timer: DwellTimer) => Promise<void>;
+}
+
+/**
+ * Schedules dwell events at the thresholds configured on enabled automation rules.
+ * Timers live in Redis, so they fire even when the device stops reporting and
+ * survive engine restarts. Any engine instance may fire a timer; removing it from
+ * the set first makes sure only one does.
+ */
+export class DwellScheduler {
+  private pgClient: Client;
+  private redis: Redis;
+  private logger: Logger;
+  private onDue: (timer: DwellTimer) => Promise<void>;
+  private thresholds = new Map<string, number[]>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(config: DwellSchedulerConfig) {
+    this.pgClient = config.pgClient;
+    this.redis = config.redis;
+    this.logger = config.logger;
+    this.onDue = config.onDue;
+  }
+
+  async start(): Promise<void> {
+    await this.loadThresholds();
+
+    this.pollTimer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+    this.refreshTimer = setInterval(() => {
+      this.loadThresholds().catch(error => this.logger.error(error, 'Failed to refresh dwell thresholds'));
+    }, THRESHOLD_REFRESH_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.pollTimer = null;
+    this.refreshTimer = null;
+  }
+
+  /**
+   * Distinct dwell thresholds (seconds, ascending) of the enabled rules on a geofence.
+   */
+  thresholdsFor(geofenceId: string): number[] {
+    return this.thresholds.get(geofenceId) || [];
+  }
+
+  async schedule(
+    accountId: string,
+    deviceId: string,
+    geofenceId: string,
+    entryTime: number,
+    thresholds: number[]
+  ): Promise<void> {
+    if (thresholds.length === 0) return;
+
+    const args = thresholds.flatMap(threshold => [
+      entryTime + threshold * 1000,
+      this.member(accountId, deviceId, geofenceId, threshold)
+    ]);
+    await this.redis.zadd(DWELL_TIMERS_KEY, ...args);
+  }
+
+  async cancel(accountId: string, deviceId: string, geofenceId: string, thresholds: number[]): Promise<void> {
+    if (thresholds.length === 0) return;
+
+    await this.redis.zrem(
+      DWELL_TIMERS_KEY,
+      ...thresholds.map(threshold => this.member(accountId, deviceId, geofenceId, threshold))
+    );
+  }
+
+  private async loadThresholds(): Promise<void> {
+    const result = await this.pgClient.query(`
+      SELECT ar.geofence_id, array_agg(DISTINCT ar.min_dwell_seconds ORDER BY ar.min_dwell_seconds) as thresholds
+      FROM automation_rules ar
+      JOIN automations a ON ar.automation_id = a.id
+      WHERE ar.enabled = true
+        AND a.enabled = true
+        AND ar.min_dwell_seconds > 0
+        AND 'dwell' = ANY(ar.on_events)
+      GROUP BY ar.geofence_id
+    `);
+
+    this.thresholds = new Map(
+      result.rows.map((row: any) => [row.geofence_id, row.thresholds.map(Number)])
+    );
+  }
+
+  private async poll(): Promise<void> {
+    // A slow onDue handler must not let polls overlap
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const due = await this.redis.zrangebyscore(
+        DWELL_TIMERS_KEY,
+        '-inf',
+        Date.now(),
+        'WITHSCORES',
+        'LIMIT',
+        0,
+        MAX_TIMERS_PER_POLL
+      );
+
+      for (let i = 0; i < due.length; i += 2) {
+        const member = due[i];
+        const dueAt = Number(due[i + 1]);
+
+        // Whoever removes the timer owns it
+        const claimed = await this.redis.zrem(DWELL_TIMERS_KEY, member);
+        if (claimed === 0) continue;
+
+        const [accountId, deviceId, geofenceId, threshold] = member.split(':');
+        try {
+          await this.onDue({ accountId, deviceId, geofenceId, thresholdSeconds: Number(threshold), dueAt });
+        } catch (error) {
+          this.logger.error({ error, member }, 'Failed to fire dwell timer');
+        }
+      }
+    } catch (error) {
+      this.logger.error(error, 'Error polling dwell timers');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private member(accountId: string, deviceId: string, geofenceId: string, threshold: number): string {
+    return `${accountId}:${deviceId}:${geofenceId}:${threshold}`;
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { LocationFilterOptions, LocationFilterState, filterLocation } from './LocationFilter.js';
+
+const METERS_PER_DEGREE_LAT = (6371e3 * Math.PI) / 180;
+
+const T0 = Date.UTC(2026, 0, 5, 8, 0, 0);
+const isoAt = (seconds: number) => new Date(T0 + seconds * 1000).toISOString();
+
+const speedOnly: LocationFilterOptions = { maxSpeedMps: 100, processNoiseMps2: null };
+
+const accepted = (lat: number, seconds = 0): LocationFilterState => ({ lat, lon: 0, ts: isoAt(seconds), rejections: 0 });
+
+describe('filterLocation', () => {
+  describe('speed jumps', () => {
+    // 0.01° of latitude is about 1112 m, so 111 m/s when reached in 10 s
+    it('rejects a fix that would take more than the maximum speed to reach', () => {
+      const result = filterLocation(accepted(0), { lat: 0.01, lon: 0, ts: isoAt(10) }, speedOnly);
+
+      expect(result.rejected?.reason).toBe('impossible_speed');
+      expect(result.rejected?.impliedSpeedMps).toBeCloseTo(111.19, 1);
+      expect(result.state).toEqual({ ...accepted(0), rejections: 1 });
+      expect(result.smoothed).toBeUndefined();
+    });
+
+    it('accepts a fix reachable within the maximum speed', () => {
+      const result = filterLocation(accepted(0), { lat: 0.01, lon: 0, ts: isoAt(12) }, speedOnly);
+
+      expect(result.rejected).toBeUndefined();
+      expect(result.state).toEqual({ lat: 0.01, lon: 0, ts: isoAt(12), rejections: 0 });
+    });
+
+    it("allows for the fix's reported accuracy", () => {
+      // (1112 m - 200 m) / 10 s is 91 m/s
+      const result = filterLocation(accepted(0), { lat: 0.01, lon: 0, ts: isoAt(10), accuracyM: 200 }, speedOnly);
+      expect(result.rejected).toBeUndefined();
+    });
+
+    it('accepts the fix after five rejections in a row', () => {
+      const previous = { ...accepted(0), rejections: 4 };
+      expect(filterLocation(previous, { lat: 0.01, lon: 0, ts: isoAt(10) }, speedOnly).rejected).toBeDefined();
+
+      const result = filterLocation({ ...previous, rejections: 5 }, { lat: 0.01, lon: 0, ts: isoAt(10) }, speedOnly);
+      expect(result.rejected).toBeUndefined();
+      expect(result.state.rejections).toBe(0);
+    });
+
+    it('accepts any speed without a maximum, and fixes with the same timestamp', () => {
+      const jump = { lat: 1, lon: 0, ts: isoAt(1) };
+      expect(filterLocation(accepted(0), jump, { ...speedOnly, maxSpeedMps: null }).rejected).toBeUndefined();
+      expect(filterLocation(accepted(0), { ...jump, ts: isoAt(0) }, speedOnly).rejected).toBeUndefined();
+    });
+  });
+
+  describe('smoothing', () => {
+    const smoothing: LocationFilterOptions = { maxSpeedMps: null, processNoiseMps2: 1 };
+
+    it('starts a track at the first fix', () => {
+      const result = filterLocation(undefined, { lat: 52, lon: 13, ts: isoAt(0) }, smoothing);
+
+      expect(result.smoothed).toEqual({ lat: 52, lon: 13 });
+      expect(result.state.track?.north).toEqual({ velocityMps: 0, pPos: 100, pPosVel: 0, pVel: 100 });
+    });
+
+    it('moves the estimate most of the way to a fix after a predict and update step', () => {
+      const first = filterLocation(undefined, { lat: 0, lon: 0, ts: isoAt(0) }, smoothing);
+      const fixLat = 100 / METERS_PER_DEGREE_LAT;
+      const result = filterLocation(first.state, { lat: fixLat, lon: 0, ts: isoAt(10) }, smoothing);
+
+      // Predicted position variance 100 + 10² × 100 + 10⁴ / 4 = 12600, against 100 for the fix
+      const gain = 12600 / 12700;
+      expect(result.smoothed!.lat * METERS_PER_DEGREE_LAT).toBeCloseTo(100 * gain, 6);
+      expect(result.smoothed!.lon).toBeCloseTo(0, 12);
+      // Velocity gain (0 + 10 × 100 + 10³ / 2) / 12700
+      expect(result.state.track!.north.velocityMps).toBeCloseTo((1500 / 12700) * 100, 6);
+      // The accepted fix is kept as reported
+      expect(result.state.lat).toBe(fixLat);
+    });
+
+    it('pulls noisy fixes of a still device towards where it is', () => {
+      // Little acceleration expected, as for something parked
+      const options = { ...smoothing, processNoiseMps2: 0.1 };
+      let state: LocationFilterState | undefined;
+      let smoothedError = 0;
+      let rawError = 0;
+
+      for (let i = 0; i < 30; i++) {
+        const noiseM = (i % 2 === 0 ? 1 : -1) * 8;
+        const result = filterLocation(state, { lat: noiseM / METERS_PER_DEGREE_LAT, lon: 0, ts: isoAt(i * 5) }, options);
+        state = result.state;
+        if (i >= 10) {
+          smoothedError += Math.abs(result.smoothed!.lat * METERS_PER_DEGREE_LAT);
+          rawError += Math.abs(noiseM);
+        }
+      }
+
+      expect(smoothedError).toBeLessThan(rawError / 2);
+    });
+
+    it('restarts the track after a long gap', () => {
+      const first = filterLocation(undefined, { lat: 0, lon: 0, ts: isoAt(0) }, smoothing);
+      const result = filterLocation(first.state, { lat: 0.01, lon: 0.01, ts: isoAt(11 * 60) }, smoothing);
+
+      expect(result.smoothed).toEqual({ lat: 0.01, lon: 0.01 });
+      expect(result.state.track?.north.velocityMps).toBe(0);
+    });
+
+    it('leaves the track as it was when a fix is rejected', () => {
+      const first = filterLocation(undefined, { lat: 0, lon: 0, ts: isoAt(0) }, { ...smoothing, maxSpeedMps: 100 });
+      const result = filterLocation(first.state, { lat: 1, lon: 0, ts: isoAt(10) }, { ...smoothing, maxSpeedMps: 100 });
+
+      expect(result.rejected).toBeDefined();
+      expect(result.smoothed).toBeUndefined();
+      expect(result.state.track).toEqual(first.state.track);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { calculateDistance } from '@geofence/shared';
+
+// Same spherical earth radius calculateDistance uses
+const METERS_PER_DEGREE_LAT = (6371e3 * Math.PI) / 180;
+
+// After this many rejections in a row the device is taken to really be where it now reports
+const MAX_CONSECUTIVE_REJECTIONS = 5;
+
+// Measurement error assumed for fixes reported without an accuracy
+const DEFAULT_FIX_ACCURACY_METERS = 10;
+
+// Velocity uncertainty (m/s) a new track starts with
+const INITIAL_VELOCITY_STD_MPS = 10;
+
+// A track is restarted rather than predicted across a gap this long
+const MAX_TRACK_GAP_MS = 10 * 60_000;
+
+// Position (m from the estimate's lat/lon, so always 0 between fixes) and velocity along one
+// axis, with their covariance
+interface AxisTrack {
+  velocityMps: number;
+  pPos: number;
+  pPosVel: number;
+  pVel: number;
+}
+
+interface KalmanTrack {
+  lat: number;
+  lon: number;
+  north: AxisTrack;
+  east: AxisTrack;
+}
+
+// Kept with the device's state between locations
+export interface LocationFilterState {
+  lat: number; // Last accepted fix, as reported
+  lon: number;
+  ts: string;
+  rejections: number; // Fixes rejected since the last accepted one
+  track?: KalmanTrack;
+}
+
+export interface LocationFilterOptions {
+  maxSpeedMps: number | null; // null accepts any speed
+  processNoiseMps2: number | null; // Acceleration noise of the Kalman filter; null turns smoothing off
+}
+
+export interface LocationFilterResult {
+  state: LocationFilterState;
+  rejected?: { reason: 'impossible_speed'; impliedSpeedMps: number };
+  smoothed?: { lat: number; lon: number };
+}
+
+/**
+ * Checks a fix against the device's last accepted one and, when smoothing is on, runs it
+ * through a constant-velocity Kalman filter. A fix is rejected when reaching it would take
+ * more than maxSpeedMps, allowing for its reported accuracy; rejected fixes leave the
+ * filter's track as it was.
+ */
+export function filterLocation(
+  previous: LocationFilterState | undefined,
+  fix: { lat: number; lon: number; ts: string; accuracyM?: number },
+  options: LocationFilterOptions
+): LocationFilterResult {
+  const time = new Date(fix.ts).getTime();
+
+  if (previous && options.maxSpeedMps !== null && previous.rejections < MAX_CONSECUTIVE_REJECTIONS) {
+    const elapsedSeconds = (time - new Date(previous.ts).getTime()) / 1000;
+    const distance = calculateDistance(previous.lat, previous.lon, fix.lat, fix.lon);
+    const impliedSpeedMps = Math.max(0, distance - (fix.accuracyM ?? 0)) / elapsedSeconds;
+
+    if (elapsedSeconds > 0 && impliedSpeedMps > options.maxSpeedMps) {
+      return {
+        state: { ...previous, rejections: previous.rejections + 1 },
+        rejected: { reason: 'impossible_speed', impliedSpeedMps }
+      };
+    }
+  }
+
+  const state: LocationFilterState = { lat: fix.lat, lon: fix.lon, ts: fix.ts, rejections: 0 };
+  if (options.processNoiseMps2 === null) return { state };
+
+  const measurementVariance = (fix.accuracyM ?? DEFAULT_FIX_ACCURACY_METERS) ** 2;
+  const elapsedSeconds = previous ? (time - new Date(previous.ts).getTime()) / 1000 : 0;
+
+  if (!previous?.track || elapsedSeconds <= 0 || elapsedSeconds * 1000 > MAX_TRACK_GAP_MS) {
+    state.track = {
+      lat: fix.lat,
+      lon: fix.lon,
+      north: startAxis(measurementVariance),
+      east: startAxis(measurementVariance)
+    };
+    return { state, smoothed: { lat: fix.lat, lon: fix.lon } };
+  }
+
+  const { track } = previous;
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos((track.lat * Math.PI) / 180);
+  const north = stepAxis(
+    track.north,
+    (fix.lat - track.lat) * METERS_PER_DEGREE_LAT,
+    measurementVariance,
+    elapsedSeconds,
+    options.processNoiseMps2
+  );
+  const east = stepAxis(
+    track.east,
+    (fix.lon - track.lon) * metersPerDegreeLon,
+    measurementVariance,
+    elapsedSeconds,
+    options.processNoiseMps2
+  );
+
+  const smoothed = {
+    lat: track.lat + north.offsetMeters / METERS_PER_DEGREE_LAT,
+    lon: track.lon + east.offsetMeters / metersPerDegreeLon
+  };
+  state.track = { ...smoothed, north: north.axis, east: east.axis };
+  return { state, smoothed };
+}
+
+function startAxis(measurementVariance: number): AxisTrack {
+  return { velocityMps: 0, pPos: measurementVariance, pPosVel: 0, pVel: INITIAL_VELOCITY_STD_MPS ** 2 };
+}
+
+// One predict and update step along an axis; returns the new estimate's offset from the old one
+function stepAxis(
+  axis: AxisTrack,
+  measuredOffset: number,
+  measurementVariance: number,
+  dt: number,
+  processNoiseMps2: number
+): { axis: AxisTrack; offsetMeters: number } {
+  const q = processNoiseMps2 ** 2;
+
+  // Predict: move by the velocity, and grow the uncertainty by the unknown acceleration
+  const predictedOffset = axis.velocityMps * dt;
+  const pPos = axis.pPos + 2 * dt * axis.pPosVel + dt * dt * axis.pVel + (q * dt ** 4) / 4;
+  const pPosVel = axis.pPosVel + dt * axis.pVel + (q * dt ** 3) / 2;
+  const pVel = axis.pVel + q * dt * dt;
+
+  // Update with the measured position
+  const innovation = measuredOffset - predictedOffset;
+  const gainPos = pPos / (pPos + measurementVariance);
+  const gainVel = pPosVel / (pPos + measurementVariance);
+
+  return {
+    offsetMeters: predictedOffset + gainPos * innovation,
+    axis: {
+      velocityMps: axis.velocityMps + gainVel * innovation,
+      pPos: (1 - gainPos) * pPos,
+      pPosVel: (1 - gainPos) * pPosVel,
+      pVel: pVel - gainVel * pPosVel
+    }
+  };
+}
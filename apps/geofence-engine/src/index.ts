@@ -44,6 +44,20 @@ async function startGeofenceEngine() {
     });
     await pgClient.connect();
 
+    // Trip segmentation gets its own connection, so its transactions don't take in the processor's queries
+    const segmenterPgClient = new Client({
+      connectionString: databaseUrl,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+    await segmenterPgClient.connect();
+
+    // and so does the backfill runner, whose scans over location history would otherwise hold up live inserts
+    const backfillPgClient = new Client({
+      connectionString: databaseUrl,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    });
+    await backfillPgClient.connect();
+
     // Initialize Redis
     const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
 
@@ -51,8 +65,15 @@ async function startGeofenceEngine() {
     const processor = new GeofenceProcessor({
       kafka,
       pgClient,
+      segmenterPgClient,
+      backfillPgClient,
       redis,
-      logger
+      logger,
+      reorderWindowSeconds: process.env.REORDER_WINDOW_SECONDS
+        ? Number(process.env.REORDER_WINDOW_SECONDS)
+        : undefined,
+      batchMode: process.env.ENGINE_BATCH_MODE === 'true',
+      instanceId: process.env.ENGINE_INSTANCE_ID
     });
 
     // Start processing
@@ -65,6 +86,8 @@ async function startGeofenceEngine() {
       logger.info('⏹️  Shutting down Geofence Engine...');
       await processor.stop();
       await pgClient.end();
+      await segmenterPgClient.end();
+      await backfillPgClient.end();
       await redis.disconnect();
       process.exit(0);
     });
@@ -0,0 +1,86 @@
+// Throughput and latency percentiles are taken over batches finished within this window
+const WINDOW_SECONDS = 60;
+
+// Upper bounds (ms) of the latency histogram the p95 is read from; longer batches share a last bin
+const LATENCY_BOUNDS_MS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10_000, 30_000];
+
+// Batches finished within one second, kept in a ring of WINDOW_SECONDS buckets
+interface SecondBucket {
+  second: number;
+  batches: number;
+  messages: number;
+  latencySumMs: number;
+  maxLatencyMs: number;
+  latencyCounts: number[];
+}
+
+const emptyBucket = (second: number): SecondBucket => ({
+  second,
+  batches: 0,
+  messages: 0,
+  latencySumMs: 0,
+  maxLatencyMs: 0,
+  latencyCounts: new Array(LATENCY_BOUNDS_MS.length + 1).fill(0)
+});
+
+/**
+ * Counts consumed batches and how long each took, from fetch to committed offsets.
+ * In message mode every message is recorded as a batch of one. Recording is constant
+ * time; the p95 is the upper bound of the histogram bin it falls in.
+ */
+export class BatchMetrics {
+  private batches = 0;
+  private messages = 0;
+  private lastLatencyMs: number | null = null;
+  private buckets: SecondBucket[] = Array.from({ length: WINDOW_SECONDS }, () => emptyBucket(-1));
+
+  record(messages: number, latencyMs: number): void {
+    const second = Math.floor(Date.now() / 1000);
+    let bucket = this.buckets[second % WINDOW_SECONDS];
+    if (bucket.second !== second) {
+      bucket = emptyBucket(second);
+      this.buckets[second % WINDOW_SECONDS] = bucket;
+    }
+
+    this.batches++;
+    this.messages += messages;
+    this.lastLatencyMs = latencyMs;
+
+    bucket.batches++;
+    bucket.messages += messages;
+    bucket.latencySumMs += latencyMs;
+    bucket.maxLatencyMs = Math.max(bucket.maxLatencyMs, latencyMs);
+    const bin = LATENCY_BOUNDS_MS.findIndex(bound => latencyMs <= bound);
+    bucket.latencyCounts[bin === -1 ? LATENCY_BOUNDS_MS.length : bin]++;
+  }
+
+  snapshot() {
+    const oldestSecond = Math.floor(Date.now() / 1000) - WINDOW_SECONDS + 1;
+    const recent = this.buckets.filter(bucket => bucket.second >= oldestSecond);
+
+    const batches = recent.reduce((sum, bucket) => sum + bucket.batches, 0);
+    const messages = recent.reduce((sum, bucket) => sum + bucket.messages, 0);
+    const latencySumMs = recent.reduce((sum, bucket) => sum + bucket.latencySumMs, 0);
+    const maxLatencyMs = recent.reduce((max, bucket) => Math.max(max, bucket.maxLatencyMs), 0);
+
+    return {
+      batches: this.batches,
+      messages: this.messages,
+      messagesPerSecond: messages / WINDOW_SECONDS,
+      avgBatchSize: batches > 0 ? messages / batches : 0,
+      lastBatchLatencyMs: this.lastLatencyMs,
+      avgBatchLatencyMs: batches > 0 ? latencySumMs / batches : null,
+      p95BatchLatencyMs: batches > 0 ? this.percentile(recent, Math.ceil(batches * 0.95), maxLatencyMs) : null
+    };
+  }
+
+  // The latency the rank-th fastest batch in the window stayed within
+  private percentile(recent: SecondBucket[], rank: number, maxLatencyMs: number): number {
+    let seen = 0;
+    for (let bin = 0; bin < LATENCY_BOUNDS_MS.length; bin++) {
+      seen += recent.reduce((sum, bucket) => sum + bucket.latencyCounts[bin], 0);
+      if (seen >= rank) return Math.min(LATENCY_BOUNDS_MS[bin], maxLatencyMs);
+    }
+    return maxLatencyMs;
+  }
+}
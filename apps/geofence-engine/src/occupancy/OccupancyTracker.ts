@@ -0,0 +1,147 @@
+import { hostname } from 'os';
+import Redis from 'ioredis';
+import { Logger } from 'pino';
+import { GEOFENCE_OCCUPANTS_KEY_PREFIX } from '@geofence/shared';
+import { GeofenceIndex } from '../spatial/GeofenceIndex.js';
+
+// Held by the instance rebuilding them, so engines starting together don't rebuild them at once
+const OCCUPANCY_REBUILD_LOCK_KEY = 'occupancy_rebuild_lock';
+const REBUILD_LOCK_TTL_SECONDS = 300;
+
+const occupantsKey = (geofenceId: string) => `${GEOFENCE_OCCUPANTS_KEY_PREFIX}${geofenceId}`;
+
+interface OccupancyTrackerConfig {
+  geofenceIndex: GeofenceIndex;
+  redis: Redis;
+  logger: Logger;
+  memberTtlMs: number; // Devices not seen for this long stop counting, as their state expires
+}
+
+/**
+ * Keeps a Redis sorted set of the devices inside each geofence, shared by all engine
+ * instances and scored by when each device was last seen there. Devices that go silent
+ * drop out of the counts when their device state would expire. The sets are rebuilt from
+ * the device_state:* keys whenever an engine starts, so they recover from Redis losing
+ * data or from updates that never landed, and a device that reports from inside is added
+ * back if it's missing.
+ */
+export class OccupancyTracker {
+  private geofenceIndex: GeofenceIndex;
+  private redis: Redis;
+  private logger: Logger;
+  private memberTtlMs: number;
+
+  constructor(config: OccupancyTrackerConfig) {
+    this.geofenceIndex = config.geofenceIndex;
+    this.redis = config.redis;
+    this.logger = config.logger;
+    this.memberTtlMs = config.memberTtlMs;
+  }
+
+  async rebuild(): Promise<void> {
+    const locked = await this.redis.set(
+      OCCUPANCY_REBUILD_LOCK_KEY,
+      `${hostname()}:${process.pid}`,
+      'EX',
+      REBUILD_LOCK_TTL_SECONDS,
+      'NX'
+    );
+    if (!locked) return;
+
+    try {
+      const occupants = new Map<string, (string | number)[]>();
+
+      const states = this.redis.scanStream({ match: 'device_state:*', count: 500 });
+      for await (const keys of states as AsyncIterable<string[]>) {
+        if (keys.length === 0) continue;
+
+        const values = await this.redis.mget(...keys);
+        keys.forEach((key, i) => {
+          const stateJson = values[i];
+          if (!stateJson) return;
+
+          const deviceId = key.split(':')[2];
+          const { geofences, receivedAt } = JSON.parse(stateJson) as { geofences: string[]; receivedAt?: number };
+          for (const geofenceId of geofences) {
+            if (!this.geofenceIndex.get(geofenceId)) continue;
+            occupants.set(geofenceId, [...(occupants.get(geofenceId) || []), receivedAt ?? Date.now(), deviceId]);
+          }
+        });
+      }
+
+      const transaction = this.redis.multi();
+
+      // Anything left over, including the plain sets occupancy used to be kept in
+      const existing = this.redis.scanStream({ match: `${GEOFENCE_OCCUPANTS_KEY_PREFIX}*`, count: 500 });
+      for await (const keys of existing as AsyncIterable<string[]>) {
+        for (const key of keys) transaction.del(key);
+      }
+      for (const [geofenceId, members] of occupants) {
+        transaction.zadd(occupantsKey(geofenceId), ...members);
+      }
+
+      await transaction.exec();
+      this.logger.info(`👥 Rebuilt occupancy for ${occupants.size} geofences`);
+    } finally {
+      await this.redis.del(OCCUPANCY_REBUILD_LOCK_KEY);
+    }
+  }
+
+  /**
+   * Adds the device to the geofence's occupants and returns the new count,
+   * or null if the device was already counted.
+   */
+  async enter(geofenceId: string, deviceId: string): Promise<number | null> {
+    const key = occupantsKey(geofenceId);
+    const now = Date.now();
+    const results = await this.redis
+      .multi()
+      .zremrangebyscore(key, '-inf', `(${now - this.memberTtlMs}`)
+      .zadd(key, now, deviceId)
+      .zcard(key)
+      .exec();
+    return this.changedCount(results);
+  }
+
+  /**
+   * Removes the device from the geofence's occupants and returns the new count,
+   * or null if the device wasn't counted.
+   */
+  async exit(geofenceId: string, deviceId: string): Promise<number | null> {
+    const key = occupantsKey(geofenceId);
+    const results = await this.redis
+      .multi()
+      .zremrangebyscore(key, '-inf', `(${Date.now() - this.memberTtlMs}`)
+      .zrem(key, deviceId)
+      .zcard(key)
+      .exec();
+    return this.changedCount(results);
+  }
+
+  // Marks the device as still inside the geofences it's in, counting it again where it had gone missing
+  async seen(deviceId: string, geofenceIds: string[]): Promise<void> {
+    if (geofenceIds.length === 0) return;
+
+    const now = Date.now();
+    const pipeline = this.redis.pipeline();
+    for (const geofenceId of geofenceIds) {
+      pipeline.zadd(occupantsKey(geofenceId), now, deviceId);
+    }
+    await pipeline.exec();
+  }
+
+  async clear(geofenceId: string): Promise<void> {
+    await this.redis.del(occupantsKey(geofenceId));
+  }
+
+  private changedCount(results: [Error | null, unknown][] | null): number | null {
+    if (!results) return null;
+
+    const [[pruneError], [changeError, changed], [countError, count]] = results;
+    if (pruneError) throw pruneError;
+    if (changeError) throw changeError;
+    if (countError) throw countError;
+
+    return changed === 1 ? (count as number) : null;
+  }
+}
@@ -0,0 +1,164 @@
+import Redis from 'ioredis';
+import { Logger } from 'pino';
+
+// Sorted set of devices with buffered locations, scored by the time (ms) their buffer is released
+const REORDER_DUE_KEY = 'reorder_due';
+// Per-device sorted set of buffered raw events, scored by their event time (ms)
+const REORDER_BUFFER_KEY_PREFIX = 'reorder_buffer:';
+
+const POLL_INTERVAL_MS = 250;
+const MAX_DEVICES_PER_POLL = 500;
+
+interface ReorderBufferConfig {
+  redis: Redis;
+  logger: Logger;
+  windowMs: number;
+  onRelease: (events: string[]) => Promise<void>;
+}
+
+export interface BufferedLocation {
+  accountId: string;
+  deviceId: string;
+  eventTime: number;
+  event: string;
+}
+
+/**
+ * Holds each device's locations for the reorder window after the first one arrives,
+ * then releases everything buffered for the device in event-time order; the buffers of
+ * all devices due in one poll are released together, and device by device if that
+ * fails, so one device's failure holds back only its own locations. Devices that
+ * flush an offline backlog out of order are processed as if it had arrived in order.
+ * Buffers live in Redis so they survive restarts; any engine instance may release a
+ * buffer, and removing the device from the due set first makes sure only one does.
+ * Released locations stay buffered until onRelease resolves for them, and a device
+ * whose release fails is put back in the due set to be retried after another window.
+ */
+export class ReorderBuffer {
+  private redis: Redis;
+  private logger: Logger;
+  private windowMs: number;
+  private onRelease: (events: string[]) => Promise<void>;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(config: ReorderBufferConfig) {
+    this.redis = config.redis;
+    this.logger = config.logger;
+    this.windowMs = config.windowMs;
+    this.onRelease = config.onRelease;
+  }
+
+  get enabled(): boolean {
+    return this.windowMs > 0;
+  }
+
+  start(): void {
+    if (!this.enabled) return;
+    this.pollTimer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  async add(locations: BufferedLocation[]): Promise<void> {
+    if (locations.length === 0) return;
+
+    const releaseAt = Date.now() + this.windowMs;
+    const transaction = this.redis.multi();
+
+    for (const { accountId, deviceId, eventTime, event } of locations) {
+      const member = `${accountId}:${deviceId}`;
+      // NX keeps the release time of a buffer that is already waiting
+      transaction
+        .zadd(`${REORDER_BUFFER_KEY_PREFIX}${member}`, eventTime, event)
+        .zadd(REORDER_DUE_KEY, 'NX', releaseAt, member);
+    }
+
+    await transaction.exec();
+  }
+
+  private async poll(): Promise<void> {
+    // A slow onRelease handler must not let polls overlap
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const due = await this.redis.zrangebyscore(
+        REORDER_DUE_KEY,
+        '-inf',
+        Date.now(),
+        'LIMIT',
+        0,
+        MAX_DEVICES_PER_POLL
+      );
+
+      const buffers = new Map<string, string[]>();
+
+      for (const member of due) {
+        // Whoever removes the device owns its buffer
+        const claimed = await this.redis.zrem(REORDER_DUE_KEY, member);
+        if (claimed === 0) continue;
+
+        const events = await this.redis.zrange(`${REORDER_BUFFER_KEY_PREFIX}${member}`, 0, -1);
+        if (events.length > 0) buffers.set(member, events);
+      }
+
+      if (buffers.size === 0) return;
+
+      if ((await this.release(buffers)) || buffers.size === 1) return;
+
+      for (const [member, events] of buffers) {
+        await this.release(new Map([[member, events]]));
+      }
+    } catch (error) {
+      this.logger.error(error, 'Error polling reorder buffers');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Passes the buffers to onRelease and acknowledges them once it resolves. A single
+   * device that fails is requeued; several are left for the caller to retry one by one.
+   */
+  private async release(buffers: Map<string, string[]>): Promise<boolean> {
+    try {
+      await this.onRelease([...buffers.values()].flat());
+    } catch (error) {
+      if (buffers.size > 1) {
+        this.logger.warn({ error, devices: buffers.size }, 'Failed to release reordered locations, retrying by device');
+        return false;
+      }
+
+      const member = [...buffers.keys()][0];
+      this.logger.error({ error, member }, 'Failed to release reordered locations');
+      await this.requeue([member]);
+      return false;
+    }
+
+    await this.acknowledge(buffers);
+    return true;
+  }
+
+  // Removes just the released locations; any added since are left for the device's next release
+  private async acknowledge(buffers: Map<string, string[]>): Promise<void> {
+    const transaction = this.redis.multi();
+    for (const [member, events] of buffers) {
+      transaction.zrem(`${REORDER_BUFFER_KEY_PREFIX}${member}`, ...events);
+    }
+    await transaction.exec();
+  }
+
+  // NX keeps the release time set by a location added since the claim
+  private async requeue(members: string[]): Promise<void> {
+    const releaseAt = Date.now() + this.windowMs;
+    const transaction = this.redis.multi();
+    for (const member of members) {
+      transaction.zadd(REORDER_DUE_KEY, 'NX', releaseAt, member);
+    }
+    await transaction.exec();
+  }
+}
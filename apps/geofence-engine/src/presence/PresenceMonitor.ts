@@ -0,0 +1,112 @@
+import Redis from 'ioredis';
+import { Logger } from 'pino';
+
+// Sorted set of devices inside a geofence with a presence timeout, scored by the time (ms)
+// the device is considered gone unless it reports again
+const PRESENCE_DEADLINES_KEY = 'presence_deadlines';
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_DEADLINES_PER_POLL = 500;
+
+export interface PresenceDeadline {
+  accountId: string;
+  deviceId: string;
+  geofenceId: string;
+  dueAt: number;
+}
+
+interface PresenceMonitorConfig {
+  redis: Redis;
+  logger: Logger;
+  onTimeout: (deadline: PresenceDeadline) => Promise<void>;
+}
+
+/**
+ * Notices devices that stop reporting while inside a geofence. Every processed location
+ * pushes the deadlines of the geofences the device is in back, so a deadline only comes
+ * due once the device has been silent for the whole timeout. Deadlines live in Redis and
+ * are claimed by removing them, like dwell timers.
+ */
+export class PresenceMonitor {
+  private redis: Redis;
+  private logger: Logger;
+  private onTimeout: (deadline: PresenceDeadline) => Promise<void>;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(config: PresenceMonitorConfig) {
+    this.redis = config.redis;
+    this.logger = config.logger;
+    this.onTimeout = config.onTimeout;
+  }
+
+  start(): void {
+    this.pollTimer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  /**
+   * Sets the deadline of each geofence in dueAt (geofence id -> ms) and drops the device's
+   * deadlines for the geofences in cleared.
+   */
+  async update(accountId: string, deviceId: string, dueAt: Map<string, number>, cleared: string[]): Promise<void> {
+    if (dueAt.size === 0 && cleared.length === 0) return;
+
+    const multi = this.redis.multi();
+    if (dueAt.size > 0) {
+      multi.zadd(
+        PRESENCE_DEADLINES_KEY,
+        ...[...dueAt].flatMap(([geofenceId, due]) => [due, this.member(accountId, deviceId, geofenceId)])
+      );
+    }
+    if (cleared.length > 0) {
+      multi.zrem(PRESENCE_DEADLINES_KEY, ...cleared.map(geofenceId => this.member(accountId, deviceId, geofenceId)));
+    }
+    await multi.exec();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const due = await this.redis.zrangebyscore(
+        PRESENCE_DEADLINES_KEY,
+        '-inf',
+        Date.now(),
+        'WITHSCORES',
+        'LIMIT',
+        0,
+        MAX_DEADLINES_PER_POLL
+      );
+
+      for (let i = 0; i < due.length; i += 2) {
+        const member = due[i];
+        const dueAt = Number(due[i + 1]);
+
+        // Whoever removes the deadline owns it
+        const claimed = await this.redis.zrem(PRESENCE_DEADLINES_KEY, member);
+        if (claimed === 0) continue;
+
+        const [accountId, deviceId, geofenceId] = member.split(':');
+        try {
+          await this.onTimeout({ accountId, deviceId, geofenceId, dueAt });
+        } catch (error) {
+          this.logger.error({ error, member }, 'Failed to time out device presence');
+        }
+      }
+    } catch (error) {
+      this.logger.error(error, 'Error polling presence deadlines');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private member(accountId: string, deviceId: string, geofenceId: string): string {
+    return `${accountId}:${deviceId}:${geofenceId}`;
+  }
+}
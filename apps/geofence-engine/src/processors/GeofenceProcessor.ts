@@ -1,29 +1,154 @@
+import { hostname } from 'os';
 import { Kafka, Consumer, Producer } from 'kafkajs';
 import { Client } from 'pg';
 import Redis from 'ioredis';
 import { Logger } from 'pino';
 import { z } from 'zod';
 import { createHash } from 'crypto';
+import {
+  DEFAULT_HYSTERESIS_ENTRY_BUFFER_METERS,
+  DEFAULT_HYSTERESIS_EXIT_BUFFER_METERS,
+  DEFAULT_HYSTERESIS_MIN_STATE_CHANGE_SECONDS,
+  DEFAULT_KALMAN_PROCESS_NOISE_MPS2,
+  DEFAULT_LOW_ACCURACY_POLICY,
+  DEFAULT_MAX_DEVICE_SPEED_MPS,
+  DEFAULT_OVERSPEED_DURATION_SECONDS,
+  DEFAULT_REORDER_WINDOW_SECONDS,
+  DEFAULT_TRANSITION_CONFIDENCE_THRESHOLD,
+  DEFAULT_TRIP_MAX_GAP_SECONDS,
+  DEFAULT_TRIP_MIN_STOP_SECONDS,
+  DEFAULT_TRIP_STOP_SPEED_MPS,
+  DEVICE_STATE_TTL_SECONDS,
+  GPS_ACCURACY_THRESHOLD_METERS,
+  MAX_DEVICE_SPEED_MPS,
+  MAX_PRESENCE_TIMEOUT_SECONDS,
+  BEACON_SIGHTING_TTL_SECONDS,
+  AccountTransitionSettings,
+  AccountTripSettings,
+  GeofenceSpeedLimit,
+  HysteresisSettings,
+  KAFKA_TOPICS
+} from '@geofence/shared';
+import { GeofenceIndex, IndexedGeofence } from '../spatial/GeofenceIndex.js';
+import { VerticalPosition, isOnGeofenceLevel, reportedFloor } from '../spatial/level.js';
+import { readSightings } from '../beacons/sightings.js';
+import { DwellScheduler, DwellTimer } from '../dwell/DwellScheduler.js';
+import { ScheduleWatcher } from '../schedule/ScheduleWatcher.js';
+import { OccupancyTracker } from '../occupancy/OccupancyTracker.js';
+import { ProximityTracker, TrackedLocation } from '../proximity/ProximityTracker.js';
+import { PresenceDeadline, PresenceMonitor } from '../presence/PresenceMonitor.js';
+import { filterLocation, LocationFilterResult, LocationFilterState } from '../filtering/LocationFilter.js';
+import { BufferedLocation, ReorderBuffer } from '../ordering/ReorderBuffer.js';
+import { BackfillJob, BackfillReplay, BackfillRunner } from '../backfill/BackfillRunner.js';
+import { TripSegmenter } from '../trips/TripSegmenter.js';
+import { BatchMetrics } from '../metrics/BatchMetrics.js';
+import { isGeofenceActiveAt } from '../schedule/schedule.js';
 
 // Schema for raw events from MQTT ingestion
 const RawEventSchema = z.object({
   v: z.number().default(1),
   accountId: z.string().uuid(),
   deviceId: z.string().uuid(),
-  ts: z.string(),
+  ts: z.string().refine(ts => !Number.isNaN(new Date(ts).getTime()), 'Invalid event timestamp'),
   lat: z.number(),
   lon: z.number(),
   speedMps: z.number().optional(),
   accuracyM: z.number().optional(),
+  altitudeM: z.number().optional(),
   batteryPct: z.number().optional(),
   attrs: z.record(z.any()).optional()
 });
 
+// Schema for geofence create/update/delete notifications from the API
+const GeofenceChangeSchema = z.object({
+  v: z.number().default(1),
+  op: z.enum(['upsert', 'delete']),
+  accountId: z.string().uuid(),
+  geofenceId: z.string().uuid(),
+  ts: z.string()
+});
+
+// Per-geofence hysteresis overrides from geofences.metadata.hysteresis; invalid values fall back to defaults
+const HysteresisOverrideSchema = z.object({
+  entryBufferMeters: z.number().min(0).optional().catch(undefined),
+  exitBufferMeters: z.number().min(0).optional().catch(undefined),
+  minStateChangeSeconds: z.number().min(0).optional().catch(undefined)
+});
+
+// Devices assigned to a corridor's route from geofences.metadata.corridor
+const CorridorAssignmentSchema = z.object({
+  deviceIds: z.array(z.string()).catch([])
+});
+
+// Speed limit from geofences.metadata.speedLimit; a geofence without a valid limit is not speed-checked
+const SpeedLimitSchema = z.object({
+  limitMps: z.number().positive(),
+  durationSeconds: z.number().min(0).optional().catch(undefined)
+});
+
+// Capacity from geofences.metadata.occupancy; without one, occupancy is counted but never alerted on
+const OccupancySchema = z.object({
+  capacity: z.number().int().min(0)
+});
+
+// Presence timeout from geofences.metadata.presence; without a valid one the account's applies
+const PresenceSchema = z.object({
+  timeoutSeconds: z.number().int().min(0).max(MAX_PRESENCE_TIMEOUT_SECONDS)
+});
+
+// Transition settings from accounts.settings; invalid values fall back to defaults
+const AccountTransitionSettingsSchema = z.object({
+  transition_confidence_threshold: z.number().min(0.5).max(1).catch(DEFAULT_TRANSITION_CONFIDENCE_THRESHOLD),
+  low_accuracy_policy: z.enum(['hold', 'flag']).catch(DEFAULT_LOW_ACCURACY_POLICY),
+  presence_timeout_seconds: z.number().int().min(1).max(MAX_PRESENCE_TIMEOUT_SECONDS).nullable().catch(null),
+  outlier_filter_enabled: z.boolean().catch(true),
+  kalman_smoothing_enabled: z.boolean().catch(false),
+  kalman_process_noise_mps2: z.number().positive().max(100).catch(DEFAULT_KALMAN_PROCESS_NOISE_MPS2)
+});
+
+// Trip segmentation thresholds from accounts.settings; invalid values fall back to defaults
+const AccountTripSettingsSchema = z.object({
+  trip_stop_speed_mps: z.number().positive().max(10).catch(DEFAULT_TRIP_STOP_SPEED_MPS),
+  trip_min_stop_seconds: z.number().int().min(30).max(86_400).catch(DEFAULT_TRIP_MIN_STOP_SECONDS),
+  trip_max_gap_seconds: z.number().int().min(60).max(86_400).catch(DEFAULT_TRIP_MAX_GAP_SECONDS)
+});
+
+// How long account settings and device types are cached before being re-read from the database
+const ACCOUNT_SETTINGS_TTL_MS = 60_000;
+
+// Rows per multi-row location insert, well under Postgres' 65535 bind parameter limit
+const LOCATION_ROWS_PER_INSERT = 1000;
+
+// Messages from a fetched batch processed and committed together
+const MESSAGES_PER_CHUNK = 500;
+
+// Locations further apart than this are not assumed to have been joined by a straight path
+const MAX_INTERPOLATION_GAP_MS = 15 * 60_000;
+
+// Dwell state outlives the device's last report by at least this long, and until an hour
+// after its last scheduled threshold, so a device that goes silent inside still dwells
+const MIN_DWELL_STATE_TTL_SECONDS = 86400;
+const DWELL_STATE_GRACE_SECONDS = 3600;
+
 interface GeofenceProcessorConfig {
   kafka: Kafka;
   pgClient: Client;
+  segmenterPgClient: Client; // A connection of its own, as trip segmentation saves each page in a transaction
+  backfillPgClient: Client; // A connection of its own, so a backfill's long scans don't hold up live inserts
   redis: Redis;
   logger: Logger;
+  reorderWindowSeconds?: number; // How long locations are held to be put in event-time order; 0 disables
+  batchMode?: boolean; // Consume raw events a fetched batch at a time instead of one message at a time
+  instanceId?: string; // Stable across restarts and unique per instance; defaults to the hostname
+}
+
+type RawEvent = z.infer<typeof RawEventSchema>;
+
+// How a location was stored, and whether it is skipped by evaluation
+interface LocationFlags {
+  lowAccuracy?: 'held' | 'flagged';
+  late: boolean;
+  filtered?: LocationFilterResult; // Set when the location went through outlier filtering or smoothing
 }
 
 interface DwellState {
@@ -32,175 +157,1339 @@ interface DwellState {
   accountId: string;
   entryTime: number;
   lastSeen: number;
-  notifiedIntervals: number[]; // Track which intervals have been notified
+  lastLocation: { lat: number; lon: number };
+  scheduledThresholds: number[]; // Dwell thresholds (seconds) with a timer scheduled for this visit
+}
+
+interface PendingTransition {
+  type: 'enter' | 'exit';
+  since: string; // Timestamp of the first location that crossed the buffered boundary
+}
+
+// An unbroken run of readings over a geofence's speed limit
+interface SpeedingEpisode {
+  since: string; // Timestamp of the first reading over the limit
+  peakMps: number;
+  totalMps: number; // Sum of the readings over the limit, for the average
+  readings: number;
+  reported: boolean; // Overspeed has been emitted, so speed_normal is owed when the episode ends
+}
+
+type GeofenceEventType =
+  | 'enter'
+  | 'exit'
+  | 'dwell'
+  | 'deviation'
+  | 'rejoin'
+  | 'overspeed'
+  | 'speed_normal'
+  | 'occupancy_above'
+  | 'occupancy_below'
+  | 'proximity_enter'
+  | 'proximity_exit'
+  | 'presence_restored';
+
+interface EventDetails {
+  confidence?: number; // Probability the device was on the new side of the boundary
+  lowAccuracy?: boolean; // Triggering fix was less accurate than GPS_ACCURACY_THRESHOLD_METERS
+  reason?: 'schedule' | 'timeout'; // Set on events not triggered by a location crossing the boundary
+  distanceMeters?: number; // From a corridor's route line, or from a proximity geofence's anchor device
+  peakSpeedMps?: number; // Over-limit speeds of the episode, on overspeed and speed_normal events
+  avgSpeedMps?: number;
+  occupancy?: number; // Devices inside the geofence, on occupancy_above and occupancy_below events
+  interpolated?: boolean; // Estimated from the path between two locations that were both outside the geofence
+  historical?: boolean; // Written by a backfill; stored but never published
+}
+
+interface Transition extends EventDetails {
+  geofenceId: string;
+  type: 'enter' | 'exit';
+  ts: string;
+  restored?: boolean; // Back inside a geofence it was timed out of, so emitted as presence_restored
+}
+
+interface TimedLocation {
+  lat: number;
+  lon: number;
+  ts: string;
+}
+
+// A location as evaluated against each geofence
+interface EvaluatedFix extends TimedLocation, VerticalPosition {
+  accuracyM?: number;
+  beaconZoneId: string | null; // Geofence of the device's strongest recent beacon sighting
+}
+
+interface GeofenceStep {
+  inside: boolean; // Whether the device counts as inside after the location
+  transition?: { type: 'enter' | 'exit'; ts: string; confidence: number };
+  pending?: PendingTransition;
+}
+
+interface DeviceState {
+  geofences: string[];
+  timestamp: string | null;
+  location?: { lat: number; lon: number };
+  pending?: Record<string, PendingTransition>;
+  deviated?: string[]; // Corridors the device is assigned to and has left without rejoining yet
+  speeding?: Record<string, SpeedingEpisode>;
+  timedOut?: string[]; // Geofences the device got a timeout exit from and hasn't reported since
+  receivedAt?: number; // When the last location was processed (ms); presence timeouts run from here
+  filter?: LocationFilterState;
+  beacon?: BeaconPresence;
+}
+
+// Beacon zone the device last heard a registered beacon of, and when
+interface BeaconPresence {
+  geofenceId: string;
+  ts: string;
+}
+
+const parseDeviceState = (json: string | null): DeviceState =>
+  json ? JSON.parse(json) : { geofences: [], timestamp: null };
+
+interface AccountConfig {
+  settings: AccountTransitionSettings;
+  trips: AccountTripSettings;
+  timezone: string;
 }
 
 export class GeofenceProcessor {
   private consumer: Consumer;
+  private changeConsumer: Consumer;
   private producer: Producer;
   private pgClient: Client;
   private redis: Redis;
   private logger: Logger;
+  private geofenceIndex: GeofenceIndex;
+  private dwellScheduler: DwellScheduler;
+  private scheduleWatcher: ScheduleWatcher;
+  private occupancyTracker: OccupancyTracker;
+  private proximityTracker: ProximityTracker;
+  private presenceMonitor: PresenceMonitor;
+  private reorderBuffer: ReorderBuffer;
+  private backfillRunner: BackfillRunner;
+  private tripSegmenter: TripSegmenter;
+  private batchMode: boolean;
+  private batchMetrics = new BatchMetrics();
+  private accountConfigs = new Map<string, AccountConfig & { loadedAt: number }>();
+  private deviceTypes = new Map<string, { type: string | null; loadedAt: number }>();
 
   constructor(config: GeofenceProcessorConfig) {
     this.consumer = config.kafka.consumer({ groupId: 'geofence-processor' });
+    // Every engine instance keeps its own index, so each one needs to see every change. The group
+    // is named after the instance rather than the process, so restarts don't leave groups behind.
+    this.changeConsumer = config.kafka.consumer({
+      groupId: `geofence-index-${config.instanceId || hostname()}`
+    });
     this.producer = config.kafka.producer();
     this.pgClient = config.pgClient;
     this.redis = config.redis;
     this.logger = config.logger;
+    this.batchMode = config.batchMode ?? false;
+    this.geofenceIndex = new GeofenceIndex({ pgClient: config.pgClient, logger: config.logger });
+    this.dwellScheduler = new DwellScheduler({
+      pgClient: config.pgClient,
+      redis: config.redis,
+      logger: config.logger,
+      onDue: timer => this.handleDwellTimer(timer)
+    });
+    this.occupancyTracker = new OccupancyTracker({
+      geofenceIndex: this.geofenceIndex,
+      redis: config.redis,
+      logger: config.logger,
+      memberTtlMs: DEVICE_STATE_TTL_SECONDS * 1000
+    });
+    this.proximityTracker = new ProximityTracker({
+      pgClient: config.pgClient,
+      redis: config.redis,
+      logger: config.logger,
+      geofenceIndex: this.geofenceIndex,
+      getHysteresis: geofence => this.getHysteresisSettings(geofence)
+    });
+    this.presenceMonitor = new PresenceMonitor({
+      redis: config.redis,
+      logger: config.logger,
+      onTimeout: deadline => this.handlePresenceTimeout(deadline)
+    });
+    this.reorderBuffer = new ReorderBuffer({
+      redis: config.redis,
+      logger: config.logger,
+      windowMs: (config.reorderWindowSeconds ?? DEFAULT_REORDER_WINDOW_SECONDS) * 1000,
+      onRelease: events => this.processReorderedEvents(events)
+    });
+    this.backfillRunner = new BackfillRunner({
+      pgClient: config.backfillPgClient,
+      logger: config.logger,
+      startReplay: job => this.startBackfillReplay(job)
+    });
+    this.tripSegmenter = new TripSegmenter({
+      pgClient: config.segmenterPgClient,
+      logger: config.logger,
+      getThresholds: async accountId => {
+        const { trips } = await this.getAccountConfig(accountId);
+        return {
+          stopSpeedMps: trips.trip_stop_speed_mps,
+          minStopSeconds: trips.trip_min_stop_seconds,
+          maxGapSeconds: trips.trip_max_gap_seconds
+        };
+      }
+    });
+    this.scheduleWatcher = new ScheduleWatcher({
+      geofenceIndex: this.geofenceIndex,
+      redis: config.redis,
+      logger: config.logger,
+      getTimezone: async accountId => (await this.getAccountConfig(accountId)).timezone,
+      onWindowChange: (geofence, active, at) => this.handleScheduleWindowChange(geofence, active, at)
+    });
   }
 
   async start() {
     await this.consumer.connect();
+    await this.changeConsumer.connect();
     await this.producer.connect();
 
-    await this.consumer.subscribe({ 
-      topics: ['raw_events'],
+    // Subscribe to changes before loading so nothing published during the load is missed
+    await this.changeConsumer.subscribe({
+      topics: [KAFKA_TOPICS.GEOFENCE_CHANGES],
       fromBeginning: false
     });
 
-    await this.consumer.run({
+    await this.changeConsumer.run({
       eachMessage: async ({ message }) => {
         try {
           if (!message.value) return;
 
-          const rawData = JSON.parse(message.value.toString());
-          const event = RawEventSchema.parse(rawData);
-          await this.processLocationEvent(event);
+          const change = GeofenceChangeSchema.parse(JSON.parse(message.value.toString()));
+          await this.handleGeofenceChange(change);
         } catch (error) {
-          this.logger.error(error, 'Error processing message');
-          
-          // Send to DLQ if parsing fails
-          await this.sendToDLQ('raw_events', message.value?.toString() || '', error);
+          this.logger.error(error, 'Error processing geofence change');
         }
       }
     });
 
+    await this.geofenceIndex.load();
+    await this.occupancyTracker.rebuild();
+    await this.proximityTracker.start();
+    await this.dwellScheduler.start();
+    await this.scheduleWatcher.start();
+    this.presenceMonitor.start();
+    this.reorderBuffer.start();
+    this.backfillRunner.start();
+    this.tripSegmenter.start();
+
+    await this.consumer.subscribe({ 
+      topics: ['raw_events'],
+      fromBeginning: false
+    });
+
+    if (this.batchMode) {
+      await this.consumer.run({
+        eachBatchAutoResolve: false,
+        eachBatch: async ({ batch, resolveOffset, heartbeat, commitOffsetsIfNecessary, isRunning, isStale }) => {
+          for (let offset = 0; offset < batch.messages.length; offset += MESSAGES_PER_CHUNK) {
+            if (!isRunning() || isStale()) return;
+
+            const startedAt = Date.now();
+            const messages = batch.messages.slice(offset, offset + MESSAGES_PER_CHUNK);
+            const events: RawEvent[] = [];
+
+            for (const message of messages) {
+              if (!message.value) continue;
+
+              try {
+                events.push(RawEventSchema.parse(JSON.parse(message.value.toString())));
+              } catch (error) {
+                this.logger.error(error, 'Error processing message');
+                await this.sendToDLQ('raw_events', message.value.toString(), error);
+              }
+            }
+
+            if (this.reorderBuffer.enabled) {
+              await this.reorderBuffer.add(events.map(event => this.toBufferedLocation(event)));
+            } else {
+              await this.processLocationBatch(events);
+            }
+
+            // Everything up to here is written, so a restart can safely resume after it
+            resolveOffset(messages[messages.length - 1].offset);
+            await commitOffsetsIfNecessary();
+            await heartbeat();
+
+            this.batchMetrics.record(messages.length, Date.now() - startedAt);
+          }
+        }
+      });
+    } else {
+      await this.consumer.run({
+        eachMessage: async ({ message }) => {
+          const startedAt = Date.now();
+
+          try {
+            if (!message.value) return;
+
+            const rawData = JSON.parse(message.value.toString());
+            const event = RawEventSchema.parse(rawData);
+
+            if (this.reorderBuffer.enabled) {
+              await this.reorderBuffer.add([this.toBufferedLocation(event)]);
+            } else {
+              await this.processLocationEvent(event);
+            }
+          } catch (error) {
+            this.logger.error(error, 'Error processing message');
+            
+            // Send to DLQ if parsing fails
+            await this.sendToDLQ('raw_events', message.value?.toString() || '', error);
+          }
+
+          this.batchMetrics.record(1, Date.now() - startedAt);
+        }
+      });
+    }
+
     this.logger.info('✅ GeofenceProcessor started');
   }
 
   async stop() {
+    this.dwellScheduler.stop();
+    this.scheduleWatcher.stop();
+    this.proximityTracker.stop();
+    this.presenceMonitor.stop();
+    this.reorderBuffer.stop();
+    this.backfillRunner.stop();
+    this.tripSegmenter.stop();
     await this.consumer.disconnect();
+    await this.changeConsumer.disconnect();
     await this.producer.disconnect();
     this.logger.info('⏹️  GeofenceProcessor stopped');
   }
 
-  async processLocationEvent(event: z.infer<typeof RawEventSchema>) {
-    const { accountId, deviceId, lat, lon, ts, speedMps, accuracyM, batteryPct, attrs } = event;
+  async processLocationEvent(event: RawEvent) {
+    const { accountId, deviceId } = event;
 
     try {
-      // Store location event in database
-      await this.storeLocationEvent(event);
-
-      // Get active geofences for this account
-      const geofencesQuery = `
-        SELECT
-          id,
-          name,
-          geofence_type as type,
-          geometry,
-          radius_m,
-          CASE
-            WHEN geofence_type = 'circle' THEN ST_DWithin(geometry::geography, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography, radius_m)
-            WHEN geofence_type = 'polygon' THEN ST_Contains(geometry, ST_SetSRID(ST_MakePoint($1, $2), 4326))
-          END as is_inside
-        FROM geofences
-        WHERE account_id = $3 AND is_active = true
-        AND ST_DWithin(
-          geometry::geography,
-          ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
-          1000 -- 1km buffer for performance
-        )
-      `;
-
-      const geofencesResult = await this.pgClient.query(geofencesQuery, [lon, lat, accountId]);
-      const geofences = geofencesResult.rows;
+      const { settings, timezone } = await this.getAccountConfig(accountId);
 
       // Get device's previous state from Redis
       const deviceStateKey = `device_state:${accountId}:${deviceId}`;
-      const previousStateJson = await this.redis.get(deviceStateKey);
-      const previousState = previousStateJson ? JSON.parse(previousStateJson) : { geofences: [], timestamp: null };
-
-      const currentGeofenceIds = geofences
-        .filter((g: any) => g.is_inside)
-        .map((g: any) => g.id);
-
-      // Detect transitions with hysteresis (20 second stability requirement)
-      const now = new Date(ts).getTime();
-      const timeSinceLastUpdate = previousState.timestamp ? now - new Date(previousState.timestamp).getTime() : 0;
-      const isStable = timeSinceLastUpdate >= 20000; // 20 seconds
-
-      if (isStable) {
-        // Detect enter/exit events
-        const enteredGeofences = currentGeofenceIds.filter(id => !previousState.geofences.includes(id));
-        const exitedGeofences = previousState.geofences.filter((id: string) => !currentGeofenceIds.includes(id));
-
-        // Process enter events
-        for (const geofenceId of enteredGeofences) {
-          await this.handleGeofenceEvent(accountId, deviceId, geofenceId, 'enter', ts, { lat, lon });
+      const previousState = parseDeviceState(await this.redis.get(deviceStateKey));
+
+      // Store location event in database
+      const deviceType = await this.getDeviceType(deviceId);
+      const flags = this.classifyLocation(event, previousState, settings, deviceType);
+      await this.storeLocationEvents([{ event, flags }]);
+
+      const currentState = await this.evaluateLocation(event, previousState, flags, settings, timezone);
+      if (currentState) {
+        await this.redis.setex(deviceStateKey, DEVICE_STATE_TTL_SECONDS, JSON.stringify(currentState));
+      }
+    } catch (error) {
+      this.logger.error(error, `Error processing location for device ${deviceId}`);
+      await this.sendToDLQ('gf_events', JSON.stringify(event), error);
+    }
+  }
+
+  /**
+   * Processes many locations at once: the location rows go in with multi-row inserts and
+   * device states are read and written in single Redis round-trips. Locations are evaluated
+   * oldest first across all devices, with each device's state carried in memory so only its
+   * final state is written; proximity geofences compare against those in-memory positions.
+   * Resolves once every row and state is written.
+   */
+  async processLocationBatch(events: RawEvent[]) {
+    if (events.length === 0) return;
+
+    const byDevice = new Map<string, RawEvent[]>();
+    for (const event of events) {
+      const deviceStateKey = `device_state:${event.accountId}:${event.deviceId}`;
+      const deviceEvents = byDevice.get(deviceStateKey) || [];
+      deviceEvents.push(event);
+      byDevice.set(deviceStateKey, deviceEvents);
+    }
+
+    const deviceStateKeys = [...byDevice.keys()];
+    const storedStates = await this.redis.mget(...deviceStateKeys);
+    const states = new Map(deviceStateKeys.map((key, i) => [key, parseDeviceState(storedStates[i])]));
+
+    // Sorted before classifying, so only the state from before the batch can make a location late.
+    // The filter state is carried from one location to the next, as evaluation would leave it.
+    const locations: { event: RawEvent; flags: LocationFlags }[] = [];
+    for (const [deviceStateKey, deviceEvents] of byDevice) {
+      deviceEvents.sort((a, b) => new Date(a.ts).getTime() - new Date(b.ts).getTime());
+
+      const state = states.get(deviceStateKey)!;
+      const deviceType = await this.getDeviceType(deviceEvents[0].deviceId);
+      let filter = state.filter;
+      for (const event of deviceEvents) {
+        const { settings } = await this.getAccountConfig(event.accountId);
+        const flags = this.classifyLocation(event, { ...state, filter }, settings, deviceType);
+        filter = flags.filtered?.state ?? filter;
+        locations.push({ event, flags });
+      }
+    }
+
+    await this.storeLocationEvents(locations);
+
+    // In event-time order across devices, as they'd be evaluated one message at a time
+    const evaluationOrder = [...locations].sort(
+      (a, b) => new Date(a.event.ts).getTime() - new Date(b.event.ts).getTime()
+    );
+
+    const updatedStates = new Map<string, DeviceState>();
+    const unsavedLocations = new Map<string, TrackedLocation>();
+    for (const { event, flags } of evaluationOrder) {
+      const deviceStateKey = `device_state:${event.accountId}:${event.deviceId}`;
+
+      try {
+        const { settings, timezone } = await this.getAccountConfig(event.accountId);
+        const currentState = await this.evaluateLocation(
+          event,
+          states.get(deviceStateKey)!,
+          flags,
+          settings,
+          timezone,
+          unsavedLocations
+        );
+        if (currentState) {
+          states.set(deviceStateKey, currentState);
+          updatedStates.set(deviceStateKey, currentState);
+          if (currentState.location && currentState.timestamp) {
+            unsavedLocations.set(event.deviceId, { ...currentState.location, ts: currentState.timestamp });
+          }
+        }
+      } catch (error) {
+        this.logger.error(error, `Error processing location for device ${event.deviceId}`);
+        await this.sendToDLQ('gf_events', JSON.stringify(event), error);
+      }
+    }
+
+    if (updatedStates.size > 0) {
+      const pipeline = this.redis.pipeline();
+      for (const [deviceStateKey, state] of updatedStates) {
+        pipeline.setex(deviceStateKey, DEVICE_STATE_TTL_SECONDS, JSON.stringify(state));
+      }
+
+      const results = await pipeline.exec();
+      const failed = results?.find(([error]) => error);
+      if (failed) throw failed[0];
+    }
+  }
+
+  /**
+   * How a location is stored and whether it takes part in evaluation: fixes below the
+   * accuracy threshold are held back or flagged by account policy (reports with beacon
+   * sightings, which don't depend on GPS, are only ever flagged), a location older than
+   * the last one processed for the device is late, and the rest go through the account's
+   * outlier filter and smoothing.
+   */
+  private classifyLocation(
+    event: RawEvent,
+    previousState: DeviceState,
+    settings: AccountTransitionSettings,
+    deviceType: string | null
+  ): LocationFlags {
+    const lowAccuracy = event.accuracyM !== undefined && event.accuracyM > GPS_ACCURACY_THRESHOLD_METERS;
+    const hold = settings.low_accuracy_policy === 'hold' && readSightings(event.attrs).length === 0;
+    const flags: LocationFlags = {
+      lowAccuracy: lowAccuracy ? (hold ? 'held' : 'flagged') : undefined,
+      // Arrived after a newer location was already processed, even with the reorder window
+      late: previousState.timestamp !== null &&
+        new Date(event.ts).getTime() < new Date(previousState.timestamp).getTime()
+    };
+
+    if (!flags.late && flags.lowAccuracy !== 'held' &&
+      (settings.outlier_filter_enabled || settings.kalman_smoothing_enabled)) {
+      flags.filtered = filterLocation(previousState.filter, event, {
+        maxSpeedMps: settings.outlier_filter_enabled
+          ? (deviceType && MAX_DEVICE_SPEED_MPS[deviceType]) || DEFAULT_MAX_DEVICE_SPEED_MPS
+          : null,
+        processNoiseMps2: settings.kalman_smoothing_enabled ? settings.kalman_process_noise_mps2 : null
+      });
+    }
+
+    return flags;
+  }
+
+  /**
+   * Runs a stored location through the geofences and emits the resulting events. Returns
+   * the device's new state, or null when the location was skipped and the state is unchanged.
+   * unsavedLocations holds positions of other devices whose state isn't written yet.
+   */
+  private async evaluateLocation(
+    event: RawEvent,
+    previousState: DeviceState,
+    flags: LocationFlags,
+    settings: AccountTransitionSettings,
+    timezone: string,
+    unsavedLocations?: Map<string, TrackedLocation>
+  ): Promise<DeviceState | null> {
+    const { accountId, deviceId, ts, speedMps, accuracyM } = event;
+    const { lat, lon } = flags.filtered?.smoothed ?? event;
+    const vertical: VerticalPosition = { altitudeM: event.altitudeM, floor: reportedFloor(event.attrs) };
+    const beacon = this.resolveBeaconPresence(accountId, event, previousState);
+    const fix: EvaluatedFix = { lat, lon, ts, accuracyM, ...vertical, beaconZoneId: beacon?.geofenceId ?? null };
+    const lowAccuracy = flags.lowAccuracy !== undefined;
+    const previousPending = previousState.pending || {};
+
+    if (flags.late) {
+      // Kept for history, but replaying it now would move the device back in time
+      this.logger.debug(`Skipped late location (${ts}) for device ${deviceId}, last processed ${previousState.timestamp}`);
+      return null;
+    }
+
+    if (flags.lowAccuracy === 'held') {
+      // Too coarse to decide anything on; the next accurate fix picks up from the stored state
+      this.logger.debug(`Held back low-accuracy fix (${accuracyM}m) for device ${deviceId}`);
+      return null;
+    }
+
+    if (flags.filtered?.rejected) {
+      // Stored with the reason, but the device stays where it was last seen
+      this.logger.debug(
+        `Rejected location (${ts}) for device ${deviceId}: implies ${flags.filtered.rejected.impliedSpeedMps.toFixed(1)} m/s`
+      );
+      return { ...previousState, filter: flags.filtered.state };
+    }
+
+    // Evaluate every geofence the accuracy circle could overlap
+    const geofences = this.geofenceIndex.findNear(accountId, lat, lon, accuracyM ?? 0);
+
+    // Geofences the device was inside are re-evaluated even when the point falls outside
+    // their bounding box, so their exit buffer still applies
+    const candidates = new Map<string, IndexedGeofence>(geofences.map(g => [g.id, g]));
+    for (const geofenceId of previousState.geofences) {
+      const geofence = this.geofenceIndex.get(geofenceId);
+      if (geofence) candidates.set(geofenceId, geofence);
+    }
+    const beaconZone = beacon && this.geofenceIndex.get(beacon.geofenceId);
+    if (beaconZone) candidates.set(beaconZone.id, beaconZone);
+
+    const deviated = new Set(previousState.deviated || []);
+    const currentGeofenceIds: string[] = [];
+    const pending: Record<string, PendingTransition> = {};
+    const transitions: Transition[] = [];
+
+    // The device reported again after being timed out of these geofences. Where it is still
+    // inside, measured with the exit buffer, its presence is restored instead of entering anew;
+    // elsewhere it has already been given its exit.
+    const timedOut = previousState.timedOut || [];
+    for (const geofenceId of timedOut) {
+      const geofence = candidates.get(geofenceId) ?? this.geofenceIndex.get(geofenceId);
+      candidates.delete(geofenceId);
+      if (!geofence) continue;
+
+      const { isInside, confidence } = this.evaluateGeofence(
+        geofence,
+        true,
+        fix,
+        settings.transition_confidence_threshold
+      );
+      if (isInside) {
+        currentGeofenceIds.push(geofenceId);
+        transitions.push({ geofenceId, type: 'enter', ts, confidence, lowAccuracy, restored: true });
+      }
+    }
+
+    // Geofences that were deleted or deactivated since the last location exit straight away
+    for (const geofenceId of previousState.geofences) {
+      if (!candidates.has(geofenceId)) {
+        transitions.push({ geofenceId, type: 'exit', ts });
+      }
+    }
+
+    for (const geofence of candidates.values()) {
+      const step = this.stepGeofence(
+        geofence,
+        previousState.geofences.includes(geofence.id),
+        previousPending[geofence.id],
+        fix,
+        settings.transition_confidence_threshold
+      );
+
+      if (step.inside) currentGeofenceIds.push(geofence.id);
+      if (step.pending) pending[geofence.id] = step.pending;
+      if (step.transition) {
+        transitions.push({ geofenceId: geofence.id, ...step.transition, lowAccuracy });
+      }
+    }
+
+    // Being inside a child counts as being inside ancestors that include their children,
+    // so moving between children never takes the device out of the parent
+    for (const geofenceId of [...currentGeofenceIds]) {
+      for (const ancestor of this.geofenceIndex.presenceAncestors(geofenceId)) {
+        if (currentGeofenceIds.includes(ancestor.id)) continue;
+
+        currentGeofenceIds.push(ancestor.id);
+        delete pending[ancestor.id];
+
+        const exit = transitions.findIndex(t => t.geofenceId === ancestor.id && t.type === 'exit');
+        if (exit !== -1) {
+          transitions.splice(exit, 1);
+        } else if (!previousState.geofences.includes(ancestor.id)) {
+          transitions.push({
+            geofenceId: ancestor.id,
+            type: 'enter',
+            ts,
+            lowAccuracy,
+            restored: timedOut.includes(ancestor.id)
+          });
         }
+      }
+    }
+
+    await this.processSegmentCrossings(
+      accountId,
+      deviceId,
+      previousState,
+      new Set([...previousState.geofences, ...timedOut, ...currentGeofenceIds, ...Object.keys(pending)]),
+      ts,
+      timezone,
+      { lat, lon },
+      vertical
+    );
+
+    for (const transition of transitions) {
+      // Outside a geofence's active window the device's state is still tracked, but nothing is emitted
+      const geofence = this.geofenceIndex.get(transition.geofenceId);
+      if (geofence && !isGeofenceActiveAt(geofence, new Date(transition.ts), timezone)) {
+        continue;
+      }
+
+      await this.handleGeofenceEvent(
+        accountId,
+        deviceId,
+        transition.geofenceId,
+        transition.restored ? 'presence_restored' : transition.type,
+        transition.ts,
+        { lat, lon },
+        undefined,
+        { confidence: transition.confidence, lowAccuracy: transition.lowAccuracy }
+      );
+
+      // Assigned devices additionally report leaving their route, and coming back to it
+      if (!transition.restored && geofence?.type === 'corridor' && this.isAssignedToRoute(geofence, deviceId)) {
+        const deviating = transition.type === 'exit';
+        if (!deviating && !deviated.has(geofence.id)) continue;
+
+        await this.handleGeofenceEvent(
+          accountId,
+          deviceId,
+          geofence.id,
+          deviating ? 'deviation' : 'rejoin',
+          transition.ts,
+          { lat, lon },
+          undefined,
+          {
+            confidence: transition.confidence,
+            lowAccuracy: transition.lowAccuracy,
+            distanceMeters: this.geofenceIndex.distanceFromRoute(geofence, lat, lon)
+          }
+        );
 
-        // Process exit events
-        for (const geofenceId of exitedGeofences) {
-          await this.handleGeofenceEvent(accountId, deviceId, geofenceId, 'exit', ts, { lat, lon });
+        if (deviating) {
+          deviated.add(geofence.id);
+        } else {
+          deviated.delete(geofence.id);
         }
       }
+    }
+
+    await this.processOccupancy(accountId, deviceId, transitions, currentGeofenceIds, timezone, { lat, lon });
+    await this.processProximity(accountId, deviceId, ts, timezone, { lat, lon }, unsavedLocations);
+
+    const speeding = await this.processSpeedLimits(
+      accountId,
+      deviceId,
+      currentGeofenceIds,
+      previousState.speeding || {},
+      speedMps,
+      ts,
+      timezone,
+      { lat, lon }
+    );
+
+    // Keep dwell timers in step with the geofences the device is in
+    const enteredAt = new Map(transitions.filter(t => t.type === 'enter').map(t => [t.geofenceId, t.ts]));
+    await this.processDwellDetection(accountId, deviceId, currentGeofenceIds, ts, { lat, lon }, enteredAt);
+    const receivedAt = Date.now();
+    await this.processPresenceDeadlines(accountId, deviceId, previousState.geofences, currentGeofenceIds, receivedAt, settings);
+
+    this.logger.debug(`Processed location for device ${deviceId}: ${currentGeofenceIds.length} active geofences`);
+
+    const currentState: DeviceState = {
+      geofences: currentGeofenceIds,
+      timestamp: ts,
+      location: { lat, lon },
+      receivedAt
+    };
+    if (Object.keys(pending).length > 0) {
+      currentState.pending = pending;
+    }
+    const stillDeviated = [...deviated].filter(geofenceId => this.geofenceIndex.get(geofenceId));
+    if (stillDeviated.length > 0) {
+      currentState.deviated = stillDeviated;
+    }
+    if (Object.keys(speeding).length > 0) {
+      currentState.speeding = speeding;
+    }
+    if (flags.filtered) {
+      currentState.filter = flags.filtered.state;
+    }
+    if (beacon) {
+      currentState.beacon = beacon;
+    }
+    return currentState;
+  }
+
+  /**
+   * The beacon zone the device is in: that of the strongest registered beacon it heard or,
+   * when it heard none, the last one it did for up to BEACON_SIGHTING_TTL_SECONDS.
+   */
+  private resolveBeaconPresence(
+    accountId: string,
+    event: RawEvent,
+    previousState: DeviceState
+  ): BeaconPresence | undefined {
+    const zone = this.geofenceIndex.findBeaconZone(accountId, readSightings(event.attrs));
+    if (zone) return { geofenceId: zone.id, ts: event.ts };
+
+    const last = previousState.beacon;
+    if (last && new Date(event.ts).getTime() - new Date(last.ts).getTime() <= BEACON_SIGHTING_TTL_SECONDS * 1000) {
+      return last;
+    }
+    return undefined;
+  }
+
+  /**
+   * Processes locations released by the reorder buffer, which come oldest first per device.
+   */
+  private async processReorderedEvents(events: string[]) {
+    const parsed = events.map(data => RawEventSchema.parse(JSON.parse(data)));
+
+    if (this.batchMode) {
+      await this.processLocationBatch(parsed);
+      return;
+    }
+
+    for (const event of parsed) {
+      await this.processLocationEvent(event);
+    }
+  }
+
+  private toBufferedLocation(event: RawEvent): BufferedLocation {
+    return {
+      accountId: event.accountId,
+      deviceId: event.deviceId,
+      eventTime: new Date(event.ts).getTime(),
+      event: JSON.stringify(event)
+    };
+  }
+
+  private getHysteresisSettings(geofence: IndexedGeofence): HysteresisSettings {
+    const parsed = HysteresisOverrideSchema.safeParse(geofence.metadata?.hysteresis ?? {});
+    const overrides = parsed.success ? parsed.data : {};
+
+    return {
+      entryBufferMeters: overrides.entryBufferMeters ?? DEFAULT_HYSTERESIS_ENTRY_BUFFER_METERS,
+      exitBufferMeters: overrides.exitBufferMeters ?? DEFAULT_HYSTERESIS_EXIT_BUFFER_METERS,
+      minStateChangeSeconds: overrides.minStateChangeSeconds ?? DEFAULT_HYSTERESIS_MIN_STATE_CHANGE_SECONDS
+    };
+  }
+
+  private getSpeedLimit(geofence: IndexedGeofence): Required<GeofenceSpeedLimit> | null {
+    if (!geofence.metadata?.speedLimit) return null;
+
+    const parsed = SpeedLimitSchema.safeParse(geofence.metadata.speedLimit);
+    if (!parsed.success) return null;
+
+    return {
+      limitMps: parsed.data.limitMps,
+      durationSeconds: parsed.data.durationSeconds ?? DEFAULT_OVERSPEED_DURATION_SECONDS
+    };
+  }
+
+  private getCapacity(geofence: IndexedGeofence): number | null {
+    const parsed = OccupancySchema.safeParse(geofence.metadata?.occupancy);
+    return parsed.success ? parsed.data.capacity : null;
+  }
+
+  /**
+   * Seconds a device inside the geofence may go without reporting before it is timed out,
+   * or null if it never is. A timeout on the geofence overrides the account's.
+   */
+  private getPresenceTimeout(geofence: IndexedGeofence, settings: AccountTransitionSettings): number | null {
+    const parsed = PresenceSchema.safeParse(geofence.metadata?.presence);
+    const timeoutSeconds = parsed.success ? parsed.data.timeoutSeconds : settings.presence_timeout_seconds;
+    return timeoutSeconds || null;
+  }
+
+  private isAssignedToRoute(geofence: IndexedGeofence, deviceId: string): boolean {
+    const parsed = CorridorAssignmentSchema.safeParse(geofence.metadata?.corridor ?? {});
+    return parsed.success && parsed.data.deviceIds.includes(deviceId);
+  }
+
+  /**
+   * Works out what one location means for the device and a single geofence, given whether
+   * it was inside and any transition pending from earlier locations. A transition is only
+   * made once the new side has been held for minStateChangeSeconds, and is stamped with
+   * the time of the first location that crossed.
+   */
+  private stepGeofence(
+    geofence: IndexedGeofence,
+    wasInside: boolean,
+    previousPending: PendingTransition | undefined,
+    location: EvaluatedFix,
+    confidenceThreshold: number
+  ): GeofenceStep {
+    const { isInside, confidence } = this.evaluateGeofence(geofence, wasInside, location, confidenceThreshold);
+
+    // Back on the original side of the boundary, so any pending transition is dropped
+    if (isInside === wasInside) return { inside: wasInside };
+
+    const type = isInside ? 'enter' : 'exit';
+    const since = previousPending?.type === type ? previousPending.since : location.ts;
+    const { minStateChangeSeconds } = this.getHysteresisSettings(geofence);
+
+    if (new Date(location.ts).getTime() - new Date(since).getTime() >= minStateChangeSeconds * 1000) {
+      return { inside: isInside, transition: { type, ts: since, confidence } };
+    }
+
+    // Not held long enough yet, keep the previous state until it is
+    return { inside: wasInside, pending: { type, since } };
+  }
+
+  /**
+   * A device inside a geofence only leaves once it is exitBufferMeters outside the boundary,
+   * and a device outside only enters once it is entryBufferMeters inside it. Either way the
+   * accuracy circle must put the device on the new side with at least the account's
+   * confidence threshold. The returned confidence is for the new side. Off the geofence's
+   * level the device is outside, with no buffer, and a geofence with beacons is only
+   * inside while it is the device's beacon zone.
+   */
+  private evaluateGeofence(
+    geofence: IndexedGeofence,
+    wasInside: boolean,
+    fix: EvaluatedFix,
+    confidenceThreshold: number
+  ): { isInside: boolean; confidence: number } {
+    if (!isOnGeofenceLevel(geofence.level, fix)) {
+      return { isInside: false, confidence: wasInside ? 1 : 0 };
+    }
+
+    if (geofence.beacons.length > 0) {
+      const isInside = fix.beaconZoneId === geofence.id;
+      return { isInside, confidence: isInside === wasInside ? 0 : 1 };
+    }
+
+    const { lat, lon, accuracyM } = fix;
+
+    const { entryBufferMeters, exitBufferMeters } = this.getHysteresisSettings(geofence);
+    const distance = this.geofenceIndex.signedBoundaryDistance(geofence, lat, lon);
+    const insideProbability = this.geofenceIndex.insideProbability(geofence, lat, lon, accuracyM);
+
+    if (wasInside) {
+      const outsideProbability = 1 - insideProbability;
+      const hasLeft = -distance > exitBufferMeters &&
+        outsideProbability >= confidenceThreshold;
+      return { isInside: !hasLeft, confidence: outsideProbability };
+    }
+
+    const hasEntered = this.geofenceIndex.contains(geofence, lat, lon) &&
+      distance >= entryBufferMeters &&
+      insideProbability >= confidenceThreshold;
+    return { isInside: hasEntered, confidence: insideProbability };
+  }
 
-      // Store current state
-      await this.redis.setex(deviceStateKey, 3600, JSON.stringify({
-        geofences: currentGeofenceIds,
-        timestamp: ts
+  /**
+   * Emits an interpolated enter/exit pair for each pass the straight path from the
+   * previous location makes through a geofence without either location landing inside,
+   * stamped with the times the device would have crossed the boundary at a constant
+   * speed. Beacon zones, and geofences on another level than the new location, are
+   * skipped. Occupancy, dwell and speed limits only follow reported locations.
+   */
+  private async processSegmentCrossings(
+    accountId: string,
+    deviceId: string,
+    previousState: DeviceState,
+    excluded: Set<string>,
+    timestamp: string,
+    timezone: string,
+    location: { lat: number; lon: number },
+    vertical: VerticalPosition
+  ) {
+    if (!previousState.location || !previousState.timestamp) return;
+
+    const from = { ...previousState.location, ts: previousState.timestamp };
+    const to = { ...location, ts: timestamp };
+
+    const crossings = this.geofenceIndex
+      .findAlongSegment(accountId, [from.lon, from.lat], [to.lon, to.lat])
+      .filter(geofence =>
+        !excluded.has(geofence.id) && geofence.beacons.length === 0 && isOnGeofenceLevel(geofence.level, vertical)
+      )
+      .flatMap(geofence => this.interpolateCrossings(geofence, from, to).map(event => ({ geofence, event })))
+      .sort((a, b) => a.event.ts.localeCompare(b.event.ts));
+
+    for (const { geofence, event } of crossings) {
+      if (!isGeofenceActiveAt(geofence, new Date(event.ts), timezone)) continue;
+
+      await this.handleGeofenceEvent(
+        accountId,
+        deviceId,
+        geofence.id,
+        event.type,
+        event.ts,
+        event.location,
+        undefined,
+        { interpolated: true }
+      );
+    }
+  }
+
+  /**
+   * The enters and exits of a geofence crossed on the straight path between two locations,
+   * or nothing if the path misses it, either end is inside or the locations are too far
+   * apart in time to assume a straight path.
+   */
+  private interpolateCrossings(
+    geofence: IndexedGeofence,
+    from: TimedLocation,
+    to: TimedLocation
+  ): { type: 'enter' | 'exit'; ts: string; location: { lat: number; lon: number } }[] {
+    const startTime = new Date(from.ts).getTime();
+    const endTime = new Date(to.ts).getTime();
+    if (endTime <= startTime || endTime - startTime > MAX_INTERPOLATION_GAP_MS) return [];
+
+    return this.geofenceIndex
+      .segmentCrossings(geofence, [from.lon, from.lat], [to.lon, to.lat])
+      .flatMap(crossing => (['enter', 'exit'] as const).map(type => {
+        const fraction = crossing[type];
+        return {
+          type,
+          ts: new Date(startTime + (endTime - startTime) * fraction).toISOString(),
+          location: { lat: from.lat + (to.lat - from.lat) * fraction, lon: from.lon + (to.lon - from.lon) * fraction }
+        };
       }));
+  }
+
+  /**
+   * Replays stored locations for a single geofence through the same evaluation as live
+   * processing. Each device starts the range outside the geofence, and dwell events are
+   * written where a visit outlasted an automation rule's threshold, as the dwell timer
+   * would have fired. Everything is written as historical, so nothing is delivered.
+   */
+  private async startBackfillReplay(job: BackfillJob): Promise<BackfillReplay> {
+    const geofence = this.geofenceIndex.get(job.geofenceId);
+    if (!geofence || geofence.accountId !== job.accountId) {
+      throw new Error('Geofence is not active');
+    }
+    if (geofence.type === 'proximity') {
+      throw new Error('Proximity geofences cannot be backfilled');
+    }
+    if (geofence.beacons.length > 0) {
+      throw new Error('Beacon zones cannot be backfilled');
+    }
+
+    const { settings, timezone } = await this.getAccountConfig(job.accountId);
+    const thresholds = this.dwellScheduler.thresholdsFor(geofence.id);
+
+    let inside = false;
+    let pending: PendingTransition | undefined;
+    let enteredAt: string | null = null;
+    let previous: TimedLocation | null = null;
+
+    const record = async (
+      deviceId: string,
+      type: 'enter' | 'exit' | 'dwell',
+      ts: string,
+      location: { lat: number; lon: number },
+      dwellSeconds?: number,
+      details: EventDetails = {}
+    ): Promise<number> => {
+      if (!isGeofenceActiveAt(geofence, new Date(ts), timezone)) return 0;
 
-      // Process dwell detection for current geofences
-      await this.processDwellDetection(accountId, deviceId, currentGeofenceIds, ts, { lat, lon });
+      const created = await this.handleGeofenceEvent(
+        job.accountId,
+        deviceId,
+        geofence.id,
+        type,
+        ts,
+        location,
+        dwellSeconds,
+        { ...details, historical: true }
+      );
+      return created ? 1 : 0;
+    };
+
+    // Dwell timers of the current visit that would have fired by the given time
+    const recordDwells = async (deviceId: string, until: number, location: { lat: number; lon: number }) => {
+      if (!enteredAt) return 0;
+
+      const entryTime = new Date(enteredAt).getTime();
+      let created = 0;
+      for (const threshold of thresholds) {
+        const dueAt = entryTime + threshold * 1000;
+        if (dueAt > until) break;
+        created += await record(deviceId, 'dwell', new Date(dueAt).toISOString(), location, threshold);
+      }
+      return created;
+    };
+
+    return {
+      next: async ({ deviceId, ts, lat, lon, accuracyM, altitudeM, floor, lowAccuracy }) => {
+        const current = { lat, lon, ts };
+        const wasOutside = !inside && !pending;
+        const step = this.stepGeofence(
+          geofence,
+          inside,
+          pending,
+          { ...current, accuracyM, altitudeM, floor, beaconZoneId: null },
+          settings.transition_confidence_threshold
+        );
+        let created = 0;
+
+        if (step.transition) {
+          const { type, confidence } = step.transition;
+          if (type === 'exit') {
+            created += await recordDwells(deviceId, new Date(step.transition.ts).getTime(), { lat, lon });
+          }
+          created += await record(deviceId, type, step.transition.ts, { lat, lon }, undefined, {
+            confidence,
+            lowAccuracy
+          });
+          enteredAt = type === 'enter' ? step.transition.ts : null;
+        } else if (wasOutside && !step.inside && !step.pending && previous &&
+          isOnGeofenceLevel(geofence.level, { altitudeM, floor })) {
+          for (const event of this.interpolateCrossings(geofence, previous, current)) {
+            created += await record(deviceId, event.type, event.ts, event.location, undefined, { interpolated: true });
+          }
+        }
+
+        inside = step.inside;
+        pending = step.pending;
+        previous = current;
+        return created;
+      },
+
+      finishDevice: async deviceId => {
+        const created = inside && previous ? await recordDwells(deviceId, job.to.getTime(), previous) : 0;
 
-      this.logger.debug(`Processed location for device ${deviceId}: ${currentGeofenceIds.length} active geofences`);
+        inside = false;
+        pending = undefined;
+        enteredAt = null;
+        previous = null;
+        return created;
+      }
+    };
+  }
 
+  /**
+   * Moves the device in or out of each geofence's occupants. A change that takes the
+   * count over the geofence's capacity emits occupancy_above, and one that brings it
+   * back within capacity emits occupancy_below. Occupancy follows the device's state, so
+   * it is kept up to date outside a geofence's active windows too. The geofences the device
+   * reported from inside are then marked as seen, so it keeps counting while it reports; that
+   * comes after the transitions, so an enter still finds the device not yet counted.
+   */
+  private async processOccupancy(
+    accountId: string,
+    deviceId: string,
+    transitions: Transition[],
+    currentGeofences: string[],
+    timezone: string,
+    location: { lat: number; lon: number }
+  ) {
+    try {
+      for (const transition of transitions) {
+        const entering = transition.type === 'enter';
+        const occupancy = entering
+          ? await this.occupancyTracker.enter(transition.geofenceId, deviceId)
+          : await this.occupancyTracker.exit(transition.geofenceId, deviceId);
+        if (occupancy === null) continue;
+
+        const geofence = this.geofenceIndex.get(transition.geofenceId);
+        const capacity = geofence ? this.getCapacity(geofence) : null;
+        if (!geofence || capacity === null) continue;
+
+        // The count moves one device at a time, so only one change crosses the capacity each way
+        const crossed = entering ? occupancy === capacity + 1 : occupancy === capacity;
+        if (!crossed || !isGeofenceActiveAt(geofence, new Date(transition.ts), timezone)) continue;
+
+        await this.handleGeofenceEvent(
+          accountId,
+          deviceId,
+          geofence.id,
+          entering ? 'occupancy_above' : 'occupancy_below',
+          transition.ts,
+          location,
+          undefined,
+          { occupancy }
+        );
+      }
+
+      await this.occupancyTracker.seen(deviceId, currentGeofences);
     } catch (error) {
-      this.logger.error(error, `Error processing location for device ${deviceId}`);
-      await this.sendToDLQ('gf_events', JSON.stringify(event), error);
+      this.logger.error(error, `Error updating occupancy for device ${deviceId}`);
+    }
+  }
+
+  /**
+   * Emits proximity_enter/proximity_exit for followers that came within or went beyond
+   * the radius around their anchor, whichever of the two devices reported.
+   */
+  private async processProximity(
+    accountId: string,
+    deviceId: string,
+    timestamp: string,
+    timezone: string,
+    location: { lat: number; lon: number },
+    unsavedLocations?: Map<string, TrackedLocation>
+  ) {
+    try {
+      const transitions = await this.proximityTracker.evaluate(
+        accountId,
+        deviceId,
+        { ...location, ts: timestamp },
+        unsavedLocations
+      );
+
+      for (const transition of transitions) {
+        if (!isGeofenceActiveAt(transition.geofence, new Date(timestamp), timezone)) continue;
+
+        await this.handleGeofenceEvent(
+          accountId,
+          transition.followerId,
+          transition.geofence.id,
+          transition.type,
+          timestamp,
+          transition.location,
+          undefined,
+          { distanceMeters: transition.distanceMeters }
+        );
+      }
+    } catch (error) {
+      this.logger.error(error, `Error evaluating proximity geofences for device ${deviceId}`);
     }
   }
 
-  private async storeLocationEvent(event: z.infer<typeof RawEventSchema>) {
-    const query = `
-      INSERT INTO location_events (account_id, device_id, ts, loc, speed_mps, accuracy_m, battery_pct, payload)
-      VALUES ($1, $2, $3, ST_SetSRID(ST_MakePoint($4, $5), 4326)::geography, $6, $7, $8, $9)
-    `;
+  /**
+   * Tracks readings over the speed limit of each geofence the device is inside. Overspeed is
+   * emitted once the device has stayed over the limit for the geofence's duration, and
+   * speed_normal when it drops back under it, leaves the geofence or the limit stops applying.
+   * Fixes without a speed leave episodes as they are. Returns the episodes still running.
+   */
+  private async processSpeedLimits(
+    accountId: string,
+    deviceId: string,
+    currentGeofences: string[],
+    previous: Record<string, SpeedingEpisode>,
+    speedMps: number | undefined,
+    timestamp: string,
+    timezone: string,
+    location: { lat: number; lon: number }
+  ): Promise<Record<string, SpeedingEpisode>> {
+    const now = new Date(timestamp).getTime();
+    const speeding: Record<string, SpeedingEpisode> = {};
+    const ended: string[] = Object.keys(previous).filter(geofenceId => !currentGeofences.includes(geofenceId));
+
+    for (const geofenceId of currentGeofences) {
+      const geofence = this.geofenceIndex.get(geofenceId);
+      const speedLimit = geofence && isGeofenceActiveAt(geofence, new Date(timestamp), timezone)
+        ? this.getSpeedLimit(geofence)
+        : null;
+      const episode = previous[geofenceId];
+
+      if (speedLimit && speedMps === undefined) {
+        if (episode) speeding[geofenceId] = episode;
+        continue;
+      }
+
+      if (!speedLimit || speedMps === undefined || speedMps <= speedLimit.limitMps) {
+        if (episode) ended.push(geofenceId);
+        continue;
+      }
+
+      const updated: SpeedingEpisode = episode
+        ? {
+            ...episode,
+            peakMps: Math.max(episode.peakMps, speedMps),
+            totalMps: episode.totalMps + speedMps,
+            readings: episode.readings + 1
+          }
+        : { since: timestamp, peakMps: speedMps, totalMps: speedMps, readings: 1, reported: false };
+
+      if (!updated.reported && now - new Date(updated.since).getTime() >= speedLimit.durationSeconds * 1000) {
+        await this.handleGeofenceEvent(accountId, deviceId, geofenceId, 'overspeed', timestamp, location, undefined, {
+          peakSpeedMps: updated.peakMps,
+          avgSpeedMps: updated.totalMps / updated.readings
+        });
+        updated.reported = true;
+      }
+
+      speeding[geofenceId] = updated;
+    }
+
+    for (const geofenceId of ended) {
+      const episode = previous[geofenceId];
+      if (!episode.reported || !this.geofenceIndex.get(geofenceId)) continue;
+
+      await this.handleGeofenceEvent(accountId, deviceId, geofenceId, 'speed_normal', timestamp, location, undefined, {
+        peakSpeedMps: episode.peakMps,
+        avgSpeedMps: episode.totalMps / episode.readings
+      });
+    }
+
+    return speeding;
+  }
+
+  /**
+   * Moves the presence deadline of each geofence the device is in to a timeout after this
+   * location was received, and drops the deadlines of geofences it has left or that no
+   * longer time out. Deadlines run from receipt rather than the location's own time, so a
+   * backlog or replay of old locations doesn't time out a device that is still reporting.
+   */
+  private async processPresenceDeadlines(
+    accountId: string,
+    deviceId: string,
+    previousGeofences: string[],
+    currentGeofences: string[],
+    receivedAt: number,
+    settings: AccountTransitionSettings
+  ) {
+    try {
+      const dueAt = new Map<string, number>();
+      for (const geofenceId of currentGeofences) {
+        const geofence = this.geofenceIndex.get(geofenceId);
+        const timeoutSeconds = geofence ? this.getPresenceTimeout(geofence, settings) : null;
+        if (timeoutSeconds) {
+          dueAt.set(geofenceId, receivedAt + timeoutSeconds * 1000);
+        }
+      }
+
+      const cleared = previousGeofences.filter(geofenceId => !dueAt.has(geofenceId));
+      await this.presenceMonitor.update(accountId, deviceId, dueAt, cleared);
+    } catch (error) {
+      this.logger.error(error, `Error updating presence deadlines for device ${deviceId}`);
+    }
+  }
+
+  private async getAccountConfig(accountId: string): Promise<AccountConfig> {
+    const cached = this.accountConfigs.get(accountId);
+    if (cached && Date.now() - cached.loadedAt < ACCOUNT_SETTINGS_TTL_MS) {
+      return cached;
+    }
+
+    const result = await this.pgClient.query('SELECT settings, timezone FROM accounts WHERE id = $1', [accountId]);
+    const config: AccountConfig = {
+      settings: AccountTransitionSettingsSchema.parse(result.rows[0]?.settings || {}),
+      trips: AccountTripSettingsSchema.parse(result.rows[0]?.settings || {}),
+      timezone: result.rows[0]?.timezone || 'UTC'
+    };
+
+    this.accountConfigs.set(accountId, { ...config, loadedAt: Date.now() });
+    return config;
+  }
+
+  private async getDeviceType(deviceId: string): Promise<string | null> {
+    const cached = this.deviceTypes.get(deviceId);
+    if (cached && Date.now() - cached.loadedAt < ACCOUNT_SETTINGS_TTL_MS) {
+      return cached.type;
+    }
+
+    const result = await this.pgClient.query('SELECT device_type FROM devices WHERE id = $1', [deviceId]);
+    const type: string | null = result.rows[0]?.device_type ?? null;
+
+    this.deviceTypes.set(deviceId, { type, loadedAt: Date.now() });
+    return type;
+  }
+
+  private async handleGeofenceChange(change: z.infer<typeof GeofenceChangeSchema>) {
+    if (change.op === 'delete') {
+      this.geofenceIndex.remove(change.geofenceId);
+      this.geofenceIndex.unlink(change.geofenceId);
+      await this.occupancyTracker.clear(change.geofenceId);
+      await this.proximityTracker.clear(change.geofenceId);
+    } else {
+      await this.geofenceIndex.refresh(change.geofenceId);
+      // Pick up a new or changed follower group straight away
+      if (this.geofenceIndex.get(change.geofenceId)?.type === 'proximity') {
+        await this.proximityTracker.refreshMembership();
+      }
+    }
 
-    await this.pgClient.query(query, [
-      event.accountId,
-      event.deviceId,
-      event.ts,
-      event.lon,
-      event.lat,
-      event.speedMps,
-      event.accuracyM,
-      event.batteryPct,
-      JSON.stringify(event.attrs || {})
-    ]);
+    this.logger.debug(`Geofence index ${change.op}: ${change.geofenceId} (account ${change.accountId})`);
+  }
+
+  private async storeLocationEvents(locations: { event: RawEvent; flags: LocationFlags }[]) {
+    for (let offset = 0; offset < locations.length; offset += LOCATION_ROWS_PER_INSERT) {
+      const chunk = locations.slice(offset, offset + LOCATION_ROWS_PER_INSERT);
+      const values: unknown[] = [];
+
+      const rows = chunk.map(({ event, flags }) => {
+        const n = values.length;
+        values.push(
+          event.accountId,
+          event.deviceId,
+          event.ts,
+          event.lon,
+          event.lat,
+          event.speedMps,
+          event.accuracyM,
+          event.altitudeM,
+          event.batteryPct,
+          JSON.stringify({
+            ...event.attrs,
+            ...(flags.lowAccuracy && { low_accuracy: flags.lowAccuracy }),
+            ...(flags.late && { late: true }),
+            ...(flags.filtered?.rejected && {
+              rejected: flags.filtered.rejected.reason,
+              implied_speed_mps: Math.round(flags.filtered.rejected.impliedSpeedMps * 10) / 10
+            }),
+            ...(flags.filtered?.smoothed && { smoothed: flags.filtered.smoothed })
+          })
+        );
+        return `($${n + 1}, $${n + 2}, $${n + 3}, ST_SetSRID(ST_MakePoint($${n + 4}, $${n + 5}), 4326)::geography, ` +
+          `$${n + 6}, $${n + 7}, $${n + 8}, $${n + 9}, $${n + 10})`;
+      });
+
+      await this.pgClient.query(
+        `
+          INSERT INTO location_events (account_id, device_id, ts, loc, speed_mps, accuracy_m, altitude_m, battery_pct, payload)
+          VALUES ${rows.join(',\n')}
+        `,
+        values
+      );
+    }
   }
 
   private async handleGeofenceEvent(
     accountId: string,
     deviceId: string,
     geofenceId: string,
-    type: 'enter' | 'exit' | 'dwell',
+    type: GeofenceEventType,
     timestamp: string,
     location: { lat: number; lon: number },
-    dwellSeconds?: number
-  ) {
+    dwellSeconds?: number,
+    details: EventDetails = {}
+  ): Promise<boolean> {
     // Create unique hash for deduplication
     const eventHash = createHash('sha256')
       .update(`${accountId}:${deviceId}:${geofenceId}:${type}:${timestamp}`)
       .digest('hex');
 
+    // Where the geofence sits in its account's hierarchy, root first
+    const ancestry = this.geofenceIndex.ancestry(geofenceId);
+    const revisionId = this.geofenceIndex.get(geofenceId)?.revisionId ?? null;
+
     try {
       // Store geofence event
       const insertQuery = `
-        INSERT INTO geofence_events (account_id, device_id, geofence_id, type, ts, dwell_seconds, event_hash)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        INSERT INTO geofence_events (
+          account_id, device_id, geofence_id, type, ts, dwell_seconds, event_hash, confidence, low_accuracy, reason,
+          distance_m, peak_speed_mps, avg_speed_mps, occupancy, interpolated, historical, ancestry, revision_id
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
         ON CONFLICT (account_id, event_hash) DO NOTHING
         RETURNING id
       `;
@@ -212,11 +1501,23 @@ export class GeofenceProcessor {
         type,
         timestamp,
         dwellSeconds,
-        eventHash
+        eventHash,
+        details.confidence ?? null,
+        details.lowAccuracy ?? false,
+        details.reason ?? null,
+        details.distanceMeters ?? null,
+        details.peakSpeedMps ?? null,
+        details.avgSpeedMps ?? null,
+        details.occupancy ?? null,
+        details.interpolated ?? false,
+        details.historical ?? false,
+        ancestry,
+        revisionId
       ]);
+      const inserted = result.rows.length > 0;
 
-      // Only publish if event was actually inserted (not duplicate)
-      if (result.rows.length > 0) {
+      // Only publish if event was actually inserted (not duplicate), and never for backfills
+      if (inserted && !details.historical) {
         const geofenceEvent = {
           v: 1,
           accountId,
@@ -224,7 +1525,17 @@ export class GeofenceProcessor {
           geofenceId,
           type,
           ts: timestamp,
-          dwellSeconds
+          dwellSeconds,
+          confidence: details.confidence,
+          lowAccuracy: details.lowAccuracy,
+          reason: details.reason,
+          distanceMeters: details.distanceMeters,
+          peakSpeedMps: details.peakSpeedMps,
+          avgSpeedMps: details.avgSpeedMps,
+          occupancy: details.occupancy,
+          interpolated: details.interpolated,
+          ancestry,
+          revisionId
         };
 
         await this.producer.send({
@@ -235,11 +1546,13 @@ export class GeofenceProcessor {
           }]
         });
 
-        this.logger.info(`🎯 ${type.toUpperCase()} event: Device ${deviceId} ${type}ed geofence ${geofenceId}`);
+        this.logger.info(`🎯 ${type.toUpperCase()} event: Device ${deviceId}, geofence ${geofenceId}`);
       }
 
+      return inserted;
     } catch (error) {
       this.logger.error(error, `Failed to handle geofence event: ${type}`);
+      return false;
     }
   }
 
@@ -248,7 +1561,8 @@ export class GeofenceProcessor {
     deviceId: string,
     currentGeofences: string[],
     timestamp: string,
-    location: { lat: number; lon: number }
+    location: { lat: number; lon: number },
+    enteredAt: Map<string, string>
   ) {
     const now = new Date(timestamp).getTime();
     const dwellStateKey = `dwell:${accountId}:${deviceId}`;
@@ -263,50 +1577,41 @@ export class GeofenceProcessor {
       
       for (const geofenceId of currentGeofences) {
         const existingState = dwellStates.find(s => s.geofenceId === geofenceId);
-        
-        if (existingState) {
-          // Update existing dwell state
-          updatedStates.push({
-            ...existingState,
-            lastSeen: now
-          });
-        } else {
-          // New geofence entry - start dwell tracking
-          updatedStates.push({
-            geofenceId,
-            deviceId,
-            accountId,
-            entryTime: now,
-            lastSeen: now,
-            notifiedIntervals: []
-          });
+        const entryTime = enteredAt.has(geofenceId) ? new Date(enteredAt.get(geofenceId)!).getTime() : now;
+
+        const state: DwellState = existingState
+          ? { ...existingState, scheduledThresholds: existingState.scheduledThresholds || [], lastSeen: now, lastLocation: location }
+          : { geofenceId, deviceId, accountId, entryTime, lastSeen: now, lastLocation: location, scheduledThresholds: [] };
+
+        // Schedule any threshold without a timer yet, including rules added while the device was inside
+        const unscheduled = this.dwellScheduler
+          .thresholdsFor(geofenceId)
+          .filter(threshold => !state.scheduledThresholds.includes(threshold));
+
+        if (unscheduled.length > 0) {
+          await this.dwellScheduler.schedule(accountId, deviceId, geofenceId, state.entryTime, unscheduled);
+          state.scheduledThresholds.push(...unscheduled);
         }
+
+        updatedStates.push(state);
       }
-      
-      // Check for dwell threshold violations and emit dwell events (every 5 minutes)
-      for (const state of updatedStates) {
-        const dwellMinutes = Math.floor((now - state.entryTime) / (1000 * 60));
-        const intervals = [5, 10, 15, 30, 60, 120]; // 5min, 10min, 15min, 30min, 1hr, 2hr
-        
-        for (const interval of intervals) {
-          if (dwellMinutes >= interval && !state.notifiedIntervals.includes(interval)) {
-            state.notifiedIntervals.push(interval);
-            await this.handleGeofenceEvent(
-              accountId, 
-              deviceId, 
-              state.geofenceId, 
-              'dwell', 
-              timestamp, 
-              location, 
-              dwellMinutes * 60 // Convert to seconds
-            );
-          }
+
+      // The device left these geofences, so their outstanding timers must not fire
+      for (const state of dwellStates) {
+        if (!currentGeofences.includes(state.geofenceId)) {
+          await this.dwellScheduler.cancel(accountId, deviceId, state.geofenceId, state.scheduledThresholds || []);
         }
       }
       
-      // Store updated dwell states (expire after 24 hours)
       if (updatedStates.length > 0) {
-        await this.redis.setex(dwellStateKey, 86400, JSON.stringify(updatedStates));
+        const lastDueAt = Math.max(
+          ...updatedStates.map(state => state.entryTime + Math.max(0, ...state.scheduledThresholds) * 1000)
+        );
+        const ttlSeconds = Math.max(
+          MIN_DWELL_STATE_TTL_SECONDS,
+          Math.ceil((lastDueAt - Date.now()) / 1000) + DWELL_STATE_GRACE_SECONDS
+        );
+        await this.redis.setex(dwellStateKey, ttlSeconds, JSON.stringify(updatedStates));
       } else {
         await this.redis.del(dwellStateKey);
       }
@@ -316,6 +1621,124 @@ export class GeofenceProcessor {
     }
   }
 
+  private async handleDwellTimer(timer: DwellTimer) {
+    const { accountId, deviceId, geofenceId, thresholdSeconds, dueAt } = timer;
+
+    // Only fire for the visit the timer was scheduled for; the device may have left and re-entered since
+    const dwellStatesJson = await this.redis.get(`dwell:${accountId}:${deviceId}`);
+    const dwellStates: DwellState[] = dwellStatesJson ? JSON.parse(dwellStatesJson) : [];
+    const state = dwellStates.find(s => s.geofenceId === geofenceId);
+
+    if (!state || state.entryTime + thresholdSeconds * 1000 !== dueAt) {
+      this.logger.debug(`Dropping stale dwell timer for device ${deviceId} in geofence ${geofenceId}`);
+      return;
+    }
+
+    const geofence = this.geofenceIndex.get(geofenceId);
+    const { timezone } = await this.getAccountConfig(accountId);
+    if (geofence && !isGeofenceActiveAt(geofence, new Date(dueAt), timezone)) {
+      return;
+    }
+
+    await this.handleGeofenceEvent(
+      accountId,
+      deviceId,
+      geofenceId,
+      'dwell',
+      new Date(dueAt).toISOString(),
+      state.lastLocation,
+      thresholdSeconds
+    );
+  }
+
+  /**
+   * Emits an exit with reason timeout for a device that has gone silent inside a geofence,
+   * and takes it out of the geofence's occupants and dwell timers. The geofence is kept in
+   * the device's state as timed out, so its next location can restore its presence.
+   */
+  private async handlePresenceTimeout(deadline: PresenceDeadline) {
+    const { accountId, deviceId, geofenceId, dueAt } = deadline;
+
+    // Deleted or deactivated geofences are exited by the device's next location
+    const geofence = this.geofenceIndex.get(geofenceId);
+    if (!geofence) return;
+
+    const { settings, timezone } = await this.getAccountConfig(accountId);
+    const timeoutSeconds = this.getPresenceTimeout(geofence, settings);
+    if (!timeoutSeconds) return;
+
+    const deviceStateKey = `device_state:${accountId}:${deviceId}`;
+    const stateJson = await this.redis.get(deviceStateKey);
+    const state = parseDeviceState(stateJson);
+    if (stateJson && !state.geofences.includes(geofenceId)) return;
+
+    // Reported while the deadline was being claimed, or the timeout has since been raised
+    const lastSeen = state.timestamp ? new Date(state.timestamp).getTime() : null;
+    const lastReceived = state.receivedAt ?? lastSeen;
+    if (lastReceived !== null && lastReceived + timeoutSeconds * 1000 > Date.now()) {
+      await this.presenceMonitor.update(accountId, deviceId, new Map([[geofenceId, lastReceived + timeoutSeconds * 1000]]), []);
+      return;
+    }
+
+    // The exit is dated by the device's own clock, a timeout after its last location
+    const at = new Date(lastSeen !== null ? lastSeen + timeoutSeconds * 1000 : dueAt).toISOString();
+    const location = state.location ?? { lat: geofence.center[1], lon: geofence.center[0] };
+    this.logger.info(`⏱️ Device ${deviceId} timed out of geofence ${geofenceId}`);
+
+    if (isGeofenceActiveAt(geofence, new Date(at), timezone)) {
+      await this.handleGeofenceEvent(accountId, deviceId, geofenceId, 'exit', at, location, undefined, {
+        reason: 'timeout'
+      });
+    }
+
+    const geofences = state.geofences.filter(id => id !== geofenceId);
+    await this.processOccupancy(accountId, deviceId, [{ geofenceId, type: 'exit', ts: at }], [], timezone, location);
+    await this.processDwellDetection(accountId, deviceId, geofences, state.timestamp ?? at, location, new Map());
+
+    const pending = { ...state.pending };
+    delete pending[geofenceId];
+    const speeding = { ...state.speeding };
+    delete speeding[geofenceId];
+    const updatedState: DeviceState = {
+      ...state,
+      geofences,
+      pending,
+      speeding,
+      timedOut: [...(state.timedOut || []).filter(id => id !== geofenceId), geofenceId]
+    };
+    await this.redis.setex(deviceStateKey, DEVICE_STATE_TTL_SECONDS, JSON.stringify(updatedState));
+  }
+
+  /**
+   * Emits enter (window opened) or exit (window closed) for every device currently
+   * inside a scheduled geofence that asks for transitions at its window boundaries.
+   */
+  private async handleScheduleWindowChange(geofence: IndexedGeofence, active: boolean, at: Date) {
+    const stream = this.redis.scanStream({ match: `device_state:${geofence.accountId}:*`, count: 500 });
+
+    for await (const keys of stream as AsyncIterable<string[]>) {
+      for (const key of keys) {
+        const stateJson = await this.redis.get(key);
+        if (!stateJson) continue;
+
+        const state: DeviceState = JSON.parse(stateJson);
+        if (!state.geofences.includes(geofence.id)) continue;
+
+        const deviceId = key.split(':')[2];
+        await this.handleGeofenceEvent(
+          geofence.accountId,
+          deviceId,
+          geofence.id,
+          active ? 'enter' : 'exit',
+          at.toISOString(),
+          state.location ?? { lat: geofence.center[1], lon: geofence.center[0] },
+          undefined,
+          { reason: 'schedule' }
+        );
+      }
+    }
+  }
+
   private async sendToDLQ(originalTopic: string, data: string, error: any) {
     try {
       const dlqMessage = {
@@ -350,7 +1773,10 @@ export class GeofenceProcessor {
     return {
       isRunning: true,
       consumerConnected: !!this.consumer,
-      producerConnected: !!this.producer
+      producerConnected: !!this.producer,
+      indexedGeofences: this.geofenceIndex.size,
+      consumeMode: this.batchMode ? 'batch' : 'message',
+      ...this.batchMetrics.snapshot()
     };
   }
 
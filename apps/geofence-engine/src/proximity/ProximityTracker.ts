@@ -0,0 +1,198 @@
+import { Client } from 'pg';
+import Redis from 'ioredis';
+import { Logger } from 'pino';
+import { HysteresisSettings, calculateDistance } from '@geofence/shared';
+import { GeofenceIndex, IndexedGeofence } from '../spatial/GeofenceIndex.js';
+
+// Followers currently within each proximity geofence, shared by all engine instances
+const insideKey = (geofenceId: string) => `proximity_inside:${geofenceId}`;
+
+// The other device's last fix is only compared if it is at most this far apart in time
+const MAX_LOCATION_AGE_MS = 5 * 60_000;
+const MEMBERSHIP_REFRESH_INTERVAL_MS = 60_000;
+
+export interface ProximityTransition {
+  geofence: IndexedGeofence;
+  followerId: string;
+  type: 'proximity_enter' | 'proximity_exit';
+  distanceMeters: number;
+  location: { lat: number; lon: number }; // The follower's location
+}
+
+export interface TrackedLocation {
+  lat: number;
+  lon: number;
+  ts: string;
+}
+
+interface ProximityTrackerConfig {
+  pgClient: Client;
+  redis: Redis;
+  logger: Logger;
+  geofenceIndex: GeofenceIndex;
+  getHysteresis: (geofence: IndexedGeofence) => HysteresisSettings;
+}
+
+/**
+ * Evaluates proximity geofences, whose circle follows an anchor device's last known
+ * location. Whenever the anchor or a follower reports, each affected anchor/follower
+ * pair is re-checked against the other side's last fix. Which followers are inside is
+ * kept in Redis and changed atomically, so each transition is reported exactly once
+ * even when both devices are processed at the same time.
+ */
+export class ProximityTracker {
+  private pgClient: Client;
+  private redis: Redis;
+  private logger: Logger;
+  private geofenceIndex: GeofenceIndex;
+  private getHysteresis: (geofence: IndexedGeofence) => HysteresisSettings;
+  private groupByDevice = new Map<string, string>();
+  private membersByGroup = new Map<string, string[]>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: ProximityTrackerConfig) {
+    this.pgClient = config.pgClient;
+    this.redis = config.redis;
+    this.logger = config.logger;
+    this.geofenceIndex = config.geofenceIndex;
+    this.getHysteresis = config.getHysteresis;
+  }
+
+  async start(): Promise<void> {
+    await this.refreshMembership();
+
+    this.refreshTimer = setInterval(() => {
+      this.refreshMembership().catch(error => this.logger.error(error, 'Failed to refresh follower groups'));
+    }, MEMBERSHIP_REFRESH_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = null;
+  }
+
+  /**
+   * Re-reads the members of every follower group used by a proximity geofence.
+   */
+  async refreshMembership(): Promise<void> {
+    const groupIds = new Set<string>();
+    for (const geofence of this.geofenceIndex.all()) {
+      if (geofence.type === 'proximity' && geofence.followerGroupId) groupIds.add(geofence.followerGroupId);
+    }
+
+    const groupByDevice = new Map<string, string>();
+    const membersByGroup = new Map<string, string[]>();
+
+    if (groupIds.size > 0) {
+      const result = await this.pgClient.query(
+        'SELECT id, group_id FROM devices WHERE group_id = ANY($1::uuid[])',
+        [[...groupIds]]
+      );
+
+      for (const row of result.rows) {
+        groupByDevice.set(row.id, row.group_id);
+        membersByGroup.set(row.group_id, [...(membersByGroup.get(row.group_id) || []), row.id]);
+      }
+    }
+
+    this.groupByDevice = groupByDevice;
+    this.membersByGroup = membersByGroup;
+  }
+
+  /**
+   * Re-checks every proximity geofence the device takes part in, as the anchor or as
+   * a follower, and returns the followers that came within or went beyond the radius.
+   * Locations of other devices not yet written to their device state, as in a batch
+   * being processed, are passed in and used over the stored ones.
+   */
+  async evaluate(
+    accountId: string,
+    deviceId: string,
+    location: TrackedLocation,
+    unsaved: Map<string, TrackedLocation> = new Map()
+  ): Promise<ProximityTransition[]> {
+    const geofences = this.geofenceIndex.findProximity(accountId, deviceId, this.groupByDevice.get(deviceId) ?? null);
+    const transitions: ProximityTransition[] = [];
+
+    for (const geofence of geofences) {
+      if (geofence.radiusM === null || !geofence.anchorDeviceId) continue;
+
+      let anchor: TrackedLocation | null;
+      let followers: { followerId: string; location: TrackedLocation | null }[];
+
+      if (geofence.anchorDeviceId === deviceId) {
+        anchor = location;
+        const followerIds = (this.membersByGroup.get(geofence.followerGroupId ?? '') || []).filter(id => id !== deviceId);
+        const locations = await this.lastLocations(accountId, followerIds, unsaved);
+        followers = followerIds.map((followerId, i) => ({ followerId, location: locations[i] }));
+      } else {
+        [anchor] = await this.lastLocations(accountId, [geofence.anchorDeviceId], unsaved);
+        followers = [{ followerId: deviceId, location }];
+      }
+
+      if (!anchor) continue;
+
+      for (const follower of followers) {
+        if (!follower.location) continue;
+        if (Math.abs(new Date(anchor.ts).getTime() - new Date(follower.location.ts).getTime()) > MAX_LOCATION_AGE_MS) {
+          continue;
+        }
+
+        const transition = await this.evaluatePair(geofence, follower.followerId, anchor, follower.location);
+        if (transition) transitions.push(transition);
+      }
+    }
+
+    return transitions;
+  }
+
+  async clear(geofenceId: string): Promise<void> {
+    await this.redis.del(insideKey(geofenceId));
+  }
+
+  /**
+   * A follower comes within the geofence once it is entryBufferMeters inside the radius,
+   * and leaves once it is exitBufferMeters beyond it. In between nothing changes.
+   */
+  private async evaluatePair(
+    geofence: IndexedGeofence,
+    followerId: string,
+    anchor: TrackedLocation,
+    follower: TrackedLocation
+  ): Promise<ProximityTransition | null> {
+    const distanceMeters = calculateDistance(follower.lat, follower.lon, anchor.lat, anchor.lon);
+    const { entryBufferMeters, exitBufferMeters } = this.getHysteresis(geofence);
+    const radiusM = geofence.radiusM ?? 0;
+    const location = { lat: follower.lat, lon: follower.lon };
+
+    if (distanceMeters <= radiusM - entryBufferMeters) {
+      const added = await this.redis.sadd(insideKey(geofence.id), followerId);
+      return added === 1 ? { geofence, followerId, type: 'proximity_enter', distanceMeters, location } : null;
+    }
+
+    if (distanceMeters > radiusM + exitBufferMeters) {
+      const removed = await this.redis.srem(insideKey(geofence.id), followerId);
+      return removed === 1 ? { geofence, followerId, type: 'proximity_exit', distanceMeters, location } : null;
+    }
+
+    return null;
+  }
+
+  private async lastLocations(
+    accountId: string,
+    deviceIds: string[],
+    unsaved: Map<string, TrackedLocation>
+  ): Promise<(TrackedLocation | null)[]> {
+    if (deviceIds.length === 0) return [];
+
+    const states = await this.redis.mget(...deviceIds.map(id => `device_state:${accountId}:${id}`));
+    return states.map((stateJson, i) => {
+      const pending = unsaved.get(deviceIds[i]);
+      if (pending) return pending;
+      if (!stateJson) return null;
+
+      const state = JSON.parse(stateJson) as { timestamp: string | null; location?: { lat: number; lon: number } };
+      return state.location && state.timestamp ? { ...state.location, ts: state.timestamp } : null;
+    });
+  }
+}
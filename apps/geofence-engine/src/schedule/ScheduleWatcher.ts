@@ -0,0 +1,81 @@
+import Redis from 'ioredis';
+import { Logger } from 'pino';
+import { GeofenceIndex, IndexedGeofence } from '../spatial/GeofenceIndex.js';
+import { isGeofenceActiveAt } from './schedule.js';
+
+const POLL_INTERVAL_MS = 15_000;
+
+// Last observed open/closed state of each scheduled geofence, shared by all engine instances
+const scheduleStateKey = (geofenceId: string) => `geofence_schedule:${geofenceId}`;
+
+interface ScheduleWatcherConfig {
+  geofenceIndex: GeofenceIndex;
+  redis: Redis;
+  logger: Logger;
+  getTimezone: (accountId: string) => Promise<string>;
+  onWindowChange: (geofence: IndexedGeofence, active: boolean, at: Date) => Promise<void>;
+}
+
+/**
+ * Watches scheduled geofences that emit transitions at window boundaries and
+ * reports each time one opens or closes. The open/closed state lives in Redis and
+ * is swapped atomically, so exactly one engine instance reports each change.
+ */
+export class ScheduleWatcher {
+  private geofenceIndex: GeofenceIndex;
+  private redis: Redis;
+  private logger: Logger;
+  private getTimezone: (accountId: string) => Promise<string>;
+  private onWindowChange: (geofence: IndexedGeofence, active: boolean, at: Date) => Promise<void>;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(config: ScheduleWatcherConfig) {
+    this.geofenceIndex = config.geofenceIndex;
+    this.redis = config.redis;
+    this.logger = config.logger;
+    this.getTimezone = config.getTimezone;
+    this.onWindowChange = config.onWindowChange;
+  }
+
+  async start(): Promise<void> {
+    await this.poll();
+    this.pollTimer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    // Windows are minute-aligned, so the start of the current minute is the boundary time
+    const now = new Date();
+    now.setSeconds(0, 0);
+
+    try {
+      for (const geofence of this.geofenceIndex.all()) {
+        if (!geofence.schedule?.enabled || !geofence.schedule.emitTransitions) continue;
+
+        try {
+          const timeZone = await this.getTimezone(geofence.accountId);
+          const active = isGeofenceActiveAt(geofence, now, timeZone);
+          const previous = await this.redis.getset(scheduleStateKey(geofence.id), active ? '1' : '0');
+
+          // The first observation only records the state
+          if (previous !== null && previous !== (active ? '1' : '0')) {
+            this.logger.info(`🕒 Schedule for geofence ${geofence.id} ${active ? 'opened' : 'closed'}`);
+            await this.onWindowChange(geofence, active, now);
+          }
+        } catch (error) {
+          this.logger.error({ error, geofenceId: geofence.id }, 'Failed to check geofence schedule');
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { isGeofenceActiveAt, parseGeofenceSchedule } from './schedule.js';
+
+const nightShift = {
+  enabled: true,
+  windows: [{ days: [5], start: '22:00', end: '06:00' }]
+};
+
+describe('parseGeofenceSchedule', () => {
+  it('reads the schedule from the metadata', () => {
+    expect(parseGeofenceSchedule({ schedule: nightShift })).toEqual(nightShift);
+    expect(parseGeofenceSchedule({})).toBeNull();
+  });
+
+  it("ignores a schedule that can't be read", () => {
+    const window = nightShift.windows[0];
+    expect(parseGeofenceSchedule({ schedule: { ...nightShift, windows: [{ ...window, end: '24:00' }] } })).toBeNull();
+    expect(parseGeofenceSchedule({ schedule: { ...nightShift, windows: [{ ...window, days: [7] }] } })).toBeNull();
+    expect(parseGeofenceSchedule({ schedule: { windows: [] } })).toBeNull();
+  });
+});
+
+describe('isGeofenceActiveAt', () => {
+  const geofence = { schedule: parseGeofenceSchedule({ schedule: nightShift }) };
+
+  it("opens an overnight window in the account's timezone", () => {
+    // Friday 9 January 2026, 22:30 in Berlin
+    expect(isGeofenceActiveAt(geofence, new Date('2026-01-09T21:30:00Z'), 'Europe/Berlin')).toBe(true);
+    // Saturday 05:30 in Berlin, still the Friday night shift
+    expect(isGeofenceActiveAt(geofence, new Date('2026-01-10T04:30:00Z'), 'Europe/Berlin')).toBe(true);
+    expect(isGeofenceActiveAt(geofence, new Date('2026-01-10T05:00:00Z'), 'Europe/Berlin')).toBe(false);
+    // 22:30 UTC on Friday is 17:30 in New York
+    expect(isGeofenceActiveAt(geofence, new Date('2026-01-09T22:30:00Z'), 'America/New_York')).toBe(false);
+  });
+
+  it('falls back to UTC for an unknown timezone', () => {
+    expect(isGeofenceActiveAt(geofence, new Date('2026-01-09T21:30:00Z'), 'Not/A_Zone')).toBe(false);
+    expect(isGeofenceActiveAt(geofence, new Date('2026-01-09T22:30:00Z'), 'Not/A_Zone')).toBe(true);
+  });
+
+  it('is always open without a schedule', () => {
+    expect(isGeofenceActiveAt({ schedule: null }, new Date('2026-01-09T12:00:00Z'), 'Europe/Berlin')).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { GeofenceSchedule, isScheduleActive } from '@geofence/shared';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Schedule stored under geofences.metadata.schedule (validated by the API on write)
+export const GeofenceScheduleSchema = z.object({
+  enabled: z.boolean(),
+  windows: z.array(z.object({
+    days: z.array(z.number().int().min(0).max(6)),
+    start: z.string().regex(TIME_PATTERN),
+    end: z.string().regex(TIME_PATTERN)
+  })),
+  exceptions: z.array(z.object({
+    startDate: z.string().regex(DATE_PATTERN),
+    endDate: z.string().regex(DATE_PATTERN),
+    active: z.boolean(),
+    name: z.string().optional()
+  })).optional(),
+  emitTransitions: z.boolean().optional()
+});
+
+/**
+ * Returns the geofence's schedule, or null when it has none or it can't be read.
+ */
+export function parseGeofenceSchedule(metadata: Record<string, any>): GeofenceSchedule | null {
+  if (!metadata?.schedule) return null;
+
+  const parsed = GeofenceScheduleSchema.safeParse(metadata.schedule);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Whether the geofence's schedule is open at the given instant, in the account's
+ * timezone. An unknown timezone falls back to UTC.
+ */
+export function isGeofenceActiveAt(
+  geofence: { schedule: GeofenceSchedule | null },
+  at: Date,
+  timeZone: string
+): boolean {
+  try {
+    return isScheduleActive(geofence.schedule, at, timeZone);
+  } catch {
+    return isScheduleActive(geofence.schedule, at, 'UTC');
+  }
+}
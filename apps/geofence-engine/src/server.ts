@@ -51,6 +51,12 @@ class GeofenceEngineService {
       // Initialize database connection
       const pgClient = new Client({ connectionString: DATABASE_URL });
       await pgClient.connect();
+      // Trip segmentation gets its own connection, so its transactions don't take in the processor's queries
+      const segmenterPgClient = new Client({ connectionString: DATABASE_URL });
+      await segmenterPgClient.connect();
+      // and so does the backfill runner, whose scans over location history would otherwise hold up live inserts
+      const backfillPgClient = new Client({ connectionString: DATABASE_URL });
+      await backfillPgClient.connect();
       logger.info('✅ Database connected');
 
       // Initialize Redis
@@ -61,8 +67,15 @@ class GeofenceEngineService {
       this.geofenceProcessor = new GeofenceProcessor({
         kafka,
         pgClient,
+        segmenterPgClient,
+        backfillPgClient,
         redis,
-        logger
+        logger,
+        reorderWindowSeconds: process.env.REORDER_WINDOW_SECONDS
+          ? Number(process.env.REORDER_WINDOW_SECONDS)
+          : undefined,
+        batchMode: process.env.ENGINE_BATCH_MODE === 'true',
+        instanceId: process.env.ENGINE_INSTANCE_ID
       });
 
       await this.geofenceProcessor.start();
@@ -0,0 +1,446 @@
+import { Client } from 'pg';
+import { Logger } from 'pino';
+import RBush from 'rbush';
+import {
+  BoundingBox,
+  GeofenceGeometry,
+  GeofenceLevel,
+  GeofenceSchedule,
+  Position,
+  SegmentCrossing,
+  beaconKey,
+  circleBoundingBox,
+  distanceToLineMeters,
+  expandBoundingBox,
+  geometryBoundingBox,
+  geometryCentroid,
+  insideProbability,
+  segmentCrossings,
+  shapeContains,
+  signedBoundaryDistanceMeters
+} from '@geofence/shared';
+import { BeaconSighting } from '../beacons/sightings.js';
+import { parseGeofenceSchedule } from '../schedule/schedule.js';
+import { parseGeofenceLevel } from './level.js';
+
+export interface IndexedGeofence {
+  id: string;
+  accountId: string;
+  name: string;
+  type: 'circle' | 'polygon' | 'corridor' | 'proximity';
+  geometry: GeofenceGeometry;
+  center: Position;
+  radiusM: number | null;
+  widthM: number | null; // Full corridor width, centered on the route line
+  anchorDeviceId: string | null; // Device a proximity geofence's circle follows
+  followerGroupId: string | null; // Device group whose members are checked against it
+  includeChildren: boolean; // A device inside any descendant counts as inside this geofence
+  revisionId: string | null; // Revision of the shape held in the index
+  metadata: Record<string, any>;
+  schedule: GeofenceSchedule | null;
+  level: GeofenceLevel | null; // Floor or altitude range a device must also be on
+  beacons: RegisteredBeacon[]; // With any, devices are placed in the geofence by beacon sightings
+}
+
+export interface RegisteredBeacon {
+  key: string; // beaconKey of the beacon or access point
+  minRssi: number; // Weaker sightings are ignored
+}
+
+interface IndexEntry extends BoundingBox {
+  geofence: IndexedGeofence;
+}
+
+interface GeofenceIndexConfig {
+  pgClient: Client;
+  logger: Logger;
+}
+
+// The database rejects cycles; this only bounds the walk up a hierarchy if one slips through
+const MAX_HIERARCHY_DEPTH = 32;
+
+const GEOFENCE_SELECT = `
+  SELECT
+    id,
+    account_id,
+    name,
+    geofence_type as type,
+    radius_m,
+    width_m,
+    anchor_device_id,
+    follower_group_id,
+    parent_id,
+    include_children,
+    metadata,
+    is_active,
+    ST_AsGeoJSON(geometry) as geometry_geojson,
+    (
+      SELECT r.id FROM geofence_revisions r
+      WHERE r.geofence_id = geofences.id
+      ORDER BY r.revision DESC
+      LIMIT 1
+    ) as revision_id,
+    (
+      SELECT json_agg(json_build_object(
+        'type', b.beacon_type,
+        'uuid', b.uuid,
+        'major', b.major,
+        'minor', b.minor,
+        'bssid', b.bssid,
+        'minRssi', b.min_rssi
+      ))
+      FROM beacons b
+      WHERE b.geofence_id = geofences.id
+    ) as beacons
+  FROM geofences
+`;
+
+/**
+ * Per-account R-tree of active geofences, used to answer point-in-geofence
+ * questions without a PostGIS round-trip per location event. Proximity geofences
+ * move with their anchor device, so they are kept out of the trees.
+ */
+export class GeofenceIndex {
+  private pgClient: Client;
+  private logger: Logger;
+  private trees = new Map<string, RBush<IndexEntry>>();
+  private entries = new Map<string, IndexEntry>();
+  private proximity = new Map<string, Map<string, IndexedGeofence>>(); // By account, then geofence id
+  private parents = new Map<string, string>(); // Geofence id to its parent's id, inactive geofences included
+  private beaconZones = new Map<string, Map<string, IndexedGeofence>>(); // By account, then beacon key
+
+  constructor(config: GeofenceIndexConfig) {
+    this.pgClient = config.pgClient;
+    this.logger = config.logger;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async load(): Promise<void> {
+    const result = await this.pgClient.query(`${GEOFENCE_SELECT} WHERE is_active = true`);
+
+    const entriesByAccount = new Map<string, IndexEntry[]>();
+    this.entries.clear();
+    this.proximity.clear();
+    this.beaconZones.clear();
+
+    for (const row of result.rows) {
+      const entry = this.toEntry(row);
+      if (!entry) continue;
+
+      this.entries.set(entry.geofence.id, entry);
+      this.addBeacons(entry.geofence);
+      if (entry.geofence.type === 'proximity') {
+        this.addProximity(entry.geofence);
+        continue;
+      }
+
+      const accountEntries = entriesByAccount.get(entry.geofence.accountId) || [];
+      accountEntries.push(entry);
+      entriesByAccount.set(entry.geofence.accountId, accountEntries);
+    }
+
+    // Bulk loading produces a better packed tree than inserting one by one
+    this.trees.clear();
+    for (const [accountId, accountEntries] of entriesByAccount) {
+      this.trees.set(accountId, new RBush<IndexEntry>().load(accountEntries));
+    }
+
+    const links = await this.pgClient.query('SELECT id, parent_id FROM geofences WHERE parent_id IS NOT NULL');
+    this.parents = new Map(links.rows.map(row => [row.id, row.parent_id]));
+
+    this.logger.info(
+      { geofences: this.entries.size, accounts: this.trees.size },
+      '🗺️  Geofence spatial index loaded'
+    );
+  }
+
+  /**
+   * Re-reads a single geofence from the database and replaces its index entry.
+   * Geofences that were deleted or deactivated are dropped from the index.
+   */
+  async refresh(geofenceId: string): Promise<void> {
+    const result = await this.pgClient.query(`${GEOFENCE_SELECT} WHERE id = $1`, [geofenceId]);
+    const row = result.rows[0];
+
+    this.remove(geofenceId);
+
+    if (row?.parent_id) {
+      this.parents.set(geofenceId, row.parent_id);
+    } else {
+      this.parents.delete(geofenceId);
+    }
+
+    if (!row || !row.is_active) {
+      return;
+    }
+
+    const entry = this.toEntry(row);
+    if (!entry) return;
+
+    this.entries.set(geofenceId, entry);
+    this.addBeacons(entry.geofence);
+    if (entry.geofence.type === 'proximity') {
+      this.addProximity(entry.geofence);
+    } else {
+      this.getTree(entry.geofence.accountId).insert(entry);
+    }
+  }
+
+  remove(geofenceId: string): void {
+    const existing = this.entries.get(geofenceId);
+    if (!existing) return;
+
+    const tree = this.trees.get(existing.geofence.accountId);
+    tree?.remove(existing);
+    this.entries.delete(geofenceId);
+    this.proximity.get(existing.geofence.accountId)?.delete(geofenceId);
+
+    const zones = this.beaconZones.get(existing.geofence.accountId);
+    for (const beacon of existing.geofence.beacons) {
+      if (zones?.get(beacon.key)?.id === geofenceId) zones.delete(beacon.key);
+    }
+
+    if (tree && tree.all().length === 0) {
+      this.trees.delete(existing.geofence.accountId);
+    }
+  }
+
+  /**
+   * Drops a deleted geofence from the hierarchy. The database makes its children
+   * top-level, so their links to it go too.
+   */
+  unlink(geofenceId: string): void {
+    this.parents.delete(geofenceId);
+    for (const [childId, parentId] of this.parents) {
+      if (parentId === geofenceId) this.parents.delete(childId);
+    }
+  }
+
+  /**
+   * Ids of the geofence's ancestors, root first.
+   */
+  ancestry(geofenceId: string): string[] {
+    const ancestors: string[] = [];
+
+    let parentId = this.parents.get(geofenceId);
+    while (parentId && !ancestors.includes(parentId) && ancestors.length < MAX_HIERARCHY_DEPTH) {
+      ancestors.unshift(parentId);
+      parentId = this.parents.get(parentId);
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Active ancestors that count a device inside this geofence as inside themselves.
+   */
+  presenceAncestors(geofenceId: string): IndexedGeofence[] {
+    return this.ancestry(geofenceId)
+      .map(ancestorId => this.get(ancestorId))
+      .filter((ancestor): ancestor is IndexedGeofence => ancestor?.includeChildren === true);
+  }
+
+  get(geofenceId: string): IndexedGeofence | undefined {
+    return this.entries.get(geofenceId)?.geofence;
+  }
+
+  all(): IndexedGeofence[] {
+    return Array.from(this.entries.values(), entry => entry.geofence);
+  }
+
+  /**
+   * Returns the account's proximity geofences the device takes part in, either as
+   * the anchor or as a member of the follower group.
+   */
+  findProximity(accountId: string, deviceId: string, groupId: string | null): IndexedGeofence[] {
+    const geofences = this.proximity.get(accountId);
+    if (!geofences) return [];
+
+    return Array.from(geofences.values()).filter(geofence =>
+      geofence.anchorDeviceId === deviceId || (groupId !== null && geofence.followerGroupId === groupId)
+    );
+  }
+
+  /**
+   * The geofence of the strongest sighting of a registered beacon heard at or above the
+   * beacon's minimum signal, or null if the device heard none.
+   */
+  findBeaconZone(accountId: string, sightings: BeaconSighting[]): IndexedGeofence | null {
+    const zones = this.beaconZones.get(accountId);
+    if (!zones) return null;
+
+    let strongest: { geofence: IndexedGeofence; rssi: number } | null = null;
+    for (const sighting of sightings) {
+      const geofence = zones.get(sighting.key);
+      const beacon = geofence?.beacons.find(candidate => candidate.key === sighting.key);
+      if (!geofence || !beacon || sighting.rssi < beacon.minRssi) continue;
+
+      if (!strongest || sighting.rssi > strongest.rssi) {
+        strongest = { geofence, rssi: sighting.rssi };
+      }
+    }
+    return strongest?.geofence ?? null;
+  }
+
+  /**
+   * Returns every indexed geofence of the account whose shape contains the point.
+   */
+  findContaining(accountId: string, lat: number, lon: number): IndexedGeofence[] {
+    const tree = this.trees.get(accountId);
+    if (!tree) return [];
+
+    return tree
+      .search({ minX: lon, minY: lat, maxX: lon, maxY: lat })
+      .map(entry => entry.geofence)
+      .filter(geofence => this.contains(geofence, lat, lon));
+  }
+
+  /**
+   * Returns every indexed geofence of the account whose bounding box comes within
+   * radiusM of the point. Candidates still need an exact containment check.
+   */
+  findNear(accountId: string, lat: number, lon: number, radiusM: number): IndexedGeofence[] {
+    const tree = this.trees.get(accountId);
+    if (!tree) return [];
+
+    return tree.search(circleBoundingBox([lon, lat], radiusM)).map(entry => entry.geofence);
+  }
+
+  /**
+   * Returns every indexed geofence of the account whose bounding box overlaps the
+   * bounding box of the straight path between two points.
+   */
+  findAlongSegment(accountId: string, from: Position, to: Position): IndexedGeofence[] {
+    const tree = this.trees.get(accountId);
+    if (!tree) return [];
+
+    return tree
+      .search({
+        minX: Math.min(from[0], to[0]),
+        minY: Math.min(from[1], to[1]),
+        maxX: Math.max(from[0], to[0]),
+        maxY: Math.max(from[1], to[1])
+      })
+      .map(entry => entry.geofence);
+  }
+
+  /**
+   * Each pass a straight path between two points outside the geofence makes through it,
+   * as fractions of the way along the path; see segmentCrossings in @geofence/shared.
+   */
+  segmentCrossings(geofence: IndexedGeofence, from: Position, to: Position): SegmentCrossing[] {
+    return segmentCrossings(geofence, from, to);
+  }
+
+  contains(geofence: IndexedGeofence, lat: number, lon: number): boolean {
+    return shapeContains(geofence, lon, lat);
+  }
+
+  /**
+   * Signed distance in meters from the point to the geofence boundary:
+   * positive when inside, negative when outside.
+   */
+  signedBoundaryDistance(geofence: IndexedGeofence, lat: number, lon: number): number {
+    return signedBoundaryDistanceMeters(geofence, lon, lat);
+  }
+
+  /**
+   * Distance in meters from the point to a corridor's route line.
+   */
+  distanceFromRoute(geofence: IndexedGeofence, lat: number, lon: number): number {
+    if (geofence.geometry.type !== 'LineString') return Infinity;
+    return distanceToLineMeters(geofence.geometry.coordinates, lon, lat);
+  }
+
+  /**
+   * Probability that a fix reported at the point with the given accuracy radius
+   * lies inside the geofence. Exact fixes resolve to 0 or 1.
+   */
+  insideProbability(geofence: IndexedGeofence, lat: number, lon: number, accuracyM?: number): number {
+    return insideProbability(geofence, lon, lat, accuracyM);
+  }
+
+  private addProximity(geofence: IndexedGeofence): void {
+    let geofences = this.proximity.get(geofence.accountId);
+    if (!geofences) {
+      geofences = new Map();
+      this.proximity.set(geofence.accountId, geofences);
+    }
+    geofences.set(geofence.id, geofence);
+  }
+
+  private addBeacons(geofence: IndexedGeofence): void {
+    if (geofence.beacons.length === 0) return;
+
+    let zones = this.beaconZones.get(geofence.accountId);
+    if (!zones) {
+      zones = new Map();
+      this.beaconZones.set(geofence.accountId, zones);
+    }
+    for (const beacon of geofence.beacons) {
+      zones.set(beacon.key, geofence);
+    }
+  }
+
+  private getTree(accountId: string): RBush<IndexEntry> {
+    let tree = this.trees.get(accountId);
+    if (!tree) {
+      tree = new RBush<IndexEntry>();
+      this.trees.set(accountId, tree);
+    }
+    return tree;
+  }
+
+  private toEntry(row: any): IndexEntry | null {
+    if (!['circle', 'polygon', 'corridor', 'proximity'].includes(row.type)) {
+      return null;
+    }
+
+    try {
+      const geometry: GeofenceGeometry = JSON.parse(row.geometry_geojson);
+      // Found the same way as the API and dashboard find it, so all three measure circles alike
+      const center = geometryCentroid(geometry);
+      const radiusM = row.radius_m !== null && row.radius_m !== undefined ? Number(row.radius_m) : null;
+      const widthM = row.width_m !== null && row.width_m !== undefined ? Number(row.width_m) : null;
+
+      const metadata = row.metadata || {};
+      const geofence: IndexedGeofence = {
+        id: row.id,
+        accountId: row.account_id,
+        name: row.name,
+        type: row.type,
+        geometry,
+        center,
+        radiusM,
+        widthM,
+        anchorDeviceId: row.anchor_device_id ?? null,
+        followerGroupId: row.follower_group_id ?? null,
+        includeChildren: row.include_children === true,
+        revisionId: row.revision_id ?? null,
+        metadata,
+        schedule: parseGeofenceSchedule(metadata),
+        level: parseGeofenceLevel(metadata),
+        // Proximity geofences move with their anchor, so beacons can't mark them
+        beacons: row.type === 'proximity' ? [] : (row.beacons || []).map((beacon: any) => ({
+          key: beaconKey(beacon.type === 'wifi' ? { bssid: beacon.bssid } : beacon),
+          minRssi: Number(beacon.minRssi)
+        }))
+      };
+
+      const bbox =
+        (geofence.type === 'circle' || geofence.type === 'proximity') && radiusM !== null
+          ? circleBoundingBox(center, radiusM)
+          : geofence.type === 'corridor'
+            ? expandBoundingBox(geometryBoundingBox(geometry), (widthM ?? 0) / 2)
+            : geometryBoundingBox(geometry);
+
+      return { ...bbox, geofence };
+    } catch (error) {
+      this.logger.warn({ error, geofenceId: row.id }, 'Skipping geofence with unreadable geometry');
+      return null;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { GeofenceLevel } from '@geofence/shared';
+
+// Level stored under geofences.metadata.level (validated by the API on write)
+const GeofenceLevelSchema = z.object({
+  floor: z.number().int().optional(),
+  minAltitudeM: z.number().optional(),
+  maxAltitudeM: z.number().optional()
+});
+
+// Where a device reported itself vertically, either of which may be missing
+export interface VerticalPosition {
+  altitudeM?: number;
+  floor?: number;
+}
+
+/**
+ * Returns the geofence's level, or null when it has none or it can't be read, in which
+ * case the geofence covers every level.
+ */
+export function parseGeofenceLevel(metadata: Record<string, any>): GeofenceLevel | null {
+  if (!metadata?.level) return null;
+
+  const parsed = GeofenceLevelSchema.safeParse(metadata.level);
+  if (!parsed.success) return null;
+
+  const { floor, minAltitudeM, maxAltitudeM } = parsed.data;
+  return floor === undefined && minAltitudeM === undefined && maxAltitudeM === undefined ? null : parsed.data;
+}
+
+/**
+ * The floor a device reported in its attrs, as a number or numeric string.
+ */
+export function reportedFloor(attrs: Record<string, any> | undefined): number | undefined {
+  const floor = typeof attrs?.floor === 'string' && attrs.floor.trim() !== '' ? Number(attrs.floor) : attrs?.floor;
+  return Number.isInteger(floor) ? floor : undefined;
+}
+
+/**
+ * Whether a device is on the geofence's level. A reported floor is compared with the
+ * geofence's floor in preference to altitude, which is coarse from GPS; a device the
+ * level can't be checked against is taken to be off it.
+ */
+export function isOnGeofenceLevel(level: GeofenceLevel | null, position: VerticalPosition): boolean {
+  if (!level) return true;
+
+  if (level.floor !== undefined && position.floor !== undefined) {
+    return position.floor === level.floor;
+  }
+
+  const hasRange = level.minAltitudeM !== undefined || level.maxAltitudeM !== undefined;
+  if (hasRange && position.altitudeM !== undefined) {
+    return (level.minAltitudeM === undefined || position.altitudeM >= level.minAltitudeM) &&
+      (level.maxAltitudeM === undefined || position.altitudeM <= level.maxAltitudeM);
+  }
+
+  return false;
+}
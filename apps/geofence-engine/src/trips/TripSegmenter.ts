@@ -0,0 +1,275 @@
+import { Client, QueryResult } from 'pg';
+import { Logger } from 'pino';
+import {
+  SegmentationState,
+  StopSegment,
+  TripPoint,
+  TripSegment,
+  TripThresholds,
+  initialSegmentationState,
+  segmentLocations
+} from './segmentation.js';
+
+const POLL_INTERVAL_MS = 10_000;
+const EVENTS_PER_SCAN = 5000;
+const LOCATIONS_PER_PAGE = 2000;
+
+// Held by the engine instance segmenting, so instances don't segment the same device at once
+const TRIP_SEGMENTATION_LOCK_KEY = 482_301_775;
+
+interface TripSegmenterConfig {
+  pgClient: Client;
+  logger: Logger;
+  getThresholds: (accountId: string) => Promise<TripThresholds>;
+}
+
+/**
+ * Keeps device_trips and device_stops up to date with the locations stored in
+ * location_events, whichever service stored them. Each poll looks for devices with
+ * locations added since the last one and segments their new locations from where
+ * segmentation got to for the device, so a location committed after a later one
+ * is still picked up the next time the device reports. Locations older than the
+ * device's last segmented one are left out.
+ */
+export class TripSegmenter {
+  private pgClient: Client;
+  private logger: Logger;
+  private getThresholds: (accountId: string) => Promise<TripThresholds>;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private stopped = false;
+
+  constructor(config: TripSegmenterConfig) {
+    this.pgClient = config.pgClient;
+    this.logger = config.logger;
+    this.getThresholds = config.getThresholds;
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.pollTimer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const locked = await this.pgClient.query('SELECT pg_try_advisory_lock($1) AS locked', [
+        TRIP_SEGMENTATION_LOCK_KEY
+      ]);
+      if (!locked.rows[0].locked) return;
+
+      try {
+        await this.scan();
+      } finally {
+        await this.pgClient.query('SELECT pg_advisory_unlock($1)', [TRIP_SEGMENTATION_LOCK_KEY]);
+      }
+    } catch (error) {
+      this.logger.error(error, 'Error segmenting trips');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async scan(): Promise<void> {
+    const progress = await this.pgClient.query('SELECT last_event_id FROM trip_segmentation_progress');
+    let lastEventId: string = progress.rows[0]?.last_event_id ?? '0';
+
+    while (!this.stopped) {
+      // The earliest new location of each device with any, from the next stretch of ids
+      const result: QueryResult = await this.pgClient.query(
+        `
+          WITH scanned AS (
+            SELECT id, account_id, device_id, ts
+            FROM location_events
+            WHERE id > $1
+            ORDER BY id
+            LIMIT ${EVENTS_PER_SCAN}
+          )
+          SELECT DISTINCT ON (device_id)
+            device_id, account_id, id, ts::text AS ts_key,
+            (SELECT MAX(id) FROM scanned) AS max_id,
+            (SELECT COUNT(*) FROM scanned) AS scanned
+          FROM scanned
+          ORDER BY device_id, ts, id
+        `,
+        [lastEventId]
+      );
+      if (result.rows.length === 0) return;
+
+      for (const row of result.rows) {
+        if (this.stopped) return;
+        await this.segmentDevice(row.account_id, row.device_id, { ts: row.ts_key, id: row.id });
+      }
+
+      lastEventId = result.rows[0].max_id;
+      await this.pgClient.query(
+        `
+          INSERT INTO trip_segmentation_progress (last_event_id) VALUES ($1)
+          ON CONFLICT (singleton) DO UPDATE SET last_event_id = EXCLUDED.last_event_id
+        `,
+        [lastEventId]
+      );
+
+      if (Number(result.rows[0].scanned) < EVENTS_PER_SCAN) return;
+    }
+  }
+
+  /**
+   * Segments the device's locations after its cursor. A device seen for the first time
+   * starts at its earliest new location rather than its whole history.
+   */
+  private async segmentDevice(accountId: string, deviceId: string, earliestNew: { ts: string; id: string }) {
+    const stored = await this.pgClient.query(
+      'SELECT state, last_ts::text AS ts_key, last_event_id FROM device_trip_state WHERE device_id = $1',
+      [deviceId]
+    );
+
+    let state: SegmentationState = stored.rows[0]?.state ?? initialSegmentationState();
+    let cursor = stored.rows[0]
+      ? { ts: stored.rows[0].ts_key as string, id: stored.rows[0].last_event_id as string, inclusive: false }
+      : { ...earliestNew, inclusive: true };
+    const thresholds = await this.getThresholds(accountId);
+
+    for (;;) {
+      // Held-back and rejected fixes are left out, and smoothed positions used, as in evaluation
+      const page: QueryResult = await this.pgClient.query(
+        `
+          SELECT id, ts, ts::text AS ts_key, speed_mps,
+            COALESCE((payload->'smoothed'->>'lat')::float8, ST_Y(loc::geometry)) AS lat,
+            COALESCE((payload->'smoothed'->>'lon')::float8, ST_X(loc::geometry)) AS lon
+          FROM location_events
+          WHERE device_id = $1
+            AND (ts, id) ${cursor.inclusive ? '>=' : '>'} ($2::timestamptz, $3::bigint)
+            AND COALESCE(payload->>'low_accuracy', '') <> 'held'
+            AND NOT payload ? 'rejected'
+          ORDER BY ts, id
+          LIMIT ${LOCATIONS_PER_PAGE}
+        `,
+        [deviceId, cursor.ts, cursor.id]
+      );
+      if (page.rows.length === 0) return;
+
+      const points: TripPoint[] = page.rows.map(row => ({
+        ts: new Date(row.ts).getTime(),
+        lat: Number(row.lat),
+        lon: Number(row.lon),
+        speedMps: row.speed_mps !== null ? Number(row.speed_mps) : null
+      }));
+
+      const result = segmentLocations(state, points, thresholds);
+      const last = page.rows[page.rows.length - 1];
+      // The text form keeps the microseconds a Date would drop
+      const next = { ts: last.ts_key as string, id: last.id as string, inclusive: false };
+
+      // The segments and the cursor past them are saved together, so a failure leaves neither
+      await this.pgClient.query('BEGIN');
+      try {
+        await this.save(accountId, deviceId, result.trips, result.stops, result.discardedTrips);
+        await this.pgClient.query(
+          `
+            INSERT INTO device_trip_state (device_id, account_id, last_ts, last_event_id, state, updated_at)
+            VALUES ($1, $2, $3, $4, $5, NOW())
+            ON CONFLICT (device_id) DO UPDATE SET
+              last_ts = EXCLUDED.last_ts,
+              last_event_id = EXCLUDED.last_event_id,
+              state = EXCLUDED.state,
+              updated_at = NOW()
+          `,
+          [deviceId, accountId, next.ts, next.id, JSON.stringify(result.state)]
+        );
+        await this.pgClient.query('COMMIT');
+      } catch (error) {
+        await this.pgClient.query('ROLLBACK');
+        throw error;
+      }
+
+      state = result.state;
+      cursor = next;
+
+      if (page.rows.length < LOCATIONS_PER_PAGE) return;
+    }
+  }
+
+  // Segments are keyed by their start, so saving the same segment again updates it
+  private async save(
+    accountId: string,
+    deviceId: string,
+    trips: TripSegment[],
+    stops: StopSegment[],
+    discardedTrips: number[]
+  ): Promise<void> {
+    if (discardedTrips.length > 0) {
+      await this.pgClient.query(
+        `
+          DELETE FROM device_trips
+          WHERE device_id = $1 AND started_at = ANY (SELECT to_timestamp(ms / 1000.0) FROM unnest($2::float8[]) AS ms)
+        `,
+        [deviceId, discardedTrips]
+      );
+    }
+
+    for (const trip of trips) {
+      await this.pgClient.query(
+        `
+          INSERT INTO device_trips (
+            account_id, device_id, started_at, ended_at, in_progress, start_loc, end_loc,
+            distance_m, max_speed_mps, point_count
+          )
+          VALUES (
+            $1, $2, to_timestamp($3 / 1000.0), to_timestamp($4 / 1000.0), $5,
+            ST_SetSRID(ST_MakePoint($6, $7), 4326)::geography, ST_SetSRID(ST_MakePoint($8, $9), 4326)::geography,
+            $10, $11, $12
+          )
+          ON CONFLICT (device_id, started_at) DO UPDATE SET
+            ended_at = EXCLUDED.ended_at,
+            in_progress = EXCLUDED.in_progress,
+            end_loc = EXCLUDED.end_loc,
+            distance_m = EXCLUDED.distance_m,
+            max_speed_mps = EXCLUDED.max_speed_mps,
+            point_count = EXCLUDED.point_count,
+            updated_at = NOW()
+        `,
+        [
+          accountId,
+          deviceId,
+          trip.startedAt,
+          trip.endedAt,
+          trip.inProgress,
+          trip.start.lon,
+          trip.start.lat,
+          trip.end.lon,
+          trip.end.lat,
+          trip.distanceM,
+          trip.maxSpeedMps,
+          trip.pointCount
+        ]
+      );
+    }
+
+    for (const stop of stops) {
+      await this.pgClient.query(
+        `
+          INSERT INTO device_stops (account_id, device_id, arrived_at, departed_at, in_progress, loc, point_count)
+          VALUES (
+            $1, $2, to_timestamp($3 / 1000.0), to_timestamp($4 / 1000.0), $5,
+            ST_SetSRID(ST_MakePoint($6, $7), 4326)::geography, $8
+          )
+          ON CONFLICT (device_id, arrived_at) DO UPDATE SET
+            departed_at = EXCLUDED.departed_at,
+            in_progress = EXCLUDED.in_progress,
+            point_count = EXCLUDED.point_count,
+            updated_at = NOW()
+        `,
+        [accountId, deviceId, stop.arrivedAt, stop.departedAt, stop.inProgress, stop.lon, stop.lat, stop.pointCount]
+      );
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { TripPoint, TripThresholds, initialSegmentationState, segmentLocations } from './segmentation.js';
+
+const thresholds: TripThresholds = { stopSpeedMps: 1, minStopSeconds: 120, maxGapSeconds: 600 };
+
+const T0 = Date.UTC(2026, 0, 5, 8, 0, 0);
+const LAT = 52;
+const LON = 13;
+
+// 0.001° of latitude is about 111 m
+const STEP_M = 111.19;
+
+const at = (seconds: number, lat: number, speedMps: number | null = null): TripPoint => ({
+  ts: T0 + seconds * 1000,
+  lat,
+  lon: LON,
+  speedMps
+});
+
+// Driving north at about 11 m/s, one fix every 10 s
+const drive = (fromSeconds: number, toSeconds: number, fromLat = LAT): TripPoint[] => {
+  const points: TripPoint[] = [];
+  for (let s = fromSeconds; s <= toSeconds; s += 10) {
+    points.push(at(s, fromLat + ((s - fromSeconds) / 10) * 0.001, 11));
+  }
+  return points;
+};
+
+// Standing still, one fix every 10 s
+const wait = (fromSeconds: number, toSeconds: number, lat: number): TripPoint[] => {
+  const points: TripPoint[] = [];
+  for (let s = fromSeconds; s <= toSeconds; s += 10) points.push(at(s, lat, 0));
+  return points;
+};
+
+describe('segmentLocations', () => {
+  it('ends a trip where the device slowed down once it has stayed long enough', () => {
+    const arrival = LAT + 0.01;
+    const result = segmentLocations(
+      initialSegmentationState(),
+      [...drive(0, 100), ...wait(110, 300, arrival)],
+      thresholds
+    );
+
+    expect(result.trips).toHaveLength(1);
+    expect(result.trips[0]).toMatchObject({ startedAt: T0, endedAt: T0 + 110_000, inProgress: false });
+    expect(result.trips[0].distanceM).toBeCloseTo(10 * STEP_M, -1);
+
+    expect(result.stops).toHaveLength(1);
+    expect(result.stops[0]).toMatchObject({
+      arrivedAt: T0 + 110_000,
+      departedAt: T0 + 300_000,
+      lat: arrival,
+      inProgress: true
+    });
+    expect(result.discardedTrips).toEqual([]);
+  });
+
+  it('treats a gap in reporting at the same place as a stop', () => {
+    const result = segmentLocations(
+      initialSegmentationState(),
+      [...drive(0, 100), at(1100, LAT + 0.01, 0)],
+      thresholds
+    );
+
+    expect(result.trips).toHaveLength(1);
+    expect(result.trips[0]).toMatchObject({ startedAt: T0, endedAt: T0 + 100_000, inProgress: false });
+
+    expect(result.stops).toHaveLength(1);
+    expect(result.stops[0]).toMatchObject({
+      arrivedAt: T0 + 100_000,
+      departedAt: T0 + 1_100_000,
+      pointCount: 2,
+      inProgress: true
+    });
+  });
+
+  it('ends the trip at a gap after which the device is somewhere else', () => {
+    const result = segmentLocations(
+      initialSegmentationState(),
+      [...drive(0, 100), ...drive(1100, 1120, LAT + 0.05)],
+      thresholds
+    );
+
+    expect(result.trips).toHaveLength(2);
+    expect(result.trips[0]).toMatchObject({ startedAt: T0, endedAt: T0 + 100_000, inProgress: false });
+    expect(result.trips[1]).toMatchObject({ startedAt: T0 + 1_100_000, endedAt: T0 + 1_120_000, inProgress: true });
+    expect(result.trips[1].pointCount).toBe(3);
+    expect(result.stops).toEqual([]);
+  });
+
+  it('discards drift away from a stop and continues the stop', () => {
+    const stopped = segmentLocations(initialSegmentationState(), wait(0, 150, LAT), thresholds);
+    expect(stopped.stops).toHaveLength(1);
+    expect(stopped.stops[0]).toMatchObject({ arrivedAt: T0, pointCount: 16, inProgress: true });
+
+    // 56 m out, then back to 28 m from where the device stopped: 83 m in all
+    const result = segmentLocations(
+      stopped.state,
+      [at(160, LAT + 0.0005, 3), ...wait(170, 290, LAT + 0.00025)],
+      thresholds
+    );
+
+    expect(result.discardedTrips).toEqual([T0 + 150_000]);
+    expect(result.trips).toEqual([]);
+    expect(result.stops).toHaveLength(1);
+    expect(result.stops[0]).toMatchObject({
+      arrivedAt: T0,
+      departedAt: T0 + 290_000,
+      lat: LAT,
+      pointCount: 29,
+      inProgress: true
+    });
+    expect(result.state.trip).toBeNull();
+  });
+
+  it('skips points older than ones already segmented', () => {
+    const first = segmentLocations(initialSegmentationState(), drive(0, 20), thresholds);
+    const result = segmentLocations(
+      first.state,
+      // The 15 s fix arrives late, and the one in the same batch is out of order too
+      [at(15, LAT + 1, 11), at(30, LAT + 0.003, 11), at(25, LAT - 1, 11)],
+      thresholds
+    );
+
+    expect(result.trips).toHaveLength(1);
+    expect(result.trips[0]).toMatchObject({ startedAt: T0, endedAt: T0 + 30_000, pointCount: 4, inProgress: true });
+    expect(result.trips[0].distanceM).toBeCloseTo(3 * STEP_M, -1);
+    expect(result.state.last?.ts).toBe(T0 + 30_000);
+  });
+});
@@ -0,0 +1,270 @@
+import { calculateDistance } from '@geofence/shared';
+
+// Fixes this close to where a device came to rest count as the same stop
+const STOP_RADIUS_METERS = 50;
+
+// Shorter trips are taken to be position drift while stopped and dropped
+const MIN_TRIP_DISTANCE_METERS = 100;
+
+export interface TripThresholds {
+  stopSpeedMps: number;
+  minStopSeconds: number;
+  maxGapSeconds: number;
+}
+
+export interface TripPoint {
+  ts: number; // Epoch milliseconds
+  lat: number;
+  lon: number;
+  speedMps: number | null; // Reported speed; without one it's worked out from the previous point
+}
+
+export interface TripSegment {
+  startedAt: number;
+  endedAt: number; // The latest point while the trip is in progress
+  start: { lat: number; lon: number };
+  end: { lat: number; lon: number };
+  distanceM: number;
+  maxSpeedMps: number;
+  pointCount: number;
+  inProgress: boolean;
+}
+
+export interface StopSegment {
+  arrivedAt: number;
+  departedAt: number; // The latest point while the device is still there
+  lat: number;
+  lon: number;
+  pointCount: number;
+  inProgress: boolean;
+}
+
+// Slow points near one place during a trip, which become a stop once they last minStopSeconds
+interface StillCandidate {
+  since: number;
+  lat: number;
+  lon: number;
+  pointCount: number;
+  // The trip as it was when the device slowed down, so the stop can be cut off its end
+  tripDistanceM: number;
+  tripPointCount: number;
+}
+
+// Kept per device between batches of locations
+export interface SegmentationState {
+  last: TripPoint | null;
+  trip: (TripSegment & { fromStop: StopSegment | null }) | null;
+  stop: StopSegment | null;
+  still: StillCandidate | null;
+}
+
+export interface SegmentationResult {
+  state: SegmentationState;
+  trips: TripSegment[]; // Latest version of every trip the points changed
+  stops: StopSegment[];
+  discardedTrips: number[]; // Start times of trips that turned out to be drift
+}
+
+export const initialSegmentationState = (): SegmentationState => ({
+  last: null,
+  trip: null,
+  stop: null,
+  still: null
+});
+
+/**
+ * Splits a device's locations, oldest first, into trips and the stops between them.
+ * A device stopping for minStopSeconds within a few tens of meters ends its trip there,
+ * and moving away from the stop starts the next one. A gap in reporting longer than
+ * maxGapSeconds ends a trip, unless the device is found where it was, which is a stop.
+ */
+export function segmentLocations(
+  previous: SegmentationState,
+  points: TripPoint[],
+  thresholds: TripThresholds
+): SegmentationResult {
+  const state: SegmentationState = { ...previous };
+  const trips = new Map<number, TripSegment>();
+  const stops = new Map<number, StopSegment>();
+  const discardedTrips: number[] = [];
+
+  // Copies just the segment, leaving out what's only kept in the state
+  const saveTrip = (trip: TripSegment) => trips.set(trip.startedAt, {
+    startedAt: trip.startedAt,
+    endedAt: trip.endedAt,
+    start: { ...trip.start },
+    end: { ...trip.end },
+    distanceM: trip.distanceM,
+    maxSpeedMps: trip.maxSpeedMps,
+    pointCount: trip.pointCount,
+    inProgress: trip.inProgress
+  });
+  const saveStop = (stop: StopSegment) => stops.set(stop.arrivedAt, { ...stop });
+
+  // Ends the trip at the given point, or drops it as drift. Drift away from a stop and back
+  // again continues that stop, which is returned.
+  const endTrip = (endedAt: number, end: { lat: number; lon: number }, distanceM: number, pointCount: number) => {
+    const trip = state.trip!;
+    state.trip = null;
+
+    if (distanceM >= MIN_TRIP_DISTANCE_METERS) {
+      saveTrip({ ...trip, endedAt, end, distanceM, pointCount, inProgress: false });
+      return null;
+    }
+
+    discardedTrips.push(trip.startedAt);
+    trips.delete(trip.startedAt);
+    const fromStop = trip.fromStop;
+    if (fromStop && calculateDistance(fromStop.lat, fromStop.lon, end.lat, end.lon) <= STOP_RADIUS_METERS) {
+      return fromStop;
+    }
+    return null;
+  };
+
+  const startStop = (arrivedAt: number, lat: number, lon: number, departedAt: number, pointCount: number) => {
+    state.stop = { arrivedAt, departedAt, lat, lon, pointCount, inProgress: true };
+    state.still = null;
+    saveStop(state.stop);
+  };
+
+  const continueStop = (stop: StopSegment, at: number, pointCount: number) => {
+    state.stop = { ...stop, departedAt: at, pointCount: stop.pointCount + pointCount, inProgress: true };
+    state.still = null;
+    saveStop(state.stop);
+  };
+
+  // Moves the trip, stop or stop candidate on to a point that follows last without a long gap
+  const addPoint = (point: TripPoint, last: TripPoint | null = null, elapsedSeconds = 0, stepM = 0) => {
+    state.last = point;
+    const speedMps = point.speedMps ?? (elapsedSeconds > 0 ? stepM / elapsedSeconds : 0);
+    const isSlow = speedMps <= thresholds.stopSpeedMps;
+
+    if (state.stop) {
+      if (calculateDistance(state.stop.lat, state.stop.lon, point.lat, point.lon) <= STOP_RADIUS_METERS) {
+        continueStop(state.stop, point.ts, 1);
+        return;
+      }
+
+      // Leaving the stop starts a trip from its last point there
+      const stop: StopSegment = { ...state.stop, departedAt: last!.ts, inProgress: false };
+      saveStop(stop);
+      state.stop = null;
+      state.trip = {
+        startedAt: last!.ts,
+        endedAt: point.ts,
+        start: { lat: last!.lat, lon: last!.lon },
+        end: { lat: point.lat, lon: point.lon },
+        distanceM: stepM,
+        maxSpeedMps: speedMps,
+        pointCount: 2,
+        inProgress: true,
+        fromStop: stop
+      };
+    } else if (state.trip) {
+      state.trip = {
+        ...state.trip,
+        endedAt: point.ts,
+        end: { lat: point.lat, lon: point.lon },
+        distanceM: state.trip.distanceM + stepM,
+        maxSpeedMps: Math.max(state.trip.maxSpeedMps, speedMps),
+        pointCount: state.trip.pointCount + 1
+      };
+    } else if (!isSlow || (state.still &&
+      calculateDistance(state.still.lat, state.still.lon, point.lat, point.lon) > STOP_RADIUS_METERS)) {
+      // Moving without a trip or stop yet, so the trip starts from the previous point
+      const from = last ?? point;
+      state.trip = {
+        startedAt: from.ts,
+        endedAt: point.ts,
+        start: { lat: from.lat, lon: from.lon },
+        end: { lat: point.lat, lon: point.lon },
+        distanceM: stepM,
+        maxSpeedMps: speedMps,
+        pointCount: last ? 2 : 1,
+        inProgress: true,
+        fromStop: null
+      };
+      state.still = null;
+    }
+
+    const still = state.still;
+    if (isSlow && still && calculateDistance(still.lat, still.lon, point.lat, point.lon) <= STOP_RADIUS_METERS) {
+      state.still = { ...still, pointCount: still.pointCount + 1 };
+    } else if (isSlow) {
+      state.still = {
+        since: point.ts,
+        lat: point.lat,
+        lon: point.lon,
+        pointCount: 1,
+        tripDistanceM: state.trip?.distanceM ?? 0,
+        tripPointCount: state.trip?.pointCount ?? 0
+      };
+    } else {
+      state.still = null;
+    }
+
+    const candidate = state.still;
+    if (candidate && (point.ts - candidate.since) / 1000 >= thresholds.minStopSeconds) {
+      // The trip ends where the device slowed down, and the stop starts there
+      const resumed = state.trip
+        ? endTrip(candidate.since, { lat: candidate.lat, lon: candidate.lon }, candidate.tripDistanceM,
+          candidate.tripPointCount)
+        : null;
+      if (resumed) {
+        continueStop(resumed, point.ts, candidate.pointCount);
+      } else {
+        startStop(candidate.since, candidate.lat, candidate.lon, point.ts, candidate.pointCount);
+      }
+    } else if (state.trip) {
+      saveTrip(state.trip);
+    }
+  };
+
+  for (const point of points) {
+    const last = state.last;
+    // Locations older than ones already segmented are left out
+    if (last && point.ts <= last.ts) continue;
+
+    const elapsedSeconds = last ? (point.ts - last.ts) / 1000 : 0;
+    const stepM = last ? calculateDistance(last.lat, last.lon, point.lat, point.lon) : 0;
+    state.last = point;
+
+    if (last && elapsedSeconds > thresholds.maxGapSeconds) {
+      if (state.stop) {
+        if (calculateDistance(state.stop.lat, state.stop.lon, point.lat, point.lon) <= STOP_RADIUS_METERS) {
+          continueStop(state.stop, point.ts, 1);
+          continue;
+        }
+        saveStop({ ...state.stop, inProgress: false });
+        state.stop = null;
+      } else if (state.trip) {
+        const resumed = endTrip(last.ts, { lat: last.lat, lon: last.lon }, state.trip.distanceM, state.trip.pointCount);
+        // The device was switched off or out of coverage without moving
+        if (stepM <= STOP_RADIUS_METERS) {
+          if (resumed) {
+            continueStop(resumed, point.ts, 1);
+          } else {
+            startStop(last.ts, last.lat, last.lon, point.ts, 2);
+          }
+          continue;
+        }
+        if (resumed) saveStop({ ...resumed, inProgress: false });
+      }
+
+      // Nothing is known about how the device got here, so it starts afresh
+      state.still = null;
+      state.last = null;
+      addPoint(point);
+      continue;
+    }
+
+    addPoint(point, last, elapsedSeconds, stepM);
+  }
+
+  return {
+    state,
+    trips: [...trips.values()],
+    stops: [...stops.values()],
+    discardedTrips
+  };
+}
@@ -4,6 +4,7 @@ import { Logger } from 'pino';
 import { createHmac } from 'crypto';
 import { z } from 'zod';
 import { Pool } from 'pg';
+import { BleSightingSchema, MAX_BEACON_SIGHTINGS, WifiSightingSchema } from '@geofence/shared';
 
 interface MqttIngestionConfig {
   mqtt: {
@@ -26,6 +27,7 @@ const LocationPayloadSchema = z.object({
   lon: z.number(),
   speedMps: z.number().optional(),
   accuracyM: z.number().optional(),
+  altitudeM: z.number().optional(),
   batteryPct: z.number().optional(),
   attrs: z.record(z.any()).optional(),
   sig: z.string()
@@ -40,10 +42,34 @@ const RawEventSchema = z.object({
   lon: z.number(),
   speedMps: z.number().optional(),
   accuracyM: z.number().optional(),
+  altitudeM: z.number().optional(),
   batteryPct: z.number().optional(),
   attrs: z.record(z.any()).optional()
 });
 
+/**
+ * Keeps the well-formed BLE beacon and Wi-Fi sightings in a report's attrs, strongest
+ * first and at most MAX_BEACON_SIGHTINGS of each.
+ */
+function normalizeSightings(attrs: Record<string, any> | undefined): Record<string, any> | undefined {
+  if (!attrs) return attrs;
+
+  const normalized = { ...attrs };
+  for (const [field, schema] of [['beacons', BleSightingSchema], ['wifi', WifiSightingSchema]] as const) {
+    if (attrs[field] === undefined) continue;
+
+    const sightings: unknown[] = Array.isArray(attrs[field]) ? attrs[field] : [];
+    normalized[field] = sightings
+      .flatMap(sighting => {
+        const parsed = schema.safeParse(sighting);
+        return parsed.success ? [parsed.data] : [];
+      })
+      .sort((a, b) => b.rssi - a.rssi)
+      .slice(0, MAX_BEACON_SIGHTINGS);
+  }
+  return normalized;
+}
+
 export class MqttIngestionService {
   private mqttClient: MqttClient | null = null;
   private kafkaProducer: Producer;
@@ -294,8 +320,9 @@ export class MqttIngestionService {
         lon: locationData.lon,
         speedMps: locationData.speedMps,
         accuracyM: locationData.accuracyM,
+        altitudeM: locationData.altitudeM,
         batteryPct: locationData.batteryPct,
-        attrs: locationData.attrs
+        attrs: normalizeSightings(locationData.attrs)
       });
 
       // Publish to Kafka
@@ -12,5 +12,6 @@ GRANT ALL ON SCHEMA public TO geofence_user;
 -- Topics to create in Kafka/Redpanda:
 -- raw_events - MQTT location data after validation
 -- gf_events - Geofence enter/exit/dwell events  
+-- geofence_changes - Geofence create/update/delete notifications for the engine's spatial index
 -- automations - Automation trigger events
 -- dlq - Dead letter queue for failed messages
\ No newline at end of file
@@ -0,0 +1,11 @@
+-- Migration: add_confidence_to_geofence_events
+-- Created: 2026-10-18T09:00:00.000Z
+
+-- Probability (0-1) that the device was on the new side of the boundary when the
+-- transition was emitted. NULL for dwell events and events recorded before this column.
+ALTER TABLE geofence_events
+  ADD COLUMN IF NOT EXISTS confidence REAL CHECK (confidence >= 0 AND confidence <= 1);
+
+-- Set when the triggering fix was less accurate than the GPS accuracy threshold
+ALTER TABLE geofence_events
+  ADD COLUMN IF NOT EXISTS low_accuracy BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,8 @@
+-- Migration: add_reason_to_geofence_events
+-- Created: 2026-10-18T10:00:00.000Z
+
+-- Why the engine emitted an event that was not triggered by a location crossing a
+-- boundary, e.g. 'schedule' when a geofence's active window opened or closed.
+-- NULL for ordinary location-driven events.
+ALTER TABLE geofence_events
+  ADD COLUMN IF NOT EXISTS reason TEXT;
@@ -0,0 +1,29 @@
+-- Migration: add_corridor_geofences
+-- Created: 2026-10-18T11:00:00.000Z
+
+-- Corridor geofences are a route LineString stored in geometry plus a width in
+-- meters; a device is inside while it is within width_m / 2 of the line.
+ALTER TYPE geofence_type ADD VALUE IF NOT EXISTS 'corridor';
+
+ALTER TABLE geofences
+  ADD COLUMN IF NOT EXISTS width_m REAL;
+
+-- New enum values can't be referenced as literals in the transaction that adds
+-- them, so the constraint compares the type as text
+ALTER TABLE geofences DROP CONSTRAINT IF EXISTS geofences_radius_check;
+ALTER TABLE geofences ADD CONSTRAINT geofences_radius_check CHECK (
+    (geofence_type::text = 'circle' AND radius_m IS NOT NULL) OR
+    (geofence_type::text <> 'circle' AND radius_m IS NULL)
+);
+
+ALTER TABLE geofences ADD CONSTRAINT geofences_width_check CHECK (
+    (geofence_type::text = 'corridor') = (width_m IS NOT NULL AND width_m > 0)
+);
+
+-- Emitted for devices assigned to a corridor when they leave it and when they come back
+ALTER TYPE gf_event_type ADD VALUE IF NOT EXISTS 'deviation';
+ALTER TYPE gf_event_type ADD VALUE IF NOT EXISTS 'rejoin';
+
+-- Distance in meters from the corridor's route line for deviation and rejoin events
+ALTER TABLE geofence_events
+  ADD COLUMN IF NOT EXISTS distance_m REAL;
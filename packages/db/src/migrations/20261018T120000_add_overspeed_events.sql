@@ -0,0 +1,12 @@
+-- Migration: add_overspeed_events
+-- Created: 2026-10-18T12:00:00.000Z
+
+-- Emitted when a device inside a geofence with metadata.speedLimit stays over the
+-- limit for the configured duration, and when it drops back under it
+ALTER TYPE gf_event_type ADD VALUE IF NOT EXISTS 'overspeed';
+ALTER TYPE gf_event_type ADD VALUE IF NOT EXISTS 'speed_normal';
+
+-- Peak and average speed (m/s) over the readings above the limit, on overspeed and speed_normal events
+ALTER TABLE geofence_events
+  ADD COLUMN IF NOT EXISTS peak_speed_mps REAL,
+  ADD COLUMN IF NOT EXISTS avg_speed_mps REAL;
@@ -0,0 +1,12 @@
+-- Migration: add_occupancy_events
+-- Created: 2026-10-18T13:00:00.000Z
+
+-- Emitted when the number of devices inside a geofence with metadata.occupancy goes
+-- over its capacity, and when it is back within it
+ALTER TYPE gf_event_type ADD VALUE IF NOT EXISTS 'occupancy_above';
+ALTER TYPE gf_event_type ADD VALUE IF NOT EXISTS 'occupancy_below';
+
+-- Devices inside the geofence right after the crossing; the event's device is the one whose
+-- enter or exit caused it
+ALTER TABLE geofence_events
+  ADD COLUMN IF NOT EXISTS occupancy INTEGER;
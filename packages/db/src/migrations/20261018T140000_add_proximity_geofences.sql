@@ -0,0 +1,28 @@
+-- Migration: add_proximity_geofences
+-- Created: 2026-10-18T14:00:00.000Z
+
+-- Proximity geofences are a circle of radius_m that follows an anchor device's last
+-- known location. Devices in the follower group get proximity_enter/proximity_exit
+-- events as they come within or go beyond the radius. The stored geometry is only
+-- the anchor's location when the geofence was created.
+ALTER TYPE geofence_type ADD VALUE IF NOT EXISTS 'proximity';
+
+ALTER TABLE geofences
+  ADD COLUMN IF NOT EXISTS anchor_device_id UUID REFERENCES devices(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS follower_group_id UUID REFERENCES device_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_geofences_anchor_device_id ON geofences (anchor_device_id)
+  WHERE anchor_device_id IS NOT NULL;
+
+ALTER TABLE geofences DROP CONSTRAINT IF EXISTS geofences_radius_check;
+ALTER TABLE geofences ADD CONSTRAINT geofences_radius_check CHECK (
+    (geofence_type::text IN ('circle', 'proximity') AND radius_m IS NOT NULL) OR
+    (geofence_type::text NOT IN ('circle', 'proximity') AND radius_m IS NULL)
+);
+
+ALTER TABLE geofences ADD CONSTRAINT geofences_anchor_check CHECK (
+    (geofence_type::text = 'proximity') = (anchor_device_id IS NOT NULL)
+);
+
+ALTER TYPE gf_event_type ADD VALUE IF NOT EXISTS 'proximity_enter';
+ALTER TYPE gf_event_type ADD VALUE IF NOT EXISTS 'proximity_exit';
@@ -0,0 +1,11 @@
+-- Migration: add_interpolated_events
+-- Created: 2026-10-18T15:00:00.000Z
+
+-- Enter/exit events estimated from the straight path between two locations that were
+-- both outside the geofence, with ts interpolated along it
+ALTER TABLE geofence_events
+  ADD COLUMN IF NOT EXISTS interpolated BOOLEAN NOT NULL DEFAULT false;
+
+-- Rules act on interpolated events unless they opt out
+ALTER TABLE automation_rules
+  ADD COLUMN IF NOT EXISTS include_interpolated BOOLEAN NOT NULL DEFAULT true;
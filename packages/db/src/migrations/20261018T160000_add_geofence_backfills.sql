@@ -0,0 +1,27 @@
+-- Migration: add_geofence_backfills
+-- Created: 2026-10-18T16:00:00.000Z
+
+-- Events written by a backfill replaying stored location_events; they are never
+-- published, so no deliveries are created for them
+ALTER TABLE geofence_events
+  ADD COLUMN IF NOT EXISTS historical BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill jobs, claimed and run by the geofence engine
+CREATE TABLE IF NOT EXISTS geofence_backfills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  geofence_id UUID NOT NULL REFERENCES geofences(id) ON DELETE CASCADE,
+  from_ts TIMESTAMPTZ NOT NULL,
+  to_ts TIMESTAMPTZ NOT NULL CHECK (to_ts > from_ts),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  total_locations INTEGER,
+  processed_locations INTEGER NOT NULL DEFAULT 0,
+  events_created INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofence_backfills_geofence ON geofence_backfills (geofence_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_geofence_backfills_pending ON geofence_backfills (created_at) WHERE status = 'pending';
@@ -0,0 +1,88 @@
+-- Migration: add_geofence_hierarchy
+-- Created: 2026-10-18T17:00:00.000Z
+
+-- Geofences can be nested (campus -> building -> loading bay). A child must lie within
+-- its parent; removing a parent makes its children top-level. With include_children,
+-- a device inside any descendant is treated as inside the geofence itself.
+ALTER TABLE geofences
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES geofences(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS include_children BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_geofences_parent_id ON geofences (parent_id) WHERE parent_id IS NOT NULL;
+
+-- Area covered by a geofence; corridors cover their route line widened to width_m
+CREATE OR REPLACE FUNCTION geofence_area(geometry GEOMETRY, geofence_type TEXT, width_m DOUBLE PRECISION)
+RETURNS GEOMETRY AS $$
+  SELECT CASE
+    WHEN geofence_type = 'corridor' THEN ST_Buffer(geometry::geography, width_m / 2)::geometry
+    ELSE geometry
+  END;
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Rejects a parent from another account, hierarchies with proximity geofences (they move),
+-- cycles, and children that stick out of their parent, including after the parent changes
+CREATE OR REPLACE FUNCTION validate_geofence_hierarchy()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO parent FROM geofences WHERE id = NEW.parent_id;
+
+    IF NOT FOUND OR parent.account_id <> NEW.account_id THEN
+      RAISE EXCEPTION 'Parent geofence not found'
+        USING ERRCODE = 'check_violation', CONSTRAINT = 'geofences_hierarchy_check';
+    END IF;
+
+    IF parent.geofence_type::text = 'proximity' OR NEW.geofence_type::text = 'proximity' THEN
+      RAISE EXCEPTION 'Proximity geofences cannot be part of a hierarchy'
+        USING ERRCODE = 'check_violation', CONSTRAINT = 'geofences_hierarchy_check';
+    END IF;
+
+    IF EXISTS (
+      WITH RECURSIVE ancestors AS (
+        SELECT id, parent_id FROM geofences WHERE id = NEW.parent_id
+        UNION
+        SELECT g.id, g.parent_id FROM geofences g JOIN ancestors a ON g.id = a.parent_id
+      )
+      SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+      RAISE EXCEPTION 'A geofence cannot be nested inside itself or one of its children'
+        USING ERRCODE = 'check_violation', CONSTRAINT = 'geofences_hierarchy_check';
+    END IF;
+
+    IF NOT ST_CoveredBy(
+      geofence_area(NEW.geometry, NEW.geofence_type::text, NEW.width_m),
+      geofence_area(parent.geometry, parent.geofence_type::text, parent.width_m)
+    ) THEN
+      RAISE EXCEPTION 'Geofence must lie within its parent geofence'
+        USING ERRCODE = 'check_violation', CONSTRAINT = 'geofences_hierarchy_check';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND EXISTS (
+    SELECT 1 FROM geofences child
+    WHERE child.parent_id = NEW.id
+      AND NOT ST_CoveredBy(
+        geofence_area(child.geometry, child.geofence_type::text, child.width_m),
+        geofence_area(NEW.geometry, NEW.geofence_type::text, NEW.width_m)
+      )
+  ) THEN
+    RAISE EXCEPTION 'Geofence must cover all of its child geofences'
+      USING ERRCODE = 'check_violation', CONSTRAINT = 'geofences_hierarchy_check';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_geofence_hierarchy ON geofences;
+CREATE TRIGGER validate_geofence_hierarchy
+  BEFORE INSERT OR UPDATE OF parent_id, geometry, width_m ON geofences
+  FOR EACH ROW EXECUTE FUNCTION validate_geofence_hierarchy();
+
+-- Ancestors of the geofence when the event happened, root first
+ALTER TABLE geofence_events
+  ADD COLUMN IF NOT EXISTS ancestry UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_geofence_events_ancestry ON geofence_events USING GIN (ancestry);
@@ -0,0 +1,42 @@
+-- Migration: add_geofence_revisions
+-- Created: 2026-10-18T18:00:00.000Z
+
+-- Every shape a geofence has had, numbered from 1 per geofence. The geofence's current
+-- shape is its highest revision; a rollback adds a new revision copying an older one.
+CREATE TABLE IF NOT EXISTS geofence_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  geofence_id UUID NOT NULL REFERENCES geofences(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL CHECK (revision > 0),
+  geometry GEOMETRY(GEOMETRY, 4326) NOT NULL,
+  radius_m REAL,
+  width_m REAL,
+  author_id UUID, -- NULL for revisions recorded before revisions were tracked
+  author_email TEXT,
+  rolled_back_from INTEGER, -- Revision restored, when this revision is a rollback
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (geofence_id, revision)
+);
+
+-- Revisions are a history, so they are never edited
+CREATE OR REPLACE FUNCTION reject_geofence_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Geofence revisions cannot be modified';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reject_geofence_revision_update ON geofence_revisions;
+CREATE TRIGGER reject_geofence_revision_update
+  BEFORE UPDATE ON geofence_revisions
+  FOR EACH ROW EXECUTE FUNCTION reject_geofence_revision_update();
+
+-- Existing geofences start at revision 1 with their current shape
+INSERT INTO geofence_revisions (geofence_id, account_id, revision, geometry, radius_m, width_m, created_at)
+SELECT id, account_id, 1, geometry, radius_m, width_m, COALESCE(updated_at, created_at, NOW())
+FROM geofences
+ON CONFLICT (geofence_id, revision) DO NOTHING;
+
+-- Revision of the geofence's shape that produced the event
+ALTER TABLE geofence_events
+  ADD COLUMN IF NOT EXISTS revision_id UUID REFERENCES geofence_revisions(id) ON DELETE SET NULL;
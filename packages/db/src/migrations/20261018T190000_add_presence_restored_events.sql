@@ -0,0 +1,7 @@
+-- Migration: add_presence_restored_events
+-- Created: 2026-10-18T19:00:00.000Z
+
+-- A device that stops reporting while inside a geofence gets an exit with reason 'timeout'
+-- once the presence timeout passes. When it reports from inside again, presence_restored
+-- is emitted instead of a second enter.
+ALTER TYPE gf_event_type ADD VALUE IF NOT EXISTS 'presence_restored';
@@ -0,0 +1,12 @@
+-- Migration: add_polygon_shape_check
+-- Created: 2026-10-18T20:00:00.000Z
+
+-- Polygon geofences can have holes (a yard without its office building) and several
+-- parts (every store in a district). Their shape is stored as a Polygon or MultiPolygon
+-- and must be valid, so holes lie inside their outer ring and parts don't overlap.
+-- Existing rows are not re-checked.
+ALTER TABLE geofences
+  ADD CONSTRAINT geofences_polygon_shape_check CHECK (
+    geofence_type::text <> 'polygon'
+    OR (GeometryType(geometry) IN ('POLYGON', 'MULTIPOLYGON') AND ST_IsValid(geometry))
+  ) NOT VALID;
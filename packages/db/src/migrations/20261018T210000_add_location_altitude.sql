@@ -0,0 +1,7 @@
+-- Migration: add_location_altitude
+-- Created: 2026-10-18T21:00:00.000Z
+
+-- Altitude reported with a fix, in meters. Geofences limited to a level of a multi-storey
+-- site (metadata.level) match it against their altitude range; the floor a device reports
+-- is kept in the payload with its other attributes.
+ALTER TABLE location_events ADD COLUMN IF NOT EXISTS altitude_m REAL;
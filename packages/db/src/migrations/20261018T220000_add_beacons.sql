@@ -0,0 +1,36 @@
+-- Migration: add_beacons
+-- Created: 2026-10-18T22:00:00.000Z
+
+-- BLE beacons and Wi-Fi access points installed in a geofence, for indoor zones where GPS
+-- is unusable. A geofence with beacons registered is entered and left by the strongest
+-- recent sighting devices report in attrs.beacons / attrs.wifi, instead of by its shape.
+CREATE TABLE IF NOT EXISTS beacons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  geofence_id UUID NOT NULL REFERENCES geofences(id) ON DELETE CASCADE,
+  beacon_type TEXT NOT NULL CHECK (beacon_type IN ('ble', 'wifi')),
+  uuid UUID, -- iBeacon proximity UUID, major and minor
+  major INTEGER CHECK (major BETWEEN 0 AND 65535),
+  minor INTEGER CHECK (minor BETWEEN 0 AND 65535),
+  bssid MACADDR, -- Wi-Fi access point
+  name TEXT,
+  min_rssi SMALLINT NOT NULL DEFAULT -90, -- Weaker sightings (dBm) are ignored
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT beacons_identifier_check CHECK (
+    (beacon_type = 'ble' AND uuid IS NOT NULL AND major IS NOT NULL AND minor IS NOT NULL AND bssid IS NULL)
+    OR (beacon_type = 'wifi' AND bssid IS NOT NULL AND uuid IS NULL AND major IS NULL AND minor IS NULL)
+  )
+);
+
+-- A beacon can only mark one zone of an account
+CREATE UNIQUE INDEX IF NOT EXISTS beacons_ble_identifier_idx
+  ON beacons (account_id, uuid, major, minor) WHERE beacon_type = 'ble';
+CREATE UNIQUE INDEX IF NOT EXISTS beacons_wifi_identifier_idx
+  ON beacons (account_id, bssid) WHERE beacon_type = 'wifi';
+CREATE INDEX IF NOT EXISTS idx_beacons_geofence ON beacons (geofence_id);
+
+DROP TRIGGER IF EXISTS update_beacons_updated_at ON beacons;
+CREATE TRIGGER update_beacons_updated_at
+  BEFORE UPDATE ON beacons
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
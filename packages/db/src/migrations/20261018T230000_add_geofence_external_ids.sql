@@ -0,0 +1,9 @@
+-- Migration: add_geofence_external_ids
+-- Created: 2026-10-18T23:00:00.000Z
+
+-- The ID a geofence has in the GIS tool it was imported from, so importing the same file
+-- again updates the geofences it created instead of adding copies
+ALTER TABLE geofences ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS geofences_external_id_idx
+  ON geofences (account_id, external_id) WHERE external_id IS NOT NULL;
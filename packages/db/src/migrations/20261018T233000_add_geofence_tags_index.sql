@@ -0,0 +1,6 @@
+-- Migration: add_geofence_tags_index
+-- Created: 2026-10-18T23:30:00.000Z
+
+-- Geofence tags live in metadata.tags; batch location tests filter on them with ?|
+CREATE INDEX IF NOT EXISTS geofences_metadata_tags_idx
+  ON geofences USING GIN ((metadata->'tags'));
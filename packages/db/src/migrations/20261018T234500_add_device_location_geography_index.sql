@@ -0,0 +1,7 @@
+-- Migration: add_device_location_geography_index
+-- Created: 2026-10-18T23:45:00.000Z
+
+-- The nearby and within device queries measure in meters on last_location::geography,
+-- which the geometry index on last_location can't serve
+CREATE INDEX IF NOT EXISTS idx_devices_last_location_geography
+  ON devices USING GIST ((last_location::geography));
@@ -0,0 +1,60 @@
+-- Migration: add_device_trips_and_stops
+-- Created: 2026-10-18T23:55:00.000Z
+
+-- Trips and stops derived from location_events by the geofence engine's trip segmenter.
+-- The one a device is currently in has in_progress set and ends at its latest fix.
+CREATE TABLE IF NOT EXISTS device_trips (
+  id BIGSERIAL PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  device_id UUID NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NOT NULL,
+  in_progress BOOLEAN NOT NULL DEFAULT true,
+  start_loc GEOGRAPHY(POINT, 4326) NOT NULL,
+  end_loc GEOGRAPHY(POINT, 4326) NOT NULL,
+  distance_m DOUBLE PRECISION NOT NULL DEFAULT 0,
+  max_speed_mps REAL NOT NULL DEFAULT 0,
+  point_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (device_id, started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_trips_device_started
+  ON device_trips (device_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS device_stops (
+  id BIGSERIAL PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  device_id UUID NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  arrived_at TIMESTAMPTZ NOT NULL,
+  departed_at TIMESTAMPTZ NOT NULL,
+  in_progress BOOLEAN NOT NULL DEFAULT true,
+  loc GEOGRAPHY(POINT, 4326) NOT NULL,
+  point_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (device_id, arrived_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_stops_device_arrived
+  ON device_stops (device_id, arrived_at DESC);
+
+-- Where segmentation of each device's locations has got to, and what it was in the middle of
+CREATE TABLE IF NOT EXISTS device_trip_state (
+  device_id UUID PRIMARY KEY REFERENCES devices(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  last_ts TIMESTAMPTZ NOT NULL,
+  last_event_id BIGINT NOT NULL,
+  state JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The highest location_events id the segmenter has looked at, to find devices with new locations
+CREATE TABLE IF NOT EXISTS trip_segmentation_progress (
+  singleton BOOLEAN PRIMARY KEY DEFAULT true CHECK (singleton),
+  last_event_id BIGINT NOT NULL
+);
+
+-- Start from the locations stored after this migration rather than the whole history
+INSERT INTO trip_segmentation_progress (last_event_id)
+SELECT COALESCE(MAX(id), 0) FROM location_events
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,23 @@
+-- Migration: add_geofence_backfill_leases
+-- Created: 2026-10-19T09:00:00.000Z
+
+-- Refreshed by the engine running a backfill; a running job whose heartbeat goes stale was
+-- left behind by an engine that stopped without requeuing it, and is claimed again
+ALTER TABLE geofence_backfills
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+
+-- Only the oldest of any jobs already queued together for a geofence is kept
+UPDATE geofence_backfills
+SET status = 'failed', error_message = 'Superseded by an earlier backfill of this geofence', completed_at = NOW()
+WHERE status IN ('pending', 'running')
+  AND id <> (
+    SELECT id FROM geofence_backfills AS earliest
+    WHERE earliest.geofence_id = geofence_backfills.geofence_id
+      AND earliest.status IN ('pending', 'running')
+    ORDER BY created_at, id
+    LIMIT 1
+  );
+
+-- At most one queued or running backfill per geofence
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geofence_backfills_active
+  ON geofence_backfills (geofence_id) WHERE status IN ('pending', 'running');
@@ -1,6 +1,7 @@
 export const KAFKA_TOPICS = {
   RAW_EVENTS: 'raw_events',
   GEOFENCE_EVENTS: 'geofence_events',
+  GEOFENCE_CHANGES: 'geofence_changes',
   AUTOMATIONS: 'automations',
   AUDIT_LOG: 'audit_log'
 } as const;
@@ -21,9 +22,23 @@ export const INTEGRATION_TYPES = {
 export const GEOFENCE_TRIGGER_TYPES = {
   ENTER: 'enter',
   EXIT: 'exit',
-  DWELL: 'dwell'
+  DWELL: 'dwell',
+  DEVIATION: 'deviation',
+  REJOIN: 'rejoin',
+  OVERSPEED: 'overspeed',
+  SPEED_NORMAL: 'speed_normal',
+  OCCUPANCY_ABOVE: 'occupancy_above',
+  OCCUPANCY_BELOW: 'occupancy_below',
+  PROXIMITY_ENTER: 'proximity_enter',
+  PROXIMITY_EXIT: 'proximity_exit',
+  PRESENCE_RESTORED: 'presence_restored'
 } as const;
 
+// Redis sorted set of the devices currently inside a geofence, scored by when each was last
+// seen (ms) and maintained by the geofence engine. Members not seen within
+// DEVICE_STATE_TTL_SECONDS have gone silent and no longer count.
+export const GEOFENCE_OCCUPANTS_KEY_PREFIX = 'geofence_occupants:';
+
 export const AUTOMATION_STATUS = {
   PENDING: 'pending',
   SUCCESS: 'success',
@@ -34,4 +49,38 @@ export const AUTOMATION_STATUS = {
 export const DEFAULT_DWELL_TIME_MINUTES = 5;
 export const DEFAULT_GEOFENCE_RADIUS_METERS = 100;
 export const GPS_ACCURACY_THRESHOLD_METERS = 50;
-export const HYSTERESIS_BUFFER_SECONDS = 30;
\ No newline at end of file
+export const DEFAULT_TRANSITION_CONFIDENCE_THRESHOLD = 0.7;
+// Low-accuracy fixes are evaluated as they always were, and their events flagged; 'hold' is opt-in
+export const DEFAULT_LOW_ACCURACY_POLICY = 'flag';
+export const HYSTERESIS_BUFFER_SECONDS = 30;
+export const DEFAULT_HYSTERESIS_ENTRY_BUFFER_METERS = 0;
+export const DEFAULT_HYSTERESIS_EXIT_BUFFER_METERS = 10;
+export const DEFAULT_HYSTERESIS_MIN_STATE_CHANGE_SECONDS = 0;
+export const DEFAULT_OVERSPEED_DURATION_SECONDS = 5;
+export const DEFAULT_REORDER_WINDOW_SECONDS = 5;
+// Longest presence timeout that can be set on an account or a geofence
+export const MAX_PRESENCE_TIMEOUT_SECONDS = 86400;
+// How long the engine keeps a device's state after its last processed location: past the longest
+// presence timeout, so a device that times out still has the state its exit and restore need
+export const DEVICE_STATE_TTL_SECONDS = MAX_PRESENCE_TIMEOUT_SECONDS + 3600;
+// Fastest a device of each type (devices.device_type) can plausibly move, in m/s. A fix that
+// would take more than this to reach from the last accepted one is rejected as an outlier.
+export const MAX_DEVICE_SPEED_MPS: Record<string, number> = {
+  person: 15,
+  pet: 20,
+  vehicle: 70,
+  mobile: 100,
+  asset: 250
+};
+// Used for devices without a type or with one not listed above
+export const DEFAULT_MAX_DEVICE_SPEED_MPS = 250;
+export const DEFAULT_KALMAN_PROCESS_NOISE_MPS2 = 3;
+// A device stays in a beacon zone this long after it last heard one of the zone's beacons
+export const BEACON_SIGHTING_TTL_SECONDS = 60;
+// Sightings of each kind kept from a report, strongest first
+export const MAX_BEACON_SIGHTINGS = 10;
+// Trip segmentation: a device at or below this speed for this long is at a stop, and a gap in
+// reporting this long ends a trip. Each account can override them in its settings.
+export const DEFAULT_TRIP_STOP_SPEED_MPS = 1;
+export const DEFAULT_TRIP_MIN_STOP_SECONDS = 180;
+export const DEFAULT_TRIP_MAX_GAP_SECONDS = 900;
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GeofenceShape,
+  Position,
+  Ring,
+  geometryCentroid,
+  insideProbability,
+  polygonPartAt,
+  segmentCrossings,
+  segmentIntersection,
+  shapeContains,
+  signedBoundaryDistanceMeters
+} from './geo.js';
+
+const square = (minLon: number, minLat: number, size: number): Ring => [
+  [minLon, minLat],
+  [minLon + size, minLat],
+  [minLon + size, minLat + size],
+  [minLon, minLat + size],
+  [minLon, minLat]
+];
+
+// A 0.01° square around the origin with a 0.004° hole in the middle
+const ringWithHole: GeofenceShape = {
+  type: 'polygon',
+  geometry: { type: 'Polygon', coordinates: [square(-0.005, -0.005, 0.01), square(-0.002, -0.002, 0.004)] },
+  center: [0, 0],
+  radiusM: null,
+  widthM: null
+};
+
+// An approximate 100 m circle around (10, 50), stored as an outline like the database does
+const circleOutline = (center: Position, radiusM: number): Ring => {
+  const metersPerDegree = (6371e3 * Math.PI) / 180;
+  const ring: Ring = [];
+  for (let i = 0; i <= 64; i++) {
+    const angle = (2 * Math.PI * (i % 64)) / 64;
+    ring.push([
+      center[0] + (radiusM * Math.sin(angle)) / (metersPerDegree * Math.cos((center[1] * Math.PI) / 180)),
+      center[1] + (radiusM * Math.cos(angle)) / metersPerDegree
+    ]);
+  }
+  return ring;
+};
+
+const circleGeometry = { type: 'Polygon' as const, coordinates: [circleOutline([10, 50], 100)] };
+const circle: GeofenceShape = {
+  type: 'circle',
+  geometry: circleGeometry,
+  center: geometryCentroid(circleGeometry),
+  radiusM: 100,
+  widthM: null
+};
+
+const corridor: GeofenceShape = {
+  type: 'corridor',
+  geometry: { type: 'LineString', coordinates: [[0, 0], [0.01, 0]] },
+  center: [0.005, 0],
+  radiusM: null,
+  widthM: 100
+};
+
+describe('geometryCentroid', () => {
+  it('recovers a circle center from its stored outline', () => {
+    const [lon, lat] = geometryCentroid(circleGeometry);
+    expect(lon).toBeCloseTo(10, 6);
+    expect(lat).toBeCloseTo(50, 6);
+  });
+
+  it('takes holes out of a polygon centroid', () => {
+    const geometry = { type: 'Polygon' as const, coordinates: [square(0, 0, 4), square(0, 0, 2)] };
+    const [lon, lat] = geometryCentroid(geometry);
+    expect(lon).toBeCloseTo(7 / 3, 9);
+    expect(lat).toBeCloseTo(7 / 3, 9);
+  });
+
+  it('weights a line by length', () => {
+    expect(geometryCentroid({ type: 'LineString', coordinates: [[0, 0], [2, 0], [2, 1]] })).toEqual([4 / 3, 1 / 6]);
+  });
+});
+
+describe('shapeContains', () => {
+  it('measures circles from their center', () => {
+    expect(shapeContains(circle, 10, 50.0008)).toBe(true); // About 89 m north
+    expect(shapeContains(circle, 10, 50.001)).toBe(false); // About 111 m north
+  });
+
+  it('excludes holes and the boundary of polygons', () => {
+    expect(shapeContains(ringWithHole, 0.004, 0)).toBe(true);
+    expect(shapeContains(ringWithHole, 0, 0)).toBe(false);
+    expect(shapeContains(ringWithHole, 0.005, 0)).toBe(false);
+  });
+
+  it('contains anything within half the width of a corridor route', () => {
+    expect(shapeContains(corridor, 0.005, 0.0004)).toBe(true); // About 44 m off the route
+    expect(shapeContains(corridor, 0.005, 0.0005)).toBe(false); // About 56 m off the route
+  });
+
+  it('contains nothing in a point geofence', () => {
+    const point: GeofenceShape = { ...circle, type: 'point', geometry: { type: 'Point', coordinates: [10, 50] } };
+    expect(shapeContains(point, 10, 50)).toBe(false);
+  });
+});
+
+describe('signedBoundaryDistanceMeters', () => {
+  it('is positive inside and negative outside', () => {
+    expect(signedBoundaryDistanceMeters(circle, 10, 50)).toBeCloseTo(100, 0);
+    expect(signedBoundaryDistanceMeters(circle, 10, 50.0018)).toBeCloseTo(-100, 0);
+  });
+
+  it('measures to the nearest hole edge inside a polygon', () => {
+    // 0.001° from both the hole and the outer ring, about 111 m
+    expect(signedBoundaryDistanceMeters(ringWithHole, 0.003, 0)).toBeCloseTo(111.2, 0);
+    expect(signedBoundaryDistanceMeters(ringWithHole, 0, 0)).toBeCloseTo(-222.4, 0);
+  });
+});
+
+describe('insideProbability', () => {
+  it('is certain when the accuracy circle is on one side of the boundary', () => {
+    expect(insideProbability(circle, 10, 50, 50)).toBe(1);
+    expect(insideProbability(circle, 10, 50.01, 50)).toBe(0);
+  });
+
+  it('is about even for a fix on a straight boundary', () => {
+    expect(insideProbability(ringWithHole, 0.005, 0, 50)).toBeCloseTo(0.5, 1);
+  });
+});
+
+describe('segmentIntersection', () => {
+  it('returns the fraction along the first segment', () => {
+    expect(segmentIntersection([0, 0], [4, 0], [1, -1], [1, 1])).toBe(0.25);
+  });
+
+  it('returns null for segments that miss or are parallel', () => {
+    expect(segmentIntersection([0, 0], [4, 0], [5, -1], [5, 1])).toBeNull();
+    expect(segmentIntersection([0, 0], [4, 0], [0, 1], [4, 1])).toBeNull();
+  });
+});
+
+describe('segmentCrossings', () => {
+  it('passes through a polygon twice across its hole', () => {
+    const crossings = segmentCrossings(ringWithHole, [-0.01, 0], [0.01, 0]);
+    expect(crossings).toHaveLength(2);
+    expect(crossings[0].enter).toBeCloseTo(0.25, 9);
+    expect(crossings[0].exit).toBeCloseTo(0.4, 9);
+    expect(crossings[1].enter).toBeCloseTo(0.6, 9);
+    expect(crossings[1].exit).toBeCloseTo(0.75, 9);
+  });
+
+  it('walks through a circle', () => {
+    const crossings = segmentCrossings(circle, [10, 49.997], [10, 50.003]);
+    expect(crossings).toHaveLength(1);
+    expect(crossings[0].enter).toBeCloseTo(0.35, 2);
+    expect(crossings[0].exit).toBeCloseTo(0.65, 2);
+  });
+
+  it('returns nothing when an end is inside', () => {
+    expect(segmentCrossings(circle, [10, 50], [10, 50.01])).toEqual([]);
+  });
+});
+
+describe('polygonPartAt', () => {
+  it('numbers parts from 1 and reports holes', () => {
+    const geometry = {
+      type: 'MultiPolygon' as const,
+      coordinates: [[square(10, 10, 1)], ringWithHole.geometry.coordinates as Ring[]]
+    };
+    expect(polygonPartAt(geometry, 0, 0)).toEqual({ index: 2, inHole: true });
+    expect(polygonPartAt(geometry, 10.5, 10.5)).toEqual({ index: 1, inHole: false });
+    expect(polygonPartAt(geometry, 5, 5)).toBeNull();
+  });
+});
@@ -0,0 +1,597 @@
+import { calculateDistance } from './utils.js';
+
+// Inside/outside tests shared by the geofence engine, the API and the dashboard, so that
+// all three agree on where a device is. Positions are GeoJSON [lon, lat].
+
+export type Position = [number, number]; // [lon, lat]
+export type Ring = Position[];
+
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: Ring[];
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: Ring[][];
+}
+
+export interface PointGeometry {
+  type: 'Point';
+  coordinates: Position;
+}
+
+export interface LineStringGeometry {
+  type: 'LineString';
+  coordinates: Position[];
+}
+
+export type GeofenceGeometry = PolygonGeometry | MultiPolygonGeometry | PointGeometry | LineStringGeometry;
+
+export interface WeightedPosition {
+  position: Position;
+  weight: number;
+}
+
+export interface BoundingBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// What deciding whether a position is inside a geofence depends on
+export interface GeofenceShape {
+  type: 'circle' | 'polygon' | 'point' | 'corridor' | 'proximity';
+  geometry: GeofenceGeometry;
+  center: Position; // Circles and proximity geofences are measured from here
+  radiusM: number | null;
+  widthM: number | null; // Full corridor width, centered on the route line
+}
+
+// A pass of a straight path through a geofence, as fractions of the way along the path
+export interface SegmentCrossing {
+  enter: number;
+  exit: number;
+}
+
+// Same spherical earth radius calculateDistance uses
+const EARTH_RADIUS_M = 6371e3;
+const METERS_PER_DEGREE_LAT = (EARTH_RADIUS_M * Math.PI) / 180;
+
+// Equal-area rings used to sample an accuracy circle; ring i holds 6 * i samples
+const SAMPLE_RINGS = 8;
+const SAMPLES_PER_RING_STEP = 6;
+
+// Tolerance (in degrees) used when deciding whether a point sits on a ring edge
+const BOUNDARY_EPSILON = 1e-12;
+
+// Marching along a path towards a geofence never steps less than this, so a path
+// grazing the boundary still makes progress
+const MIN_MARCH_STEP_M = 1;
+const MAX_MARCH_STEPS = 1000;
+
+function isPointOnSegment(lon: number, lat: number, a: Position, b: Position): boolean {
+  const cross = (lon - a[0]) * (b[1] - a[1]) - (lat - a[1]) * (b[0] - a[0]);
+  if (Math.abs(cross) > BOUNDARY_EPSILON) return false;
+
+  return (
+    lon >= Math.min(a[0], b[0]) - BOUNDARY_EPSILON &&
+    lon <= Math.max(a[0], b[0]) + BOUNDARY_EPSILON &&
+    lat >= Math.min(a[1], b[1]) - BOUNDARY_EPSILON &&
+    lat <= Math.max(a[1], b[1]) + BOUNDARY_EPSILON
+  );
+}
+
+function isPointOnRing(lon: number, lat: number, ring: Ring): boolean {
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    if (isPointOnSegment(lon, lat, ring[j], ring[i])) return true;
+  }
+  return false;
+}
+
+// Even-odd ray casting in planar lon/lat space, the same space ST_Contains uses for SRID 4326
+export function isPointInRing(lon: number, lat: number, ring: Ring): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    const intersects = (yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+    if (intersects) inside = !inside;
+  }
+
+  return inside;
+}
+
+/**
+ * Matches ST_Contains(polygon, point): points on the boundary are not contained,
+ * and points inside a hole are outside the polygon.
+ */
+export function polygonContains(rings: Ring[], lon: number, lat: number): boolean {
+  if (rings.length === 0) return false;
+
+  for (const ring of rings) {
+    if (isPointOnRing(lon, lat, ring)) return false;
+  }
+
+  const [outer, ...holes] = rings;
+  if (!isPointInRing(lon, lat, outer)) return false;
+
+  return !holes.some(hole => isPointInRing(lon, lat, hole));
+}
+
+export function geometryContains(geometry: GeofenceGeometry, lon: number, lat: number): boolean {
+  switch (geometry.type) {
+    case 'Polygon':
+      return polygonContains(geometry.coordinates, lon, lat);
+    case 'MultiPolygon':
+      return geometry.coordinates.some(polygon => polygonContains(polygon, lon, lat));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Matches ST_DWithin(center::geography, point::geography, radius_m) within the
+ * precision of a spherical earth model.
+ */
+export function circleContains(center: Position, radiusM: number, lon: number, lat: number): boolean {
+  return calculateDistance(lat, lon, center[1], center[0]) <= radiusM;
+}
+
+/**
+ * Distance in meters from the point to the nearest edge of any ring, using a
+ * local equirectangular projection around the point. Accurate to well under a
+ * meter at geofence scale.
+ */
+export function distanceToRingsMeters(rings: Ring[], lon: number, lat: number): number {
+  const segmentDistance = segmentDistanceFrom(lon, lat);
+  let minDistance = Infinity;
+
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      minDistance = Math.min(minDistance, segmentDistance(ring[j], ring[i]));
+    }
+  }
+
+  return minDistance;
+}
+
+/**
+ * Distance in meters from the point to the nearest segment of an open line,
+ * with the same projection as distanceToRingsMeters.
+ */
+export function distanceToLineMeters(line: Position[], lon: number, lat: number): number {
+  const segmentDistance = segmentDistanceFrom(lon, lat);
+
+  if (line.length === 1) {
+    return segmentDistance(line[0], line[0]);
+  }
+
+  let minDistance = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    minDistance = Math.min(minDistance, segmentDistance(line[i - 1], line[i]));
+  }
+
+  return minDistance;
+}
+
+// Distance in meters from the point to a segment, in a local equirectangular projection around the point
+function segmentDistanceFrom(lon: number, lat: number): (a: Position, b: Position) => number {
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+  const project = ([x, y]: Position): [number, number] => [
+    (x - lon) * metersPerDegreeLon,
+    (y - lat) * METERS_PER_DEGREE_LAT
+  ];
+
+  return (a, b) => {
+    const [ax, ay] = project(a);
+    const [bx, by] = project(b);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+
+    // Projection of the origin (the point itself) onto the segment, clamped to its ends
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    return Math.hypot(ax + t * dx, ay + t * dy);
+  };
+}
+
+export function distanceToGeometryBoundaryMeters(
+  geometry: GeofenceGeometry,
+  lon: number,
+  lat: number
+): number {
+  switch (geometry.type) {
+    case 'Polygon':
+      return distanceToRingsMeters(geometry.coordinates, lon, lat);
+    case 'MultiPolygon':
+      return Math.min(...geometry.coordinates.map(polygon => distanceToRingsMeters(polygon, lon, lat)));
+    case 'LineString':
+      return distanceToLineMeters(geometry.coordinates, lon, lat);
+    default:
+      return calculateDistance(lat, lon, geometry.coordinates[1], geometry.coordinates[0]);
+  }
+}
+
+/**
+ * Area of the overlap between two circles whose centers are distanceM apart.
+ */
+export function circleIntersectionArea(radiusA: number, radiusB: number, distanceM: number): number {
+  if (distanceM >= radiusA + radiusB) return 0;
+
+  const smaller = Math.min(radiusA, radiusB);
+  if (distanceM <= Math.abs(radiusA - radiusB)) return Math.PI * smaller * smaller;
+
+  const a2 = radiusA * radiusA;
+  const b2 = radiusB * radiusB;
+  const angleA = Math.acos((distanceM * distanceM + a2 - b2) / (2 * distanceM * radiusA));
+  const angleB = Math.acos((distanceM * distanceM + b2 - a2) / (2 * distanceM * radiusB));
+  const kite = 0.5 * Math.sqrt(
+    (-distanceM + radiusA + radiusB) *
+    (distanceM + radiusA - radiusB) *
+    (distanceM - radiusA + radiusB) *
+    (distanceM + radiusA + radiusB)
+  );
+
+  return a2 * angleA + b2 * angleB - kite;
+}
+
+/**
+ * Deterministic samples spread evenly over the circle of radiusM around the
+ * center, each weighted by the share of the circle's area it stands for.
+ * The weights sum to 1.
+ */
+export function sampleCircle(center: Position, radiusM: number): WeightedPosition[] {
+  const [lon, lat] = center;
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.max(Math.cos((lat * Math.PI) / 180), 1e-6);
+  const samples: WeightedPosition[] = [];
+
+  for (let ring = 1; ring <= SAMPLE_RINGS; ring++) {
+    // Middle of the ring's annulus by area, so every ring covers the same area
+    const distance = radiusM * Math.sqrt((ring - 0.5) / SAMPLE_RINGS);
+    const count = ring * SAMPLES_PER_RING_STEP;
+    const weight = 1 / (SAMPLE_RINGS * count);
+    // Stagger alternate rings so samples don't line up along the same bearings
+    const offset = ring % 2 === 0 ? Math.PI / count : 0;
+
+    for (let i = 0; i < count; i++) {
+      const bearing = offset + (2 * Math.PI * i) / count;
+      samples.push({
+        position: [
+          lon + (distance * Math.sin(bearing)) / metersPerDegreeLon,
+          lat + (distance * Math.cos(bearing)) / METERS_PER_DEGREE_LAT
+        ],
+        weight
+      });
+    }
+  }
+
+  return samples;
+}
+
+export function geometryBoundingBox(geometry: GeofenceGeometry): BoundingBox {
+  const positions: Position[] =
+    geometry.type === 'Point'
+      ? [geometry.coordinates]
+      : geometry.type === 'LineString'
+        ? geometry.coordinates
+        : geometry.type === 'Polygon'
+          ? geometry.coordinates.flat()
+          : geometry.coordinates.flat(2);
+
+  const bbox = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const [lon, lat] of positions) {
+    bbox.minX = Math.min(bbox.minX, lon);
+    bbox.minY = Math.min(bbox.minY, lat);
+    bbox.maxX = Math.max(bbox.maxX, lon);
+    bbox.maxY = Math.max(bbox.maxY, lat);
+  }
+
+  return bbox;
+}
+
+export function circleBoundingBox(center: Position, radiusM: number): BoundingBox {
+  const [lon, lat] = center;
+  const latDelta = radiusM / METERS_PER_DEGREE_LAT;
+  // Clamp near the poles so the longitude span stays finite
+  const cosLat = Math.max(Math.cos((lat * Math.PI) / 180), 1e-6);
+  const lonDelta = Math.min(radiusM / (METERS_PER_DEGREE_LAT * cosLat), 180);
+
+  return {
+    minX: lon - lonDelta,
+    minY: lat - latDelta,
+    maxX: lon + lonDelta,
+    maxY: lat + latDelta
+  };
+}
+
+/**
+ * Grows a bounding box by distanceM on every side, e.g. to cover a corridor
+ * around a line.
+ */
+export function expandBoundingBox(bbox: BoundingBox, distanceM: number): BoundingBox {
+  const latDelta = distanceM / METERS_PER_DEGREE_LAT;
+  // A meter spans the most longitude at the edge furthest from the equator
+  const maxAbsLat = Math.max(Math.abs(bbox.minY), Math.abs(bbox.maxY));
+  const cosLat = Math.max(Math.cos((maxAbsLat * Math.PI) / 180), 1e-6);
+  const lonDelta = Math.min(distanceM / (METERS_PER_DEGREE_LAT * cosLat), 180);
+
+  return {
+    minX: bbox.minX - lonDelta,
+    minY: bbox.minY - latDelta,
+    maxX: bbox.maxX + lonDelta,
+    maxY: bbox.maxY + latDelta
+  };
+}
+
+/**
+ * Center of a geometry the way ST_Centroid finds it: a polygon's centroid by area (holes
+ * taken out), a line's by length, or the point itself. Circles are stored as a polygon
+ * around their center, so this recovers the center.
+ */
+export function geometryCentroid(geometry: GeofenceGeometry): Position {
+  if (geometry.type === 'Point') return geometry.coordinates;
+
+  if (geometry.type === 'LineString') {
+    const line = geometry.coordinates;
+    let length = 0;
+    let x = 0;
+    let y = 0;
+
+    for (let i = 1; i < line.length; i++) {
+      const segmentLength = Math.hypot(line[i][0] - line[i - 1][0], line[i][1] - line[i - 1][1]);
+      length += segmentLength;
+      x += segmentLength * (line[i][0] + line[i - 1][0]) / 2;
+      y += segmentLength * (line[i][1] + line[i - 1][1]) / 2;
+    }
+
+    return length > 0 ? [x / length, y / length] : line[0];
+  }
+
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  let area = 0;
+  let x = 0;
+  let y = 0;
+
+  for (const rings of polygons) {
+    rings.forEach((ring, ringIndex) => {
+      // Shoelace terms; a hole's area counts against its polygon whichever way it winds
+      let ringArea = 0;
+      let ringX = 0;
+      let ringY = 0;
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const cross = ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+        ringArea += cross / 2;
+        ringX += (ring[j][0] + ring[i][0]) * cross / 6;
+        ringY += (ring[j][1] + ring[i][1]) * cross / 6;
+      }
+
+      const sign = (ringIndex === 0 ? 1 : -1) * Math.sign(ringArea);
+      area += sign * ringArea;
+      x += sign * ringX;
+      y += sign * ringY;
+    });
+  }
+
+  if (area === 0) {
+    const outer = polygons[0]?.[0] ?? [];
+    return [
+      outer.reduce((sum, position) => sum + position[0], 0) / outer.length,
+      outer.reduce((sum, position) => sum + position[1], 0) / outer.length
+    ];
+  }
+
+  return [x / area, y / area];
+}
+
+/**
+ * The part of a polygon shape whose outer ring surrounds the point (numbered from 1, as
+ * ST_Dump numbers them) and whether the point is in one of that part's holes, or null
+ * when no part surrounds it.
+ */
+export function polygonPartAt(
+  geometry: GeofenceGeometry,
+  lon: number,
+  lat: number
+): { index: number; inHole: boolean } | null {
+  const polygons =
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.type === 'MultiPolygon' ? geometry.coordinates : [];
+
+  const index = polygons.findIndex(rings => rings.length > 0 && polygonContains([rings[0]], lon, lat));
+  if (index === -1) return null;
+
+  return { index: index + 1, inHole: !polygonContains(polygons[index], lon, lat) };
+}
+
+/**
+ * Where segment ab crosses segment cd, as the fraction of the way from a to b, or null
+ * when they don't cross. Planar in lon/lat like the containment tests; parallel segments
+ * never cross, even when they overlap.
+ */
+export function segmentIntersection(a: Position, b: Position, c: Position, d: Position): number | null {
+  const rx = b[0] - a[0];
+  const ry = b[1] - a[1];
+  const sx = d[0] - c[0];
+  const sy = d[1] - c[1];
+  const denominator = rx * sy - ry * sx;
+  if (denominator === 0) return null;
+
+  const qx = c[0] - a[0];
+  const qy = c[1] - a[1];
+  const t = (qx * sy - qy * sx) / denominator;
+  const u = (qx * ry - qy * rx) / denominator;
+
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null;
+}
+
+function routeDistanceMeters(shape: GeofenceShape, lon: number, lat: number): number {
+  return shape.geometry.type === 'LineString' ? distanceToLineMeters(shape.geometry.coordinates, lon, lat) : Infinity;
+}
+
+/**
+ * Whether the point is inside the geofence: within the radius of a circle's (or proximity
+ * geofence's) center, within half the width of a corridor's route, or inside a polygon as
+ * ST_Contains decides. Point geofences have no area, so nothing is inside them.
+ */
+export function shapeContains(shape: GeofenceShape, lon: number, lat: number): boolean {
+  switch (shape.type) {
+    case 'circle':
+    case 'proximity':
+      return shape.radiusM !== null && circleContains(shape.center, shape.radiusM, lon, lat);
+    case 'corridor':
+      return routeDistanceMeters(shape, lon, lat) <= (shape.widthM ?? 0) / 2;
+    default:
+      return geometryContains(shape.geometry, lon, lat);
+  }
+}
+
+/**
+ * Signed distance in meters from the point to the geofence boundary:
+ * positive when inside, negative when outside.
+ */
+export function signedBoundaryDistanceMeters(shape: GeofenceShape, lon: number, lat: number): number {
+  switch (shape.type) {
+    case 'circle':
+    case 'proximity':
+      return (shape.radiusM ?? 0) - calculateDistance(lat, lon, shape.center[1], shape.center[0]);
+    case 'corridor':
+      return (shape.widthM ?? 0) / 2 - routeDistanceMeters(shape, lon, lat);
+    default: {
+      const distance = distanceToGeometryBoundaryMeters(shape.geometry, lon, lat);
+      return geometryContains(shape.geometry, lon, lat) ? distance : -distance;
+    }
+  }
+}
+
+/**
+ * Probability that a fix reported at the point with the given accuracy radius
+ * lies inside the geofence, treating the true position as uniformly spread
+ * over the accuracy circle. Exact fixes resolve to 0 or 1.
+ */
+export function insideProbability(shape: GeofenceShape, lon: number, lat: number, accuracyM?: number): number {
+  if (!accuracyM || accuracyM <= 0) {
+    return shapeContains(shape, lon, lat) ? 1 : 0;
+  }
+
+  // The whole accuracy circle is on one side of the boundary
+  const distance = signedBoundaryDistanceMeters(shape, lon, lat);
+  if (Math.abs(distance) >= accuracyM) {
+    return distance > 0 ? 1 : 0;
+  }
+
+  if (shape.type === 'circle' || shape.type === 'proximity') {
+    const fromCenter = calculateDistance(lat, lon, shape.center[1], shape.center[0]);
+    const overlap = circleIntersectionArea(shape.radiusM ?? 0, accuracyM, fromCenter);
+    return overlap / (Math.PI * accuracyM * accuracyM);
+  }
+
+  return sampleCircle([lon, lat], accuracyM).reduce(
+    (probability, { position: [sampleLon, sampleLat], weight }) =>
+      shapeContains(shape, sampleLon, sampleLat) ? probability + weight : probability,
+    0
+  );
+}
+
+// Polygon boundaries are crossed exactly where the path meets a ring edge
+function polygonSegmentCrossings(geometry: GeofenceGeometry, from: Position, to: Position): SegmentCrossing[] {
+  const rings =
+    geometry.type === 'Polygon' ? geometry.coordinates : geometry.type === 'MultiPolygon' ? geometry.coordinates.flat() : [];
+
+  const fractions = [0, 1];
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const fraction = segmentIntersection(from, to, ring[j], ring[i]);
+      if (fraction !== null) fractions.push(fraction);
+    }
+  }
+  fractions.sort((a, b) => a - b);
+
+  // Between consecutive edge crossings the path is wholly inside or outside
+  const crossings: SegmentCrossing[] = [];
+  for (let i = 1; i < fractions.length; i++) {
+    const [start, end] = [fractions[i - 1], fractions[i]];
+    if (end === start) continue;
+
+    const middle = (start + end) / 2;
+    const inside = geometryContains(
+      geometry,
+      from[0] + (to[0] - from[0]) * middle,
+      from[1] + (to[1] - from[1]) * middle
+    );
+    if (!inside) continue;
+
+    const previous = crossings[crossings.length - 1];
+    if (previous?.exit === start) {
+      previous.exit = end;
+    } else {
+      crossings.push({ enter: start, exit: end });
+    }
+  }
+
+  return crossings;
+}
+
+/**
+ * Walks along a path from startM meters in, each step as long as the distance to the
+ * geofence boundary so it can never step over it, and returns how far it got when it
+ * first lands inside (or, with inside false, outside) the geofence.
+ */
+function march(
+  shape: GeofenceShape,
+  from: Position,
+  to: Position,
+  lengthM: number,
+  startM: number,
+  inside: boolean
+): number | null {
+  let traveledM = startM;
+
+  for (let step = 0; step < MAX_MARCH_STEPS && traveledM <= lengthM; step++) {
+    const fraction = traveledM / lengthM;
+    const lon = from[0] + (to[0] - from[0]) * fraction;
+    const lat = from[1] + (to[1] - from[1]) * fraction;
+
+    const distance = signedBoundaryDistanceMeters(shape, lon, lat);
+    if ((distance >= 0) === inside && shapeContains(shape, lon, lat) === inside) return traveledM;
+
+    traveledM += Math.max(inside ? -distance : distance, MIN_MARCH_STEP_M);
+  }
+
+  return null;
+}
+
+/**
+ * Each pass a straight path between two points outside the geofence makes through it,
+ * as fractions of the way along the path to the first point inside and the first point
+ * outside again. A path can pass through a multi-part geofence, or across a hole, more
+ * than once. Returns nothing when the path misses the geofence or either end is inside.
+ */
+export function segmentCrossings(shape: GeofenceShape, from: Position, to: Position): SegmentCrossing[] {
+  if (shapeContains(shape, from[0], from[1]) || shapeContains(shape, to[0], to[1])) {
+    return [];
+  }
+
+  const lengthM = calculateDistance(from[1], from[0], to[1], to[0]);
+  if (lengthM === 0) return [];
+
+  if (shape.type === 'polygon') {
+    return polygonSegmentCrossings(shape.geometry, from, to);
+  }
+
+  // Circles and corridors have curved boundaries, so the path is walked instead
+  const crossings: SegmentCrossing[] = [];
+  let traveledM = 0;
+  for (;;) {
+    const enterM = march(shape, from, to, lengthM, traveledM, true);
+    if (enterM === null) return crossings;
+
+    const exitM = march(shape, from, to, lengthM, enterM, false);
+    if (exitM === null) return crossings;
+
+    crossings.push({ enter: enterM / lengthM, exit: exitM / lengthM });
+    traveledM = exitM;
+  }
+}
@@ -1,3 +1,4 @@
 export * from './constants.js'
 export * from './types.js'
 export * from './utils.js'
+export * from './geo.js'
\ No newline at end of file
@@ -66,14 +66,42 @@ export const EventSchema = z.object({
   timestamp: z.iso.datetime()
 });
 
+// A BLE beacon a device reports hearing, in attrs.beacons; rssi in dBm
+export const BleSightingSchema = z.object({
+  uuid: z.uuid(),
+  major: z.number().int().min(0).max(65535),
+  minor: z.number().int().min(0).max(65535),
+  rssi: z.number().max(0)
+});
+
+// A Wi-Fi access point a device reports hearing, in attrs.wifi
+export const WifiSightingSchema = z.object({
+  bssid: z.string().regex(/^([0-9A-Fa-f]{2}[:-]){5}[0-9A-Fa-f]{2}$/),
+  rssi: z.number().max(0)
+});
+
 export type DeviceLocation = z.infer<typeof DeviceLocationSchema>;
 export type Geofence = z.infer<typeof GeofenceSchema>;
 export type AutomationRule = z.infer<typeof AutomationRuleSchema>;
 export type Integration = z.infer<typeof IntegrationSchema>;
 export type Event = z.infer<typeof EventSchema>;
+export type BleSighting = z.infer<typeof BleSightingSchema>;
+export type WifiSighting = z.infer<typeof WifiSightingSchema>;
 
 export interface GeofenceEvent {
-  type: 'enter' | 'exit' | 'dwell';
+  type:
+    | 'enter'
+    | 'exit'
+    | 'dwell'
+    | 'deviation'
+    | 'rejoin'
+    | 'overspeed'
+    | 'speed_normal'
+    | 'occupancy_above'
+    | 'occupancy_below'
+    | 'proximity_enter'
+    | 'proximity_exit'
+    | 'presence_restored';
   deviceId: string;
   geofenceId: string;
   location: {
@@ -82,6 +110,13 @@ export interface GeofenceEvent {
   };
   timestamp: Date;
   dwellTimeMinutes?: number;
+  distanceMeters?: number; // From a corridor's route line, or from a proximity geofence's anchor device
+  peakSpeedMps?: number; // Highest and average speed while over a zone's limit, on overspeed and speed_normal events
+  avgSpeedMps?: number;
+  occupancy?: number; // Devices inside the geofence, on occupancy_above and occupancy_below events
+  interpolated?: boolean; // Enter/exit estimated from the path between two locations outside the geofence
+  ancestry?: string[]; // Ids of the geofences enclosing this one, root first
+  revisionId?: string; // Revision of the geofence's shape that produced the event
   metadata?: Record<string, unknown>;
 }
 
@@ -98,6 +133,16 @@ export interface WebhookPayload extends Record<string, unknown> {
   timestamp: string;
 }
 
+// Published whenever a geofence is created, updated or deleted so engines can
+// keep their in-memory spatial index current
+export interface GeofenceChangeEvent {
+  v: number;
+  op: 'upsert' | 'delete';
+  accountId: string;
+  geofenceId: string;
+  ts: string;
+}
+
 // Location event interface for internal processing
 export interface LocationEvent {
   deviceId: string;
@@ -109,6 +154,107 @@ export interface LocationEvent {
   metadata?: Record<string, unknown>;
 }
 
+// Per-geofence hysteresis, stored under geofences.metadata.hysteresis
+export interface HysteresisSettings {
+  // How far past the boundary (inside) a device must be before it counts as entered
+  entryBufferMeters: number;
+  // How far past the boundary (outside) a device must be before it counts as exited
+  exitBufferMeters: number;
+  // How long a new inside/outside state must persist before the transition is emitted
+  minStateChangeSeconds: number;
+}
+
+// A weekly active window in the account's local time. A window whose end is not
+// after its start runs past midnight into the next day.
+export interface GeofenceScheduleWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+// Date range (YYYY-MM-DD, inclusive, local time) that overrides the weekly windows,
+// e.g. a holiday when the geofence is closed all day
+export interface GeofenceScheduleException {
+  startDate: string;
+  endDate: string;
+  active: boolean;
+  name?: string;
+}
+
+// Active windows for a geofence, stored under geofences.metadata.schedule and
+// evaluated in accounts.timezone. Outside the windows transitions are ignored.
+export interface GeofenceSchedule {
+  enabled: boolean;
+  windows: GeofenceScheduleWindow[];
+  exceptions?: GeofenceScheduleException[];
+  // Emit enter/exit for devices already inside when a window opens or closes
+  emitTransitions?: boolean;
+}
+
+// Devices that follow a corridor geofence's route, stored under geofences.metadata.corridor.
+// Only assigned devices get deviation and rejoin events.
+export interface CorridorAssignment {
+  deviceIds: string[];
+}
+
+// Speed limit for devices inside a geofence, stored under geofences.metadata.speedLimit.
+// Overspeed fires once a device has been over the limit for durationSeconds.
+export interface GeofenceSpeedLimit {
+  limitMps: number;
+  durationSeconds?: number;
+}
+
+// Capacity of a geofence, stored under geofences.metadata.occupancy. occupancy_above fires
+// when the number of devices inside goes over it, occupancy_below when it is back within it.
+export interface GeofenceOccupancy {
+  capacity: number;
+}
+
+// Presence timeout of a geofence, stored under geofences.metadata.presence. Overrides the
+// account's presence_timeout_seconds; 0 turns timeouts off for the geofence.
+export interface GeofencePresence {
+  timeoutSeconds: number;
+}
+
+// Level of a geofence on a multi-storey site, stored under geofences.metadata.level. A device
+// only counts as inside when its reported attrs.floor equals floor or, without a floor, its
+// altitude is within the range; devices reporting neither are never inside.
+export interface GeofenceLevel {
+  floor?: number;
+  minAltitudeM?: number;
+  maxAltitudeM?: number;
+}
+
+// What the engine does with fixes whose accuracy is worse than GPS_ACCURACY_THRESHOLD_METERS:
+// 'hold' stores them without evaluating transitions, 'flag' evaluates them and marks the events
+export type LowAccuracyPolicy = 'hold' | 'flag';
+
+// Transition settings stored per account under accounts.settings
+export interface AccountTransitionSettings {
+  // Minimum probability (0.5-1) that the device is on the new side of the boundary
+  transition_confidence_threshold: number;
+  low_accuracy_policy: LowAccuracyPolicy;
+  // A device that stops reporting for this long inside a geofence gets an exit with
+  // reason 'timeout'; null leaves devices inside until they report from outside
+  presence_timeout_seconds: number | null;
+  // Rejects fixes that would mean moving faster than the device type can (MAX_DEVICE_SPEED_MPS)
+  outlier_filter_enabled: boolean;
+  // Smooths accepted fixes with a Kalman filter before evaluation; the raw fix is still stored
+  kalman_smoothing_enabled: boolean;
+  // How sharply (m/s²) devices are expected to change speed; higher values smooth less
+  kalman_process_noise_mps2: number;
+}
+
+// Trip segmentation thresholds stored per account under accounts.settings
+export interface AccountTripSettings {
+  // Speed (m/s) at or below which a device counts as stationary
+  trip_stop_speed_mps: number;
+  // How long a device has to stay stationary in one place for a stop to end its trip
+  trip_min_stop_seconds: number;
+  // A longer gap between fixes ends the trip, or continues the stop if the device hasn't moved
+  trip_max_gap_seconds: number;
+}
+
 // Processor configuration interface
 export interface ProcessorConfig {
   dbConnectionString: string;
@@ -116,9 +262,7 @@ export interface ProcessorConfig {
     brokers: string[];
     clientId: string;
   };
-  hysteresis: {
-    timeoutSeconds: number;
-  };
+  hysteresis: HysteresisSettings;
   gpsAccuracy: {
     thresholdMeters: number;
   };
@@ -147,6 +291,15 @@ export interface OrganizationSettings {
   event_retention_days: number;
   default_map_region?: 'auto' | 'us' | 'eu' | 'asia' | 'global';
   coordinate_format?: 'decimal' | 'dms';
+  transition_confidence_threshold?: number;
+  low_accuracy_policy?: LowAccuracyPolicy;
+  presence_timeout_seconds?: number | null;
+  outlier_filter_enabled?: boolean;
+  kalman_smoothing_enabled?: boolean;
+  kalman_process_noise_mps2?: number;
+  trip_stop_speed_mps?: number;
+  trip_min_stop_seconds?: number;
+  trip_max_gap_seconds?: number;
   created_at?: Date;
   updated_at?: Date;
   member_count?: number;
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { GeofenceSchedule } from './types.js';
+import { getLocalTimeParts, isScheduleActive } from './utils.js';
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const weekly = (windows: GeofenceSchedule['windows'], exceptions?: GeofenceSchedule['exceptions']): GeofenceSchedule => ({
+  enabled: true,
+  windows,
+  exceptions
+});
+
+describe('getLocalTimeParts', () => {
+  it('gives the date, weekday and minutes past midnight in the timezone', () => {
+    // Monday 5 January 2026
+    expect(getLocalTimeParts(utc('2026-01-05T14:45:00'), 'UTC')).toEqual({ date: '2026-01-05', weekday: 1, minutes: 885 });
+    expect(getLocalTimeParts(utc('2026-01-05T14:45:00'), 'Europe/Berlin')).toEqual({
+      date: '2026-01-05',
+      weekday: 1,
+      minutes: 945
+    });
+  });
+
+  it('moves to the next or previous day across local midnight', () => {
+    expect(getLocalTimeParts(utc('2026-01-05T23:30:00'), 'Europe/Berlin')).toEqual({
+      date: '2026-01-06',
+      weekday: 2,
+      minutes: 30
+    });
+    expect(getLocalTimeParts(utc('2026-01-06T03:00:00'), 'America/New_York')).toEqual({
+      date: '2026-01-05',
+      weekday: 1,
+      minutes: 22 * 60
+    });
+    // Saturday night to Sunday morning wraps the weekday round
+    expect(getLocalTimeParts(utc('2026-01-10T23:00:00'), 'Europe/Berlin')).toEqual({
+      date: '2026-01-11',
+      weekday: 0,
+      minutes: 0
+    });
+  });
+
+  it('follows daylight saving changes', () => {
+    // Clocks in Berlin go from 02:00 to 03:00 at 01:00 UTC on 29 March 2026
+    expect(getLocalTimeParts(utc('2026-03-29T00:59:00'), 'Europe/Berlin').minutes).toBe(1 * 60 + 59);
+    expect(getLocalTimeParts(utc('2026-03-29T01:00:00'), 'Europe/Berlin').minutes).toBe(3 * 60);
+
+    // and from 03:00 back to 02:00 at 01:00 UTC on 25 October 2026, so 02:30 happens twice
+    expect(getLocalTimeParts(utc('2026-10-25T00:30:00'), 'Europe/Berlin').minutes).toBe(2 * 60 + 30);
+    expect(getLocalTimeParts(utc('2026-10-25T01:30:00'), 'Europe/Berlin').minutes).toBe(2 * 60 + 30);
+  });
+
+  it('throws for an unknown timezone', () => {
+    expect(() => getLocalTimeParts(new Date(), 'Not/A_Zone')).toThrow(RangeError);
+  });
+});
+
+describe('isScheduleActive', () => {
+  it('is always open without an enabled schedule', () => {
+    expect(isScheduleActive(null, new Date(), 'UTC')).toBe(true);
+    expect(isScheduleActive({ ...weekly([]), enabled: false }, new Date(), 'UTC')).toBe(true);
+  });
+
+  it('is open from the start of a window up to its end', () => {
+    const officeHours = weekly([{ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }]);
+
+    expect(isScheduleActive(officeHours, utc('2026-01-05T07:59:00'), 'Europe/Berlin')).toBe(false);
+    expect(isScheduleActive(officeHours, utc('2026-01-05T08:00:00'), 'Europe/Berlin')).toBe(true);
+    expect(isScheduleActive(officeHours, utc('2026-01-05T15:59:00'), 'Europe/Berlin')).toBe(true);
+    expect(isScheduleActive(officeHours, utc('2026-01-05T16:00:00'), 'Europe/Berlin')).toBe(false);
+    // Sunday
+    expect(isScheduleActive(officeHours, utc('2026-01-04T10:00:00'), 'Europe/Berlin')).toBe(false);
+  });
+
+  it('keeps an overnight window open into the morning after a listed day', () => {
+    // Friday nights only
+    const nightShift = weekly([{ days: [5], start: '22:00', end: '06:00' }]);
+
+    expect(isScheduleActive(nightShift, utc('2026-01-09T21:59:00'), 'UTC')).toBe(false);
+    expect(isScheduleActive(nightShift, utc('2026-01-09T22:00:00'), 'UTC')).toBe(true);
+    expect(isScheduleActive(nightShift, utc('2026-01-10T00:00:00'), 'UTC')).toBe(true);
+    expect(isScheduleActive(nightShift, utc('2026-01-10T05:59:00'), 'UTC')).toBe(true);
+    expect(isScheduleActive(nightShift, utc('2026-01-10T06:00:00'), 'UTC')).toBe(false);
+    // Saturday night isn't listed, nor is the Friday morning after Thursday
+    expect(isScheduleActive(nightShift, utc('2026-01-10T23:00:00'), 'UTC')).toBe(false);
+    expect(isScheduleActive(nightShift, utc('2026-01-09T03:00:00'), 'UTC')).toBe(false);
+  });
+
+  it('wraps an overnight window from Saturday into Sunday', () => {
+    const saturdayNight = weekly([{ days: [6], start: '23:00', end: '02:00' }]);
+
+    expect(isScheduleActive(saturdayNight, utc('2026-01-11T01:00:00'), 'UTC')).toBe(true);
+    expect(isScheduleActive(saturdayNight, utc('2026-01-12T01:00:00'), 'UTC')).toBe(false);
+  });
+
+  it('decides on the local day, not the UTC one', () => {
+    const mondayMidnight = weekly([{ days: [1], start: '00:00', end: '01:00' }]);
+
+    // 23:30 UTC on Sunday is 00:30 on Monday in Berlin
+    expect(isScheduleActive(mondayMidnight, utc('2026-01-04T23:30:00'), 'Europe/Berlin')).toBe(true);
+    expect(isScheduleActive(mondayMidnight, utc('2026-01-04T23:30:00'), 'UTC')).toBe(false);
+  });
+
+  it('follows local time across daylight saving changes', () => {
+    const mornings = weekly([{ days: ALL_DAYS, start: '08:00', end: '09:00' }]);
+
+    // 07:30 UTC is 08:30 in Berlin the day before clocks go forward, and 09:30 the day they do
+    expect(isScheduleActive(mornings, utc('2026-03-28T07:30:00'), 'Europe/Berlin')).toBe(true);
+    expect(isScheduleActive(mornings, utc('2026-03-29T07:30:00'), 'Europe/Berlin')).toBe(false);
+    expect(isScheduleActive(mornings, utc('2026-03-29T06:30:00'), 'Europe/Berlin')).toBe(true);
+
+    // The hour skipped when clocks go forward never opens
+    const skipped = weekly([{ days: ALL_DAYS, start: '02:00', end: '03:00' }]);
+    expect(isScheduleActive(skipped, utc('2026-03-29T00:59:00'), 'Europe/Berlin')).toBe(false);
+    expect(isScheduleActive(skipped, utc('2026-03-29T01:00:00'), 'Europe/Berlin')).toBe(false);
+    // and the hour repeated when they go back opens both times
+    expect(isScheduleActive(skipped, utc('2026-10-25T00:30:00'), 'Europe/Berlin')).toBe(true);
+    expect(isScheduleActive(skipped, utc('2026-10-25T01:30:00'), 'Europe/Berlin')).toBe(true);
+  });
+
+  it('lets a date exception win over the weekly windows, on the local date', () => {
+    const schedule = weekly(
+      [{ days: ALL_DAYS, start: '00:00', end: '23:59' }],
+      [
+        { startDate: '2026-12-24', endDate: '2026-12-26', active: false, name: 'Holidays' },
+        { startDate: '2026-12-31', endDate: '2026-12-31', active: true }
+      ]
+    );
+
+    expect(isScheduleActive(schedule, utc('2026-12-23T12:00:00'), 'Europe/Berlin')).toBe(true);
+    // Already the 24th in Berlin
+    expect(isScheduleActive(schedule, utc('2026-12-23T23:30:00'), 'Europe/Berlin')).toBe(false);
+    expect(isScheduleActive(schedule, utc('2026-12-26T22:59:00'), 'Europe/Berlin')).toBe(false);
+    expect(isScheduleActive(schedule, utc('2026-12-26T23:00:00'), 'Europe/Berlin')).toBe(true);
+    // 23:59 is outside the window, but the exception keeps the whole day open
+    expect(isScheduleActive(schedule, utc('2026-12-31T22:59:30'), 'Europe/Berlin')).toBe(true);
+  });
+});
@@ -1,4 +1,11 @@
-import type { GeofenceEvent, WebhookPayload } from './types.js';
+import type {
+  BleSighting,
+  GeofenceEvent,
+  GeofenceSchedule,
+  GeofenceScheduleWindow,
+  WebhookPayload,
+  WifiSighting
+} from './types.js';
 
 export function calculateDistance(
   lat1: number,
@@ -31,6 +38,19 @@ export function isPointInCircle(
   return distance <= radiusMeters;
 }
 
+/**
+ * Identifies a BLE beacon or Wi-Fi access point the same way however a device formats it,
+ * so sightings can be matched against the beacon registry.
+ */
+export function beaconKey(
+  beacon: Pick<BleSighting, 'uuid' | 'major' | 'minor'> | Pick<WifiSighting, 'bssid'>
+): string {
+  if ('bssid' in beacon) {
+    return `wifi:${beacon.bssid.toLowerCase().replace(/-/g, ':')}`;
+  }
+  return `ble:${beacon.uuid.toLowerCase()}:${beacon.major}:${beacon.minor}`;
+}
+
 export function formatWebhookPayload(
   event: {
     eventType: string;
@@ -77,4 +97,72 @@ export function generateDeviceToken(): string {
 export function validateMQTTTopic(topic: string): boolean {
   const topicPattern = /^devices\/[a-zA-Z0-9_-]+\/(location|status)$/;
   return topicPattern.test(topic);
-}
\ No newline at end of file
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD), weekday (0 = Sunday) and minute of day of an
+ * instant in the given IANA time zone.
+ */
+export function getLocalTimeParts(
+  at: Date,
+  timeZone: string
+): { date: string; weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short'
+  }).formatToParts(at);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+}
+
+function windowCovers(window: GeofenceScheduleWindow, weekday: number, minutes: number): boolean {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  if (start < end) {
+    return window.days.includes(weekday) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window: the evening of a listed day, or the morning after one
+  const previousDay = (weekday + 6) % 7;
+  return (window.days.includes(weekday) && minutes >= start) ||
+    (window.days.includes(previousDay) && minutes < end);
+}
+
+/**
+ * Whether a geofence schedule is open at the given instant. Geofences without an
+ * enabled schedule are always open; a matching date exception wins over the weekly windows.
+ */
+export function isScheduleActive(
+  schedule: GeofenceSchedule | null | undefined,
+  at: Date,
+  timeZone: string
+): boolean {
+  if (!schedule || !schedule.enabled) return true;
+
+  const { date, weekday, minutes } = getLocalTimeParts(at, timeZone);
+
+  const exception = schedule.exceptions?.find(e => e.startDate <= date && date <= e.endDate);
+  if (exception) return exception.active;
+
+  return schedule.windows.some(window => windowCovers(window, weekday, minutes));
+}